@@ -0,0 +1,163 @@
+import { createHash, randomBytes } from 'crypto';
+import { getSupabaseClient } from '../database/supabase-client.js';
+import { getConfig } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { ComplianceError, DatabaseError } from '../utils/error-handler.js';
+import type { AccessLevel } from '../types/index.js';
+
+/**
+ * Caller clearance for document search
+ * A caller with a clearance sees documents at or below it; the search RPCs
+ * enforce this in the database (volterra_kb.effective_clearance_rank).
+ */
+
+export const ACCESS_LEVELS: AccessLevel[] = ['public', 'internal', 'restricted', 'confidential'];
+
+/**
+ * Who is calling: an API key from volterra_kb.api_clients, or the claims of a
+ * JWT the caller has already verified
+ */
+export interface CallerIdentity {
+  apiKey?: string;
+  jwtClaims?: Record<string, unknown>;
+}
+
+export interface ApiClient {
+  name: string;
+  clearance: AccessLevel;
+  isActive: boolean;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+export function isAccessLevel(value: unknown): value is AccessLevel {
+  return typeof value === 'string' && ACCESS_LEVELS.includes(value as AccessLevel);
+}
+
+/**
+ * Whether a caller with this clearance may read a document at accessLevel
+ */
+export function hasClearance(clearance: AccessLevel, accessLevel: AccessLevel): boolean {
+  return ACCESS_LEVELS.indexOf(accessLevel) <= ACCESS_LEVELS.indexOf(clearance);
+}
+
+/**
+ * Access levels readable with this clearance
+ */
+export function accessibleLevels(clearance: AccessLevel): AccessLevel[] {
+  return ACCESS_LEVELS.slice(0, ACCESS_LEVELS.indexOf(clearance) + 1);
+}
+
+/**
+ * Clearance for callers without a recognized identity
+ */
+export function getDefaultClearance(): AccessLevel {
+  return getConfig().compliance.accessControl?.defaultClearance ?? 'public';
+}
+
+export function hashApiKey(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex');
+}
+
+/**
+ * Map a caller to a clearance
+ * An unknown or revoked API key throws; a JWT without a clearance claim
+ * (app_metadata.clearance, or a top-level clearance claim) gets internal, as
+ * in volterra_kb.request_clearance. Anonymous callers get the default clearance.
+ */
+export async function resolveClearance(identity: CallerIdentity = {}): Promise<AccessLevel> {
+  if (identity.apiKey) {
+    const client = getSupabaseClient();
+    const { data, error } = await client.rpc('resolve_api_client', {
+      p_key_hash: hashApiKey(identity.apiKey),
+    });
+
+    if (error) {
+      throw new DatabaseError(`Failed to resolve API client: ${error.message}`);
+    }
+
+    const row = ((data ?? []) as Array<{ name: string; clearance: string }>)[0];
+    if (!row || !isAccessLevel(row.clearance)) {
+      throw new ComplianceError('Unknown or revoked API key', {});
+    }
+
+    logger.debug('Resolved API client', { client: row.name, clearance: row.clearance });
+    return row.clearance;
+  }
+
+  if (identity.jwtClaims) {
+    const appMetadata = identity.jwtClaims.app_metadata as Record<string, unknown> | undefined;
+    const claim = appMetadata?.clearance ?? identity.jwtClaims.clearance;
+    return isAccessLevel(claim) ? claim : 'internal';
+  }
+
+  return getDefaultClearance();
+}
+
+/**
+ * Register a search client; the returned key is not stored and cannot be shown again
+ */
+export async function createApiClient(
+  name: string,
+  clearance: AccessLevel
+): Promise<{ name: string; clearance: AccessLevel; apiKey: string }> {
+  if (!isAccessLevel(clearance)) {
+    throw new ComplianceError(`Unknown clearance: ${clearance}`, { name });
+  }
+
+  const apiKey = `vkb_${randomBytes(24).toString('base64url')}`;
+  const client = getSupabaseClient();
+  const { error } = await client.from('api_clients').insert({
+    name,
+    key_hash: hashApiKey(apiKey),
+    clearance,
+  });
+
+  if (error) {
+    throw new DatabaseError(`Failed to create API client: ${error.message}`, { name });
+  }
+
+  logger.info('API client created', { name, clearance });
+  return { name, clearance, apiKey };
+}
+
+export async function listApiClients(): Promise<ApiClient[]> {
+  const client = getSupabaseClient();
+  const { data, error } = await client
+    .from('api_clients')
+    .select('name, clearance, is_active, created_at, last_used_at')
+    .order('name', { ascending: true });
+
+  if (error) {
+    throw new DatabaseError(`Failed to list API clients: ${error.message}`);
+  }
+
+  return ((data ?? []) as Array<Record<string, unknown>>).map((row) => ({
+    name: row.name as string,
+    clearance: row.clearance as AccessLevel,
+    isActive: row.is_active as boolean,
+    createdAt: row.created_at as string,
+    lastUsedAt: (row.last_used_at as string | null) ?? null,
+  }));
+}
+
+/**
+ * Deactivate a client's key; returns false when no active client has that name
+ */
+export async function revokeApiClient(name: string): Promise<boolean> {
+  const client = getSupabaseClient();
+  const { data, error } = await client
+    .from('api_clients')
+    .update({ is_active: false })
+    .eq('name', name)
+    .eq('is_active', true)
+    .select('name');
+
+  if (error) {
+    throw new DatabaseError(`Failed to revoke API client: ${error.message}`, { name });
+  }
+
+  const revoked = (data ?? []).length > 0;
+  if (revoked) logger.info('API client revoked', { name });
+  return revoked;
+}
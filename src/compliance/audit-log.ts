@@ -0,0 +1,108 @@
+import { getSupabaseClient } from '../database/supabase-client.js';
+import { logger } from '../utils/logger.js';
+import { DatabaseError } from '../utils/error-handler.js';
+import type { AuditLogEntry } from './gdpr-handler.js';
+import type { AccessLevel, PIIEntityFinding, Sensitivity, SourceType } from '../types/index.js';
+
+// PostgREST returns at most 1000 rows per request
+const AUDIT_LOG_PAGE_SIZE = 1000;
+
+interface AuditLogRow {
+  action: string;
+  document_title: string;
+  document_ids: string[];
+  source_type: string | null;
+  source_path: string | null;
+  pii_found: boolean;
+  pii_types: string[];
+  pii_entities: PIIEntityFinding[] | null;
+  sensitivity_level: string;
+  access_level_requested: string | null;
+  access_level_assigned: string;
+  redaction_applied: boolean;
+  scanned_at: string;
+}
+
+/**
+ * Store an audit entry in volterra_kb.gdpr_audit_log, linked to the inserted rows
+ * The document is already stored at this point, so failures are logged (with the
+ * full entry) rather than thrown.
+ */
+export async function persistAuditLog(entry: AuditLogEntry, documentIds: string[]): Promise<void> {
+  try {
+    const client = getSupabaseClient();
+    const { error } = await client.from('gdpr_audit_log').insert({
+      action: entry.action,
+      document_title: entry.documentTitle,
+      document_ids: documentIds,
+      source_type: entry.sourceType ?? null,
+      source_path: entry.sourcePath ?? null,
+      pii_found: entry.piiFound,
+      pii_types: entry.piiTypes,
+      pii_entities: entry.piiEntities ?? [],
+      sensitivity_level: entry.sensitivityLevel,
+      access_level_requested: entry.accessLevelRequested,
+      access_level_assigned: entry.accessLevelAssigned,
+      redaction_applied: entry.redactionApplied,
+      scanned_at: entry.timestamp.toISOString(),
+    });
+
+    if (error) throw new Error(error.message);
+    entry.documentIds = documentIds;
+  } catch (error) {
+    logger.error('Failed to persist GDPR audit log entry', {
+      error: error instanceof Error ? error.message : String(error),
+      audit: entry,
+      documentIds,
+    });
+  }
+}
+
+/**
+ * Audit entries scanned in [from, to)
+ */
+export async function getAuditLogEntries(from: Date, to: Date): Promise<AuditLogEntry[]> {
+  const client = getSupabaseClient();
+  const entries: AuditLogEntry[] = [];
+
+  for (let offset = 0; ; offset += AUDIT_LOG_PAGE_SIZE) {
+    const { data, error } = await client
+      .from('gdpr_audit_log')
+      .select('*')
+      .gte('scanned_at', from.toISOString())
+      .lt('scanned_at', to.toISOString())
+      .order('scanned_at', { ascending: true })
+      .range(offset, offset + AUDIT_LOG_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new DatabaseError(`Failed to read GDPR audit log: ${error.message}`, {
+        from: from.toISOString(),
+        to: to.toISOString(),
+      });
+    }
+
+    const rows = (data ?? []) as AuditLogRow[];
+    entries.push(...rows.map(toAuditLogEntry));
+    if (rows.length < AUDIT_LOG_PAGE_SIZE) break;
+  }
+
+  return entries;
+}
+
+function toAuditLogEntry(row: AuditLogRow): AuditLogEntry {
+  return {
+    timestamp: new Date(row.scanned_at),
+    action: row.action as AuditLogEntry['action'],
+    documentTitle: row.document_title,
+    piiFound: row.pii_found,
+    piiTypes: row.pii_types,
+    piiEntities: row.pii_entities ?? [],
+    sensitivityLevel: row.sensitivity_level as Sensitivity,
+    accessLevelRequested: (row.access_level_requested ?? row.access_level_assigned) as AccessLevel,
+    accessLevelAssigned: row.access_level_assigned as AccessLevel,
+    redactionApplied: row.redaction_applied,
+    sourceType: (row.source_type ?? undefined) as SourceType | undefined,
+    sourcePath: row.source_path ?? undefined,
+    documentIds: row.document_ids,
+  };
+}
@@ -0,0 +1,537 @@
+import { createHash, createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { getSupabaseClient } from '../database/supabase-client.js';
+import { generateEmbedding } from '../core/embedding-service.js';
+import { logger } from '../utils/logger.js';
+import { ComplianceError, DatabaseError } from '../utils/error-handler.js';
+import type {
+  DataSubject,
+  DataSubjectRecord,
+  DataSubjectRequestType,
+  DataSubjectTable,
+  DataSubjectTableActions,
+} from '../types/index.js';
+
+// Keep `in (...)` filters within URL limits
+const ROW_BATCH_SIZE = 100;
+
+const REDACTED = '[REDACTED]';
+
+type Row = Record<string, unknown> & { id: string };
+
+interface SubjectTableSpec {
+  /** Text columns searched and redacted */
+  fields: string[];
+  /** JSON columns searched and redacted as serialized text */
+  jsonFields?: string[];
+  /** Context columns included in exports */
+  exportFields: string[];
+  /** Request types that delete matching rows; other requests redact them */
+  deleteOn: DataSubjectRequestType[];
+  /** Text to re-embed after redaction (null: row has no embedding) */
+  embedText?: (row: Row) => string | null;
+  /** Clear the embedding after redaction; a sync/embed job regenerates it */
+  clearEmbedding?: boolean;
+  /** Clear the embedding of a related row (e.g. the conversation of a message) */
+  clearRelatedEmbedding?: { table: DataSubjectTable; foreignKey: string };
+}
+
+// Processing order: vault entries and children before the rows they belong to
+// find_data_subject_records searches exactly these fields and jsonFields
+const SUBJECT_TABLES: Record<DataSubjectTable, SubjectTableSpec> = {
+  pii_vault: {
+    fields: ['value'],
+    exportFields: ['document_id', 'token', 'pii_type', 'created_at'],
+    deleteOn: ['erasure', 'redaction'],
+  },
+  documents: {
+    fields: ['title', 'content'],
+    exportFields: ['source_type', 'source_path', 'department', 'document_type', 'chunk_role', 'section_path', 'created_at'],
+    deleteOn: ['erasure'],
+    embedText: (row) => {
+      if (row.chunk_role === 'parent') return null;
+      const content = String(row.content ?? '');
+      return row.section_path ? `${row.section_path}\n\n${content}` : content;
+    },
+  },
+  training_messages: {
+    fields: ['from_email', 'from_name', 'subject', 'content'],
+    exportFields: ['conversation_id', 'timestamp', 'direction', 'participant_role'],
+    deleteOn: ['erasure'],
+    clearRelatedEmbedding: { table: 'training_conversations', foreignKey: 'conversation_id' },
+  },
+  training_conversations: {
+    fields: ['subject', 'conversation_summary'],
+    exportFields: ['hubspot_ticket_id', 'category', 'create_date'],
+    deleteOn: ['erasure'],
+    clearEmbedding: true,
+  },
+  slack_messages: {
+    fields: ['text', 'user_real_name', 'user_display_name'],
+    jsonFields: ['raw'],
+    exportFields: ['channel_id', 'message_ts', 'thread_ts', 'user_id', 'message_at'],
+    deleteOn: ['erasure'],
+    clearEmbedding: true,
+  },
+  slack_threads: {
+    // Thread rows are sync state; their text is redacted even on erasure
+    fields: ['root_text'],
+    jsonFields: ['root_raw'],
+    exportFields: ['channel_id', 'thread_ts', 'root_message_at'],
+    deleteOn: [],
+  },
+  wod_project_document_chunks: {
+    fields: ['content'],
+    exportFields: ['document_id', 'chunk_index', 'section_header'],
+    deleteOn: ['erasure'],
+    embedText: (row) => String(row.content ?? ''),
+  },
+  wod_project_documents: {
+    fields: ['title', 'raw_text'],
+    jsonFields: ['extracted_metadata'],
+    exportFields: ['deal_id', 'source_path', 'project_stage', 'document_type', 'created_at'],
+    deleteOn: ['erasure'],
+  },
+  wod_deals: {
+    // Deals are business records; personal data in them is redacted, not deleted
+    fields: ['deal_name', 'creator_name', 'four_eyes_name', 'embedding_content'],
+    jsonFields: ['raw_inputs', 'raw_economy', 'raw_cost_output'],
+    exportFields: ['source_path', 'country', 'deal_date'],
+    deleteOn: [],
+    embedText: (row) => (row.embedding_content ? String(row.embedding_content) : null),
+  },
+};
+
+export interface DataSubjectMatch {
+  table: DataSubjectTable;
+  id: string;
+  fields: string[];
+}
+
+export interface DataSubjectRequestOptions {
+  requestedBy: string;
+  reason?: string;
+}
+
+export interface DataSubjectExport {
+  record: DataSubjectRecord;
+  subject: DataSubject;
+  data: Partial<Record<DataSubjectTable, Array<Record<string, unknown>>>>;
+}
+
+// ============================================================================
+// IDENTIFIER PATTERNS
+// ============================================================================
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * National significant number: digits without international prefix, country code or trunk 0
+ */
+function normalizePhone(phone: string): string {
+  let digits = phone.replace(/\D/g, '').replace(/^00/, '');
+  const countryCode = ['45', '46', '47', '49'].find((code) => digits.startsWith(code));
+  if (countryCode && (phone.trim().startsWith('+') || phone.trim().startsWith('00'))) {
+    digits = digits.slice(countryCode.length);
+  }
+  return digits.replace(/^0/, '');
+}
+
+function normalizeIdentifiers(subject: DataSubject): string[] {
+  return [
+    ...(subject.emails ?? []).map((e) => `email:${e.trim().toLowerCase()}`),
+    ...(subject.phones ?? []).map((p) => `phone:${normalizePhone(p)}`),
+    ...(subject.names ?? []).map((n) => `name:${n.trim().toLowerCase().replace(/\s+/g, ' ')}`),
+  ];
+}
+
+/**
+ * Case-insensitive patterns for the subject's identifiers
+ * The syntax is shared by JavaScript and PostgreSQL (ARE) regular expressions.
+ */
+export function buildSubjectPatterns(subject: DataSubject): string[] {
+  const patterns: string[] = [];
+
+  for (const email of subject.emails ?? []) {
+    if (email.trim()) patterns.push(escapeRegex(email.trim()));
+  }
+
+  // Digits with any formatting in between: +47 912 34 567, 91234567, 912-34-567
+  for (const phone of subject.phones ?? []) {
+    const digits = normalizePhone(phone);
+    if (digits.length >= 6) {
+      const prefix = '(?:(?:\\+|00)[0-9]{2}[ .()/-]*)?(?:0[ .()/-]*)?';
+      patterns.push(`(?<![0-9+])${prefix}${digits.split('').join('[ .()/-]*')}(?![0-9])`);
+    }
+  }
+
+  // Whole words only, any whitespace between name parts
+  for (const name of subject.names ?? []) {
+    const parts = name.trim().split(/\s+/).filter(Boolean).map(escapeRegex);
+    if (parts.length > 0) {
+      patterns.push(`(?<![A-Za-z0-9À-ÿ])${parts.join('\\s+')}(?![A-Za-z0-9À-ÿ])`);
+    }
+  }
+
+  return patterns;
+}
+
+// ============================================================================
+// SEARCH AND EXPORT
+// ============================================================================
+
+/**
+ * Rows mentioning the data subject, across all tables holding customer data
+ */
+export async function findDataSubjectRecords(subject: DataSubject): Promise<DataSubjectMatch[]> {
+  const patterns = buildSubjectPatterns(subject);
+  if (patterns.length === 0) {
+    throw new ComplianceError('A data subject needs at least one email, phone number or name');
+  }
+
+  const client = getSupabaseClient();
+  const { data, error } = await client.rpc('find_data_subject_records', { p_patterns: patterns });
+
+  if (error) {
+    throw new DatabaseError(`Failed to search data subject records: ${error.message}`);
+  }
+
+  return ((data ?? []) as Array<{ table_name: DataSubjectTable; row_id: string; matched_fields: string[] }>)
+    .map((row) => ({ table: row.table_name, id: row.row_id, fields: row.matched_fields }));
+}
+
+/**
+ * DSAR export: every matching row with its context, plus a signed record of the request
+ */
+export async function exportDataSubjectData(
+  subject: DataSubject,
+  options: DataSubjectRequestOptions,
+): Promise<DataSubjectExport> {
+  const signingSecret = requireSigningSecret();
+  const createdAt = new Date().toISOString();
+  const matches = await findDataSubjectRecords(subject);
+  const rowsByTable = await fetchMatchedRows(matches);
+
+  const data: DataSubjectExport['data'] = {};
+  for (const [table, rows] of rowsByTable) {
+    data[table] = rows;
+  }
+
+  const record = buildRecord('access', subject, options, matches, {}, createdAt);
+  record.signature = signRecord(record, signingSecret);
+  await saveRecord(record);
+
+  logger.info('Data subject access request completed', {
+    requestId: record.id,
+    requestedBy: options.requestedBy,
+    matched: record.matched,
+  });
+
+  return { record, subject, data };
+}
+
+// ============================================================================
+// ERASURE / REDACTION
+// ============================================================================
+
+/**
+ * Erase or redact the data subject everywhere
+ * erasure deletes matching rows where the table allows it and redacts the rest;
+ * redaction replaces the identifiers in place. Redacted rows are re-embedded (or
+ * their embeddings cleared for the sync jobs) so old vectors cannot leak the data.
+ */
+export async function eraseDataSubjectData(
+  subject: DataSubject,
+  options: DataSubjectRequestOptions & { mode: 'erasure' | 'redaction'; dryRun?: boolean },
+): Promise<DataSubjectRecord> {
+  // Fail before touching data if the result cannot be signed
+  const signingSecret = options.dryRun ? '' : requireSigningSecret();
+  const createdAt = new Date().toISOString();
+  const patterns = buildSubjectPatterns(subject).map((p) => new RegExp(p, 'gi'));
+  const matches = await findDataSubjectRecords(subject);
+  const rowsByTable = await fetchMatchedRows(matches);
+  const actions: DataSubjectRecord['actions'] = {};
+
+  for (const table of Object.keys(SUBJECT_TABLES) as DataSubjectTable[]) {
+    const rows = rowsByTable.get(table);
+    if (!rows || rows.length === 0) continue;
+
+    const spec = SUBJECT_TABLES[table];
+    const tableActions: DataSubjectTableActions = {
+      deleted: [],
+      redacted: [],
+      reembedded: 0,
+      embeddingsCleared: 0,
+    };
+    actions[table] = tableActions;
+
+    if (spec.deleteOn.includes(options.mode)) {
+      tableActions.deleted = rows.map((row) => row.id);
+      if (!options.dryRun) {
+        await deleteRows(table, tableActions.deleted);
+      }
+    } else {
+      for (const row of rows) {
+        const update = redactRow(spec, row, patterns);
+        if (!update) continue;
+        tableActions.redacted.push(row.id);
+        if (options.dryRun) continue;
+
+        const embedText = spec.embedText?.({ ...row, ...update });
+        if (embedText) {
+          const { embedding } = await generateEmbedding(embedText);
+          update.embedding = `[${embedding.join(',')}]`;
+          tableActions.reembedded++;
+        } else if (spec.clearEmbedding) {
+          update.embedding = null;
+          tableActions.embeddingsCleared++;
+        }
+
+        await updateRow(table, row.id, update);
+      }
+    }
+
+    if (spec.clearRelatedEmbedding && !options.dryRun) {
+      const { table: related, foreignKey } = spec.clearRelatedEmbedding;
+      const relatedIds = [...new Set(rows.map((row) => row[foreignKey]).filter(Boolean) as string[])];
+      const cleared = await clearEmbeddings(related, relatedIds);
+      const relatedActions = actions[related] ?? { deleted: [], redacted: [], reembedded: 0, embeddingsCleared: 0 };
+      relatedActions.embeddingsCleared += cleared;
+      actions[related] = relatedActions;
+    }
+  }
+
+  const record = buildRecord(options.mode, subject, options, matches, actions, createdAt);
+  if (!options.dryRun) {
+    record.signature = signRecord(record, signingSecret);
+    await saveRecord(record);
+  }
+
+  logger.info(options.dryRun ? 'Data subject erasure dry run' : 'Data subject erasure completed', {
+    requestId: record.id,
+    mode: options.mode,
+    requestedBy: options.requestedBy,
+    matched: record.matched,
+  });
+
+  return record;
+}
+
+/**
+ * Replacement values for the row's text/JSON fields, or null if nothing matched
+ */
+function redactRow(spec: SubjectTableSpec, row: Row, patterns: RegExp[]): Record<string, unknown> | null {
+  const redact = (text: string) => patterns.reduce((acc, pattern) => acc.replace(pattern, REDACTED), text);
+  const update: Record<string, unknown> = {};
+
+  for (const field of spec.fields) {
+    const value = row[field];
+    if (typeof value !== 'string') continue;
+    const redacted = redact(value);
+    if (redacted !== value) update[field] = redacted;
+  }
+
+  for (const field of spec.jsonFields ?? []) {
+    if (row[field] === null || row[field] === undefined) continue;
+    const serialized = JSON.stringify(row[field]);
+    const redacted = redact(serialized);
+    if (redacted !== serialized) update[field] = JSON.parse(redacted);
+  }
+
+  return Object.keys(update).length > 0 ? update : null;
+}
+
+// ============================================================================
+// SIGNED RECORDS
+// ============================================================================
+
+function requireSigningSecret(): string {
+  const secret = process.env.DSAR_SIGNING_SECRET;
+  if (!secret) {
+    throw new ComplianceError('DSAR_SIGNING_SECRET must be set to record data subject requests');
+  }
+  return secret;
+}
+
+function buildRecord(
+  requestType: DataSubjectRequestType,
+  subject: DataSubject,
+  options: DataSubjectRequestOptions,
+  matches: DataSubjectMatch[],
+  actions: DataSubjectRecord['actions'],
+  createdAt: string,
+): DataSubjectRecord {
+  const matched: DataSubjectRecord['matched'] = {};
+  for (const match of matches) {
+    matched[match.table] = (matched[match.table] ?? 0) + 1;
+  }
+
+  return {
+    id: randomUUID(),
+    requestType,
+    subjectHashes: normalizeIdentifiers(subject).map((id) => createHash('sha256').update(id).digest('hex')),
+    requestedBy: options.requestedBy,
+    reason: options.reason,
+    matched,
+    actions,
+    createdAt,
+    completedAt: new Date().toISOString(),
+    signature: '',
+  };
+}
+
+// JSON with sorted keys, so the signature does not depend on property order
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function signRecord(record: DataSubjectRecord, secret: string): string {
+  const { signature: _signature, ...unsigned } = record;
+  return createHmac('sha256', secret).update(canonicalJson(unsigned)).digest('hex');
+}
+
+/**
+ * Check a record's signature against DSAR_SIGNING_SECRET
+ */
+export function verifyDataSubjectRecord(record: DataSubjectRecord): boolean {
+  if (!record.signature) return false;
+  const expected = Buffer.from(signRecord(record, requireSigningSecret()), 'hex');
+  const actual = Buffer.from(record.signature, 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+async function saveRecord(record: DataSubjectRecord): Promise<void> {
+  const client = getSupabaseClient();
+  const { error } = await client.from('data_subject_requests').insert({
+    id: record.id,
+    request_type: record.requestType,
+    subject_hashes: record.subjectHashes,
+    requested_by: record.requestedBy,
+    reason: record.reason ?? null,
+    matched: record.matched,
+    actions: record.actions,
+    signature: record.signature,
+    created_at: record.createdAt,
+    completed_at: record.completedAt,
+  });
+
+  if (error) {
+    // The data has already been changed; keep the signed record in the logs
+    logger.error('Failed to store data subject request record', { error: error.message, record });
+    throw new DatabaseError(`Failed to store data subject request record: ${error.message}`, {
+      requestId: record.id,
+    });
+  }
+}
+
+/**
+ * Load a stored request record
+ */
+export async function getDataSubjectRecord(id: string): Promise<DataSubjectRecord | null> {
+  const client = getSupabaseClient();
+  const { data, error } = await client
+    .from('data_subject_requests')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw new DatabaseError(`Failed to load data subject request: ${error.message}`, { id });
+  }
+  if (!data) return null;
+
+  const row = data as Record<string, unknown>;
+  return {
+    id: row.id as string,
+    requestType: row.request_type as DataSubjectRequestType,
+    subjectHashes: row.subject_hashes as string[],
+    requestedBy: row.requested_by as string,
+    reason: (row.reason as string | null) ?? undefined,
+    matched: row.matched as DataSubjectRecord['matched'],
+    actions: row.actions as DataSubjectRecord['actions'],
+    // Timestamps as signed, not as reformatted by Postgres
+    createdAt: new Date(row.created_at as string).toISOString(),
+    completedAt: new Date(row.completed_at as string).toISOString(),
+    signature: row.signature as string,
+  };
+}
+
+// ============================================================================
+// ROW ACCESS
+// ============================================================================
+
+async function fetchMatchedRows(matches: DataSubjectMatch[]): Promise<Map<DataSubjectTable, Row[]>> {
+  const client = getSupabaseClient();
+  const idsByTable = new Map<DataSubjectTable, string[]>();
+  for (const match of matches) {
+    idsByTable.set(match.table, [...(idsByTable.get(match.table) ?? []), match.id]);
+  }
+
+  const rowsByTable = new Map<DataSubjectTable, Row[]>();
+  for (const [table, ids] of idsByTable) {
+    const spec = SUBJECT_TABLES[table];
+    const columns = ['id', ...spec.fields, ...(spec.jsonFields ?? []), ...spec.exportFields];
+    const rows: Row[] = [];
+
+    for (let i = 0; i < ids.length; i += ROW_BATCH_SIZE) {
+      const { data, error } = await client
+        .from(table)
+        .select([...new Set(columns)].join(', '))
+        .in('id', ids.slice(i, i + ROW_BATCH_SIZE));
+
+      if (error) {
+        throw new DatabaseError(`Failed to fetch ${table} rows: ${error.message}`, { table });
+      }
+      rows.push(...((data ?? []) as unknown as Row[]));
+    }
+
+    rowsByTable.set(table, rows);
+  }
+
+  return rowsByTable;
+}
+
+async function deleteRows(table: DataSubjectTable, ids: string[]): Promise<void> {
+  const client = getSupabaseClient();
+  for (let i = 0; i < ids.length; i += ROW_BATCH_SIZE) {
+    const { error } = await client.from(table).delete().in('id', ids.slice(i, i + ROW_BATCH_SIZE));
+    if (error) {
+      throw new DatabaseError(`Failed to delete ${table} rows: ${error.message}`, { table });
+    }
+  }
+}
+
+async function updateRow(table: DataSubjectTable, id: string, update: Record<string, unknown>): Promise<void> {
+  const client = getSupabaseClient();
+  const { error } = await client.from(table).update(update).eq('id', id);
+  if (error) {
+    throw new DatabaseError(`Failed to redact ${table} row: ${error.message}`, { table, id });
+  }
+}
+
+async function clearEmbeddings(table: DataSubjectTable, ids: string[]): Promise<number> {
+  const client = getSupabaseClient();
+  let cleared = 0;
+  for (let i = 0; i < ids.length; i += ROW_BATCH_SIZE) {
+    const { data, error } = await client
+      .from(table)
+      .update({ embedding: null })
+      .in('id', ids.slice(i, i + ROW_BATCH_SIZE))
+      .select('id');
+    if (error) {
+      throw new DatabaseError(`Failed to clear ${table} embeddings: ${error.message}`, { table });
+    }
+    cleared += data?.length ?? 0;
+  }
+  return cleared;
+}
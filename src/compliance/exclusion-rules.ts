@@ -0,0 +1,206 @@
+/**
+ * Do-not-ingest rules
+ * Rules are stored in volterra_kb.ingestion_exclusions; this file normalizes
+ * rule values and matches content against them.
+ *
+ * Shared with the Edge Functions (supabase/functions/_shared/exclusions.ts),
+ * which import this file directly. Keep it free of imports and Node/Deno APIs.
+ */
+
+// Same values as ExclusionRuleType in src/types
+export type ExclusionType =
+  | 'slack_user'
+  | 'slack_channel'
+  | 'email_domain'
+  | 'notion_page'
+  | 'notion_database'
+  | 'sharepoint_path';
+
+export const EXCLUSION_TYPES: ExclusionType[] = [
+  'slack_user',
+  'slack_channel',
+  'email_domain',
+  'notion_page',
+  'notion_database',
+  'sharepoint_path',
+];
+
+export interface ExclusionMatch {
+  type: ExclusionType;
+  /** Normalized rule value */
+  value: string;
+}
+
+// ============================================================================
+// NORMALIZATION
+// ============================================================================
+
+/**
+ * Canonical form of a rule value, or null when it is not valid for the type
+ *   - slack_user / slack_channel: Slack ID, upper case (U0123ABCD, C0123ABCD)
+ *   - email_domain: lower case, without @ (subdomains match too)
+ *   - notion_page / notion_database: 32 hex characters without dashes; a
+ *     Notion URL works as well
+ *   - sharepoint_path: glob over the drive path, with a leading /
+ *     (/HR/**, /Finance/*.xlsx)
+ */
+export function normalizeExclusionValue(type: ExclusionType, value: string): string | null {
+  const trimmed = value.trim();
+
+  switch (type) {
+    case 'slack_user': {
+      const id = trimmed.toUpperCase();
+      return /^[UW][A-Z0-9]{6,}$/.test(id) ? id : null;
+    }
+    case 'slack_channel': {
+      const id = trimmed.toUpperCase();
+      return /^[CGD][A-Z0-9]{6,}$/.test(id) ? id : null;
+    }
+    case 'email_domain': {
+      const domain = trimmed.toLowerCase().replace(/^.*@/, '');
+      return /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(domain) ? domain : null;
+    }
+    case 'notion_page':
+    case 'notion_database': {
+      const lower = trimmed.toLowerCase();
+      const uuid = lower.match(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/);
+      if (uuid) return uuid[0].replace(/-/g, '');
+      // URLs end with the ID (Title-Words-<id>?v=<view id>)
+      const ids = lower.replace(/\?.*$/, '').match(/(?<![0-9a-f])[0-9a-f]{32}(?![0-9a-f])/g);
+      return ids ? ids[ids.length - 1] : null;
+    }
+    case 'sharepoint_path': {
+      if (!trimmed || trimmed === '/') return null;
+      return trimmed.startsWith('/') ? trimmed : `/${trimmed}`;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Path glob as a regular expression: ** crosses folders, * and ? do not.
+ * Matching is case-insensitive, like SharePoint paths.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      source += '.*';
+      i++;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 'i');
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+/**
+ * Loaded rules, indexed by type
+ */
+export class ExclusionList {
+  private values = new Map<ExclusionType, Set<string>>();
+  private globs: Array<{ value: string; pattern: RegExp }> = [];
+
+  constructor(rules: Array<{ type: ExclusionType; value: string }> = []) {
+    for (const rule of rules) {
+      const value = normalizeExclusionValue(rule.type, rule.value);
+      if (!value) continue;
+
+      if (rule.type === 'sharepoint_path') {
+        this.globs.push({ value, pattern: globToRegExp(value) });
+      } else {
+        if (!this.values.has(rule.type)) this.values.set(rule.type, new Set());
+        this.values.get(rule.type)!.add(value);
+      }
+    }
+  }
+
+  get size(): number {
+    let size = this.globs.length;
+    this.values.forEach((values) => (size += values.size));
+    return size;
+  }
+
+  has(type: ExclusionType): boolean {
+    return type === 'sharepoint_path' ? this.globs.length > 0 : (this.values.get(type)?.size ?? 0) > 0;
+  }
+
+  private lookup(type: ExclusionType, value: string | null | undefined): ExclusionMatch | null {
+    if (!value) return null;
+    const normalized = normalizeExclusionValue(type, value);
+    return normalized && this.values.get(type)?.has(normalized) ? { type, value: normalized } : null;
+  }
+
+  matchSlackUser(userId: string | null | undefined): ExclusionMatch | null {
+    return this.lookup('slack_user', userId);
+  }
+
+  matchSlackChannel(channelId: string | null | undefined): ExclusionMatch | null {
+    return this.lookup('slack_channel', channelId);
+  }
+
+  matchNotionPage(pageId: string | null | undefined): ExclusionMatch | null {
+    return this.lookup('notion_page', pageId);
+  }
+
+  matchNotionDatabase(databaseId: string | null | undefined): ExclusionMatch | null {
+    return this.lookup('notion_database', databaseId);
+  }
+
+  /**
+   * Address (or bare domain) whose domain, or a parent domain, is excluded
+   */
+  matchEmail(address: string | null | undefined): ExclusionMatch | null {
+    if (!address) return null;
+    // Tolerate "Name <user@domain>"
+    const host = address.replace(/^.*@/, '').replace(/[^A-Za-z0-9.-].*$/, '');
+    const domain = normalizeExclusionValue('email_domain', host);
+    const excluded = this.values.get('email_domain');
+    if (!domain || !excluded) return null;
+
+    const labels = domain.split('.');
+    for (let i = 0; i < labels.length - 1; i++) {
+      const candidate = labels.slice(i).join('.');
+      if (excluded.has(candidate)) return { type: 'email_domain', value: candidate };
+    }
+    return null;
+  }
+
+  /**
+   * First excluded address in a list, e.g. all participants of a ticket
+   */
+  matchEmails(addresses: Array<string | null | undefined>): ExclusionMatch | null {
+    for (const address of addresses) {
+      const match = this.matchEmail(address);
+      if (match) return match;
+    }
+    return null;
+  }
+
+  /**
+   * Drive path (/Folder/Sub/file.docx) matching a path glob
+   */
+  matchSharePointPath(path: string | null | undefined): ExclusionMatch | null {
+    if (!path) return null;
+    const normalized = path.startsWith('/') ? path : `/${path}`;
+    const glob = this.globs.find((g) => g.pattern.test(normalized));
+    return glob ? { type: 'sharepoint_path', value: glob.value } : null;
+  }
+}
+
+/**
+ * Email addresses in a header value ("Name <a@b.com>, c@d.org")
+ */
+export function extractEmailAddresses(value: string): string[] {
+  return (value.match(/[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g) ?? []).map((a) => a.toLowerCase());
+}
@@ -0,0 +1,212 @@
+import { getSupabaseClient } from '../database/supabase-client.js';
+import { logger } from '../utils/logger.js';
+import { ComplianceError, DatabaseError } from '../utils/error-handler.js';
+import { EXCLUSION_TYPES, ExclusionList, normalizeExclusionValue } from './exclusion-rules.js';
+import type { ExclusionPurgeResult, ExclusionRule, ExclusionRuleType } from '../types/index.js';
+
+/**
+ * Do-not-ingest registry (volterra_kb.ingestion_exclusions)
+ * Sources load the rules once per listing; adding a rule purges what was
+ * stored before it existed (volterra_kb.purge_excluded_content).
+ */
+
+// Rules change rarely; long-running processes pick up new ones after this
+const EXCLUSION_CACHE_TTL_MS = 5 * 60 * 1000;
+
+interface ExclusionRow {
+  id: string;
+  rule_type: ExclusionRuleType;
+  value: string;
+  reason: string | null;
+  created_by: string | null;
+  created_at: string;
+  last_purged_at: string | null;
+  purged_row_count: number | null;
+}
+
+export interface AddExclusionOptions {
+  type: ExclusionRuleType;
+  value: string;
+  reason?: string;
+  createdBy?: string;
+  /**
+   * Stored source paths to purge as well; required for sharepoint_path rules,
+   * whose stored paths hold item IDs rather than folder paths
+   */
+  sourcePaths?: string[];
+  /** Only count what would be purged; the rule is not added */
+  dryRun?: boolean;
+}
+
+export interface AddExclusionResult {
+  rule: ExclusionRule | null;
+  purged: ExclusionPurgeResult[];
+  dryRun: boolean;
+}
+
+let cached: { list: ExclusionList; loadedAt: number } | null = null;
+
+function toRule(row: ExclusionRow): ExclusionRule {
+  return {
+    id: row.id,
+    type: row.rule_type,
+    value: row.value,
+    reason: row.reason ?? undefined,
+    createdBy: row.created_by ?? undefined,
+    createdAt: row.created_at,
+    lastPurgedAt: row.last_purged_at ?? undefined,
+    purgedRowCount: row.purged_row_count ?? undefined,
+  };
+}
+
+/**
+ * Validated, normalized rule value
+ * @throws ComplianceError for unknown types and malformed values
+ */
+export function normalizeExclusion(type: string, value: string): { type: ExclusionRuleType; value: string } {
+  if (!EXCLUSION_TYPES.includes(type as ExclusionRuleType)) {
+    throw new ComplianceError(`Unknown exclusion type: ${type} (use ${EXCLUSION_TYPES.join(', ')})`, { type });
+  }
+  const normalized = normalizeExclusionValue(type as ExclusionRuleType, value);
+  if (!normalized) {
+    throw new ComplianceError(`Invalid ${type} exclusion: ${value}`, { type, value });
+  }
+  return { type: type as ExclusionRuleType, value: normalized };
+}
+
+export async function listExclusionRules(type?: ExclusionRuleType): Promise<ExclusionRule[]> {
+  const client = getSupabaseClient();
+  let query = client
+    .from('ingestion_exclusions')
+    .select('*')
+    .order('rule_type', { ascending: true })
+    .order('value', { ascending: true });
+  if (type) query = query.eq('rule_type', type);
+
+  const { data, error } = await query;
+  if (error) {
+    throw new DatabaseError(`Failed to read exclusion rules: ${error.message}`, { type });
+  }
+
+  return ((data ?? []) as ExclusionRow[]).map(toRule);
+}
+
+/**
+ * Rules as a matcher, cached for a few minutes
+ * Sources call this on every listing, so a failed read is an error rather
+ * than an empty list: ingesting without the rules would store excluded data.
+ */
+export async function loadExclusions(options: { refresh?: boolean } = {}): Promise<ExclusionList> {
+  if (cached && !options.refresh && Date.now() - cached.loadedAt < EXCLUSION_CACHE_TTL_MS) {
+    return cached.list;
+  }
+
+  const rules = await listExclusionRules();
+  const list = new ExclusionList(rules);
+  cached = { list, loadedAt: Date.now() };
+  logger.debug('Exclusion rules loaded', { count: list.size });
+  return list;
+}
+
+export function clearExclusionCache(): void {
+  cached = null;
+}
+
+/**
+ * Purge rows stored before a rule existed; dry runs only count them
+ */
+export async function purgeExcludedContent(
+  rule: { type: ExclusionRuleType; value: string },
+  options: { sourcePaths?: string[]; dryRun?: boolean } = {}
+): Promise<ExclusionPurgeResult[]> {
+  const client = getSupabaseClient();
+  const { data, error } = await client.rpc('purge_excluded_content', {
+    p_rule_type: rule.type,
+    p_value: rule.value,
+    p_source_paths: options.sourcePaths ?? [],
+    p_dry_run: options.dryRun ?? false,
+  });
+
+  if (error) {
+    throw new DatabaseError(`Failed to purge excluded content: ${error.message}`, { ...rule });
+  }
+
+  return ((data ?? []) as Array<{ table_name: string; row_count: number }>).map((row) => ({
+    table: row.table_name,
+    rowCount: row.row_count,
+  }));
+}
+
+/**
+ * Add a rule and purge matching rows
+ * The rule is stored first, so a sync running during the purge already skips
+ * the excluded content. Adding an existing rule purges again.
+ */
+export async function addExclusionRule(options: AddExclusionOptions): Promise<AddExclusionResult> {
+  const { type, value } = normalizeExclusion(options.type, options.value);
+
+  if (options.dryRun) {
+    const purged = await purgeExcludedContent({ type, value }, { sourcePaths: options.sourcePaths, dryRun: true });
+    return { rule: null, purged, dryRun: true };
+  }
+
+  const client = getSupabaseClient();
+  const { data, error } = await client
+    .from('ingestion_exclusions')
+    .upsert(
+      {
+        rule_type: type,
+        value,
+        reason: options.reason ?? null,
+        created_by: options.createdBy ?? null,
+      },
+      { onConflict: 'rule_type,value' }
+    )
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    throw new DatabaseError(`Failed to add exclusion rule: ${error?.message ?? 'no row returned'}`, { type, value });
+  }
+
+  clearExclusionCache();
+  const purged = await purgeExcludedContent({ type, value }, { sourcePaths: options.sourcePaths });
+
+  logger.info('Exclusion rule added', {
+    type,
+    value,
+    purged: purged.reduce((sum, p) => sum + p.rowCount, 0),
+  });
+
+  const rule = toRule(data as ExclusionRow);
+  rule.lastPurgedAt = new Date().toISOString();
+  rule.purgedRowCount = purged.reduce((sum, p) => sum + p.rowCount, 0);
+  return { rule, purged, dryRun: false };
+}
+
+/**
+ * Remove a rule by ID, or by type and value
+ * Content purged by the rule is not restored; the next sync ingests it again.
+ */
+export async function removeExclusionRule(
+  rule: { id: string } | { type: ExclusionRuleType; value: string }
+): Promise<boolean> {
+  const client = getSupabaseClient();
+  let query = client.from('ingestion_exclusions').delete();
+  if ('id' in rule) {
+    query = query.eq('id', rule.id);
+  } else {
+    const { type, value } = normalizeExclusion(rule.type, rule.value);
+    query = query.eq('rule_type', type).eq('value', value);
+  }
+
+  const { data, error } = await query.select('id');
+  if (error) {
+    throw new DatabaseError(`Failed to remove exclusion rule: ${error.message}`, { ...rule });
+  }
+
+  clearExclusionCache();
+  const removed = (data ?? []).length > 0;
+  if (removed) logger.info('Exclusion rule removed', { ...rule });
+  return removed;
+}
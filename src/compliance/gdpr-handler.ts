@@ -2,7 +2,7 @@ import { logger } from '../utils/logger.js';
 import { getConfig } from '../utils/config.js';
 import { detectPII, type PIIDetectionResult } from './pii-detector.js';
 import { determineSensitivity, upgradeAccessLevelForPII } from '../core/metadata-inference.js';
-import type { DocumentMetadata, Sensitivity, AccessLevel } from '../types/index.js';
+import type { DocumentMetadata, Sensitivity, AccessLevel, PIIEntityFinding, PIIPseudonym, SourceType } from '../types/index.js';
 
 export interface GDPRComplianceResult {
   isCompliant: boolean;
@@ -11,37 +11,52 @@ export interface GDPRComplianceResult {
   piiDetected: boolean;
   piiTypes: string[];
   content: string;
+  /** Tokens in content to store in the PII vault once the document has an id */
+  pseudonyms: PIIPseudonym[];
   warnings: string[];
   auditLog: AuditLogEntry;
 }
 
 export interface AuditLogEntry {
   timestamp: Date;
-  action: 'PII_SCAN';
+  /** PII_RESCAN: stored rows redacted by the rescan command */
+  action: 'PII_SCAN' | 'PII_RESCAN';
   documentTitle: string;
   piiFound: boolean;
   piiTypes: string[];
+  /** Entity types and spans with the detector that found each (no values) */
+  piiEntities?: PIIEntityFinding[];
   sensitivityLevel: Sensitivity;
+  /** Level before the PII upgrade */
+  accessLevelRequested: AccessLevel;
   accessLevelAssigned: AccessLevel;
   redactionApplied: boolean;
+  sourceType?: SourceType;
+  sourcePath?: string;
+  /** Stored rows, set once the document is inserted (and when read from gdpr_audit_log) */
+  documentIds?: string[];
 }
 
 /**
  * Process document for GDPR compliance
  */
-export function processForGDPR(
+export async function processForGDPR(
   content: string,
   metadata: Partial<DocumentMetadata>
-): GDPRComplianceResult {
+): Promise<GDPRComplianceResult> {
   const config = getConfig();
   const warnings: string[] = [];
   
   // Detect PII
   let piiResult: PIIDetectionResult;
   try {
-    piiResult = detectPII(content);
+    piiResult = await detectPII(content, { sourceType: metadata.sourceType });
   } catch (error) {
     logger.error('GDPR processing failed during PII detection', { error });
+    // Storing raw values would defeat pseudonymization; fail the document instead
+    if (config.compliance.piiDetection.mode === 'pseudonymize') {
+      throw error;
+    }
     // Continue with no PII detected as fallback
     piiResult = {
       hasPII: false,
@@ -49,6 +64,7 @@ export function processForGDPR(
       redactedContent: content,
       originalContent: content,
       piiTypes: [],
+      pseudonyms: [],
     };
     warnings.push('PII detection encountered an error - document flagged for manual review');
   }
@@ -65,10 +81,11 @@ export function processForGDPR(
     warnings.push(`Access level upgraded from '${baseAccessLevel}' to '${accessLevel}' due to ${sensitivity} data`);
   }
 
-  // Determine final content (redacted or original)
-  const finalContent = config.compliance.piiDetection.mode === 'redact'
-    ? piiResult.redactedContent
-    : piiResult.originalContent;
+  // Determine final content (redacted/pseudonymized or original)
+  const mode = config.compliance.piiDetection.mode;
+  const finalContent = mode === 'flag'
+    ? piiResult.originalContent
+    : piiResult.redactedContent;
 
   // Check compliance
   const isCompliant = !piiResult.hasPII || (sensitivity !== 'None' && accessLevel !== 'public');
@@ -84,9 +101,18 @@ export function processForGDPR(
     documentTitle: metadata.title || 'Unknown',
     piiFound: piiResult.hasPII,
     piiTypes: piiResult.piiTypes,
+    piiEntities: piiResult.entities.map(({ type, detector, start, end }) => ({
+      type,
+      detector: detector ?? 'pattern',
+      start,
+      end,
+    })),
     sensitivityLevel: sensitivity,
+    accessLevelRequested: baseAccessLevel,
     accessLevelAssigned: accessLevel,
-    redactionApplied: config.compliance.piiDetection.mode === 'redact' && piiResult.hasPII,
+    redactionApplied: mode !== 'flag' && piiResult.hasPII,
+    sourceType: metadata.sourceType,
+    sourcePath: metadata.sourcePath,
   };
 
   // Log audit entry
@@ -102,6 +128,7 @@ export function processForGDPR(
     piiDetected: piiResult.hasPII,
     piiTypes: piiResult.piiTypes,
     content: finalContent,
+    pseudonyms: piiResult.pseudonyms,
     warnings,
     auditLog,
   };
@@ -150,11 +177,17 @@ export function generateComplianceReport(
   piiTypeBreakdown: Record<string, number>;
   sensitivityBreakdown: Record<string, number>;
   accessLevelBreakdown: Record<string, number>;
+  /** "internal -> restricted" style keys for documents upgraded because of PII */
+  accessLevelUpgrades: Record<string, number>;
+  /** Entities found per detector ("pattern", "llm:<model>", "local-ner") */
+  detectorBreakdown: Record<string, number>;
   redactionStats: { total: number; redacted: number };
 } {
   const piiTypeBreakdown: Record<string, number> = {};
   const sensitivityBreakdown: Record<string, number> = {};
   const accessLevelBreakdown: Record<string, number> = {};
+  const accessLevelUpgrades: Record<string, number> = {};
+  const detectorBreakdown: Record<string, number> = {};
   let documentsWithPII = 0;
   let redactedCount = 0;
 
@@ -169,6 +202,11 @@ export function generateComplianceReport(
       piiTypeBreakdown[type] = (piiTypeBreakdown[type] || 0) + 1;
     }
 
+    // Count entities per detector
+    for (const entity of log.piiEntities ?? []) {
+      detectorBreakdown[entity.detector] = (detectorBreakdown[entity.detector] || 0) + 1;
+    }
+
     // Count sensitivity levels
     sensitivityBreakdown[log.sensitivityLevel] = 
       (sensitivityBreakdown[log.sensitivityLevel] || 0) + 1;
@@ -177,6 +215,12 @@ export function generateComplianceReport(
     accessLevelBreakdown[log.accessLevelAssigned] = 
       (accessLevelBreakdown[log.accessLevelAssigned] || 0) + 1;
 
+    // Count access level upgrades
+    if (log.accessLevelRequested && log.accessLevelRequested !== log.accessLevelAssigned) {
+      const upgrade = `${log.accessLevelRequested} -> ${log.accessLevelAssigned}`;
+      accessLevelUpgrades[upgrade] = (accessLevelUpgrades[upgrade] || 0) + 1;
+    }
+
     // Count redactions
     if (log.redactionApplied) {
       redactedCount++;
@@ -189,6 +233,8 @@ export function generateComplianceReport(
     piiTypeBreakdown,
     sensitivityBreakdown,
     accessLevelBreakdown,
+    accessLevelUpgrades,
+    detectorBreakdown,
     redactionStats: {
       total: documentsWithPII,
       redacted: redactedCount,
@@ -1,4 +1,23 @@
-export { detectPII, redactPII, containsPII, type PIIDetectionResult } from './pii-detector.js';
+export { detectPII, redactPII, containsPII, pseudonymizePII, type PIIDetectionResult, type PIIDetectionOptions } from './pii-detector.js';
+export {
+  createSecondStageDetector,
+  getSecondStageDetector,
+  shouldRunSecondStage,
+  LLMPIIDetector,
+  LocalNERDetector,
+  type PIISecondStageDetector,
+} from './pii-second-stage.js';
+export { rescanStoredPII, PII_RESCAN_TABLES, type PIIRescanOptions } from './pii-rescan.js';
+export {
+  getPIIRecognizers,
+  findPIIEntities,
+  classifyPIISensitivity,
+  accessLevelForSensitivity,
+  PII_MARKETS,
+  type PIIRecognizer,
+  type PIIMatch,
+} from './pii-recognizers.js';
+export { storePseudonyms, revealPII, type RevealPIIOptions } from './pii-vault.js';
 export { 
   processForGDPR, 
   validateGDPRCompliance, 
@@ -6,4 +25,53 @@ export {
   type GDPRComplianceResult,
   type AuditLogEntry,
 } from './gdpr-handler.js';
-
+export { persistAuditLog, getAuditLogEntries } from './audit-log.js';
+export {
+  buildSubjectPatterns,
+  findDataSubjectRecords,
+  exportDataSubjectData,
+  eraseDataSubjectData,
+  verifyDataSubjectRecord,
+  getDataSubjectRecord,
+  type DataSubjectMatch,
+  type DataSubjectExport,
+} from './data-subject.js';
+export {
+  getRetentionRules,
+  syncRetentionRules,
+  applyRetentionRules,
+  getRetentionRun,
+  type RetentionRun,
+} from './retention.js';
+export {
+  EXCLUSION_TYPES,
+  ExclusionList,
+  globToRegExp,
+  extractEmailAddresses,
+  type ExclusionMatch,
+} from './exclusion-rules.js';
+export {
+  normalizeExclusion,
+  listExclusionRules,
+  loadExclusions,
+  clearExclusionCache,
+  purgeExcludedContent,
+  addExclusionRule,
+  removeExclusionRule,
+  type AddExclusionOptions,
+  type AddExclusionResult,
+} from './exclusions.js';
+export {
+  ACCESS_LEVELS,
+  isAccessLevel,
+  hasClearance,
+  accessibleLevels,
+  getDefaultClearance,
+  hashApiKey,
+  resolveClearance,
+  createApiClient,
+  listApiClients,
+  revokeApiClient,
+  type CallerIdentity,
+  type ApiClient,
+} from './access-control.js';
@@ -1,8 +1,17 @@
+import { createHmac } from 'crypto';
 import { SyncRedactor } from 'redact-pii';
 import { logger } from '../utils/logger.js';
 import { ComplianceError } from '../utils/error-handler.js';
 import { getConfig } from '../utils/config.js';
-import type { PIIEntity } from '../types/index.js';
+import {
+  findPIIEntities,
+  getPIIRecognizers,
+  PII_MARKETS,
+  replacePIIEntities,
+  toPIILabel,
+} from './pii-recognizers.js';
+import { getSecondStageDetector, shouldRunSecondStage } from './pii-second-stage.js';
+import type { PIIEntity, PIIHandlingMode, PIIPseudonym, SourceType } from '../types/index.js';
 
 let redactor: SyncRedactor | null = null;
 
@@ -15,7 +24,7 @@ function getRedactor(): SyncRedactor {
       emailAddress: { enabled: true },
       phoneNumber: { enabled: true },
       creditCardNumber: { enabled: true },
-      usSocialSecurityNumber: { enabled: true },
+      usSocialSecurityNumber: { enabled: false }, // Matches any 9 digits; the ssn recognizer validates
       ipAddress: { enabled: true },
       names: { enabled: true },
       streetAddress: { enabled: true },
@@ -34,12 +43,24 @@ export interface PIIDetectionResult {
   redactedContent: string;
   originalContent: string;
   piiTypes: string[];
+  /** Token -> value mapping for the PII vault (pseudonymize mode) */
+  pseudonyms: PIIPseudonym[];
+}
+
+export interface PIIDetectionOptions {
+  /** Applies compliance.piiDetection.sources[sourceType] overrides */
+  sourceType?: SourceType;
+  /** Overrides compliance.piiDetection.mode, e.g. to redact stored rows in a rescan */
+  mode?: PIIHandlingMode;
 }
 
 /**
  * Detect PII in text content
+ * Pattern recognizers run first; when compliance.piiDetection.secondStage is
+ * enabled, long or high-risk texts also go through the second-stage detector
+ * for names and addresses. Each entity records the detector that found it.
  */
-export function detectPII(content: string): PIIDetectionResult {
+export async function detectPII(content: string, options: PIIDetectionOptions = {}): Promise<PIIDetectionResult> {
   const config = getConfig();
   
   if (!config.compliance.piiDetection.enabled) {
@@ -49,36 +70,36 @@ export function detectPII(content: string): PIIDetectionResult {
       redactedContent: content,
       originalContent: content,
       piiTypes: [],
+      pseudonyms: [],
     };
   }
 
   try {
     const redactorInstance = getRedactor();
     
-    // Redact and collect entities
-    const entities: PIIEntity[] = [];
-    const piiTypes = new Set<string>();
-    
-    // Run detection using patterns
-    const patterns = getPIIPatterns();
+    // Run detection using the market recognizers; checksum failures are not PII
+    const entities: PIIEntity[] = findPIIEntities(content, getRecognizersFor(options.sourceType)).map(
+      (match) => ({ ...match, detector: 'pattern' })
+    );
+    const piiTypes = new Set<string>(entities.map((entity) => entity.type));
     let redactedContent = content;
-    
-    for (const { type, pattern } of patterns) {
-      let match;
-      while ((match = pattern.exec(content)) !== null) {
-        entities.push({
-          type,
-          value: match[0],
-          start: match.index,
-          end: match.index + match[0].length,
-        });
-        piiTypes.add(type);
+
+    if (shouldRunSecondStage(content, { sourceType: options.sourceType, patternMatches: entities.length })) {
+      for (const entity of await detectSecondStage(content, entities)) {
+        entities.push(entity);
+        piiTypes.add(entity.type);
       }
     }
 
-    // Use redact-pii for comprehensive redaction
-    if (config.compliance.piiDetection.mode === 'redact') {
-      redactedContent = redactorInstance.redact(content);
+    // Use redact-pii for comprehensive redaction (names, addresses) after the recognized entities
+    const mode = options.mode ?? config.compliance.piiDetection.mode;
+    let pseudonyms: PIIPseudonym[] = [];
+    if (mode === 'redact') {
+      redactedContent = redactorInstance.redact(
+        replacePIIEntities(content, entities, (entity) => toPIILabel(entity.type))
+      );
+    } else if (mode === 'pseudonymize') {
+      ({ content: redactedContent, pseudonyms } = pseudonymizePII(content, entities));
     }
 
     // Check if redaction changed anything (indicates PII was found)
@@ -89,7 +110,7 @@ export function detectPII(content: string): PIIDetectionResult {
       logger.info('PII detected', {
         entityCount: entities.length,
         types: Array.from(piiTypes),
-        mode: config.compliance.piiDetection.mode,
+        mode,
       });
     }
 
@@ -99,6 +120,7 @@ export function detectPII(content: string): PIIDetectionResult {
       redactedContent,
       originalContent: content,
       piiTypes: Array.from(piiTypes),
+      pseudonyms,
     };
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
@@ -108,54 +130,111 @@ export function detectPII(content: string): PIIDetectionResult {
 }
 
 /**
- * Get regex patterns for common PII types
+ * Entities from the second-stage detector that don't overlap a pattern match
+ * A failing detector (e.g. LLM timeout) is logged and skipped; the pattern
+ * results and redact-pii still apply.
  */
-function getPIIPatterns(): Array<{ type: string; pattern: RegExp }> {
-  return [
-    {
-      type: 'email',
-      pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g,
-    },
-    {
-      type: 'phone',
-      pattern: /\b(?:\+?1[-.\s]?)?\(?\d{3}\)?[-.\s]?\d{3}[-.\s]?\d{4}\b/g,
-    },
-    {
-      type: 'ssn',
-      pattern: /\b\d{3}[-.\s]?\d{2}[-.\s]?\d{4}\b/g,
-    },
-    {
-      type: 'creditCard',
-      pattern: /\b(?:\d{4}[-.\s]?){3}\d{4}\b/g,
-    },
-    {
-      type: 'ipAddress',
-      pattern: /\b(?:(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\.){3}(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\b/g,
-    },
-    {
-      type: 'norwegianPersonNumber',
-      pattern: /\b\d{6}\s?\d{5}\b/g, // Norwegian personnummer: DDMMYY XXXXX
-    },
-    {
-      type: 'iban',
-      pattern: /\b[A-Z]{2}\d{2}[A-Z0-9]{4}\d{7}([A-Z0-9]?){0,16}\b/gi,
-    },
-  ];
+async function detectSecondStage(content: string, patternEntities: PIIEntity[]): Promise<PIIEntity[]> {
+  const detector = getSecondStageDetector();
+  if (!detector) return [];
+
+  let found: PIIEntity[];
+  try {
+    found = await detector.detect(content);
+  } catch (error) {
+    logger.warn('Second-stage PII detection failed, using pattern results only', {
+      detector: detector.name,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+
+  const accepted: PIIEntity[] = [];
+  for (const entity of found) {
+    const overlaps = [...patternEntities, ...accepted].some(
+      (other) => entity.start < other.end && other.start < entity.end
+    );
+    if (!overlaps) accepted.push(entity);
+  }
+
+  if (accepted.length > 0) {
+    logger.debug('Second-stage PII detected', { detector: detector.name, entityCount: accepted.length });
+  }
+  return accepted;
+}
+
+/**
+ * Replace detected entities with stable tokens, e.g. <EMAIL_7f3a>
+ * The token suffix is an HMAC of the normalized value (keyed by PII_VAULT_SECRET),
+ * so the same value gets the same token in every document without being guessable.
+ * Only detected entities (pattern and second stage) are pseudonymized; overlapping matches keep the
+ * earliest (then longest) entity.
+ */
+export function pseudonymizePII(
+  content: string,
+  entities: PIIEntity[],
+): { content: string; pseudonyms: PIIPseudonym[] } {
+  const secret = process.env.PII_VAULT_SECRET;
+  if (!secret) {
+    throw new ComplianceError('PII_VAULT_SECRET must be set to pseudonymize PII');
+  }
+
+  const tokensByValue = new Map<string, string>();
+  const valuesByToken = new Map<string, string>();
+  const pseudonyms: PIIPseudonym[] = [];
+
+  const result = replacePIIEntities(content, entities, (entity) => {
+    const key = `${entity.type}:${entity.value.trim().toLowerCase().replace(/\s+/g, '')}`;
+    let token = tokensByValue.get(key);
+
+    if (!token) {
+      const digest = createHmac('sha256', secret).update(key).digest('hex');
+      const label = toPIILabel(entity.type);
+      // Lengthen the suffix on the (rare) collision with another value in this text
+      for (let length = 4; length <= digest.length; length += 2) {
+        const candidate = `<${label}_${digest.slice(0, length)}>`;
+        if (!valuesByToken.has(candidate)) {
+          token = candidate;
+          break;
+        }
+      }
+      tokensByValue.set(key, token!);
+      valuesByToken.set(token!, entity.value);
+      pseudonyms.push({ token: token!, type: entity.type, value: entity.value });
+    }
+
+    return token!;
+  });
+
+  return { content: result, pseudonyms };
+}
+
+/**
+ * Recognizers for a source: per-source markets/entities override the global settings
+ */
+function getRecognizersFor(sourceType?: SourceType) {
+  const settings = getConfig().compliance.piiDetection;
+  const overrides = sourceType ? settings.sources?.[sourceType] : undefined;
+
+  return getPIIRecognizers(
+    overrides?.markets ?? settings.markets ?? PII_MARKETS,
+    overrides?.entities ?? settings.entities
+  );
 }
 
 /**
  * Redact PII from content
  */
-export function redactPII(content: string): string {
-  const result = detectPII(content);
+export async function redactPII(content: string, options: PIIDetectionOptions = {}): Promise<string> {
+  const result = await detectPII(content, options);
   return result.redactedContent;
 }
 
 /**
  * Check if content contains PII (quick check)
  */
-export function containsPII(content: string): boolean {
-  const result = detectPII(content);
+export async function containsPII(content: string, options: PIIDetectionOptions = {}): Promise<boolean> {
+  const result = await detectPII(content, options);
   return result.hasPII;
 }
 
@@ -0,0 +1,464 @@
+/**
+ * Market-aware PII recognizers
+ * Structured identifiers (national IDs, cards, bank accounts) are only reported
+ * when their check digits validate, so arbitrary digit runs (order numbers,
+ * charger serials, timestamps) are not flagged.
+ *
+ * Shared with the Edge Functions (supabase/functions/_shared/pii.ts), which
+ * import this file directly. Keep it free of imports and Node/Deno APIs.
+ */
+
+// Same values as PIIMarket, Sensitivity and AccessLevel in src/types
+export type PIIMarket = 'SE' | 'NO' | 'DK' | 'DE';
+export type PIISensitivity = 'GDPR' | 'PII' | 'None';
+export type PIIAccessLevel = 'public' | 'internal' | 'restricted' | 'confidential';
+
+export interface PIIRecognizer {
+  type: string;
+  /** Markets whose format this is; omitted for international formats */
+  markets?: PIIMarket[];
+  pattern: RegExp;
+  /** Format/checksum validation of a match */
+  validate?: (match: string) => boolean;
+  /**
+   * How much a passing validate() proves (0 or omitted: format only)
+   * When spans of different types overlap, only the strongest type is kept.
+   */
+  strength?: number;
+}
+
+export const PII_MARKETS: PIIMarket[] = ['SE', 'NO', 'DK', 'DE'];
+
+// ============================================================================
+// CHECKSUMS
+// ============================================================================
+
+function digitsOf(value: string): number[] {
+  return value.replace(/\D/g, '').split('').map(Number);
+}
+
+/**
+ * Luhn (mod 10) check over all digits, check digit last
+ */
+export function luhnValid(value: string): boolean {
+  const digits = digitsOf(value);
+  if (digits.length < 2) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = digits[digits.length - 1 - i];
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Weighted mod 11 check digit (11 -> 0, 10 -> invalid)
+ */
+function mod11CheckDigit(digits: number[], weights: number[]): number | null {
+  const sum = weights.reduce((acc, w, i) => acc + w * digits[i], 0);
+  const check = 11 - (sum % 11);
+  if (check === 11) return 0;
+  if (check === 10) return null;
+  return check;
+}
+
+/**
+ * IBAN mod 97 check (ISO 13616), with the national length where known
+ */
+export function ibanValid(value: string): boolean {
+  const iban = value.replace(/\s/g, '').toUpperCase();
+  const expectedLength = IBAN_LENGTHS[iban.slice(0, 2)];
+  if (expectedLength !== undefined && iban.length !== expectedLength) return false;
+  if (iban.length < 15 || iban.length > 34) return false;
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+const IBAN_LENGTHS: Record<string, number> = {
+  NO: 15,
+  SE: 24,
+  DK: 18,
+  DE: 22,
+  FI: 18,
+  IS: 26,
+  GB: 22,
+  NL: 18,
+  FR: 27,
+  ES: 24,
+  IT: 27,
+  PL: 28,
+  CH: 21,
+  AT: 20,
+  BE: 16,
+};
+
+/**
+ * Day/month plausibility for YYMMDD-style numbers (century unknown, so Feb 29 is allowed)
+ */
+function isPlausibleDate(day: number, month: number): boolean {
+  const daysInMonth = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+  return month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth[month - 1];
+}
+
+// ============================================================================
+// NATIONAL ID NUMBERS
+// ============================================================================
+
+/**
+ * Norwegian fødselsnummer / D-nummer: DDMMYY + 3 individual digits + 2 mod 11 check digits
+ */
+export function norwegianPersonNumberValid(value: string): boolean {
+  const d = digitsOf(value);
+  if (d.length !== 11) return false;
+
+  // D-numbers add 40 to the day
+  const day = d[0] * 10 + d[1];
+  const month = d[2] * 10 + d[3];
+  if (!isPlausibleDate(day > 40 ? day - 40 : day, month)) return false;
+
+  const k1 = mod11CheckDigit(d, [3, 7, 6, 1, 8, 9, 4, 5, 2]);
+  const k2 = mod11CheckDigit(d, [5, 4, 3, 2, 7, 6, 5, 4, 3, 2]);
+  return k1 === d[9] && k2 === d[10];
+}
+
+/**
+ * Swedish personnummer / samordningsnummer: (YY)YYMMDD-NNNC, Luhn over the last 10 digits
+ */
+export function swedishPersonNumberValid(value: string): boolean {
+  const d = digitsOf(value);
+  if (d.length !== 10 && d.length !== 12) return false;
+
+  const ten = d.slice(-10);
+  // Samordningsnummer add 60 to the day
+  const day = ten[4] * 10 + ten[5];
+  const month = ten[2] * 10 + ten[3];
+  if (!isPlausibleDate(day > 60 ? day - 60 : day, month)) return false;
+
+  return luhnValid(ten.join(''));
+}
+
+/**
+ * Danish CPR: DDMMYY-SSSS
+ * Numbers issued since 2007 may fail the mod 11 check, so the hyphenated form
+ * only needs a valid date; a bare 10-digit run must also pass mod 11.
+ */
+export function danishCprValid(value: string): boolean {
+  const d = digitsOf(value);
+  if (d.length !== 10) return false;
+  if (!isPlausibleDate(d[0] * 10 + d[1], d[2] * 10 + d[3])) return false;
+  if (value.includes('-')) return true;
+
+  const weights = [4, 3, 2, 7, 6, 5, 4, 3, 2, 1];
+  return weights.reduce((acc, w, i) => acc + w * d[i], 0) % 11 === 0;
+}
+
+/**
+ * German Steuer-ID: 11 digits, one digit repeated 2-3 times in the first ten,
+ * ISO 7064 MOD 11,10 check digit
+ */
+export function germanTaxIdValid(value: string): boolean {
+  const d = digitsOf(value);
+  if (d.length !== 11 || d[0] === 0) return false;
+
+  const counts = new Map<number, number>();
+  for (const digit of d.slice(0, 10)) {
+    counts.set(digit, (counts.get(digit) ?? 0) + 1);
+  }
+  const repeated = [...counts.values()].filter((c) => c > 1);
+  if (repeated.length !== 1 || repeated[0] > 3) return false;
+
+  let product = 10;
+  for (const digit of d.slice(0, 10)) {
+    let sum = (digit + product) % 10;
+    if (sum === 0) sum = 10;
+    product = (sum * 2) % 11;
+  }
+  const check = 11 - product === 10 ? 0 : 11 - product;
+  return check === d[10];
+}
+
+// ============================================================================
+// BANK ACCOUNTS AND PLATES
+// ============================================================================
+
+/**
+ * Norwegian kontonummer: 4.2.5 digits, mod 11 check digit
+ */
+export function norwegianBankAccountValid(value: string): boolean {
+  const d = digitsOf(value);
+  if (d.length !== 11) return false;
+  return mod11CheckDigit(d, [5, 4, 3, 2, 7, 6, 5, 4, 3, 2]) === d[10];
+}
+
+// Three-letter words that look like Swedish plates next to an amount ("SEK 100")
+const PLATE_LOOKALIKES = new Set(['SEK', 'NOK', 'DKK', 'EUR', 'USD', 'GBP', 'CHF', 'KWH', 'MWH', 'AMP']);
+
+function swedishPlateValid(value: string): boolean {
+  return !PLATE_LOOKALIKES.has(value.slice(0, 3));
+}
+
+// ============================================================================
+// RECOGNIZERS
+// ============================================================================
+
+const RECOGNIZERS: PIIRecognizer[] = [
+  // International
+  {
+    type: 'email',
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+  },
+  {
+    type: 'phone',
+    pattern: /(?<![\w+])\+[1-9]\d{0,2}(?:[ -]?\(0\))?(?:[ -]?\d){6,12}\b/g,
+  },
+  {
+    type: 'creditCard',
+    pattern: /\b(?:\d{4}[-\s]?){3}\d{4}\b/g,
+    validate: luhnValid,
+    strength: 2, // Luhn
+  },
+  {
+    type: 'iban',
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+    validate: ibanValid,
+    strength: 4, // mod 97 and national length
+  },
+  {
+    type: 'ipAddress',
+    pattern: /\b(?:(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\.){3}(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\b/g,
+  },
+  {
+    // US format only with separators and valid area/group/serial
+    type: 'ssn',
+    pattern: /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b/g,
+  },
+
+  // Norway
+  {
+    type: 'norwegianPersonNumber',
+    markets: ['NO'],
+    pattern: /\b\d{6}\s?\d{5}\b/g,
+    validate: norwegianPersonNumberValid,
+    strength: 4, // date and two mod 11 check digits
+  },
+  {
+    type: 'phone',
+    markets: ['NO'],
+    // 0047 prefix, or mobile numbers written 912 34 567 / 91 23 45 67
+    pattern: /\b0047(?:[ -]?\d){8}\b|\b[49]\d{2} \d{2} \d{3}\b|\b[49]\d(?: \d{2}){3}\b/g,
+  },
+  {
+    type: 'bankAccount',
+    markets: ['NO'],
+    pattern: /\b\d{4}[ .]?\d{2}[ .]?\d{5}\b/g,
+    validate: norwegianBankAccountValid,
+    strength: 1, // one mod 11 check digit
+  },
+  {
+    type: 'licensePlate',
+    markets: ['NO'],
+    pattern: /\b[A-HJ-NP-Z]{2} ?[1-9]\d{4}\b/g,
+  },
+
+  // Sweden
+  {
+    type: 'swedishPersonNumber',
+    markets: ['SE'],
+    pattern: /\b(?:19|20)?\d{6}[-+]?\d{4}\b/g,
+    validate: swedishPersonNumberValid,
+    strength: 3, // date and Luhn
+  },
+  {
+    type: 'phone',
+    markets: ['SE'],
+    pattern: /\b0046(?:[ -]?\d){7,9}\b|\b07[02369](?:[ -]?\d){7}\b/g,
+  },
+  {
+    type: 'licensePlate',
+    markets: ['SE'],
+    pattern: /\b[A-HJ-PR-UW-Z]{3} ?\d{2}[A-HJ-PR-UW-Z\d]\b/g,
+    validate: swedishPlateValid,
+  },
+
+  // Denmark
+  {
+    type: 'danishCpr',
+    markets: ['DK'],
+    pattern: /\b\d{6}-?\d{4}\b/g,
+    validate: danishCprValid,
+    strength: 2, // date, mod 11 only without hyphen
+  },
+  {
+    type: 'phone',
+    markets: ['DK'],
+    pattern: /\b0045(?:[ -]?\d){8}\b|\b\d{2} \d{2} \d{2} \d{2}\b/g,
+  },
+  {
+    type: 'licensePlate',
+    markets: ['DK'],
+    pattern: /\b[A-Z]{2} ?\d{2} ?\d{3}\b/g,
+  },
+
+  // Germany
+  {
+    type: 'germanTaxId',
+    markets: ['DE'],
+    pattern: /\b[1-9]\d(?: ?\d{3}){3}\b/g,
+    validate: germanTaxIdValid,
+    strength: 3, // digit pattern and check digit
+  },
+  {
+    type: 'phone',
+    markets: ['DE'],
+    pattern: /\b0049(?:[ -]?\d){7,12}\b|\b01[5-7]\d(?:[ \-/]?\d){6,8}\b/g,
+  },
+  {
+    type: 'licensePlate',
+    markets: ['DE'],
+    // District-letters 1-4 digits, optional E (electric) / H (historic): B-AB 1234, M-X 12E
+    pattern: /\b[A-Z]{1,3}-[A-Z]{1,2} ?[1-9]\d{0,3}[EH]?\b/g,
+  },
+];
+
+/**
+ * Recognizers for the given markets, limited to the given entity types
+ * International recognizers always apply; an empty or missing entity list enables all types.
+ */
+export function getPIIRecognizers(
+  markets: PIIMarket[] = PII_MARKETS,
+  entities?: string[],
+): PIIRecognizer[] {
+  return RECOGNIZERS.filter(
+    (r) =>
+      (!r.markets || r.markets.some((m) => markets.includes(m))) &&
+      (!entities || entities.length === 0 || entities.includes(r.type))
+  );
+}
+
+// ============================================================================
+// DETECTION AND CLASSIFICATION
+// ============================================================================
+
+export interface PIIMatch {
+  type: string;
+  value: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Run recognizers over content; checksum failures are not PII
+ * A match overlapping a match of another type with a stronger validation is
+ * dropped, e.g. a fødselsnummer also passes the kontonummer check digit.
+ */
+export function findPIIEntities(content: string, recognizers: PIIRecognizer[]): PIIMatch[] {
+  const matches: Array<PIIMatch & { strength: number }> = [];
+  // Several market formats can match the same span (e.g. NO and DK plates)
+  const seen = new Set<string>();
+
+  for (const { type, pattern, validate, strength = 0 } of recognizers) {
+    for (const match of content.matchAll(pattern)) {
+      if (validate && !validate(match[0])) continue;
+      const key = `${type}:${match.index}:${match[0].length}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      matches.push({
+        type,
+        value: match[0],
+        start: match.index!,
+        end: match.index! + match[0].length,
+        strength,
+      });
+    }
+  }
+
+  return matches
+    .filter(
+      (entity) =>
+        !matches.some(
+          (other) =>
+            other.type !== entity.type &&
+            other.strength > entity.strength &&
+            other.start < entity.end &&
+            entity.start < other.end
+        )
+    )
+    .map(({ strength: _strength, ...entity }) => entity);
+}
+
+/**
+ * Replace entities in content; overlapping matches keep the earliest (then longest)
+ */
+export function replacePIIEntities<T extends PIIMatch>(
+  content: string,
+  entities: T[],
+  replacement: (entity: T) => string,
+): string {
+  const sorted = [...entities].sort((a, b) => a.start - b.start || b.end - a.end);
+
+  let result = '';
+  let cursor = 0;
+
+  for (const entity of sorted) {
+    if (entity.start < cursor) continue;
+    result += content.slice(cursor, entity.start) + replacement(entity);
+    cursor = entity.end;
+  }
+
+  return result + content.slice(cursor);
+}
+
+// norwegianPersonNumber -> NORWEGIAN_PERSON_NUMBER
+export function toPIILabel(type: string): string {
+  return type.replace(/([a-z])([A-Z])/g, '$1_$2').toUpperCase();
+}
+
+// Special categories and national identifiers (GDPR Art. 9 and 87)
+const GDPR_TYPES = [
+  'ssn', 'social security',
+  'passport', 'national id',
+  'personnumber', 'cpr', 'taxid',
+  'health', 'medical',
+  'race', 'ethnicity', 'religion',
+  'political', 'sexual orientation',
+  'biometric', 'genetic',
+];
+
+/**
+ * Sensitivity from the detected PII types
+ */
+export function classifyPIISensitivity(piiDetected: boolean, piiTypes: string[] = []): PIISensitivity {
+  if (!piiDetected) return 'None';
+
+  const isGDPR = piiTypes.some((type) => {
+    const lowerType = type.toLowerCase();
+    return GDPR_TYPES.some((gdprType) => lowerType.includes(gdprType));
+  });
+  return isGDPR ? 'GDPR' : 'PII';
+}
+
+const ACCESS_LEVEL_ORDER: PIIAccessLevel[] = ['public', 'internal', 'restricted', 'confidential'];
+
+/**
+ * Access level for content of this sensitivity: PII needs at least restricted,
+ * GDPR data confidential
+ */
+export function accessLevelForSensitivity(currentLevel: PIIAccessLevel, sensitivity: PIISensitivity): PIIAccessLevel {
+  if (sensitivity === 'None') return currentLevel;
+
+  const minIndex = sensitivity === 'GDPR' ? 3 : 2;
+  return ACCESS_LEVEL_ORDER.indexOf(currentLevel) < minIndex ? ACCESS_LEVEL_ORDER[minIndex] : currentLevel;
+}
@@ -0,0 +1,313 @@
+import { getSupabaseClient } from '../database/supabase-client.js';
+import { generateEmbedding } from '../core/embedding-service.js';
+import { determineSensitivity, upgradeAccessLevelForPII } from '../core/metadata-inference.js';
+import { logger } from '../utils/logger.js';
+import { DatabaseError } from '../utils/error-handler.js';
+import { detectPII } from './pii-detector.js';
+import { persistAuditLog } from './audit-log.js';
+import type { AuditLogEntry } from './gdpr-handler.js';
+import type { AccessLevel, PIIEntityFinding, PIIRescanStats, PIIRescanTable, Sensitivity, SourceType } from '../types/index.js';
+
+/**
+ * Rescan of rows that are already stored
+ * Rows were ingested under older detection rules, or by Edge Function syncs
+ * that never call processForGDPR. The rescan streams them through the current
+ * detector and, with apply, redacts them in place.
+ */
+
+// Rows per keyset page; documents rows carry full chunk text
+const RESCAN_PAGE_SIZE = 200;
+
+const REDACTED = '[REDACTED]';
+
+type Row = Record<string, unknown> & { id: string };
+
+interface RescanTableSpec {
+  /** Text columns scanned and redacted */
+  fields: string[];
+  /** JSON columns in which detected values are replaced with [REDACTED] */
+  jsonFields?: string[];
+  /** Other columns the rescan needs */
+  columns: string[];
+  sourceType: (row: Row) => SourceType;
+  /** Whether the row was already classified as containing PII */
+  flagged?: (row: Row) => boolean;
+  /** Text to re-embed after redaction (null: row has no embedding) */
+  embedText?: (row: Row) => string | null;
+  /** Clear the embedding after redaction; a sync/embed job regenerates it */
+  clearEmbedding?: boolean;
+  /** Clear the embedding of a related row (e.g. the conversation of a message) */
+  clearRelatedEmbedding?: { table: string; foreignKey: string };
+}
+
+const RESCAN_TABLES: Record<PIIRescanTable, RescanTableSpec> = {
+  documents: {
+    fields: ['title', 'content'],
+    columns: ['source_type', 'source_path', 'sensitivity', 'access_level', 'chunk_role', 'section_path'],
+    sourceType: (row) => row.source_type as SourceType,
+    flagged: (row) => !!row.sensitivity && row.sensitivity !== 'None',
+    embedText: (row) => {
+      if (row.chunk_role === 'parent') return null;
+      const content = String(row.content ?? '');
+      return row.section_path ? `${row.section_path}\n\n${content}` : content;
+    },
+  },
+  slack_messages: {
+    fields: ['text'],
+    jsonFields: ['raw'],
+    columns: [],
+    sourceType: () => 'slack',
+    clearEmbedding: true,
+  },
+  training_messages: {
+    fields: ['subject', 'content'],
+    columns: ['conversation_id'],
+    sourceType: () => 'hubspot',
+    clearRelatedEmbedding: { table: 'training_conversations', foreignKey: 'conversation_id' },
+  },
+};
+
+export const PII_RESCAN_TABLES = Object.keys(RESCAN_TABLES) as PIIRescanTable[];
+
+export interface PIIRescanOptions {
+  tables?: PIIRescanTable[];
+  /** Only documents with this source_type */
+  sourceType?: SourceType;
+  /** Stop each table after this many rows */
+  limit?: number;
+  /** Redact rows with PII in place and re-embed them */
+  apply?: boolean;
+  /** Called after every page */
+  onProgress?: (table: PIIRescanTable, scanned: number) => void;
+}
+
+/**
+ * Stream stored rows through detectPII and report PII per table and source type
+ * Detection runs in redact mode so the report matches what apply would change.
+ * With apply, changed text is written back, embeddings are regenerated (or
+ * cleared for the sync jobs), documents are reclassified and get a PII_RESCAN
+ * audit entry.
+ */
+export async function rescanStoredPII(options: PIIRescanOptions = {}): Promise<PIIRescanStats[]> {
+  const stats = new Map<string, PIIRescanStats>();
+
+  for (const table of options.tables ?? PII_RESCAN_TABLES) {
+    const spec = RESCAN_TABLES[table];
+    const relatedIds = new Set<string>();
+    let scanned = 0;
+
+    for await (const rows of streamRows(table, spec, options)) {
+      for (const row of rows) {
+        const sourceType = spec.sourceType(row);
+        const key = `${table}:${sourceType}`;
+        let entry = stats.get(key);
+        if (!entry) {
+          entry = emptyStats(table, sourceType);
+          stats.set(key, entry);
+        }
+
+        await rescanRow(table, spec, row, entry, options, relatedIds);
+      }
+
+      scanned += rows.length;
+      options.onProgress?.(table, scanned);
+    }
+
+    if (spec.clearRelatedEmbedding && relatedIds.size > 0) {
+      const cleared = await clearEmbeddings(spec.clearRelatedEmbedding.table, [...relatedIds]);
+      logger.info('Cleared related embeddings after PII redaction', {
+        table: spec.clearRelatedEmbedding.table,
+        cleared,
+      });
+    }
+  }
+
+  const results = [...stats.values()];
+  logger.info(options.apply ? 'PII rescan applied' : 'PII rescan completed', {
+    scanned: results.reduce((sum, s) => sum + s.scanned, 0),
+    newlyDetected: results.reduce((sum, s) => sum + s.newlyDetected, 0),
+    redacted: results.reduce((sum, s) => sum + s.redacted, 0),
+  });
+
+  return results;
+}
+
+async function rescanRow(
+  table: PIIRescanTable,
+  spec: RescanTableSpec,
+  row: Row,
+  stats: PIIRescanStats,
+  options: PIIRescanOptions,
+  relatedIds: Set<string>,
+): Promise<void> {
+  stats.scanned++;
+
+  const update: Record<string, unknown> = {};
+  const piiTypes = new Set<string>();
+  const findings: PIIEntityFinding[] = [];
+  const values = new Set<string>();
+
+  for (const field of spec.fields) {
+    const value = row[field];
+    if (typeof value !== 'string' || value.length === 0) continue;
+
+    const result = await detectPII(value, { sourceType: stats.sourceType, mode: 'redact' });
+    if (!result.hasPII) continue;
+
+    result.piiTypes.forEach((type) => piiTypes.add(type));
+    for (const entity of result.entities) {
+      findings.push({ type: entity.type, detector: entity.detector ?? 'pattern', start: entity.start, end: entity.end });
+      values.add(entity.value);
+    }
+    update[field] = result.redactedContent;
+  }
+
+  if (Object.keys(update).length === 0) return;
+
+  stats.withPII++;
+  piiTypes.forEach((type) => (stats.piiTypes[type] = (stats.piiTypes[type] || 0) + 1));
+  findings.forEach(({ detector }) => (stats.detectors[detector] = (stats.detectors[detector] || 0) + 1));
+  if (!spec.flagged?.(row)) {
+    stats.newlyDetected++;
+    stats.rowIds.push(row.id);
+  }
+
+  if (!options.apply) return;
+
+  // Raw payloads repeat the text; replace the values the detectors found
+  for (const field of spec.jsonFields ?? []) {
+    if (row[field] === null || row[field] === undefined) continue;
+    const serialized = JSON.stringify(row[field]);
+    let redacted = serialized;
+    for (const value of values) {
+      redacted = redacted.split(JSON.stringify(value).slice(1, -1)).join(REDACTED);
+    }
+    if (redacted !== serialized) update[field] = JSON.parse(redacted);
+  }
+
+  let sensitivity: Sensitivity | undefined;
+  let accessLevel: AccessLevel | undefined;
+  if (table === 'documents') {
+    sensitivity = determineSensitivity(true, [...piiTypes]);
+    accessLevel = upgradeAccessLevelForPII((row.access_level as AccessLevel) ?? 'internal', sensitivity);
+    // Keep an existing GDPR classification
+    if (row.sensitivity !== 'GDPR') update.sensitivity = sensitivity;
+    update.access_level = accessLevel;
+  }
+
+  const embedText = spec.embedText?.({ ...row, ...update });
+  if (embedText) {
+    const { embedding } = await generateEmbedding(embedText);
+    update.embedding = `[${embedding.join(',')}]`;
+    stats.reembedded++;
+  } else if (spec.clearEmbedding) {
+    update.embedding = null;
+    stats.embeddingsCleared++;
+  }
+
+  await updateRow(table, row.id, update);
+  stats.redacted++;
+
+  if (spec.clearRelatedEmbedding) {
+    const relatedId = row[spec.clearRelatedEmbedding.foreignKey];
+    if (typeof relatedId === 'string') relatedIds.add(relatedId);
+  }
+
+  if (table === 'documents') {
+    const entry: AuditLogEntry = {
+      timestamp: new Date(),
+      action: 'PII_RESCAN',
+      documentTitle: String(row.title ?? 'Unknown'),
+      piiFound: true,
+      piiTypes: [...piiTypes],
+      piiEntities: findings,
+      sensitivityLevel: (update.sensitivity as Sensitivity | undefined) ?? (row.sensitivity as Sensitivity),
+      accessLevelRequested: (row.access_level as AccessLevel) ?? 'internal',
+      accessLevelAssigned: accessLevel!,
+      redactionApplied: true,
+      sourceType: stats.sourceType,
+      sourcePath: (row.source_path as string | null) ?? undefined,
+    };
+    await persistAuditLog(entry, [row.id]);
+  }
+}
+
+function emptyStats(table: PIIRescanTable, sourceType: SourceType): PIIRescanStats {
+  return {
+    table,
+    sourceType,
+    scanned: 0,
+    withPII: 0,
+    newlyDetected: 0,
+    piiTypes: {},
+    detectors: {},
+    rowIds: [],
+    redacted: 0,
+    reembedded: 0,
+    embeddingsCleared: 0,
+  };
+}
+
+// ============================================================================
+// ROW ACCESS
+// ============================================================================
+
+/**
+ * Pages of rows in id order (keyset pagination, so updates during the scan
+ * don't shift pages)
+ */
+async function* streamRows(
+  table: PIIRescanTable,
+  spec: RescanTableSpec,
+  options: PIIRescanOptions,
+): AsyncGenerator<Row[]> {
+  const client = getSupabaseClient();
+  const columns = [...new Set(['id', ...spec.fields, ...(spec.jsonFields ?? []), ...spec.columns])];
+  let lastId: string | null = null;
+  let fetched = 0;
+
+  while (options.limit === undefined || fetched < options.limit) {
+    const pageSize = Math.min(RESCAN_PAGE_SIZE, (options.limit ?? Infinity) - fetched);
+    let query = client.from(table).select(columns.join(', ')).order('id', { ascending: true }).limit(pageSize);
+    if (lastId) query = query.gt('id', lastId);
+    if (table === 'documents' && options.sourceType) query = query.eq('source_type', options.sourceType);
+
+    const { data, error } = await query;
+    if (error) {
+      throw new DatabaseError(`Failed to read ${table} rows: ${error.message}`, { table, after: lastId });
+    }
+
+    const rows = (data ?? []) as unknown as Row[];
+    if (rows.length === 0) return;
+
+    yield rows;
+    fetched += rows.length;
+    lastId = rows[rows.length - 1].id;
+    if (rows.length < pageSize) return;
+  }
+}
+
+async function updateRow(table: PIIRescanTable, id: string, update: Record<string, unknown>): Promise<void> {
+  const client = getSupabaseClient();
+  const { error } = await client.from(table).update(update).eq('id', id);
+  if (error) {
+    throw new DatabaseError(`Failed to redact ${table} row: ${error.message}`, { table, id });
+  }
+}
+
+async function clearEmbeddings(table: string, ids: string[]): Promise<number> {
+  const client = getSupabaseClient();
+  let cleared = 0;
+  for (let i = 0; i < ids.length; i += RESCAN_PAGE_SIZE) {
+    const { data, error } = await client
+      .from(table)
+      .update({ embedding: null })
+      .in('id', ids.slice(i, i + RESCAN_PAGE_SIZE))
+      .select('id');
+    if (error) {
+      throw new DatabaseError(`Failed to clear ${table} embeddings: ${error.message}`, { table });
+    }
+    cleared += data?.length ?? 0;
+  }
+  return cleared;
+}
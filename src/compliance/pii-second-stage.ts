@@ -0,0 +1,249 @@
+import OpenAI from 'openai';
+import { ComplianceError } from '../utils/error-handler.js';
+import { getConfig } from '../utils/config.js';
+import type { PIIEntity, PIISecondStageSettings, SourceType } from '../types/index.js';
+
+/**
+ * Second-stage PII detection for free-text names and street addresses.
+ * redact-pii's name detector only knows English names, so Norwegian/Swedish
+ * names and addresses in ticket bodies pass the pattern stage. This stage runs
+ * after it (see detectPII) on texts above a length/risk threshold.
+ */
+
+export interface PIISecondStageDetector {
+  /** Recorded per entity in the audit log, e.g. llm:gpt-4o-mini */
+  readonly name: string;
+  detect(content: string): Promise<PIIEntity[]>;
+}
+
+// Keep prompts bounded; long texts are scanned in overlapping windows
+const LLM_WINDOW_CHARS = 12000;
+const LLM_WINDOW_OVERLAP = 200;
+
+const LLM_SYSTEM_PROMPT = `You find personal data in support tickets, emails and notes written in Norwegian, Swedish, Danish, German or English.
+List every person name (first and/or last name of a private person) and every street address (street, house number and optionally postcode/city).
+Do not list company names, product names, place names without a street, or email addresses.
+Copy each item exactly as it appears in the text.
+Reply with JSON: {"entities": [{"type": "name" | "address", "text": "<exact text>"}]}`;
+
+/**
+ * Chat model prompt; returned strings are located in the text to get offsets
+ */
+export class LLMPIIDetector implements PIISecondStageDetector {
+  readonly name: string;
+
+  constructor(
+    private readonly client: OpenAI,
+    private readonly model: string,
+  ) {
+    this.name = `llm:${model}`;
+  }
+
+  async detect(content: string): Promise<PIIEntity[]> {
+    const entities: PIIEntity[] = [];
+
+    for (let offset = 0; offset < content.length; offset += LLM_WINDOW_CHARS - LLM_WINDOW_OVERLAP) {
+      const window = content.slice(offset, offset + LLM_WINDOW_CHARS);
+      const found = await this.detectWindow(window);
+
+      for (const { type, text } of found) {
+        for (const start of occurrences(window, text)) {
+          entities.push({
+            type,
+            value: text,
+            start: offset + start,
+            end: offset + start + text.length,
+            detector: this.name,
+          });
+        }
+      }
+
+      if (offset + LLM_WINDOW_CHARS >= content.length) break;
+    }
+
+    return entities;
+  }
+
+  private async detectWindow(text: string): Promise<Array<{ type: string; text: string }>> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      temperature: 0,
+      response_format: { type: 'json_object' },
+      messages: [
+        { role: 'system', content: LLM_SYSTEM_PROMPT },
+        { role: 'user', content: text },
+      ],
+    });
+
+    const parsed = JSON.parse(response.choices[0]?.message?.content ?? '{}');
+    const items = Array.isArray(parsed.entities) ? parsed.entities : [];
+
+    return items.filter(
+      (item: unknown): item is { type: string; text: string } =>
+        typeof item === 'object' &&
+        item !== null &&
+        ((item as { type?: unknown }).type === 'name' || (item as { type?: unknown }).type === 'address') &&
+        typeof (item as { text?: unknown }).text === 'string' &&
+        (item as { text: string }).text.trim().length > 1
+    );
+  }
+}
+
+// ============================================================================
+// LOCAL STAND-IN
+// ============================================================================
+
+const UPPER = '\\p{Lu}';
+const WORD = `${UPPER}[\\p{Ll}'’]+`;
+// Surnames: Nordmann, Hansen-Berg, von Müller
+const SURNAME = `(?:(?:von|van|de|af|zu) )?${WORD}(?:-${WORD})?`;
+
+// Common first names in the markets we operate in (and English), lowercased
+const FIRST_NAMES = new Set([
+  // Norwegian / Danish
+  'ole', 'ola', 'kari', 'lars', 'per', 'jan', 'knut', 'bjørn', 'arne', 'svein', 'geir', 'terje', 'hans', 'nils',
+  'anne', 'inger', 'ingrid', 'liv', 'marit', 'hilde', 'silje', 'ingvild', 'kristin', 'randi', 'tone', 'mette',
+  'jens', 'søren', 'niels', 'mads', 'rasmus', 'henrik', 'morten', 'jesper', 'frederik', 'mikkel', 'kasper',
+  'lone', 'hanne', 'pia', 'camilla', 'sofie', 'ida', 'emma', 'nora', 'maja', 'thea', 'sara', 'martin', 'thomas',
+  'andreas', 'espen', 'eirik', 'even', 'håkon', 'sindre', 'magnus', 'jonas', 'kristian', 'stian', 'øyvind', 'jørgen',
+  // Swedish
+  'anders', 'johan', 'erik', 'karl', 'lennart', 'mikael', 'stefan', 'fredrik', 'mattias', 'björn', 'gustav', 'oskar',
+  'maria', 'anna', 'eva', 'karin', 'kristina', 'lena', 'sofia', 'elin', 'linnea', 'ebba', 'elsa', 'astrid', 'märta',
+  // German
+  'jürgen', 'klaus', 'wolfgang', 'michael', 'stefanie', 'andrea', 'sabine', 'ursula', 'petra', 'monika', 'uwe',
+  'dieter', 'günter', 'helmut', 'markus', 'tobias', 'lukas', 'jan-erik', 'katharina', 'julia', 'lena', 'jana',
+  // English
+  'john', 'james', 'david', 'robert', 'william', 'mary', 'sarah', 'emily', 'jessica', 'daniel', 'peter', 'paul',
+]);
+
+// Keywords match at sentence start or mid-line; names must stay capitalized, so no 'i' flag
+function keywords(words: string[]): string {
+  return words.map((w) => `[${w[0].toUpperCase()}${w[0]}]${w.slice(1)}`).join('|');
+}
+
+// "Mvh" / "Med vennlig hilsen" / "Mit freundlichen Grüßen" followed by the sender's name
+const SIGN_OFF = new RegExp(
+  `(?<![\\p{L}])(?:${keywords([
+    'mvh', 'med vennlig hilsen', 'vennlig hilsen', 'hilsen', 'med venlig hilsen', 'venlig hilsen',
+    'med vänliga hälsningar', 'vänliga hälsningar', 'hälsningar', 'mit freundlichen Grüßen', 'viele Grüße',
+    'beste Grüße', 'best regards', 'kind regards', 'regards',
+  ])})[,.]?[ \\t]*\\r?\\n?[ \\t]*(${WORD}(?: ${SURNAME}){0,2})`,
+  'gu'
+);
+
+// "Hei Kari," / "Hej Anna!" / "Liebe Frau Müller,"
+const GREETING = new RegExp(
+  `(?<![\\p{L}])(?:${keywords(['hei', 'hej', 'hallo', 'hi', 'hello', 'dear', 'kjære', 'kære', 'liebe', 'lieber', 'sehr geehrte', 'sehr geehrter'])})[ \\t]+(?:(?:Frau|Herr|Mr\\.?|Mrs\\.?|Ms\\.?) )?(${WORD}(?: ${SURNAME})?)[ \\t]*[,!]`,
+  'gu'
+);
+
+// "Kari Nordmann", "Jan-Erik Hansen-Berg": a known first name followed by a capitalized word
+const FIRST_LAST = new RegExp(`(?<![\\p{L}])(${WORD}(?:-${WORD})?)(?: ${WORD})? (${SURNAME})(?![\\p{L}])`, 'gu');
+
+const STREET_SUFFIX =
+  'gata|gatan|gate|gaten|veien|vei|vegen|veg|vägen|väg|vej|vejen|gade|straße|strasse|str\\.|allé|allee|plass|plads|torg|torget|stien|gränd|weg|bakken';
+// "Storgata 12B, 0155 Oslo", "Karl Johans gate 5", "Hauptstraße 3, 10115 Berlin"
+const STREET_ADDRESS = new RegExp(
+  `(?<![\\p{L}])(?:${WORD} ){0,2}(?:${WORD}(?:${STREET_SUFFIX})|(?:${STREET_SUFFIX})) \\d{1,4} ?[A-Za-z]?(?:, ?(?:(?:NO|SE|DK|DE|S|N|D)-)?\\d{3} ?\\d{1,2} ${WORD})?(?![\\p{L}\\p{N}])`,
+  'gu'
+);
+
+/**
+ * Offline stand-in for an NER model: first-name lexicon, greetings, sign-offs
+ * and street-suffix patterns. Lower recall than the llm provider, but it needs
+ * no network access.
+ */
+export class LocalNERDetector implements PIISecondStageDetector {
+  readonly name = 'local-ner';
+
+  async detect(content: string): Promise<PIIEntity[]> {
+    const entities: PIIEntity[] = [];
+    const add = (type: string, value: string, start: number) =>
+      entities.push({ type, value, start, end: start + value.length, detector: this.name });
+
+    for (const pattern of [SIGN_OFF, GREETING]) {
+      for (const match of content.matchAll(pattern)) {
+        add('name', match[1], match.index! + match[0].length - match[1].length - trailingLength(match[0], match[1]));
+      }
+    }
+
+    // Not matchAll: after a capitalized non-name ("Takk Ole Nordmann") retry from the next word
+    const firstLast = new RegExp(FIRST_LAST);
+    for (let match = firstLast.exec(content); match; match = firstLast.exec(content)) {
+      const first = match[1].toLowerCase();
+      if (FIRST_NAMES.has(first) || first.split('-').every((part) => FIRST_NAMES.has(part))) {
+        add('name', match[0], match.index);
+      } else {
+        firstLast.lastIndex = match.index + match[1].length;
+      }
+    }
+
+    for (const match of content.matchAll(STREET_ADDRESS)) {
+      add('address', match[0], match.index!);
+    }
+
+    return entities;
+  }
+}
+
+// Characters after the captured group in a match (e.g. the "," of a greeting)
+function trailingLength(match: string, group: string): number {
+  return match.length - (match.lastIndexOf(group) + group.length);
+}
+
+function occurrences(text: string, search: string): number[] {
+  const positions: number[] = [];
+  for (let i = text.indexOf(search); i !== -1; i = text.indexOf(search, i + search.length)) {
+    positions.push(i);
+  }
+  return positions;
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+/**
+ * Create the detector selected by piiDetection.secondStage.provider
+ */
+export function createSecondStageDetector(settings: PIISecondStageSettings): PIISecondStageDetector {
+  switch (settings.provider) {
+    case 'llm': {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new ComplianceError('Missing OpenAI API key for the llm PII detector. Set OPENAI_API_KEY.');
+      }
+      return new LLMPIIDetector(new OpenAI({ apiKey }), settings.model ?? 'gpt-4o-mini');
+    }
+    case 'local':
+      return new LocalNERDetector();
+    default:
+      throw new ComplianceError(`Unknown PII second-stage provider: ${String(settings.provider)}`);
+  }
+}
+
+let detector: PIISecondStageDetector | null = null;
+
+/**
+ * The configured second-stage detector (created once per process), or null when disabled
+ */
+export function getSecondStageDetector(): PIISecondStageDetector | null {
+  const settings = getConfig().compliance.piiDetection.secondStage;
+  if (!settings?.enabled) return null;
+  if (!detector) detector = createSecondStageDetector(settings);
+  return detector;
+}
+
+/**
+ * Length/risk threshold: long enough, and from a risk source or already known to contain PII
+ */
+export function shouldRunSecondStage(
+  content: string,
+  options: { sourceType?: SourceType; patternMatches: number },
+): boolean {
+  const settings = getConfig().compliance.piiDetection.secondStage;
+  if (!settings?.enabled || content.length < settings.minLength) return false;
+
+  const riskSource = !!options.sourceType && (settings.riskSources ?? []).includes(options.sourceType);
+  return riskSource || options.patternMatches > 0;
+}
@@ -0,0 +1,110 @@
+import { getSupabaseClient } from '../database/supabase-client.js';
+import { logger } from '../utils/logger.js';
+import { ComplianceError, DatabaseError } from '../utils/error-handler.js';
+import { hashApiKey } from './access-control.js';
+import type { PIIPseudonym } from '../types/index.js';
+
+// Keep upsert payloads small
+const VAULT_UPSERT_BATCH_SIZE = 500;
+
+export interface RevealPIIOptions {
+  /** Who is asking (user id, email or service name), written to the access log */
+  requestedBy: string;
+  /**
+   * Caller's key from volterra_kb.api_clients; the client's clearance is the
+   * reveal role, so only restricted/confidential clients may reveal
+   */
+  apiKey: string;
+  reason?: string;
+}
+
+/**
+ * Store the original values behind pseudonym tokens for inserted rows
+ * Each row only gets the tokens that actually appear in its content, so a
+ * chunk can never reveal values from another chunk of the same document.
+ */
+export async function storePseudonyms(
+  rows: Array<{ documentId: string; content: string }>,
+  pseudonyms: PIIPseudonym[],
+): Promise<number> {
+  if (pseudonyms.length === 0 || rows.length === 0) return 0;
+
+  const vaultRows = rows.flatMap((row) =>
+    pseudonyms
+      .filter((p) => row.content.includes(p.token))
+      .map((p) => ({
+        document_id: row.documentId,
+        token: p.token,
+        pii_type: p.type,
+        value: p.value,
+      }))
+  );
+
+  const client = getSupabaseClient();
+  for (let i = 0; i < vaultRows.length; i += VAULT_UPSERT_BATCH_SIZE) {
+    const { error } = await client
+      .from('pii_vault')
+      .upsert(vaultRows.slice(i, i + VAULT_UPSERT_BATCH_SIZE), {
+        onConflict: 'document_id,token',
+      });
+
+    if (error) {
+      throw new DatabaseError(`Failed to store PII pseudonyms: ${error.message}`, {
+        count: vaultRows.length,
+      });
+    }
+  }
+
+  logger.debug('Stored PII pseudonyms', { rows: rows.length, entries: vaultRows.length });
+  return vaultRows.length;
+}
+
+/**
+ * Reveal the original value behind a pseudonym token
+ * Every attempt is written to pii_vault_access_log, including denials.
+ */
+export async function revealPII(
+  documentId: string,
+  token: string,
+  options: RevealPIIOptions,
+): Promise<string> {
+  const client = getSupabaseClient();
+  const { data, error } = await client.rpc('reveal_pii', {
+    p_document_id: documentId,
+    p_token: token,
+    p_requested_by: options.requestedBy,
+    p_key_hash: hashApiKey(options.apiKey),
+    p_reason: options.reason ?? null,
+  });
+
+  if (error) {
+    throw new DatabaseError(`Failed to reveal PII: ${error.message}`, { documentId, token });
+  }
+
+  const [result] = (data ?? []) as Array<{
+    granted: boolean;
+    value: string | null;
+    denial_reason: string | null;
+  }>;
+
+  if (!result?.granted || result.value === null) {
+    logger.warn('PII reveal denied', {
+      documentId,
+      token,
+      requestedBy: options.requestedBy,
+      reason: result?.denial_reason,
+    });
+    throw new ComplianceError(`PII reveal denied: ${result?.denial_reason ?? 'unknown reason'}`, {
+      documentId,
+      token,
+    });
+  }
+
+  logger.info('PII revealed', {
+    documentId,
+    token,
+    requestedBy: options.requestedBy,
+  });
+
+  return result.value;
+}
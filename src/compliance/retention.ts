@@ -0,0 +1,192 @@
+import { getSupabaseClient } from '../database/supabase-client.js';
+import { getConfig } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { ComplianceError, DatabaseError } from '../utils/error-handler.js';
+import type { RetentionPurgeResult, RetentionRule, RetentionTable } from '../types/index.js';
+
+/**
+ * Retention rules from config/default.json are applied by
+ * volterra_kb.apply_retention_rules, which the retention-purge Edge Function
+ * runs daily. Rules have to be synced to the database before they take effect.
+ */
+
+const RETENTION_TABLES: RetentionTable[] = ['documents', 'slack_messages', 'slack_threads', 'training_conversations'];
+
+interface PurgeLogRow {
+  run_id: string;
+  rule_name: string;
+  table_name: RetentionTable;
+  dry_run: boolean;
+  cutoff: string;
+  row_count: number;
+  oldest_at: string | null;
+  newest_at: string | null;
+  row_ids: string[];
+  created_at: string;
+}
+
+export interface RetentionRun {
+  runId: string;
+  dryRun: boolean;
+  startedAt: string;
+  results: Array<RetentionPurgeResult & { rowIds: string[] }>;
+}
+
+export function getRetentionRules(): RetentionRule[] {
+  return getConfig().compliance.retention?.rules ?? [];
+}
+
+function validateRule(rule: RetentionRule): void {
+  if (!rule.name) {
+    throw new ComplianceError('Retention rule without a name', { rule });
+  }
+  if (!RETENTION_TABLES.includes(rule.table)) {
+    throw new ComplianceError(`Retention rule ${rule.name}: unsupported table ${rule.table}`, { rule });
+  }
+  if (!Number.isInteger(rule.retainMonths) || rule.retainMonths <= 0) {
+    throw new ComplianceError(`Retention rule ${rule.name}: retainMonths must be a positive integer`, { rule });
+  }
+}
+
+/**
+ * Write the configured rules to volterra_kb.retention_rules
+ * Rules that are no longer configured are disabled, not deleted, so their purge
+ * history keeps pointing at a rule definition.
+ */
+export async function syncRetentionRules(
+  rules: RetentionRule[] = getRetentionRules()
+): Promise<{ synced: number; disabled: string[] }> {
+  rules.forEach(validateRule);
+
+  const client = getSupabaseClient();
+  const now = new Date().toISOString();
+
+  if (rules.length > 0) {
+    const { error } = await client.from('retention_rules').upsert(
+      rules.map((rule) => ({
+        name: rule.name,
+        table_name: rule.table,
+        filters: rule.filters ?? {},
+        retain_months: rule.retainMonths,
+        enabled: rule.enabled ?? true,
+        updated_at: now,
+      })),
+      { onConflict: 'name' }
+    );
+
+    if (error) {
+      throw new DatabaseError(`Failed to sync retention rules: ${error.message}`, { count: rules.length });
+    }
+  }
+
+  const { data: existing, error: readError } = await client
+    .from('retention_rules')
+    .select('name')
+    .eq('enabled', true);
+
+  if (readError) {
+    throw new DatabaseError(`Failed to read retention rules: ${readError.message}`, {});
+  }
+
+  const configured = new Set(rules.map((r) => r.name));
+  const disabled = ((existing ?? []) as Array<{ name: string }>)
+    .map((row) => row.name)
+    .filter((name) => !configured.has(name));
+
+  if (disabled.length > 0) {
+    const { error } = await client
+      .from('retention_rules')
+      .update({ enabled: false, updated_at: now })
+      .in('name', disabled);
+
+    if (error) {
+      throw new DatabaseError(`Failed to disable retention rules: ${error.message}`, { disabled });
+    }
+  }
+
+  logger.info('Retention rules synced', { synced: rules.length, disabled });
+  return { synced: rules.length, disabled };
+}
+
+/**
+ * Run all enabled rules. Dry runs only count and log the expired rows.
+ */
+export async function applyRetentionRules(dryRun: boolean): Promise<RetentionPurgeResult[]> {
+  const client = getSupabaseClient();
+  const { data, error } = await client.rpc('apply_retention_rules', { p_dry_run: dryRun });
+
+  if (error) {
+    throw new DatabaseError(`Retention purge failed: ${error.message}`, { dryRun });
+  }
+
+  const results = ((data ?? []) as Array<Omit<PurgeLogRow, 'row_ids' | 'created_at'>>).map((row) => ({
+    runId: row.run_id,
+    ruleName: row.rule_name,
+    table: row.table_name,
+    cutoff: row.cutoff,
+    rowCount: row.row_count,
+    oldestAt: row.oldest_at,
+    newestAt: row.newest_at,
+    dryRun: row.dry_run,
+  }));
+
+  logger.info(dryRun ? 'Retention dry run completed' : 'Retention purge completed', {
+    runId: results[0]?.runId,
+    rows: results.reduce((sum, r) => sum + r.rowCount, 0),
+  });
+
+  return results;
+}
+
+/**
+ * Purge log of one run, or of the latest run when no ID is given
+ */
+export async function getRetentionRun(runId?: string): Promise<RetentionRun | null> {
+  const client = getSupabaseClient();
+
+  let id = runId;
+  if (!id) {
+    const { data, error } = await client
+      .from('retention_purge_log')
+      .select('run_id')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new DatabaseError(`Failed to read retention purge log: ${error.message}`, {});
+    }
+    if (!data) return null;
+    id = (data as { run_id: string }).run_id;
+  }
+
+  const { data, error } = await client
+    .from('retention_purge_log')
+    .select('*')
+    .eq('run_id', id)
+    .order('rule_name', { ascending: true });
+
+  if (error) {
+    throw new DatabaseError(`Failed to read retention purge log: ${error.message}`, { runId: id });
+  }
+
+  const rows = (data ?? []) as PurgeLogRow[];
+  if (rows.length === 0) return null;
+
+  return {
+    runId: id,
+    dryRun: rows[0].dry_run,
+    startedAt: rows.reduce((min, r) => (r.created_at < min ? r.created_at : min), rows[0].created_at),
+    results: rows.map((row) => ({
+      runId: row.run_id,
+      ruleName: row.rule_name,
+      table: row.table_name,
+      cutoff: row.cutoff,
+      rowCount: row.row_count,
+      oldestAt: row.oldest_at,
+      newestAt: row.newest_at,
+      dryRun: row.dry_run,
+      rowIds: row.row_ids ?? [],
+    })),
+  };
+}
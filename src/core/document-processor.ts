@@ -1,21 +1,60 @@
-import { parseDocument } from '../parsers/index.js';
-import { generateEmbedding } from './embedding-service.js';
+import { createHash, randomUUID } from 'crypto';
+import { canParse, parseDocument } from '../parsers/index.js';
+import { generateEmbedding, generateEmbeddingsBatchSettled, getEmbeddingModel } from './embedding-service.js';
 import { inferMetadata } from './metadata-inference.js';
-import { processForGDPR, type AuditLogEntry } from '../compliance/index.js';
-import { insertDocument, insertDocumentsBatch, documentExists, documentExistsBySourcePath } from '../database/supabase-client.js';
+import {
+  ACCESS_LEVELS,
+  persistAuditLog,
+  processForGDPR,
+  storePseudonyms,
+  type AuditLogEntry,
+  type GDPRComplianceResult,
+} from '../compliance/index.js';
+import {
+  insertDocument,
+  insertDocumentsBatch,
+  documentExists,
+  documentExistsBySourcePath,
+  getSourceDocumentState,
+  replaceSourceDocuments,
+} from '../database/supabase-client.js';
 import { processBatch, createBatchResult } from '../utils/batch-processor.js';
 import { logger } from '../utils/logger.js';
 import { getConfig } from '../utils/config.js';
-import { DocumentIngestionError } from '../utils/error-handler.js';
-import { chunkText, shouldChunk } from '../utils/text-chunker.js';
+import { DocumentIngestionError, EmbeddingError } from '../utils/error-handler.js';
+import { chunkText, chunkTextHierarchical, formatBreadcrumb, shouldChunk } from '../utils/text-chunker.js';
 import type { 
+  AttachmentParent,
   DocumentMetadata, 
   DocumentRecord, 
   IngestionOptions, 
   BatchResult,
+  ChangeDetectionMode,
+  ChunkRole,
+  ContentLocation,
+  ParsedAttachment,
+  PIIPseudonym,
+  Sensitivity,
   SourceDocument,
 } from '../types/index.js';
 
+// Hierarchical children are small retrieval chunks; parents carry the section context
+const DEFAULT_CHILD_CHUNK_SIZE = 800;
+const DEFAULT_PARENT_CHUNK_SIZE = 4000;
+
+// Email > zip > embedded workbook is as deep as real documents go
+const DEFAULT_MAX_ATTACHMENT_DEPTH = 3;
+const SENSITIVITY_ORDER: Sensitivity[] = ['None', 'PII', 'GDPR'];
+
+// Replaces the newline before each content location so boundaries survive redaction
+const LOCATION_MARKER = '\uE000';
+
+export const CHANGE_DETECTION_MODES: ChangeDetectionMode[] = ['source_path', 'content_hash'];
+
+export function isChangeDetectionMode(value: unknown): value is ChangeDetectionMode {
+  return typeof value === 'string' && CHANGE_DETECTION_MODES.includes(value as ChangeDetectionMode);
+}
+
 export interface ProcessingResult {
   success: boolean;
   documentId?: string;
@@ -24,8 +63,12 @@ export interface ProcessingResult {
   title: string;
   /** Number of chunks created (1 if not chunked) */
   chunkCount?: number;
+  /** Chunks skipped because their embedding failed */
+  failedChunks?: number;
   error?: string;
   auditLog?: AuditLogEntry;
+  /** Attachments and embedded files ingested as child documents */
+  attachments?: ProcessingResult[];
 }
 
 /**
@@ -42,8 +85,41 @@ export async function processDocument(
   logger.info('Processing document', { filename, options });
 
   try {
+    // Hash of the source bytes, stored on every row for change detection
+    const contentHash = options.sourcePath ? computeContentHash(buffer) : undefined;
+    const useContentHash = options.changeDetection === 'content_hash' && !!options.sourcePath;
+    if (options.changeDetection === 'content_hash' && !options.sourcePath) {
+      logger.warn('content_hash change detection needs a source path; document is inserted as new', { filename });
+    }
+    // Set when the source was ingested before and its content changed
+    let replaceExisting = false;
+
     // 0. Early source_path deduplication check (cheap, avoids re-embedding)
-    if (!options.dryRun && options.sourcePath) {
+    if (!options.dryRun && options.sourcePath && useContentHash) {
+      const state = await getSourceDocumentState(options.sourcePath);
+
+      if (state && state.contentHash === contentHash && !options.forceReembed) {
+        logger.info('Document unchanged (content hash matches)', {
+          sourcePath: options.sourcePath,
+          chunkCount: state.chunkCount,
+        });
+        return {
+          success: true,
+          title: filename,
+          chunkCount: 0,
+          error: 'Unchanged since last ingestion (skipped)',
+        };
+      }
+
+      if (state) {
+        replaceExisting = true;
+        logger.info('Document changed, re-ingesting', {
+          sourcePath: options.sourcePath,
+          previousHash: state.contentHash,
+          previousChunkCount: state.chunkCount,
+        });
+      }
+    } else if (!options.dryRun && options.sourcePath) {
       // Check both base source_path (non-chunked docs) and #chunk1 (chunked docs)
       // This handles the case where a doc may or may not have been chunked based on size
       const baseExists = await documentExistsBySourcePath(options.sourcePath);
@@ -75,43 +151,76 @@ export async function processDocument(
       );
     }
 
+    // Tags from the file itself (Markdown front-matter) add to the source's tags
+    if (parseResult.metadata.tags?.length) {
+      options = {
+        ...options,
+        tags: Array.from(new Set([...(options.tags || []), ...parseResult.metadata.tags])),
+      };
+    }
+
     // 2. Process for GDPR compliance (PII detection)
-    const gdprResult = processForGDPR(parseResult.content, {
+    const gdprResult = await processForGDPR(markLocations(parseResult.content, parseResult.locations), {
       ...parseResult.metadata,
+      sourceType: options.sourceType ?? parseResult.metadata.sourceType,
+      sourcePath: options.sourcePath ?? parseResult.metadata.sourcePath,
       title: options.documentType ? `${options.documentType}: ${parseResult.metadata.title}` : parseResult.metadata.title,
     });
 
+    // Attachments are never classified below the document they came from
+    if (options.parentDocument) {
+      inheritParentClassification(gdprResult, options.parentDocument);
+    }
+
     // Use processed content (possibly redacted)
+    const located = resolveLocations(gdprResult.content, parseResult.locations, filename);
+    gdprResult.content = located.content;
     const processedContent = gdprResult.content;
 
     // 3. Infer metadata
     const inferredMetadata = inferMetadata(processedContent, {
       ...parseResult.metadata,
-      department: options.department,
+      department: options.department || parseResult.metadata.department,
       documentType: options.documentType,
       accessLevel: options.accessLevel,
     });
 
     const baseTitle = parseResult.metadata.title || filename;
+    const attachmentParent: AttachmentParent = {
+      title: baseTitle,
+      sourcePath: options.sourcePath,
+      accessLevel: gdprResult.accessLevel,
+      sensitivity: gdprResult.sensitivity,
+    };
 
     // 4. Check if chunking is needed/enabled
-    logger.debug('Checking chunking', { contentLength: processedContent.length, maxChunkSize: options.maxChunkSize || 2000 });
+    const maxChunkSize = options.maxChunkSize
+      || (options.chunkingStrategy === 'hierarchical' ? DEFAULT_CHILD_CHUNK_SIZE : 2000);
+    logger.debug('Checking chunking', {
+      contentLength: processedContent.length,
+      maxChunkSize,
+      maxChunkTokens: options.maxChunkTokens,
+      strategy: options.chunkingStrategy ?? 'flat',
+    });
     const shouldUseChunking = options.enableChunking && 
-      shouldChunk(processedContent, options.maxChunkSize || 2000);
+      shouldChunk(processedContent, maxChunkSize, options.maxChunkTokens);
 
     logger.debug('Chunking decision', { shouldUseChunking, contentLength: processedContent.length });
 
     if (shouldUseChunking) {
       // Process with chunking
       logger.debug('Starting chunked processing');
-      return await processDocumentWithChunking(
+      const chunkedResult = await processDocumentWithChunking(
         processedContent,
         baseTitle,
-        inferredMetadata,
+        { ...inferredMetadata, mimeType: parseResult.metadata.mimeType },
         gdprResult,
         options,
-        startTime
+        startTime,
+        { contentHash, replaceExisting },
+        located.locations
       );
+      return await processAttachments(chunkedResult, parseResult.attachments, attachmentParent, options);
     }
 
     // 5. Generate embedding (non-chunked path)
@@ -121,6 +230,7 @@ export async function processDocument(
     const documentRecord: DocumentRecord = {
       content: processedContent,
       embedding,
+      embedding_model: getEmbeddingModel(),
       department: inferredMetadata.department,
       document_type: inferredMetadata.documentType,
       title: baseTitle,
@@ -131,10 +241,13 @@ export async function processDocument(
       language: inferredMetadata.language,
       source_type: options.sourceType,
       source_path: options.sourcePath,
+      mime_type: parseResult.metadata.mimeType,
+      content_hash: contentHash,
     };
 
     // 7. Check for duplicates (optional, can be skipped for performance)
-    if (!options.dryRun && !options.skipDuplicateCheck) {
+    // A changed source replaces its own rows, so the check would only find the old version
+    if (!options.dryRun && !options.skipDuplicateCheck && !replaceExisting) {
       const exists = await documentExists(documentRecord.title, documentRecord.content);
       if (exists) {
         logger.warn('Duplicate document detected', { title: documentRecord.title });
@@ -149,10 +262,18 @@ export async function processDocument(
 
     // 8. Insert into database
     let documentId: string | undefined;
-    if (!options.dryRun) {
+    if (!options.dryRun && useContentHash) {
+      // Replace (or create) the row set so stale #chunkN rows from a previous chunked version are removed
+      [documentId] = await replaceSourceDocuments(options.sourcePath!, [documentRecord]);
+    } else if (!options.dryRun) {
       documentId = await insertDocument(documentRecord);
     }
 
+    if (documentId) {
+      await storePseudonyms([{ documentId, content: processedContent }], gdprResult.pseudonyms);
+      await persistAuditLog(gdprResult.auditLog, [documentId]);
+    }
+
     const duration = Date.now() - startTime;
     logger.info('Document processed successfully', {
       documentId,
@@ -164,13 +285,18 @@ export async function processDocument(
       durationMs: duration,
     });
 
-    return {
-      success: true,
-      documentId,
-      title: documentRecord.title,
-      chunkCount: 1,
-      auditLog: gdprResult.auditLog,
-    };
+    return await processAttachments(
+      {
+        success: true,
+        documentId,
+        title: documentRecord.title,
+        chunkCount: 1,
+        auditLog: gdprResult.auditLog,
+      },
+      parseResult.attachments,
+      attachmentParent,
+      options
+    );
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     logger.error('Document processing failed', { filename, error: errorMessage });
@@ -184,40 +310,153 @@ export async function processDocument(
 }
 
 /**
- * Process a document with chunking for better RAG retrieval
+ * Ingest attachments and embedded files as child documents
+ * Each child is linked by source_path (<parent>#attachment/<name>) and keeps
+ * the parent's options; a failed child is logged and does not fail the parent.
+ * Stored children are deleted with their parent (delete_orphaned_attachments trigger),
+ * so attachments of a parent without a source path are skipped: they could not be linked.
  */
-async function processDocumentWithChunking(
+async function processAttachments(
+  result: ProcessingResult,
+  attachments: ParsedAttachment[] | undefined,
+  parent: AttachmentParent,
+  options: IngestionOptions
+): Promise<ProcessingResult> {
+  if (!attachments || attachments.length === 0) return result;
+
+  const depth = options.maxAttachmentDepth ?? DEFAULT_MAX_ATTACHMENT_DEPTH;
+  if (depth <= 0) {
+    logger.info('Attachment depth limit reached, attachments skipped', {
+      title: parent.title,
+      attachmentCount: attachments.length,
+    });
+    return result;
+  }
+  if (!parent.sourcePath && !options.dryRun) {
+    logger.warn('Parent document has no source path, attachments skipped', {
+      title: parent.title,
+      attachmentCount: attachments.length,
+    });
+    return result;
+  }
+
+  const tags = options.tags?.includes('attachment') ? options.tags : [...(options.tags || []), 'attachment'];
+  const usedNames = new Set<string>();
+  const results: ProcessingResult[] = [];
+
+  for (const attachment of attachments) {
+    if (!canParse(attachment.mimeType, attachment.filename)) {
+      logger.debug('No parser for attachment, skipped', {
+        parent: parent.title,
+        filename: attachment.filename,
+        mimeType: attachment.mimeType,
+      });
+      continue;
+    }
+
+    const name = uniqueAttachmentName(attachment.filename, usedNames);
+    results.push(
+      await processDocument(
+        attachment.content,
+        attachment.filename,
+        {
+          ...options,
+          tags,
+          sourcePath: parent.sourcePath ? `${parent.sourcePath}#attachment/${name}` : undefined,
+          maxAttachmentDepth: depth - 1,
+          parentDocument: parent,
+        },
+        attachment.mimeType
+      )
+    );
+  }
+
+  const failed = results.filter((child) => !child.success);
+  if (results.length > 0) {
+    logger.info('Attachments processed', {
+      title: parent.title,
+      processed: results.length,
+      failed: failed.length,
+      skipped: attachments.length - results.length,
+    });
+  }
+  if (failed.length > 0) {
+    logger.warn('Some attachments failed to ingest', {
+      title: parent.title,
+      failures: failed.map((child) => ({ title: child.title, error: child.error })),
+    });
+  }
+
+  return { ...result, attachments: results };
+}
+
+/**
+ * Attachment name unique within its parent (two "image001.png" become image001-2.png)
+ */
+function uniqueAttachmentName(filename: string, usedNames: Set<string>): string {
+  const base = filename.replace(/#/g, '_') || 'attachment';
+  let name = base;
+  for (let n = 2; usedNames.has(name.toLowerCase()); n++) {
+    name = base.replace(/(\.[^./]+)?$/, `-${n}$1`);
+  }
+  usedNames.add(name.toLowerCase());
+  return name;
+}
+
+/**
+ * Raise a child's access level and sensitivity to at least its parent's
+ */
+function inheritParentClassification(gdprResult: GDPRComplianceResult, parent: AttachmentParent): void {
+  if (ACCESS_LEVELS.indexOf(parent.accessLevel) > ACCESS_LEVELS.indexOf(gdprResult.accessLevel)) {
+    gdprResult.accessLevel = parent.accessLevel;
+  }
+  if (SENSITIVITY_ORDER.indexOf(parent.sensitivity) > SENSITIVITY_ORDER.indexOf(gdprResult.sensitivity)) {
+    gdprResult.sensitivity = parent.sensitivity;
+  }
+  gdprResult.auditLog.accessLevelAssigned = gdprResult.accessLevel;
+  gdprResult.auditLog.sensitivityLevel = gdprResult.sensitivity;
+}
+
+/**
+ * A chunk row before embedding
+ */
+interface PlannedChunk {
+  /**
+   * Client-generated id, so children can reference their parent in the same insert
+   * and inserted rows are matched to their chunk by id rather than by RETURNING order
+   */
+  id: string;
+  content: string;
+  title: string;
+  tags: string[];
+  /** Appended to the base source_path, e.g. #chunk3 */
+  sourcePathSuffix: string;
+  parentId?: string;
+  chunkRole?: ChunkRole;
+  sectionPath?: string;
+  /** Text sent to the embedding model; unset for parent chunks, which are not embedded */
+  embedText?: string;
+}
+
+/**
+ * Header/Q&A/sliding-window chunks, each embedded on its own
+ */
+function planFlatChunks(
   content: string,
   baseTitle: string,
-  inferredMetadata: { department: string; documentType: string; language?: string },
-  gdprResult: { accessLevel: string; sensitivity?: string; auditLog?: AuditLogEntry },
   options: IngestionOptions,
-  startTime: number
-): Promise<ProcessingResult> {
-  logger.debug('Chunking text', { contentLength: content.length, title: baseTitle });
-  
+  locations?: ContentLocation[]
+): PlannedChunk[] {
   const chunks = chunkText(content, {
     maxChunkSize: options.maxChunkSize || 2000,
     overlap: options.chunkOverlap || 100,
+    maxChunkTokens: options.maxChunkTokens,
+    overlapTokens: options.chunkOverlapTokens,
     splitByHeaders: true,
     preserveQA: true,
   });
 
-  logger.debug('Chunking complete', { chunkCount: chunks.length });
-  
-  logger.info('Document chunked', { 
-    title: baseTitle, 
-    chunkCount: chunks.length,
-    avgChunkSize: Math.round(content.length / chunks.length),
-  });
-
-  // Generate embeddings for all chunks
-  const documentRecords: DocumentRecord[] = [];
-  
-  for (let i = 0; i < chunks.length; i++) {
-    const chunk = chunks[i];
-    const { embedding } = await generateEmbedding(chunk.content);
-    
+  return chunks.map((chunk, i) => {
     // Create chunk title with section info
     let chunkTitle = baseTitle;
     if (chunks.length > 1) {
@@ -228,50 +467,303 @@ async function processDocumentWithChunking(
       }
     }
 
-    documentRecords.push({
+    return {
+      id: randomUUID(),
       content: chunk.content,
-      embedding,
-      department: inferredMetadata.department,
-      document_type: inferredMetadata.documentType,
       title: chunkTitle,
-      owner: options.owner,
-      access_level: gdprResult.accessLevel as any,
       tags: [
         ...(options.tags || []),
         `chunk:${i + 1}/${chunks.length}`,
         ...(chunk.metadata.isQA ? ['qa'] : []),
+        ...locationTags(locations, chunk.metadata.startChar, chunk.metadata.endChar),
+      ],
+      sourcePathSuffix: `#chunk${i + 1}`,
+      embedText: chunk.content,
+    };
+  });
+}
+
+/**
+ * Parent chunks (stored for context) followed by embedded child chunks
+ * Children are embedded with their breadcrumb so sub-sections keep their parent context.
+ */
+function planHierarchicalChunks(
+  content: string,
+  baseTitle: string,
+  options: IngestionOptions,
+  locations?: ContentLocation[]
+): PlannedChunk[] {
+  const { parents, children } = chunkTextHierarchical(content, {
+    maxParentSize: options.maxParentChunkSize || DEFAULT_PARENT_CHUNK_SIZE,
+    maxChildSize: options.maxChunkSize || DEFAULT_CHILD_CHUNK_SIZE,
+    overlap: options.chunkOverlap || 100,
+    maxParentTokens: options.maxParentChunkTokens,
+    maxChildTokens: options.maxChunkTokens,
+    overlapTokens: options.chunkOverlapTokens,
+  });
+
+  const chunkTitle = (section: string | undefined, label: string, i: number, total: number) =>
+    section ? `${baseTitle} - ${section}` : `${baseTitle} (${label} ${i + 1}/${total})`;
+
+  const parentIds = parents.map(() => randomUUID());
+
+  const plannedParents: PlannedChunk[] = parents.map((parent, i) => ({
+    id: parentIds[i],
+    content: parent.content,
+    title: chunkTitle(parent.metadata.section, 'Section', i, parents.length),
+    tags: [
+      ...(options.tags || []),
+      `parent:${i + 1}/${parents.length}`,
+      ...locationTags(locations, parent.metadata.startChar, parent.metadata.endChar),
+    ],
+    sourcePathSuffix: `#parent${i + 1}`,
+    chunkRole: 'parent',
+    sectionPath: formatBreadcrumb(parent.metadata.breadcrumb) || undefined,
+  }));
+
+  const plannedChildren: PlannedChunk[] = children.map((child, i) => {
+    const sectionPath = formatBreadcrumb(child.metadata.breadcrumb) || undefined;
+    return {
+      id: randomUUID(),
+      content: child.content,
+      title: chunkTitle(child.metadata.section, 'Part', i, children.length),
+      tags: [
+        ...(options.tags || []),
+        `chunk:${i + 1}/${children.length}`,
+        ...locationTags(locations, child.metadata.startChar, child.metadata.endChar),
       ],
+      sourcePathSuffix: `#chunk${i + 1}`,
+      parentId: parentIds[child.metadata.parentIndex!],
+      chunkRole: 'child',
+      sectionPath,
+      embedText: sectionPath ? `${sectionPath}\n\n${child.content}` : child.content,
+    };
+  });
+
+  return [...plannedParents, ...plannedChildren];
+}
+
+/**
+ * Process a document with chunking for better RAG retrieval
+ */
+async function processDocumentWithChunking(
+  content: string,
+  baseTitle: string,
+  inferredMetadata: { department: string; documentType: string; language?: string; mimeType?: string },
+  gdprResult: { accessLevel: string; sensitivity?: string; auditLog?: AuditLogEntry; pseudonyms: PIIPseudonym[] },
+  options: IngestionOptions,
+  startTime: number,
+  changeState: { contentHash?: string; replaceExisting: boolean },
+  locations?: ContentLocation[]
+): Promise<ProcessingResult> {
+  logger.debug('Chunking text', {
+    contentLength: content.length,
+    title: baseTitle,
+    strategy: options.chunkingStrategy ?? 'flat',
+  });
+  
+  const chunks = options.chunkingStrategy === 'hierarchical'
+    ? planHierarchicalChunks(content, baseTitle, options, locations)
+    : planFlatChunks(content, baseTitle, options, locations);
+  const embeddable = chunks.filter((chunk) => chunk.embedText !== undefined);
+
+  logger.debug('Chunking complete', { chunkCount: chunks.length });
+  
+  logger.info('Document chunked', { 
+    title: baseTitle, 
+    chunkCount: embeddable.length,
+    parentCount: chunks.length - embeddable.length,
+    avgChunkSize: Math.round(content.length / Math.max(embeddable.length, 1)),
+  });
+
+  // Generate embeddings for all chunks in batched requests
+  // Failed chunks are isolated: they are skipped instead of failing the document
+  const { results: embeddingResults, failedCount } = await generateEmbeddingsBatchSettled(
+    embeddable.map((chunk) => chunk.embedText!)
+  );
+
+  if (failedCount === embeddable.length) {
+    throw new EmbeddingError('Failed to generate embeddings for all chunks', {
+      title: baseTitle,
+      chunkCount: embeddable.length,
+      firstError: embeddingResults[0]?.error,
+    });
+  }
+
+  if (failedCount > 0) {
+    logger.warn('Some chunks failed to embed and were skipped', {
+      title: baseTitle,
+      failedChunks: embeddingResults
+        .map((result, i) => (result.error ? { chunk: i + 1, error: result.error } : null))
+        .filter(Boolean),
+    });
+  }
+
+  const embeddings = new Map(embeddable.map((chunk, i) => [chunk, embeddingResults[i].embedding]));
+  const documentRecords: DocumentRecord[] = [];
+  
+  for (const chunk of chunks) {
+    const embedding = chunk.embedText !== undefined ? embeddings.get(chunk) : null;
+    if (embedding === undefined) continue;
+
+    documentRecords.push({
+      id: chunk.id,
+      content: chunk.content,
+      embedding,
+      embedding_model: embedding ? getEmbeddingModel() : undefined,
+      department: inferredMetadata.department,
+      document_type: inferredMetadata.documentType,
+      title: chunk.title,
+      owner: options.owner,
+      access_level: gdprResult.accessLevel as any,
+      tags: chunk.tags,
       sensitivity: gdprResult.sensitivity as any,
       language: inferredMetadata.language,
       source_type: options.sourceType,
-      source_path: options.sourcePath ? `${options.sourcePath}#chunk${i + 1}` : undefined,
+      source_path: options.sourcePath ? `${options.sourcePath}${chunk.sourcePathSuffix}` : undefined,
+      mime_type: inferredMetadata.mimeType,
+      // Leave the hash unset on partial success so the next content_hash run retries the document
+      content_hash: failedCount === 0 ? changeState.contentHash : undefined,
+      parent_id: chunk.parentId,
+      chunk_role: chunk.chunkRole,
+      section_path: chunk.sectionPath,
     });
   }
 
-  // Insert all chunks
-  let documentIds: string[] = [];
+  // Insert all chunks (content_hash mode swaps the whole chunk set atomically)
+  // Parents precede their children in the list
+  let storedRecords: DocumentRecord[] = [];
   if (!options.dryRun) {
-    documentIds = await insertDocumentsBatch(documentRecords);
+    if (options.changeDetection === 'content_hash' && options.sourcePath) {
+      await replaceSourceDocuments(options.sourcePath, documentRecords);
+    } else {
+      await insertDocumentsBatch(documentRecords);
+    }
+    storedRecords = documentRecords;
   }
+  const documentIds = storedRecords.map((record) => record.id!);
+
+  await storePseudonyms(
+    storedRecords.map((record) => ({ documentId: record.id!, content: record.content })),
+    gdprResult.pseudonyms
+  );
+  if (documentIds.length > 0 && gdprResult.auditLog) {
+    await persistAuditLog(gdprResult.auditLog, documentIds);
+  }
+
+  // Report the retrieval chunks; parent rows are context only
+  const chunkIds = storedRecords
+    .filter((record) => record.chunk_role !== 'parent')
+    .map((record) => record.id!);
 
   const duration = Date.now() - startTime;
   logger.info('Chunked document processed successfully', {
     title: baseTitle,
-    chunkCount: chunks.length,
-    documentIds: documentIds.slice(0, 3), // Log first 3 IDs
+    chunkCount: embeddable.length,
+    failedChunks: failedCount,
+    documentIds: chunkIds.slice(0, 3), // Log first 3 IDs
+    replacedExisting: changeState.replaceExisting,
     durationMs: duration,
   });
 
   return {
     success: true,
-    documentId: documentIds[0], // Primary chunk ID
-    documentIds,
+    documentId: chunkIds[0], // Primary chunk ID
+    documentIds: chunkIds,
     title: baseTitle,
-    chunkCount: chunks.length,
+    chunkCount: embeddable.length - failedCount,
+    failedChunks: failedCount,
     auditLog: gdprResult.auditLog,
   };
 }
 
+/**
+ * Mark location boundaries in the text sent to PII processing
+ * Same length as the input, so PII offsets are unaffected.
+ */
+function markLocations(content: string, locations?: ContentLocation[]): string {
+  if (!locations || locations.length < 2) return content;
+  const chars = content.split('');
+  for (const location of locations.slice(1)) {
+    if (chars[location.start - 1] !== '\n') return content;
+    chars[location.start - 1] = LOCATION_MARKER;
+  }
+  return chars.join('');
+}
+
+/**
+ * Strip the boundary markers and recompute location offsets in the processed text
+ * Locations are dropped if redaction removed a marker.
+ */
+function resolveLocations(
+  content: string,
+  locations: ContentLocation[] | undefined,
+  filename: string
+): { content: string; locations?: ContentLocation[] } {
+  if (!locations || locations.length === 0) return { content };
+  if (locations.length === 1) return { content, locations: [{ ...locations[0], start: 0, end: content.length }] };
+
+  const markers: number[] = [];
+  for (let i = content.indexOf(LOCATION_MARKER); i >= 0; i = content.indexOf(LOCATION_MARKER, i + 1)) {
+    markers.push(i);
+  }
+  const stripped = content.split(LOCATION_MARKER).join('\n');
+
+  if (markers.length !== locations.length - 1) {
+    logger.warn('Content locations lost during processing, chunks are not tagged with them', {
+      filename,
+      expected: locations.length - 1,
+      found: markers.length,
+    });
+    return { content: stripped };
+  }
+
+  const starts = [0, ...markers.map((i) => i + 1)];
+  return {
+    content: stripped,
+    locations: locations.map((location, i) => ({
+      ...location,
+      start: starts[i],
+      end: i + 1 < starts.length ? starts[i + 1] - 1 : stripped.length,
+    })),
+  };
+}
+
+/**
+ * Tags for the locations a chunk overlaps: page:7, sheet:Prices, rows:Prices!2-40
+ */
+function locationTags(locations: ContentLocation[] | undefined, start: number, end: number): string[] {
+  if (!locations) return [];
+  const tags = new Set<string>();
+  const rowRanges = new Map<string, { from: number; to: number }>();
+
+  for (const location of locations) {
+    if (location.start >= end || location.end <= start) continue;
+    if (location.page !== undefined) tags.add(`page:${location.page}`);
+    if (location.sheet !== undefined) tags.add(`sheet:${location.sheet}`);
+    if (location.rowStart !== undefined) {
+      const key = location.sheet ?? '';
+      const range = rowRanges.get(key);
+      rowRanges.set(key, {
+        from: Math.min(range?.from ?? location.rowStart, location.rowStart),
+        to: Math.max(range?.to ?? 0, location.rowEnd ?? location.rowStart),
+      });
+    }
+  }
+
+  rowRanges.forEach(({ from, to }, sheet) => {
+    tags.add(`rows:${sheet ? `${sheet}!` : ''}${from}-${to}`);
+  });
+  return [...tags];
+}
+
+/**
+ * Compute the change-detection hash of a source document's raw bytes
+ */
+function computeContentHash(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex');
+}
+
 /**
  * Process multiple documents in batch
  */
@@ -424,7 +916,7 @@ export async function validateDocument(
     }
 
     // Check for PII
-    const gdprResult = processForGDPR(parseResult.content, parseResult.metadata);
+    const gdprResult = await processForGDPR(parseResult.content, parseResult.metadata);
     if (gdprResult.piiDetected) {
       issues.push(`PII detected: ${gdprResult.piiTypes.join(', ')}`);
     }
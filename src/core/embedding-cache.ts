@@ -0,0 +1,126 @@
+import { createHash } from "crypto";
+import { getSupabaseClient } from "../database/supabase-client.js";
+import { logger } from "../utils/logger.js";
+import { getConfig } from "../utils/config.js";
+import type { EmbeddingProvider } from "./embedding-providers.js";
+
+// Keep lookup URLs/payloads small
+const CACHE_LOOKUP_BATCH_SIZE = 100;
+
+export interface EmbeddingCacheStats {
+  hits: number;
+  misses: number;
+}
+
+// Process-wide counters, reported in CLI summaries
+const stats: EmbeddingCacheStats = { hits: 0, misses: 0 };
+
+/**
+ * SHA-256 of the exact text sent to the provider
+ */
+export function hashEmbeddingText(text: string): string {
+  return createHash("sha256").update(text, "utf8").digest("hex");
+}
+
+/**
+ * Whether vectors from this provider should be read from / written to the cache
+ * Fake vectors are free and must never be served for a real model name.
+ */
+export function isEmbeddingCacheEnabled(provider: EmbeddingProvider): boolean {
+  return getConfig().embedding.cache?.enabled !== false && provider.type !== "fake";
+}
+
+/**
+ * Look up cached embeddings for already-prepared texts
+ * Returns vectors keyed by text hash; lookup failures are treated as misses.
+ * Only vectors of the requested size are returned (one model can produce several).
+ */
+export async function getCachedEmbeddings(
+  model: string,
+  dimensions: number,
+  texts: string[],
+): Promise<Map<string, number[]>> {
+  const found = new Map<string, number[]>();
+  const hashes = [...new Set(texts.map(hashEmbeddingText))];
+
+  try {
+    const client = getSupabaseClient();
+
+    for (let i = 0; i < hashes.length; i += CACHE_LOOKUP_BATCH_SIZE) {
+      const { data, error } = await client.rpc("get_cached_embeddings", {
+        p_model: model,
+        p_dimensions: dimensions,
+        p_text_hashes: hashes.slice(i, i + CACHE_LOOKUP_BATCH_SIZE),
+      });
+
+      if (error) throw new Error(error.message);
+
+      for (const row of (data ?? []) as Array<{ text_hash: string; embedding: string }>) {
+        found.set(row.text_hash, JSON.parse(row.embedding) as number[]);
+      }
+    }
+  } catch (error) {
+    logger.warn("Embedding cache lookup failed, embedding without cache", {
+      error: error instanceof Error ? error.message : String(error),
+      model,
+      dimensions,
+    });
+  }
+
+  return found;
+}
+
+/**
+ * Store freshly generated embeddings; failures are logged, never thrown
+ */
+export async function storeCachedEmbeddings(
+  model: string,
+  entries: Array<{ text: string; embedding: number[] }>,
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  const rows = new Map(
+    entries.map((entry) => {
+      const textHash = hashEmbeddingText(entry.text);
+      return [
+        textHash,
+        {
+          model,
+          text_hash: textHash,
+          embedding: `[${entry.embedding.join(",")}]`,
+          dimensions: entry.embedding.length,
+        },
+      ];
+    }),
+  );
+
+  try {
+    const client = getSupabaseClient();
+    const { error } = await client
+      .from("embedding_cache")
+      .upsert([...rows.values()], {
+        onConflict: "model,dimensions,text_hash",
+        ignoreDuplicates: true,
+      });
+
+    if (error) throw new Error(error.message);
+  } catch (error) {
+    logger.warn("Failed to store embeddings in cache", {
+      error: error instanceof Error ? error.message : String(error),
+      model,
+      count: rows.size,
+    });
+  }
+}
+
+export function recordEmbeddingCacheResult(hits: number, misses: number): void {
+  stats.hits += hits;
+  stats.misses += misses;
+}
+
+/**
+ * Cache hits/misses since process start
+ */
+export function getEmbeddingCacheStats(): EmbeddingCacheStats {
+  return { ...stats };
+}
@@ -0,0 +1,547 @@
+import { getSupabaseClient } from "../database/supabase-client.js";
+import { logger } from "../utils/logger.js";
+import { DatabaseError, EmbeddingError } from "../utils/error-handler.js";
+import { getConfig } from "../utils/config.js";
+import {
+  createEmbeddingProvider,
+  type EmbeddingProvider,
+} from "./embedding-providers.js";
+import { generateEmbeddingsBatchSettled } from "./embedding-service.js";
+import type {
+  EmbeddingMigration,
+  EmbeddingMigrationCoverage,
+  EmbeddingMigrationTable,
+} from "../types/index.js";
+
+/**
+ * Columns holding the text that was embedded, per table
+ * training_conversations has no such column; its text is rebuilt by RPC.
+ */
+const EMBEDDING_TEXT_COLUMNS: Record<EmbeddingMigrationTable, string | null> = {
+  documents: "content, section_path, chunk_role",
+  training_conversations: null,
+  slack_messages: "text",
+  wod_deals: "embedding_content",
+  wod_project_document_chunks: "content",
+};
+
+export const EMBEDDING_MIGRATION_TABLES = Object.keys(
+  EMBEDDING_TEXT_COLUMNS,
+) as EmbeddingMigrationTable[];
+
+export interface StartEmbeddingMigrationOptions {
+  targetModel: string;
+  targetDimensions: number;
+  tables?: EmbeddingMigrationTable[];
+}
+
+export interface EmbeddingMigrationProgress {
+  table: EmbeddingMigrationTable;
+  processedRows: number;
+  failedRows: number;
+  cursorId: string | null;
+}
+
+export interface RunEmbeddingMigrationOptions {
+  /** Rows fetched and embedded per batch (default: config.embedding.batchSize) */
+  batchSize?: number;
+  /** Stop after this many batches; progress is saved so the next run resumes */
+  maxBatches?: number;
+  onProgress?: (progress: EmbeddingMigrationProgress) => void;
+}
+
+export interface RunEmbeddingMigrationResult {
+  processedRows: number;
+  failedRows: number;
+  /** Rows with no text to embed; their live vector was removed */
+  clearedRows: number;
+  tokenUsage: number;
+  coverage: EmbeddingMigrationCoverage[];
+  /** True when every table reached 100% coverage */
+  complete: boolean;
+}
+
+interface RowText {
+  id: string;
+  /** Text the live vector was produced from (null if it could not be rebuilt) */
+  text: string | null;
+}
+
+/**
+ * Get the model the live embedding columns are currently produced with
+ */
+export async function getActiveEmbeddingModel(): Promise<string> {
+  const client = getSupabaseClient();
+  const { data, error } = await client.rpc("active_embedding_model");
+
+  if (error) {
+    throw new DatabaseError(
+      `Failed to get active embedding model: ${error.message}`,
+    );
+  }
+
+  return String(data);
+}
+
+/**
+ * Get the migration that is currently running or awaiting flip, if any
+ */
+export async function getActiveEmbeddingMigration(): Promise<EmbeddingMigration | null> {
+  const client = getSupabaseClient();
+  const { data, error } = await client
+    .from("embedding_migrations")
+    .select("*")
+    .in("status", ["running", "completed"])
+    .maybeSingle();
+
+  if (error) {
+    throw new DatabaseError(
+      `Failed to get active embedding migration: ${error.message}`,
+    );
+  }
+
+  return (data as EmbeddingMigration | null) ?? null;
+}
+
+/**
+ * Register a new embedding model migration
+ * Only one migration can be active at a time (enforced by a unique index).
+ */
+export async function startEmbeddingMigration(
+  options: StartEmbeddingMigrationOptions,
+): Promise<EmbeddingMigration> {
+  const client = getSupabaseClient();
+  const sourceModel = await getActiveEmbeddingModel();
+  const tables = options.tables ?? EMBEDDING_MIGRATION_TABLES;
+
+  if (sourceModel === options.targetModel) {
+    throw new EmbeddingError(
+      `Embedding model ${options.targetModel} is already active`,
+      { targetModel: options.targetModel },
+    );
+  }
+
+  const unknownTables = tables.filter(
+    (t) => !EMBEDDING_MIGRATION_TABLES.includes(t),
+  );
+  if (unknownTables.length > 0) {
+    throw new EmbeddingError(
+      `Unsupported tables for embedding migration: ${unknownTables.join(", ")}`,
+    );
+  }
+
+  const { data, error } = await client
+    .from("embedding_migrations")
+    .insert({
+      source_model: sourceModel,
+      target_model: options.targetModel,
+      target_dimensions: options.targetDimensions,
+      tables,
+    })
+    .select("*")
+    .single();
+
+  if (error) {
+    throw new DatabaseError(
+      `Failed to start embedding migration: ${error.message}`,
+      { targetModel: options.targetModel },
+    );
+  }
+
+  logger.info("Embedding migration started", {
+    id: data.id,
+    sourceModel,
+    targetModel: options.targetModel,
+    targetDimensions: options.targetDimensions,
+    tables,
+  });
+
+  return data as EmbeddingMigration;
+}
+
+/**
+ * Per-table count of live vs. re-embedded rows
+ */
+export async function getEmbeddingMigrationCoverage(
+  migrationId: string,
+): Promise<EmbeddingMigrationCoverage[]> {
+  const client = getSupabaseClient();
+  const { data, error } = await client.rpc("get_embedding_migration_coverage", {
+    p_migration_id: migrationId,
+  });
+
+  if (error) {
+    throw new DatabaseError(
+      `Failed to get embedding migration coverage: ${error.message}`,
+      { migrationId },
+    );
+  }
+
+  return ((data ?? []) as EmbeddingMigrationCoverage[]).map((row) => ({
+    table_name: row.table_name,
+    total_rows: Number(row.total_rows),
+    migrated_rows: Number(row.migrated_rows),
+  }));
+}
+
+/**
+ * Get saved per-table progress of the re-embed job
+ */
+export async function getEmbeddingMigrationProgress(
+  migrationId: string,
+): Promise<EmbeddingMigrationProgress[]> {
+  const client = getSupabaseClient();
+  const { data, error } = await client
+    .from("embedding_migration_progress")
+    .select("table_name, cursor_id, processed_rows, failed_rows")
+    .eq("migration_id", migrationId);
+
+  if (error) {
+    throw new DatabaseError(
+      `Failed to get embedding migration progress: ${error.message}`,
+      { migrationId },
+    );
+  }
+
+  return (data ?? []).map((row) => ({
+    table: row.table_name as EmbeddingMigrationTable,
+    cursorId: row.cursor_id,
+    processedRows: Number(row.processed_rows),
+    failedRows: Number(row.failed_rows),
+  }));
+}
+
+/**
+ * Re-embed rows into the shadow column in resumable batches
+ * - Rows are walked in id order; the cursor is saved after every batch
+ * - Rows already carrying a target-model shadow vector are skipped, so rows
+ *   written or changed during the migration are picked up on the next pass
+ * - Failed rows are counted and retried once more at the end of the pass
+ * - Rows with no text to embed lose their live vector instead: nothing can
+ *   be produced with the target model, and they would otherwise keep
+ *   coverage below 100%
+ */
+export async function runEmbeddingMigration(
+  migration: EmbeddingMigration,
+  options: RunEmbeddingMigrationOptions = {},
+): Promise<RunEmbeddingMigrationResult> {
+  if (migration.status !== "running" && migration.status !== "completed") {
+    throw new EmbeddingError(
+      `Embedding migration ${migration.id} is ${migration.status}`,
+      { migrationId: migration.id },
+    );
+  }
+
+  const config = getConfig();
+  const batchSize = options.batchSize ?? config.embedding.batchSize;
+  const provider = createEmbeddingProvider({
+    ...config.embedding,
+    model: migration.target_model,
+    dimensions: migration.target_dimensions,
+  });
+  // Shadow vectors are labelled with the target model, so they must come from it
+  if (provider.model !== migration.target_model) {
+    throw new EmbeddingError(
+      `Embedding provider ${provider.type} embeds with ${provider.model}, not ${migration.target_model}`,
+      { migrationId: migration.id, provider: provider.type },
+    );
+  }
+
+  const savedProgress = await getEmbeddingMigrationProgress(migration.id);
+  let batchesRun = 0;
+  let processedRows = 0;
+  let failedRows = 0;
+  let clearedRows = 0;
+  let tokenUsage = 0;
+
+  for (const table of migration.tables) {
+    const progress: EmbeddingMigrationProgress = savedProgress.find(
+      (p) => p.table === table,
+    ) ?? { table, cursorId: null, processedRows: 0, failedRows: 0 };
+    let restarted = false;
+
+    while (options.maxBatches === undefined || batchesRun < options.maxBatches) {
+      const rows = await fetchRowsToReembed(
+        table,
+        migration.target_model,
+        progress.cursorId,
+        batchSize,
+      );
+
+      if (rows.length === 0) {
+        // End of pass: start over once to retry failures and late arrivals
+        if (progress.cursorId !== null && !restarted) {
+          restarted = true;
+          progress.cursorId = null;
+          await saveProgress(migration.id, progress);
+          continue;
+        }
+        break;
+      }
+
+      const batch = await reembedBatch(migration, table, rows, provider);
+      batchesRun++;
+      processedRows += batch.succeeded;
+      failedRows += batch.failed;
+      clearedRows += batch.cleared;
+      tokenUsage += batch.tokenUsage;
+
+      progress.cursorId = rows[rows.length - 1].id;
+      progress.processedRows += batch.succeeded;
+      progress.failedRows += batch.failed;
+      await saveProgress(migration.id, progress);
+      options.onProgress?.({ ...progress });
+    }
+  }
+
+  const coverage = await getEmbeddingMigrationCoverage(migration.id);
+  const complete = coverage.every((c) => c.migrated_rows >= c.total_rows);
+
+  if (complete && migration.status === "running") {
+    await markMigrationCompleted(migration.id);
+  }
+
+  logger.info("Embedding migration run finished", {
+    migrationId: migration.id,
+    batchesRun,
+    processedRows,
+    failedRows,
+    clearedRows,
+    tokenUsage,
+    complete,
+  });
+
+  return { processedRows, failedRows, clearedRows, tokenUsage, coverage, complete };
+}
+
+/**
+ * Swap the shadow vectors into the live embedding columns
+ * The database refuses unless every table is at 100% coverage.
+ */
+export async function flipEmbeddingMigration(
+  migrationId: string,
+): Promise<Array<{ table_name: string; flipped_rows: number }>> {
+  const client = getSupabaseClient();
+  const { data, error } = await client.rpc("flip_embedding_migration", {
+    p_migration_id: migrationId,
+  });
+
+  if (error) {
+    throw new DatabaseError(
+      `Failed to flip embedding migration: ${error.message}`,
+      { migrationId },
+    );
+  }
+
+  logger.info("Embedding migration flipped", { migrationId });
+  return ((data ?? []) as Array<{ table_name: string; flipped_rows: number }>)
+    .map((row) => ({ ...row, flipped_rows: Number(row.flipped_rows) }));
+}
+
+/**
+ * Abandon a migration; stale shadow vectors are ignored by later migrations
+ */
+export async function cancelEmbeddingMigration(migrationId: string): Promise<void> {
+  const client = getSupabaseClient();
+  const { error } = await client
+    .from("embedding_migrations")
+    .update({ status: "cancelled", updated_at: new Date().toISOString() })
+    .eq("id", migrationId)
+    .in("status", ["running", "completed"]);
+
+  if (error) {
+    throw new DatabaseError(
+      `Failed to cancel embedding migration: ${error.message}`,
+      { migrationId },
+    );
+  }
+
+  logger.info("Embedding migration cancelled", { migrationId });
+}
+
+async function fetchRowsToReembed(
+  table: EmbeddingMigrationTable,
+  targetModel: string,
+  cursorId: string | null,
+  limit: number,
+): Promise<RowText[]> {
+  const client = getSupabaseClient();
+  const textColumn = EMBEDDING_TEXT_COLUMNS[table];
+
+  let query = client
+    .from(table)
+    .select(textColumn ? `id, ${textColumn}` : "id")
+    .not("embedding", "is", null)
+    .or(`embedding_next_model.is.null,embedding_next_model.neq."${targetModel}"`)
+    .order("id", { ascending: true })
+    .limit(limit);
+
+  if (cursorId) {
+    query = query.gt("id", cursorId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new DatabaseError(
+      `Failed to fetch rows to re-embed: ${error.message}`,
+      { table, cursorId },
+    );
+  }
+
+  const rows = (data ?? []) as unknown as Array<Record<string, unknown>>;
+
+  if (table === "documents") {
+    // Same text as ingestion: hierarchical children carry their breadcrumb.
+    // Parents have no vector and are never part of a migration.
+    return rows
+      .filter((row) => row.chunk_role !== "parent")
+      .map((row) => {
+        const content = String(row.content ?? "");
+        return {
+          id: String(row.id),
+          text: row.section_path ? `${row.section_path}\n\n${content}` : content,
+        };
+      });
+  }
+
+  if (textColumn) {
+    return rows.map((row) => ({
+      id: String(row.id),
+      text: String(row[textColumn] ?? ""),
+    }));
+  }
+
+  // training_conversations: rebuild the text the original embedding used
+  const texts: RowText[] = [];
+  for (const row of rows) {
+    const { data: text, error: textError } = await client.rpc(
+      "get_conversation_text_for_embedding",
+      { conv_id: row.id },
+    );
+    if (textError) {
+      logger.warn("Failed to build conversation text for re-embed", {
+        id: row.id,
+        error: textError.message,
+      });
+    }
+    texts.push({ id: String(row.id), text: textError ? null : String(text ?? "") });
+  }
+  return texts;
+}
+
+async function reembedBatch(
+  migration: EmbeddingMigration,
+  table: EmbeddingMigrationTable,
+  rows: RowText[],
+  provider: EmbeddingProvider,
+): Promise<{ succeeded: number; failed: number; cleared: number; tokenUsage: number }> {
+  const client = getSupabaseClient();
+  const blankIds = rows
+    .filter((row) => row.text !== null && !row.text.trim())
+    .map((row) => row.id);
+  const embeddable = rows.filter((row) => row.text?.trim());
+
+  const cleared = blankIds.length > 0 ? await clearEmbeddings(table, blankIds) : 0;
+  if (cleared > 0) {
+    logger.info("Removed live vectors of rows with no text to re-embed", {
+      migrationId: migration.id,
+      table,
+      count: cleared,
+    });
+  }
+
+  const { results, totalTokenUsage } = await generateEmbeddingsBatchSettled(
+    embeddable.map((row) => row.text ?? ""),
+    provider,
+  );
+
+  const shadowRows = embeddable.flatMap((row, i) => {
+    const embedding = results[i].embedding;
+    return embedding ? [{ id: row.id, embedding: `[${embedding.join(",")}]` }] : [];
+  });
+
+  let written = 0;
+  if (shadowRows.length > 0) {
+    const { data, error } = await client.rpc("set_shadow_embeddings", {
+      p_migration_id: migration.id,
+      p_table_name: table,
+      p_rows: shadowRows,
+    });
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to write shadow embeddings: ${error.message}`,
+        { migrationId: migration.id, table, count: shadowRows.length },
+      );
+    }
+    written = Number(data ?? 0);
+  }
+
+  return {
+    succeeded: written,
+    failed: rows.length - cleared - written,
+    cleared,
+    tokenUsage: totalTokenUsage,
+  };
+}
+
+async function clearEmbeddings(
+  table: EmbeddingMigrationTable,
+  ids: string[],
+): Promise<number> {
+  const client = getSupabaseClient();
+  const { data, error } = await client
+    .from(table)
+    .update({ embedding: null })
+    .in("id", ids)
+    .select("id");
+
+  if (error) {
+    throw new DatabaseError(
+      `Failed to clear ${table} embeddings: ${error.message}`,
+      { table, count: ids.length },
+    );
+  }
+
+  return data?.length ?? 0;
+}
+
+async function saveProgress(
+  migrationId: string,
+  progress: EmbeddingMigrationProgress,
+): Promise<void> {
+  const client = getSupabaseClient();
+  const { error } = await client.from("embedding_migration_progress").upsert({
+    migration_id: migrationId,
+    table_name: progress.table,
+    cursor_id: progress.cursorId,
+    processed_rows: progress.processedRows,
+    failed_rows: progress.failedRows,
+    updated_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    throw new DatabaseError(
+      `Failed to save embedding migration progress: ${error.message}`,
+      { migrationId, table: progress.table },
+    );
+  }
+}
+
+async function markMigrationCompleted(migrationId: string): Promise<void> {
+  const client = getSupabaseClient();
+  const now = new Date().toISOString();
+  const { error } = await client
+    .from("embedding_migrations")
+    .update({ status: "completed", completed_at: now, updated_at: now })
+    .eq("id", migrationId)
+    .eq("status", "running");
+
+  if (error) {
+    throw new DatabaseError(
+      `Failed to mark embedding migration completed: ${error.message}`,
+      { migrationId },
+    );
+  }
+}
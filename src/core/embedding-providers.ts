@@ -0,0 +1,222 @@
+import { createHash } from "crypto";
+import OpenAI, { AzureOpenAI } from "openai";
+import { EmbeddingError } from "../utils/error-handler.js";
+import { getConfig } from "../utils/config.js";
+import type { Config, EmbeddingProviderType } from "../types/index.js";
+
+export interface EmbeddingRequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface ProviderEmbeddingResult {
+  /** Embeddings aligned with the input texts */
+  embeddings: number[][];
+  tokenUsage: number;
+}
+
+/**
+ * A backend that turns texts into embedding vectors
+ * Implementations receive already-prepared text (see prepareTextForEmbedding)
+ */
+export interface EmbeddingProvider {
+  readonly type: EmbeddingProviderType;
+  readonly model: string;
+  readonly dimensions: number;
+  embed(
+    texts: string[],
+    options?: EmbeddingRequestOptions,
+  ): Promise<ProviderEmbeddingResult>;
+}
+
+/**
+ * Models that accept a reduced output size through the `dimensions` parameter;
+ * older models (text-embedding-ada-002) and most local servers reject it
+ */
+const DIMENSIONS_PARAMETER_MODELS = /^text-embedding-3-/;
+
+/**
+ * Shared implementation for every backend that speaks the OpenAI embeddings API
+ */
+abstract class OpenAIApiEmbeddingProvider implements EmbeddingProvider {
+  abstract readonly type: EmbeddingProviderType;
+
+  constructor(
+    protected readonly client: OpenAI,
+    readonly model: string,
+    readonly dimensions: number,
+  ) {}
+
+  async embed(
+    texts: string[],
+    options: EmbeddingRequestOptions = {},
+  ): Promise<ProviderEmbeddingResult> {
+    const response = await this.client.embeddings.create(
+      {
+        model: this.model,
+        input: texts,
+        encoding_format: "float",
+        ...(DIMENSIONS_PARAMETER_MODELS.test(this.model)
+          ? { dimensions: this.dimensions }
+          : {}),
+      },
+      { signal: options.signal },
+    );
+
+    // Map back by response index; the API does not guarantee ordering
+    const embeddings: number[][] = new Array(texts.length);
+    for (const d of response.data) {
+      // Vectors of another size would be stored under the wrong model/dimensions
+      if (d.embedding.length !== this.dimensions) {
+        throw new EmbeddingError(
+          `Model ${this.model} returned ${d.embedding.length}-dimensional embeddings, expected ${this.dimensions}`,
+          { model: this.model, dimensions: this.dimensions },
+        );
+      }
+      embeddings[d.index] = d.embedding;
+    }
+
+    return {
+      embeddings,
+      tokenUsage: response.usage?.total_tokens ?? 0,
+    };
+  }
+}
+
+export class OpenAIEmbeddingProvider extends OpenAIApiEmbeddingProvider {
+  readonly type = "openai" as const;
+}
+
+export class AzureOpenAIEmbeddingProvider extends OpenAIApiEmbeddingProvider {
+  readonly type = "azure-openai" as const;
+}
+
+/**
+ * Local or self-hosted server exposing an OpenAI-compatible /v1/embeddings
+ * endpoint (e.g. Ollama, vLLM, text-embeddings-inference)
+ */
+export class OpenAICompatibleEmbeddingProvider extends OpenAIApiEmbeddingProvider {
+  readonly type = "openai-compatible" as const;
+}
+
+/**
+ * Deterministic hash-based embeddings for tests and offline runs
+ * Identical text always yields the identical unit vector; no network access.
+ * Vectors carry no semantic meaning beyond exact-text equality, so they are
+ * stored under their own model id (fake-hash-<dims>), never a real model's.
+ */
+export class FakeEmbeddingProvider implements EmbeddingProvider {
+  readonly type = "fake" as const;
+  readonly model: string;
+
+  constructor(readonly dimensions: number) {
+    this.model = `fake-hash-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<ProviderEmbeddingResult> {
+    return {
+      embeddings: texts.map((text) => this.embedOne(text)),
+      tokenUsage: 0,
+    };
+  }
+
+  private embedOne(text: string): number[] {
+    const vector: number[] = [];
+    let counter = 0;
+
+    // Expand SHA-256 blocks until we have enough bytes for every dimension
+    while (vector.length < this.dimensions) {
+      const block = createHash("sha256")
+        .update(`${this.model}:${counter++}:${text}`)
+        .digest();
+      for (let i = 0; i + 1 < block.length && vector.length < this.dimensions; i += 2) {
+        // Map 16 bits to [-1, 1]
+        vector.push(block.readUInt16BE(i) / 32767.5 - 1);
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+    return vector.map((v) => v / norm);
+  }
+}
+
+/**
+ * Create the provider selected by config.embedding.provider
+ */
+export function createEmbeddingProvider(
+  embeddingConfig: Config["embedding"],
+): EmbeddingProvider {
+  const { model, dimensions } = embeddingConfig;
+  const providerType = embeddingConfig.provider ?? "openai";
+
+  switch (providerType) {
+    case "openai": {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new EmbeddingError(
+          "Missing OpenAI API key. Set OPENAI_API_KEY environment variable.",
+        );
+      }
+      return new OpenAIEmbeddingProvider(
+        new OpenAI({ apiKey }),
+        model,
+        dimensions,
+      );
+    }
+
+    case "azure-openai": {
+      const azure = embeddingConfig.azure ?? {};
+      const apiKey = process.env.AZURE_OPENAI_API_KEY;
+      const endpoint = process.env.AZURE_OPENAI_ENDPOINT || azure.endpoint;
+      const deployment = process.env.AZURE_OPENAI_DEPLOYMENT || azure.deployment;
+      if (!apiKey || !endpoint || !deployment) {
+        throw new EmbeddingError(
+          "Missing Azure OpenAI configuration. Set AZURE_OPENAI_API_KEY, AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_DEPLOYMENT.",
+        );
+      }
+      return new AzureOpenAIEmbeddingProvider(
+        new AzureOpenAI({
+          apiKey,
+          endpoint,
+          deployment,
+          apiVersion: azure.apiVersion ?? "2024-10-21",
+        }),
+        model,
+        dimensions,
+      );
+    }
+
+    case "openai-compatible": {
+      const baseURL = process.env.EMBEDDING_BASE_URL || embeddingConfig.baseUrl;
+      if (!baseURL) {
+        throw new EmbeddingError(
+          "Missing embedding server URL. Set EMBEDDING_BASE_URL or embedding.baseUrl in config.",
+        );
+      }
+      return new OpenAICompatibleEmbeddingProvider(
+        // Most local servers ignore the key, but the SDK requires one
+        new OpenAI({ baseURL, apiKey: process.env.EMBEDDING_API_KEY || "local" }),
+        model,
+        dimensions,
+      );
+    }
+
+    case "fake":
+      return new FakeEmbeddingProvider(dimensions);
+
+    default:
+      throw new EmbeddingError(
+        `Unknown embedding provider: ${String(providerType)}`,
+      );
+  }
+}
+
+let provider: EmbeddingProvider | null = null;
+
+/**
+ * Get the configured embedding provider (created once per process)
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (provider) return provider;
+  provider = createEmbeddingProvider(getConfig().embedding);
+  return provider;
+}
@@ -1,33 +1,56 @@
-import OpenAI from "openai";
 import pLimit from "p-limit";
 import { logger } from "../utils/logger.js";
 import { EmbeddingError } from "../utils/error-handler.js";
 import { getConfig } from "../utils/config.js";
-
-let openaiClient: OpenAI | null = null;
-
-function getOpenAIClient(): OpenAI {
-  if (openaiClient) return openaiClient;
-
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new EmbeddingError(
-      "Missing OpenAI API key. Set OPENAI_API_KEY environment variable.",
-    );
-  }
-
-  openaiClient = new OpenAI({ apiKey });
-  return openaiClient;
-}
+import {
+  getEmbeddingProvider,
+  type EmbeddingProvider,
+} from "./embedding-providers.js";
+import {
+  getCachedEmbeddings,
+  hashEmbeddingText,
+  isEmbeddingCacheEnabled,
+  recordEmbeddingCacheResult,
+  storeCachedEmbeddings,
+} from "./embedding-cache.js";
+import { countTokens, truncateToTokens } from "../utils/tokenizer.js";
 
 export interface EmbeddingResult {
   embedding: number[];
   tokenUsage: number;
+  /** True when served from the embedding cache */
+  cached?: boolean;
 }
 
 export interface BatchEmbeddingResult {
   embeddings: number[][];
   totalTokenUsage: number;
+  cacheHits: number;
+  cacheMisses: number;
+}
+
+/**
+ * Per-input outcome of a settled batch, aligned with the input texts
+ */
+export interface SettledEmbedding {
+  embedding?: number[];
+  error?: string;
+}
+
+export interface SettledBatchEmbeddingResult {
+  results: SettledEmbedding[];
+  totalTokenUsage: number;
+  failedCount: number;
+  cacheHits: number;
+  cacheMisses: number;
+}
+
+/**
+ * Model this process embeds with; writers store it as embedding_model and the
+ * database rejects vectors from a model other than the active one
+ */
+export function getEmbeddingModel(): string {
+  return getEmbeddingProvider().model;
 }
 
 /**
@@ -36,8 +59,7 @@ export interface BatchEmbeddingResult {
 export async function generateEmbedding(
   text: string,
 ): Promise<EmbeddingResult> {
-  const config = getConfig();
-  const client = getOpenAIClient();
+  const provider = getEmbeddingProvider();
 
   logger.debug("Preparing text for embedding", { textLength: text.length });
 
@@ -50,6 +72,25 @@ export async function generateEmbedding(
     throw new EmbeddingError("Cannot generate embedding for empty text");
   }
 
+  const useCache = isEmbeddingCacheEnabled(provider);
+  if (useCache) {
+    const cached = await getCachedEmbeddings(
+      provider.model,
+      provider.dimensions,
+      [cleanedText],
+    );
+    const embedding = cached.get(hashEmbeddingText(cleanedText));
+    recordEmbeddingCacheResult(embedding ? 1 : 0, embedding ? 0 : 1);
+
+    if (embedding) {
+      logger.debug("Embedding cache hit", {
+        model: provider.model,
+        dimensions: embedding.length,
+      });
+      return { embedding, tokenUsage: 0, cached: true };
+    }
+  }
+
   try {
     // Add timeout with AbortController to properly cancel hanging requests
     const timeoutMs = 30000;
@@ -59,32 +100,34 @@ export async function generateEmbedding(
       abortController.abort();
     }, timeoutMs);
 
-    logger.debug("Calling OpenAI embeddings API", {
-      model: config.embedding.model,
+    logger.debug("Calling embeddings provider", {
+      provider: provider.type,
+      model: provider.model,
       textLength: cleanedText.length,
     });
 
-    const response = await client.embeddings.create(
-      {
-        model: config.embedding.model,
-        input: cleanedText,
-        encoding_format: "float",
-      },
-      { signal: abortController.signal },
-    );
+    const response = await provider.embed([cleanedText], {
+      signal: abortController.signal,
+    });
 
     clearTimeout(timeoutId);
-    logger.debug("OpenAI API response received");
+    logger.debug("Embeddings provider response received");
 
-    const embedding = response.data[0].embedding;
-    const tokenUsage = response.usage.total_tokens;
+    const embedding = response.embeddings[0];
+    const tokenUsage = response.tokenUsage;
 
     logger.debug("Generated embedding", {
-      model: config.embedding.model,
+      model: provider.model,
       dimensions: embedding.length,
       tokens: tokenUsage,
     });
 
+    if (useCache) {
+      await storeCachedEmbeddings(provider.model, [
+        { text: cleanedText, embedding },
+      ]);
+    }
+
     return { embedding, tokenUsage };
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
@@ -100,7 +143,7 @@ export async function generateEmbeddingsBatch(
   texts: string[],
 ): Promise<BatchEmbeddingResult> {
   const config = getConfig();
-  const client = getOpenAIClient();
+  const provider = getEmbeddingProvider();
 
   // Clean and filter texts
   const cleanedTexts = texts
@@ -108,19 +151,33 @@ export async function generateEmbeddingsBatch(
     .filter(Boolean) as string[];
 
   if (cleanedTexts.length === 0) {
-    return { embeddings: [], totalTokenUsage: 0 };
+    return { embeddings: [], totalTokenUsage: 0, cacheHits: 0, cacheMisses: 0 };
   }
 
-  // Process in batches (OpenAI has a limit on input array size)
+  // Only texts without a cached vector are sent to the provider
+  const useCache = isEmbeddingCacheEnabled(provider);
+  const cached = useCache
+    ? await getCachedEmbeddings(provider.model, provider.dimensions, cleanedTexts)
+    : new Map<string, number[]>();
+  const textHashes = useCache ? cleanedTexts.map(hashEmbeddingText) : [];
+  const textsToEmbed = useCache
+    ? cleanedTexts.filter((_, i) => !cached.has(textHashes[i]))
+    : cleanedTexts;
+  const cacheHits = cleanedTexts.length - textsToEmbed.length;
+  const cacheMisses = useCache ? textsToEmbed.length : 0;
+  recordEmbeddingCacheResult(cacheHits, cacheMisses);
+
+  // Process in batches (OpenAI limits both input array size and tokens per request)
   const batchSize = config.embedding.batchSize;
-  const batches = chunkArray(cleanedTexts, batchSize);
+  const batches = createEmbeddingBatches(textsToEmbed);
   const limit = pLimit(2); // Max 2 concurrent API calls
 
-  const allEmbeddings: number[][] = [];
+  const newEmbeddings: number[][] = [];
   let totalTokenUsage = 0;
 
   logger.info("Generating embeddings in batches", {
     totalTexts: cleanedTexts.length,
+    cacheHits,
     batchSize,
     batches: batches.length,
   });
@@ -129,22 +186,15 @@ export async function generateEmbeddingsBatch(
     batches.map((batch, index) =>
       limit(async () => {
         try {
-          const response = await client.embeddings.create({
-            model: config.embedding.model,
-            input: batch,
-            encoding_format: "float",
-          });
+          const response = await provider.embed(batch);
 
           logger.debug("Batch embedding complete", {
             batchIndex: index,
             batchSize: batch.length,
-            tokens: response.usage.total_tokens,
+            tokens: response.tokenUsage,
           });
 
-          return {
-            embeddings: response.data.map((d) => d.embedding),
-            tokenUsage: response.usage.total_tokens,
-          };
+          return response;
         } catch (error) {
           const message =
             error instanceof Error ? error.message : String(error);
@@ -159,16 +209,164 @@ export async function generateEmbeddingsBatch(
   );
 
   for (const result of results) {
-    allEmbeddings.push(...result.embeddings);
+    newEmbeddings.push(...result.embeddings);
     totalTokenUsage += result.tokenUsage;
   }
 
+  if (useCache) {
+    await storeCachedEmbeddings(
+      provider.model,
+      textsToEmbed.map((text, i) => ({ text, embedding: newEmbeddings[i] })),
+    );
+  }
+
+  // Merge cached and new vectors back into input order
+  let nextNew = 0;
+  const allEmbeddings = cleanedTexts.map((_, i) =>
+    useCache && cached.has(textHashes[i])
+      ? cached.get(textHashes[i])!
+      : newEmbeddings[nextNew++],
+  );
+
   logger.info("Batch embedding complete", {
     totalEmbeddings: allEmbeddings.length,
     totalTokens: totalTokenUsage,
+    cacheHits,
+    cacheMisses,
   });
 
-  return { embeddings: allEmbeddings, totalTokenUsage };
+  return { embeddings: allEmbeddings, totalTokenUsage, cacheHits, cacheMisses };
+}
+
+/**
+ * Generate embeddings for multiple texts without failing the whole set
+ * - Results are aligned with the input texts (empty texts yield an error entry)
+ * - A failed batch is retried one text at a time so a single bad input
+ *   only loses its own embedding
+ * - Pass a provider to embed with a model other than the configured one
+ *   (used by the embedding model migration job)
+ */
+export async function generateEmbeddingsBatchSettled(
+  texts: string[],
+  provider: EmbeddingProvider = getEmbeddingProvider(),
+): Promise<SettledBatchEmbeddingResult> {
+  const config = getConfig();
+
+  const results: SettledEmbedding[] = texts.map(() => ({}));
+  let pending: Array<{ index: number; text: string }> = [];
+
+  texts.forEach((text, index) => {
+    const cleaned = prepareTextForEmbedding(text);
+    if (cleaned) {
+      pending.push({ index, text: cleaned });
+    } else {
+      results[index] = { error: "Cannot generate embedding for empty text" };
+    }
+  });
+
+  // Serve cached vectors first; only misses are sent to the provider
+  const useCache = isEmbeddingCacheEnabled(provider) && pending.length > 0;
+  let cacheHits = 0;
+  if (useCache) {
+    const cached = await getCachedEmbeddings(
+      provider.model,
+      provider.dimensions,
+      pending.map((item) => item.text),
+    );
+    pending = pending.filter((item) => {
+      const embedding = cached.get(hashEmbeddingText(item.text));
+      if (embedding) {
+        results[item.index] = { embedding };
+        cacheHits++;
+      }
+      return !embedding;
+    });
+  }
+  const cacheMisses = useCache ? pending.length : 0;
+  recordEmbeddingCacheResult(cacheHits, cacheMisses);
+
+  const batches = createEmbeddingBatches(pending, (item) => item.text);
+  const limit = pLimit(2); // Max 2 concurrent API calls
+  let totalTokenUsage = 0;
+
+  logger.info("Generating embeddings in batches (settled)", {
+    totalTexts: texts.length,
+    cacheHits,
+    batchSize: config.embedding.batchSize,
+    batches: batches.length,
+  });
+
+  const embedOne = async (item: { index: number; text: string }) => {
+    try {
+      const response = await provider.embed([item.text]);
+      results[item.index] = { embedding: response.embeddings[0] };
+      totalTokenUsage += response.tokenUsage;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn("Embedding failed for single input", {
+        index: item.index,
+        error: message,
+      });
+      results[item.index] = { error: message };
+    }
+  };
+
+  await Promise.all(
+    batches.map((batch, batchIndex) =>
+      limit(async () => {
+        try {
+          const response = await provider.embed(
+            batch.map((item) => item.text),
+          );
+
+          batch.forEach((item, i) => {
+            results[item.index] = { embedding: response.embeddings[i] };
+          });
+          totalTokenUsage += response.tokenUsage;
+
+          logger.debug("Batch embedding complete", {
+            batchIndex,
+            batchSize: batch.length,
+            tokens: response.tokenUsage,
+          });
+        } catch (error) {
+          const message =
+            error instanceof Error ? error.message : String(error);
+          logger.warn("Batch embedding failed, retrying inputs individually", {
+            batchIndex,
+            batchSize: batch.length,
+            error: message,
+          });
+
+          for (const item of batch) {
+            await embedOne(item);
+          }
+        }
+      }),
+    ),
+  );
+
+  const failedCount = results.filter((r) => !r.embedding).length;
+
+  if (useCache) {
+    await storeCachedEmbeddings(
+      provider.model,
+      pending.flatMap((item) => {
+        const embedding = results[item.index].embedding;
+        return embedding ? [{ text: item.text, embedding }] : [];
+      }),
+    );
+  }
+
+  logger.info("Settled batch embedding complete", {
+    totalEmbeddings: texts.length - failedCount,
+    failed: failedCount,
+    totalTokens: totalTokenUsage,
+    cacheHits,
+    cacheMisses,
+  });
+
+  return { results, totalTokenUsage, failedCount, cacheHits, cacheMisses };
 }
 
 /**
@@ -183,23 +381,16 @@ function prepareTextForEmbedding(text: string): string {
   const config = getConfig();
 
   // Clean text
-  let cleaned = text.replace(/\n+/g, " ").replace(/\s+/g, " ").trim();
-
-  // Estimate tokens very conservatively for multilingual text with email content
-  // Email headers, quoted text, and special chars tokenize inefficiently
-  // Using ~1.5 chars per token to handle worst cases
-  const charsPerToken = 1.5;
-  const estimatedTokens = Math.ceil(cleaned.length / charsPerToken);
+  const cleaned = text.replace(/\n+/g, " ").replace(/\s+/g, " ").trim();
 
-  // Truncate if exceeds max tokens (leave 1000 token buffer for safety)
-  const maxTokens = config.embedding.maxTokensPerRequest - 1000;
-  const maxChars = Math.floor(maxTokens * charsPerToken);
+  // Truncate to the model's real input limit (counted with the model tokenizer)
+  const maxTokens = config.embedding.maxTokensPerRequest;
+  const result = truncateToTokens(cleaned, maxTokens);
 
-  if (cleaned.length > maxChars) {
-    // Calculate truncation statistics
+  if (result.truncated) {
     const originalChars = cleaned.length;
     const percentageLost = Math.round(
-      ((originalChars - maxChars) / originalChars) * 100,
+      ((result.originalTokens - result.tokens) / result.originalTokens) * 100,
     );
 
     // Capture content preview for debugging (first and last 50 chars of original)
@@ -208,20 +399,18 @@ function prepareTextForEmbedding(text: string): string {
         ? `${cleaned.substring(0, 50)}...TRUNCATED...${cleaned.substring(originalChars - 50)}`
         : cleaned;
 
-    cleaned = cleaned.substring(0, maxChars);
-
     logger.warn("Text truncated for embedding - content lost", {
       originalChars,
-      truncatedChars: maxChars,
-      charsLost: originalChars - maxChars,
+      truncatedChars: result.text.length,
+      originalTokens: result.originalTokens,
+      tokensLost: result.originalTokens - result.tokens,
       percentageLost: `${percentageLost}%`,
-      estimatedOriginalTokens: estimatedTokens,
       maxAllowedTokens: maxTokens,
       contentPreview,
     });
   }
 
-  return cleaned;
+  return result.text;
 }
 
 /**
@@ -245,10 +434,40 @@ export function cosineSimilarity(a: number[], b: number[]): number {
   return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
 }
 
-function chunkArray<T>(array: T[], size: number): T[][] {
-  const chunks: T[][] = [];
-  for (let i = 0; i < array.length; i += size) {
-    chunks.push(array.slice(i, i + size));
+/**
+ * Group inputs into API batches bounded by both config.embedding.batchSize
+ * (inputs per request) and config.embedding.maxTokensPerBatch (tokens per
+ * request). Inputs are already truncated to the per-input limit.
+ */
+function createEmbeddingBatches<T>(
+  items: T[],
+  getText: (item: T) => string = (item) => String(item),
+): T[][] {
+  const config = getConfig();
+  const maxItems = config.embedding.batchSize;
+  const maxTokens = config.embedding.maxTokensPerBatch ?? 250_000;
+
+  const batches: T[][] = [];
+  let current: T[] = [];
+  let currentTokens = 0;
+
+  for (const item of items) {
+    const tokens = countTokens(getText(item));
+    if (
+      current.length > 0 &&
+      (current.length >= maxItems || currentTokens + tokens > maxTokens)
+    ) {
+      batches.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(item);
+    currentTokens += tokens;
+  }
+
+  if (current.length > 0) {
+    batches.push(current);
   }
-  return chunks;
+
+  return batches;
 }
@@ -1,6 +1,7 @@
 import { franc } from 'franc';
 import { logger } from '../utils/logger.js';
 import { getConfig } from '../utils/config.js';
+import { accessLevelForSensitivity, classifyPIISensitivity } from '../compliance/pii-recognizers.js';
 import type { DocumentMetadata, AccessLevel, Sensitivity } from '../types/index.js';
 
 export interface InferredMetadata {
@@ -216,35 +217,13 @@ function inferAccessLevel(
 
 /**
  * Determine sensitivity based on PII detection results
+ * The rules live in the PII recognizers module so the Edge Function syncs classify the same way.
  */
 export function determineSensitivity(
   piiDetected: boolean,
   piiTypes: string[] = []
 ): Sensitivity {
-  if (!piiDetected) {
-    return 'None';
-  }
-
-  // Check for GDPR-specific data types
-  const gdprTypes = [
-    'ssn', 'social security',
-    'passport', 'national id',
-    'health', 'medical',
-    'race', 'ethnicity', 'religion',
-    'political', 'sexual orientation',
-    'biometric', 'genetic',
-  ];
-
-  for (const type of piiTypes) {
-    const lowerType = type.toLowerCase();
-    for (const gdprType of gdprTypes) {
-      if (lowerType.includes(gdprType)) {
-        return 'GDPR';
-      }
-    }
-  }
-
-  return 'PII';
+  return classifyPIISensitivity(piiDetected, piiTypes);
 }
 
 /**
@@ -254,26 +233,16 @@ export function upgradeAccessLevelForPII(
   currentLevel: AccessLevel,
   sensitivity: Sensitivity
 ): AccessLevel {
-  if (sensitivity === 'None') {
-    return currentLevel;
-  }
+  const newLevel = accessLevelForSensitivity(currentLevel, sensitivity);
 
-  const levelOrder: AccessLevel[] = ['public', 'internal', 'restricted', 'confidential'];
-  const currentIndex = levelOrder.indexOf(currentLevel);
-  
-  // PII requires at least 'restricted'
-  const minIndex = sensitivity === 'GDPR' ? 3 : 2; // confidential for GDPR, restricted for PII
-  
-  if (currentIndex < minIndex) {
-    const newLevel = levelOrder[minIndex];
+  if (newLevel !== currentLevel) {
     logger.info('Access level upgraded due to PII', {
       original: currentLevel,
       upgraded: newLevel,
       sensitivity,
     });
-    return newLevel;
   }
 
-  return currentLevel;
+  return newLevel;
 }
 
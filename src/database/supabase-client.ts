@@ -1,7 +1,8 @@
 import { createClient, SupabaseClient } from "@supabase/supabase-js";
 import { logger } from "../utils/logger.js";
 import { DatabaseError } from "../utils/error-handler.js";
-import type { DocumentRecord } from "../types/index.js";
+import { getConfig } from "../utils/config.js";
+import type { AccessLevel, DocumentRecord } from "../types/index.js";
 import type { Database } from "../types/database.types.js";
 
 let supabaseClient: SupabaseClient<Database> | null = null;
@@ -25,6 +26,33 @@ function sanitizeForPostgres(text: string): string {
   );
 }
 
+/**
+ * Map a DocumentRecord to a documents row (pgvector literal, sanitized text)
+ */
+function toDocumentRow(doc: DocumentRecord) {
+  return {
+    ...(doc.id ? { id: doc.id } : {}),
+    content: sanitizeForPostgres(doc.content),
+    embedding: doc.embedding ? `[${doc.embedding.join(",")}]` : null,
+    embedding_model: doc.embedding ? doc.embedding_model : null,
+    department: doc.department,
+    document_type: doc.document_type,
+    title: sanitizeForPostgres(doc.title),
+    owner: doc.owner,
+    access_level: doc.access_level,
+    tags: doc.tags,
+    sensitivity: doc.sensitivity,
+    language: doc.language,
+    source_type: doc.source_type,
+    source_path: doc.source_path,
+    mime_type: doc.mime_type,
+    content_hash: doc.content_hash,
+    parent_id: doc.parent_id,
+    chunk_role: doc.chunk_role,
+    section_path: doc.section_path,
+  };
+}
+
 export function getSupabaseClient(): SupabaseClient<Database> {
   if (supabaseClient) return supabaseClient;
 
@@ -56,25 +84,9 @@ export async function insertDocument(
 ): Promise<string> {
   const client = getSupabaseClient();
 
-  // Convert embedding array to string format for pgvector
-  const embeddingString = `[${document.embedding.join(",")}]`;
-
   const { data, error } = await client
     .from("documents")
-    .insert({
-      content: sanitizeForPostgres(document.content),
-      embedding: embeddingString,
-      department: document.department,
-      document_type: document.document_type,
-      title: sanitizeForPostgres(document.title),
-      owner: document.owner,
-      access_level: document.access_level,
-      tags: document.tags,
-      sensitivity: document.sensitivity,
-      language: document.language,
-      source_type: document.source_type,
-      source_path: document.source_path,
-    })
+    .insert(toDocumentRow(document))
     .select("id")
     .single();
 
@@ -97,20 +109,7 @@ export async function insertDocumentsBatch(
 ): Promise<string[]> {
   const client = getSupabaseClient();
 
-  const records = documents.map((doc) => ({
-    content: sanitizeForPostgres(doc.content),
-    embedding: `[${doc.embedding.join(",")}]`,
-    department: doc.department,
-    document_type: doc.document_type,
-    title: sanitizeForPostgres(doc.title),
-    owner: doc.owner,
-    access_level: doc.access_level,
-    tags: doc.tags,
-    sensitivity: doc.sensitivity,
-    language: doc.language,
-    source_type: doc.source_type,
-    source_path: doc.source_path,
-  }));
+  const records = documents.map(toDocumentRow);
 
   const { data, error } = await client
     .from("documents")
@@ -133,26 +132,55 @@ export async function insertDocumentsBatch(
   return ids;
 }
 
+export interface ParentChunkContext {
+  id: string;
+  title: string;
+  content: string;
+}
+
+export type DocumentSearchResult = DocumentRecord & {
+  /** Cosine similarity (null for hybrid matches found by full-text only) */
+  similarity?: number | null;
+  /** Full-text rank (hybrid search; null when matched by vector only) */
+  text_rank?: number | null;
+  /** Reciprocal rank fusion score (hybrid search) */
+  rrf_score?: number;
+  /** Parent chunk of a hierarchical child match (includeParentContext) */
+  parent?: ParentChunkContext;
+};
+
+/**
+ * Vector search over the documents a caller is cleared for
+ * Rows above `clearance` are filtered out in the database. Without a
+ * clearance, compliance.accessControl.defaultClearance applies; map callers
+ * with resolveClearance().
+ */
 export async function searchDocuments(
   queryEmbedding: number[],
   options: {
     matchThreshold?: number;
     matchCount?: number;
     department?: string;
+    /** Only documents at exactly this access level */
     accessLevel?: string;
+    /** Highest access level the caller may read */
+    clearance?: AccessLevel;
+    /** Attach the parent chunk and breadcrumb to hierarchical child matches */
+    includeParentContext?: boolean;
   } = {},
-): Promise<DocumentRecord[]> {
+): Promise<DocumentSearchResult[]> {
   const client = getSupabaseClient();
 
   // Convert embedding array to string format for pgvector RPC
   const embeddingString = `[${queryEmbedding.join(",")}]`;
 
-  const { data, error } = await client.rpc("match_documents", {
+  const { data, error } = await client.rpc("search_documents", {
     query_embedding: embeddingString,
     match_threshold: options.matchThreshold ?? 0.78,
     match_count: options.matchCount ?? 10,
     filter_department: options.department,
     filter_access_level: options.accessLevel,
+    p_clearance: options.clearance ?? defaultClearance(),
   });
 
   if (error) {
@@ -161,7 +189,130 @@ export async function searchDocuments(
   }
 
   // The RPC returns partial DocumentRecord data (without embedding)
-  return (data ?? []) as unknown as DocumentRecord[];
+  const results = (data ?? []) as unknown as DocumentSearchResult[];
+
+  if (options.includeParentContext) {
+    await attachParentContext(results, options.clearance ?? defaultClearance());
+  }
+
+  return results;
+}
+
+/**
+ * Hybrid search: Postgres full-text (no/sv/en configs) and vector ranking fused
+ * with reciprocal rank fusion, so exact error codes, ticket IDs and product
+ * names match even when their embedding is not close to the query's.
+ */
+export async function hybridSearchDocuments(
+  queryText: string,
+  queryEmbedding: number[],
+  options: {
+    matchCount?: number;
+    department?: string;
+    /** Only documents at exactly this access level */
+    accessLevel?: string;
+    /** Highest access level the caller may read (see searchDocuments) */
+    clearance?: AccessLevel;
+    /** Weight of the full-text ranking in the fused score (default: 1) */
+    fullTextWeight?: number;
+    /** Weight of the vector ranking in the fused score (default: 1) */
+    semanticWeight?: number;
+    /** RRF smoothing constant (default: 60) */
+    rrfK?: number;
+    /** Attach the parent chunk and breadcrumb to hierarchical child matches */
+    includeParentContext?: boolean;
+  } = {},
+): Promise<DocumentSearchResult[]> {
+  const client = getSupabaseClient();
+
+  const { data, error } = await client.rpc("hybrid_search_documents", {
+    query_text: queryText,
+    query_embedding: `[${queryEmbedding.join(",")}]`,
+    match_count: options.matchCount ?? 10,
+    filter_department: options.department,
+    filter_access_level: options.accessLevel,
+    full_text_weight: options.fullTextWeight ?? 1,
+    semantic_weight: options.semanticWeight ?? 1,
+    rrf_k: options.rrfK ?? 60,
+    p_clearance: options.clearance ?? defaultClearance(),
+  });
+
+  if (error) {
+    logger.error("Failed to run hybrid document search", { error: error.message });
+    throw new DatabaseError(`Failed to run hybrid document search: ${error.message}`);
+  }
+
+  const results = (data ?? []) as unknown as DocumentSearchResult[];
+
+  if (options.includeParentContext) {
+    await attachParentContext(results, options.clearance ?? defaultClearance());
+  }
+
+  return results;
+}
+
+function defaultClearance(): AccessLevel {
+  return getConfig().compliance.accessControl?.defaultClearance ?? "public";
+}
+
+async function attachParentContext(
+  results: DocumentSearchResult[],
+  clearance: AccessLevel,
+): Promise<void> {
+  if (results.length === 0) return;
+
+  const parents = await getParentChunks(
+    results.map((r) => r.id).filter((id): id is string => !!id),
+    clearance,
+  );
+  for (const result of results) {
+    const parent = result.id ? parents.get(result.id) : undefined;
+    if (parent) {
+      result.parent = parent.parent;
+      result.section_path = parent.sectionPath ?? result.section_path;
+    }
+  }
+}
+
+/**
+ * Parent chunks (and breadcrumbs) for hierarchical child chunks, keyed by child id
+ * Documents without a parent, or whose parent is above `clearance`, are
+ * absent from the map.
+ */
+export async function getParentChunks(
+  documentIds: string[],
+  clearance: AccessLevel = defaultClearance(),
+): Promise<Map<string, { parent: ParentChunkContext; sectionPath?: string }>> {
+  const client = getSupabaseClient();
+  const parents = new Map<string, { parent: ParentChunkContext; sectionPath?: string }>();
+  if (documentIds.length === 0) return parents;
+
+  const { data, error } = await client.rpc("get_parent_chunks", {
+    p_document_ids: documentIds,
+    p_clearance: clearance,
+  });
+
+  if (error) {
+    logger.error("Failed to get parent chunks", { error: error.message });
+    throw new DatabaseError(`Failed to get parent chunks: ${error.message}`, {
+      count: documentIds.length,
+    });
+  }
+
+  for (const row of (data ?? []) as Array<{
+    document_id: string;
+    parent_id: string;
+    section_path: string | null;
+    parent_title: string;
+    parent_content: string;
+  }>) {
+    parents.set(row.document_id, {
+      parent: { id: row.parent_id, title: row.parent_title, content: row.parent_content },
+      sectionPath: row.section_path ?? undefined,
+    });
+  }
+
+  return parents;
 }
 
 export async function documentExists(
@@ -213,6 +364,81 @@ export async function documentExistsBySourcePath(
   return data.length > 0;
 }
 
+export interface SourceDocumentState {
+  /** Stored content hash (null for rows ingested before hashing existed) */
+  contentHash: string | null;
+  /** Number of rows stored for the source path (plain row or #chunkN/#parentN rows) */
+  chunkCount: number;
+}
+
+/**
+ * Get the stored content hash and chunk count for a base source_path
+ * Returns null if nothing has been ingested for the path yet
+ */
+export async function getSourceDocumentState(
+  sourcePath: string,
+): Promise<SourceDocumentState | null> {
+  const client = getSupabaseClient();
+
+  const { data, error } = await client.rpc("get_source_document_state", {
+    p_source_path: sourcePath,
+  });
+
+  if (error) {
+    logger.error("Failed to get source document state", {
+      error: error.message,
+      sourcePath,
+    });
+    throw new DatabaseError(
+      `Failed to get source document state: ${error.message}`,
+      { sourcePath },
+    );
+  }
+
+  const row = (data as Array<{
+    content_hash: string | null;
+    chunk_count: number;
+  }> | null)?.[0];
+  if (!row) return null;
+
+  return { contentHash: row.content_hash, chunkCount: row.chunk_count };
+}
+
+/**
+ * Atomically replace every row stored for a base source_path
+ * Deletes the plain row and all #chunkN/#parentN rows, then inserts the new set in one
+ * transaction, so orphaned chunks are removed when the chunk count shrinks.
+ */
+export async function replaceSourceDocuments(
+  sourcePath: string,
+  documents: DocumentRecord[],
+): Promise<string[]> {
+  const client = getSupabaseClient();
+
+  const records = documents.map(toDocumentRow);
+
+  const { data, error } = await client.rpc("replace_source_documents", {
+    p_source_path: sourcePath,
+    p_documents: records,
+  });
+
+  if (error) {
+    logger.error("Failed to replace source documents", {
+      error: error.message,
+      sourcePath,
+      count: documents.length,
+    });
+    throw new DatabaseError(
+      `Failed to replace source documents: ${error.message}`,
+      { sourcePath, count: documents.length },
+    );
+  }
+
+  const ids = ((data ?? []) as Array<{ id: string }>).map((d) => d.id);
+  logger.info("Source documents replaced", { sourcePath, count: ids.length });
+  return ids;
+}
+
 /**
  * Batch check which source paths already exist
  * Returns set of existing source paths
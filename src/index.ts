@@ -7,8 +7,16 @@
 
 // Core exports
 export { processDocument, processDocumentsBatch, processSourceDocuments, validateDocument } from './core/document-processor.js';
-export { generateEmbedding, generateEmbeddingsBatch, cosineSimilarity } from './core/embedding-service.js';
+export { generateEmbedding, generateEmbeddingsBatch, generateEmbeddingsBatchSettled, cosineSimilarity } from './core/embedding-service.js';
+export { getEmbeddingCacheStats } from './core/embedding-cache.js';
 export { inferMetadata, determineSensitivity, upgradeAccessLevelForPII } from './core/metadata-inference.js';
+export {
+  startEmbeddingMigration,
+  runEmbeddingMigration,
+  flipEmbeddingMigration,
+  getActiveEmbeddingMigration,
+  getEmbeddingMigrationCoverage,
+} from './core/embedding-migration.js';
 
 // Parser exports
 export { parseDocument, canParse, getSupportedMimeTypes, getSupportedExtensions } from './parsers/index.js';
@@ -21,10 +29,14 @@ export { SharePointSource } from './sources/sharepoint-source.js';
 export { HubSpotSource } from './sources/hubspot-source.js';
 
 // Database exports
-export { getSupabaseClient, insertDocument, insertDocumentsBatch, searchDocuments, documentExists, deleteDocument } from './database/supabase-client.js';
+export { getSupabaseClient, insertDocument, insertDocumentsBatch, searchDocuments, hybridSearchDocuments, getParentChunks, documentExists, deleteDocument } from './database/supabase-client.js';
 
 // Compliance exports
-export { detectPII, redactPII, containsPII, processForGDPR, validateGDPRCompliance, generateComplianceReport } from './compliance/index.js';
+export { detectPII, redactPII, containsPII, pseudonymizePII, processForGDPR, validateGDPRCompliance, generateComplianceReport } from './compliance/index.js';
+export { storePseudonyms, revealPII, type RevealPIIOptions } from './compliance/index.js';
+export { persistAuditLog, getAuditLogEntries, type AuditLogEntry } from './compliance/index.js';
+export { findDataSubjectRecords, exportDataSubjectData, eraseDataSubjectData, verifyDataSubjectRecord } from './compliance/index.js';
+export { resolveClearance, hasClearance, accessibleLevels, type CallerIdentity } from './compliance/index.js';
 
 // Utility exports
 export { logger, createChildLogger } from './utils/logger.js';
@@ -53,9 +65,13 @@ export type {
   Sensitivity,
   SourceType,
   IngestionOptions,
+  ChunkingStrategy,
   BatchResult,
   BatchError,
   SourceDocument,
   Config,
+  EmbeddingMigration,
+  EmbeddingMigrationCoverage,
 } from './types/index.js';
+export type { DocumentSearchResult, ParentChunkContext } from './database/supabase-client.js';
 
@@ -81,6 +81,18 @@ export abstract class BaseParser {
     return cleaned || "Untitled Document";
   }
 
+  /**
+   * Decode a text file: UTF-8 (without BOM), or latin1 when it is not valid UTF-8
+   */
+  protected decodeText(buffer: Buffer): string {
+    const text = buffer.toString("utf-8");
+    // Check for invalid UTF-8 sequences
+    if (text.includes("\ufffd")) {
+      return buffer.toString("latin1");
+    }
+    return text.replace(/^\uFEFF/, "");
+  }
+
   /**
    * Clean extracted text
    */
@@ -168,6 +180,7 @@ export function getMimeTypeFromExtension(filename: string): string {
     md: "text/markdown",
     json: "application/json",
     xml: "application/xml",
+    zip: "application/zip",
   };
 
   return mimeTypes[ext] || "application/octet-stream";
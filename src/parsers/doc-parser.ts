@@ -0,0 +1,54 @@
+import WordExtractor from 'word-extractor';
+import { BaseParser } from './base-parser.js';
+import { ParsingError } from '../utils/error-handler.js';
+import { logger } from '../utils/logger.js';
+import type { ParseResult } from '../types/index.js';
+
+/**
+ * Word 97-2003 (.doc) binary documents
+ * Body text first, then headers, footnotes, endnotes, comments and text boxes.
+ */
+export class DocParser extends BaseParser {
+  readonly supportedMimeTypes = ['application/msword'];
+  readonly supportedExtensions = ['doc'];
+
+  private readonly extractor = new WordExtractor();
+
+  async parse(buffer: Buffer, filename?: string): Promise<ParseResult> {
+    try {
+      logger.debug('Parsing DOC document', { filename });
+
+      const document = await this.withTimeout(this.extractor.extract(buffer), undefined, filename);
+
+      const sections = [
+        document.getBody(),
+        document.getHeaders({ includeFooters: true }),
+        document.getFootnotes(),
+        document.getEndnotes(),
+        document.getAnnotations(),
+        document.getTextboxes({ includeHeadersAndFooters: true, includeBody: true }),
+      ];
+      const content = this.cleanText(
+        sections.filter((section) => section.trim().length > 0).join('\n\n')
+      );
+
+      if (!content) {
+        throw new ParsingError('No text content extracted from DOC', { filename });
+      }
+
+      return {
+        content,
+        metadata: {
+          title: this.extractTitleFromFilename(filename),
+          mimeType: 'application/msword',
+          originalFilename: filename,
+          fileSize: buffer.length,
+        },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('Failed to parse DOC', { filename, error: message });
+      throw new ParsingError(`Failed to parse DOC: ${message}`, { filename });
+    }
+  }
+}
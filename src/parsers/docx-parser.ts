@@ -1,5 +1,6 @@
 import mammoth from 'mammoth';
 import { BaseParser } from './base-parser.js';
+import { extractOoxmlEmbeddings } from './embedded-files.js';
 import { ParsingError } from '../utils/error-handler.js';
 import { logger } from '../utils/logger.js';
 import type { ParseResult } from '../types/index.js';
@@ -7,9 +8,8 @@ import type { ParseResult } from '../types/index.js';
 export class DocxParser extends BaseParser {
   readonly supportedMimeTypes = [
     'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-    'application/msword',
   ];
-  readonly supportedExtensions = ['docx', 'doc'];
+  readonly supportedExtensions = ['docx'];
 
   async parse(buffer: Buffer, filename?: string): Promise<ParseResult> {
     try {
@@ -25,6 +25,7 @@ export class DocxParser extends BaseParser {
       }
 
       const content = this.cleanText(result.value);
+      const attachments = await extractOoxmlEmbeddings(buffer, filename);
 
       return {
         content,
@@ -34,6 +35,7 @@ export class DocxParser extends BaseParser {
           originalFilename: filename,
           fileSize: buffer.length,
         },
+        attachments,
       };
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
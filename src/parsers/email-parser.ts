@@ -5,8 +5,8 @@ import { logger } from '../utils/logger.js';
 import type { ParseResult, ParsedAttachment } from '../types/index.js';
 
 export class EmailParser extends BaseParser {
-  readonly supportedMimeTypes = ['message/rfc822', 'application/vnd.ms-outlook'];
-  readonly supportedExtensions = ['eml', 'msg'];
+  readonly supportedMimeTypes = ['message/rfc822'];
+  readonly supportedExtensions = ['eml'];
 
   async parse(buffer: Buffer, filename?: string): Promise<ParseResult> {
     try {
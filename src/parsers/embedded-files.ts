@@ -0,0 +1,178 @@
+import JSZip from "jszip";
+import { getMimeTypeFromExtension } from "./base-parser.js";
+import { logger } from "../utils/logger.js";
+import type { ParsedAttachment } from "../types/index.js";
+
+/**
+ * Files inside ZIP containers (ZIP archives and OOXML packages)
+ * Returned as attachments; the document processor ingests them as child documents.
+ */
+
+/**
+ * Limits against archive bombs: extraction stops at whichever is reached first
+ */
+export const MAX_EMBEDDED_FILES = 200;
+export const MAX_EMBEDDED_BYTES = 100 * 1024 * 1024;
+
+/**
+ * Package folders holding embedded documents
+ * media/ holds images, which have no parser
+ */
+export const OOXML_EMBEDDING_FOLDERS = [
+  "word/embeddings/",
+  "ppt/embeddings/",
+  "xl/embeddings/",
+];
+
+// JSZip's internal stream helper (not in its typings); unlike nodeStream it
+// can be paused, which stops inflation
+interface InflateStream {
+  on(event: "data", listener: (chunk: Buffer) => void): InflateStream;
+  on(event: "error", listener: (error: Error) => void): InflateStream;
+  on(event: "end", listener: () => void): InflateStream;
+  pause(): InflateStream;
+  resume(): InflateStream;
+}
+
+// Private JSZip entry fields: the sizes declared in the archive directory
+interface JSZipEntryInternals {
+  _data?: { uncompressedSize?: number };
+  internalStream(type: "nodebuffer"): InflateStream;
+}
+
+export interface ExtractEmbeddedOptions {
+  /** Only entries under these folders (default: the whole archive) */
+  folders?: string[];
+  /** Container name, for logging */
+  filename?: string;
+}
+
+/**
+ * Extract the files of a ZIP container
+ * Directory entries, macOS resource forks, hidden files and OLE wrappers
+ * (oleObjectN.bin) are skipped.
+ */
+export async function extractEmbeddedFiles(
+  buffer: Buffer,
+  options: ExtractEmbeddedOptions = {},
+): Promise<ParsedAttachment[]> {
+  const zip = await JSZip.loadAsync(buffer);
+  const files: ParsedAttachment[] = [];
+  let totalBytes = 0;
+
+  for (const entry of Object.values(zip.files)) {
+    if (entry.dir || !isExtractable(entry.name)) continue;
+    if (options.folders && !options.folders.some((folder) => entry.name.startsWith(folder))) {
+      continue;
+    }
+
+    if (files.length >= MAX_EMBEDDED_FILES) {
+      logger.warn("Embedded file limit reached, remaining entries skipped", {
+        filename: options.filename,
+        limit: MAX_EMBEDDED_FILES,
+      });
+      break;
+    }
+
+    // The declared size is checked first; it can lie, so inflation is capped too
+    const internals = entry as unknown as JSZipEntryInternals;
+    const declaredSize = internals._data?.uncompressedSize ?? 0;
+    const content =
+      totalBytes + declaredSize > MAX_EMBEDDED_BYTES
+        ? null
+        : await inflateEntry(internals, MAX_EMBEDDED_BYTES - totalBytes);
+    if (!content) {
+      logger.warn("Embedded files exceed size limit, remaining entries skipped", {
+        filename: options.filename,
+        entry: entry.name,
+        limitBytes: MAX_EMBEDDED_BYTES,
+      });
+      break;
+    }
+    totalBytes += content.length;
+
+    // Package entries keep only their basename; archive entries keep their folder
+    const name = options.folders ? entry.name.split("/").pop()! : entry.name;
+    files.push({
+      filename: name,
+      content,
+      mimeType: getMimeTypeFromExtension(name),
+    });
+  }
+
+  if (files.length > 0) {
+    logger.debug("Extracted embedded files", {
+      filename: options.filename,
+      count: files.length,
+    });
+  }
+
+  return files;
+}
+
+/**
+ * Documents embedded in a DOCX/PPTX/XLSX package
+ * Extraction problems are logged, not thrown: the package text is still usable.
+ */
+export async function extractOoxmlEmbeddings(
+  buffer: Buffer,
+  filename?: string,
+): Promise<ParsedAttachment[]> {
+  // Legacy binary formats (.doc, .ppt) are not ZIP packages
+  if (buffer.length < 4 || buffer.readUInt32LE(0) !== 0x04034b50) return [];
+
+  try {
+    return await extractEmbeddedFiles(buffer, {
+      folders: OOXML_EMBEDDING_FOLDERS,
+      filename,
+    });
+  } catch (error) {
+    logger.warn("Failed to extract embedded files", {
+      filename,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+}
+
+/**
+ * Inflate an entry; null once it exceeds limit bytes, without inflating the rest
+ */
+function inflateEntry(entry: JSZipEntryInternals, limit: number): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const stream = entry.internalStream("nodebuffer");
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let done = false;
+
+    stream
+      .on("data", (chunk) => {
+        if (done) return;
+        size += chunk.length;
+        if (size > limit) {
+          done = true;
+          stream.pause();
+          resolve(null);
+          return;
+        }
+        chunks.push(chunk);
+      })
+      .on("error", (error) => {
+        done = true;
+        reject(error);
+      })
+      .on("end", () => {
+        if (!done) resolve(Buffer.concat(chunks, size));
+      })
+      .resume();
+  });
+}
+
+function isExtractable(path: string): boolean {
+  const name = path.split("/").pop() || "";
+  return (
+    !path.startsWith("__MACOSX/") &&
+    !name.startsWith(".") &&
+    !/^oleObject\d*\.bin$/i.test(name)
+  );
+}
@@ -1,12 +1,19 @@
 import { BaseParser, getMimeTypeFromExtension } from './base-parser.js';
 import { PdfParser } from './pdf-parser.js';
 import { DocxParser } from './docx-parser.js';
+import { DocParser } from './doc-parser.js';
 import { XlsxParser } from './xlsx-parser.js';
 import { PptxParser } from './pptx-parser.js';
+import { PptParser } from './ppt-parser.js';
 import { HtmlParser } from './html-parser.js';
 import { EmailParser } from './email-parser.js';
+import { MsgParser } from './msg-parser.js';
+import { MarkdownParser } from './markdown-parser.js';
+import { JsonParser } from './json-parser.js';
+import { XmlParser } from './xml-parser.js';
 import { TextParser } from './text-parser.js';
 import { SlackParser } from './slack-parser.js';
+import { ZipParser } from './zip-parser.js';
 import { ParsingError } from '../utils/error-handler.js';
 import { logger } from '../utils/logger.js';
 import type { ParseResult } from '../types/index.js';
@@ -15,12 +22,19 @@ import type { ParseResult } from '../types/index.js';
 const parsers: BaseParser[] = [
   new PdfParser(),
   new DocxParser(),
+  new DocParser(),
   new XlsxParser(),
   new PptxParser(),
+  new PptParser(),
   new HtmlParser(),
   new EmailParser(),
+  new MsgParser(),
+  new MarkdownParser(),
+  new JsonParser(),
+  new XmlParser(),
   new TextParser(),
   new SlackParser(),
+  new ZipParser(),
 ];
 
 /**
@@ -113,11 +127,19 @@ export function getSupportedExtensions(): string[] {
 export { BaseParser, getMimeTypeFromExtension };
 export { PdfParser } from './pdf-parser.js';
 export { DocxParser } from './docx-parser.js';
+export { DocParser } from './doc-parser.js';
 export { XlsxParser } from './xlsx-parser.js';
 export { PptxParser } from './pptx-parser.js';
+export { PptParser } from './ppt-parser.js';
 export { HtmlParser } from './html-parser.js';
 export { EmailParser } from './email-parser.js';
+export { MsgParser, readMsgAddresses } from './msg-parser.js';
+export { MarkdownParser } from './markdown-parser.js';
+export { JsonParser } from './json-parser.js';
+export { XmlParser } from './xml-parser.js';
 export { TextParser } from './text-parser.js';
 export { SlackParser } from './slack-parser.js';
+export { ZipParser } from './zip-parser.js';
+export { extractEmbeddedFiles, extractOoxmlEmbeddings } from './embedded-files.js';
 export { WodParser, wodParser } from './wod-parser.js';
 
@@ -0,0 +1,117 @@
+import { BaseParser } from './base-parser.js';
+import { ParsingError } from '../utils/error-handler.js';
+import { logger } from '../utils/logger.js';
+import type { ParseResult } from '../types/index.js';
+
+/** Keys written as .key in paths; others are quoted, e.g. ["first name"] */
+const PLAIN_KEY_PATTERN = /^[A-Za-z_$][\w$-]*$/;
+
+/**
+ * JSON files, flattened to one "path: value" line per leaf value
+ * e.g. users[0].address.city: Oslo. Top-level entries holding objects or
+ * arrays, and each record of a top-level array of records, are separated by
+ * blank lines so records stay together in chunks.
+ * Files that are not valid JSON are kept as plain text.
+ */
+export class JsonParser extends BaseParser {
+  readonly supportedMimeTypes = ['application/json'];
+  readonly supportedExtensions = ['json'];
+
+  async parse(buffer: Buffer, filename?: string): Promise<ParseResult> {
+    try {
+      logger.debug('Parsing JSON document', { filename });
+
+      const text = this.decodeText(buffer);
+      let content: string;
+      try {
+        content = this.cleanText(flattenJson(JSON.parse(text)));
+      } catch (error) {
+        logger.warn('Invalid JSON, indexing as plain text', {
+          filename,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        content = this.cleanText(text);
+      }
+
+      return {
+        content,
+        metadata: {
+          title: this.extractTitleFromFilename(filename),
+          mimeType: 'application/json',
+          originalFilename: filename,
+          fileSize: buffer.length,
+        },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('Failed to parse JSON', { filename, error: message });
+      throw new ParsingError(`Failed to parse JSON: ${message}`, { filename });
+    }
+  }
+}
+
+function flattenJson(value: unknown): string {
+  if (!isContainer(value)) {
+    return formatValue(value);
+  }
+
+  const blocks: Array<{ lines: string[]; grouped: boolean }> = [];
+  for (const [key, child] of entries(value)) {
+    const path = childPath('', key);
+    // Arrays of records ({"users": [...]}) get a block per record
+    const records =
+      Array.isArray(child) && child.length > 0 && child.every(isContainer)
+        ? entries(child).map(([index, item]) => [childPath(path, index), item] as const)
+        : [[path, child] as const];
+
+    for (const [recordPath, record] of records) {
+      const lines: string[] = [];
+      flattenInto(record, recordPath, lines);
+      blocks.push({ lines, grouped: isContainer(record) });
+    }
+  }
+
+  // Blank line around each top-level object or array; scalar entries stay together
+  return blocks
+    .map((block, i) =>
+      i > 0 && (block.grouped || blocks[i - 1].grouped) ? `\n${block.lines.join('\n')}` : block.lines.join('\n')
+    )
+    .join('\n');
+}
+
+function flattenInto(value: unknown, path: string, lines: string[]): void {
+  if (!isContainer(value)) {
+    lines.push(`${path}: ${formatValue(value)}`);
+    return;
+  }
+
+  const children = entries(value);
+  if (children.length === 0) {
+    lines.push(`${path}: ${Array.isArray(value) ? '[]' : '{}'}`);
+    return;
+  }
+  for (const [key, child] of children) {
+    flattenInto(child, childPath(path, key), lines);
+  }
+}
+
+function isContainer(value: unknown): value is object {
+  return typeof value === 'object' && value !== null;
+}
+
+function entries(value: object): Array<[string | number, unknown]> {
+  return Array.isArray(value) ? value.map((item, i) => [i, item]) : Object.entries(value);
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  if (PLAIN_KEY_PATTERN.test(key)) return path ? `${path}.${key}` : key;
+  return `${path}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Scalars on a single line; strings unquoted
+ */
+function formatValue(value: unknown): string {
+  return typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() : String(value);
+}
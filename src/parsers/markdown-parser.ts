@@ -0,0 +1,97 @@
+import yaml from 'js-yaml';
+import { BaseParser } from './base-parser.js';
+import { ParsingError } from '../utils/error-handler.js';
+import { logger } from '../utils/logger.js';
+import type { DocumentMetadata, ParseResult } from '../types/index.js';
+
+/** YAML front-matter block at the very start of the file */
+const FRONT_MATTER_PATTERN = /^---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Markdown files
+ * Front-matter fields become document metadata (title, tags, department,
+ * language) and are removed from the content; without a front-matter title
+ * a level-1 heading opening the document is used.
+ */
+export class MarkdownParser extends BaseParser {
+  readonly supportedMimeTypes = ['text/markdown'];
+  readonly supportedExtensions = ['md', 'markdown'];
+
+  async parse(buffer: Buffer, filename?: string): Promise<ParseResult> {
+    try {
+      logger.debug('Parsing Markdown document', { filename });
+
+      const text = this.decodeText(buffer);
+      const match = FRONT_MATTER_PATTERN.exec(text);
+      const frontMatter = match ? readFrontMatter(match[1], filename) : {};
+      const content = this.cleanText(match ? text.slice(match[0].length) : text);
+
+      return {
+        content,
+        metadata: {
+          ...frontMatter,
+          title: frontMatter.title || firstHeading(content) || this.extractTitleFromFilename(filename),
+          mimeType: 'text/markdown',
+          originalFilename: filename,
+          fileSize: buffer.length,
+        },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('Failed to parse Markdown', { filename, error: message });
+      throw new ParsingError(`Failed to parse Markdown: ${message}`, { filename });
+    }
+  }
+}
+
+/**
+ * Metadata from front-matter; invalid YAML is logged and ignored
+ */
+function readFrontMatter(
+  source: string,
+  filename?: string
+): Partial<Pick<DocumentMetadata, 'title' | 'tags' | 'department' | 'language'>> {
+  let data: unknown;
+  try {
+    // JSON schema: dates and other YAML types stay plain strings
+    data = yaml.load(source, { schema: yaml.JSON_SCHEMA });
+  } catch (error) {
+    logger.warn('Invalid Markdown front-matter ignored', {
+      filename,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return {};
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return {};
+  }
+
+  const fields = data as Record<string, unknown>;
+  const tags = toTags(fields.tags ?? fields.keywords);
+  return {
+    ...(toText(fields.title) ? { title: toText(fields.title) } : {}),
+    ...(tags.length > 0 ? { tags } : {}),
+    ...(toText(fields.department) ? { department: toText(fields.department) } : {}),
+    ...(toText(fields.language ?? fields.lang) ? { language: toText(fields.language ?? fields.lang) } : {}),
+  };
+}
+
+/**
+ * Tags from a YAML list or a comma-separated string
+ */
+function toTags(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  const tags = items.map(toText).filter(Boolean);
+  return Array.from(new Set(tags));
+}
+
+function toText(value: unknown): string {
+  return typeof value === 'string' || typeof value === 'number' ? String(value).trim() : '';
+}
+
+/**
+ * Level-1 heading on the first line; later headings are sections, not the title
+ */
+function firstHeading(content: string): string | undefined {
+  return /^#[ \t]+(.+?)[ \t#]*(?:\n|$)/.exec(content)?.[1];
+}
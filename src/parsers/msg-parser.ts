@@ -0,0 +1,190 @@
+import { decompressRTF } from '@kenjiuno/decompressrtf';
+import msgreader, { type FieldsData } from '@kenjiuno/msgreader';
+import { BaseParser, getMimeTypeFromExtension } from './base-parser.js';
+import { readRtf } from './rtf-text.js';
+import { ParsingError } from '../utils/error-handler.js';
+import { logger } from '../utils/logger.js';
+import type { ParseResult, ParsedAttachment } from '../types/index.js';
+
+// CommonJS package: the class is the module's default export
+const MsgReader = msgreader.default;
+type MsgReader = InstanceType<typeof MsgReader>;
+
+const MSG_MIME_TYPE = 'application/vnd.ms-outlook';
+
+/**
+ * Outlook .msg files (OLE compound files, not MIME)
+ * Content follows EmailParser's layout; an RTF-only body is decompressed and
+ * read as text, or as HTML when Outlook encapsulated an HTML body in the RTF.
+ * Attachments, including forwarded messages embedded as .msg, are returned as
+ * child documents.
+ */
+export class MsgParser extends BaseParser {
+  readonly supportedMimeTypes = [MSG_MIME_TYPE];
+  readonly supportedExtensions = ['msg'];
+
+  async parse(buffer: Buffer, filename?: string): Promise<ParseResult> {
+    try {
+      logger.debug('Parsing Outlook message', { filename });
+
+      const reader = new MsgReader(
+        buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer
+      );
+      const fields = reader.getFileData();
+      if (fields.error) {
+        throw new Error(fields.error);
+      }
+
+      // Build email content
+      const parts: string[] = [];
+
+      const from = formatAddress(fields.senderName, fields.senderSmtpAddress || fields.senderEmail);
+      if (from) {
+        parts.push(`From: ${from}`);
+      }
+      const to = formatRecipients(fields.recipients, 'to');
+      if (to) {
+        parts.push(`To: ${to}`);
+      }
+      const cc = formatRecipients(fields.recipients, 'cc');
+      if (cc) {
+        parts.push(`Cc: ${cc}`);
+      }
+      if (fields.subject) {
+        parts.push(`Subject: ${fields.subject}`);
+      }
+      const date = parseDate(fields.messageDeliveryTime || fields.clientSubmitTime);
+      if (date) {
+        parts.push(`Date: ${date.toISOString()}`);
+      }
+
+      parts.push(''); // Empty line separator
+
+      // Add body
+      if (fields.body?.trim()) {
+        parts.push(fields.body);
+      } else if (fields.bodyHtml || fields.html) {
+        // Convert HTML body to text if no plain text version
+        const { convert } = await import('html-to-text');
+        const html = fields.bodyHtml || Buffer.from(fields.html as Uint8Array).toString('utf-8');
+        parts.push(convert(html, { wordwrap: false }));
+      } else if (fields.compressedRtf) {
+        const { text, html } = readRtf(
+          Buffer.from(decompressRTF(Array.from(fields.compressedRtf))).toString('latin1')
+        );
+        if (html) {
+          const { convert } = await import('html-to-text');
+          parts.push(convert(text, { wordwrap: false }));
+        } else {
+          parts.push(text);
+        }
+      }
+
+      const content = this.cleanText(parts.join('\n'));
+      const attachments = readAttachments(reader, fields.attachments ?? [], filename);
+
+      if (attachments.length > 0) {
+        logger.info('Email has attachments', {
+          filename,
+          attachmentCount: attachments.length,
+        });
+      }
+
+      return {
+        content,
+        metadata: {
+          title: fields.subject || this.extractTitleFromFilename(filename),
+          mimeType: MSG_MIME_TYPE,
+          originalFilename: filename,
+          fileSize: buffer.length,
+          documentType: 'Email',
+        },
+        attachments,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('Failed to parse Outlook message', { filename, error: message });
+      throw new ParsingError(`Failed to parse Outlook message: ${message}`, { filename });
+    }
+  }
+}
+
+/**
+ * Sender and recipient addresses of an Outlook message (do-not-ingest email_domain rules)
+ */
+export function readMsgAddresses(buffer: Buffer): string[] {
+  let fields: FieldsData;
+  try {
+    fields = new MsgReader(
+      buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer
+    ).getFileData();
+  } catch {
+    // Unreadable files fail in MsgParser.parse, so nothing is ingested either way
+    return [];
+  }
+
+  return [
+    fields.senderSmtpAddress,
+    fields.senderEmail,
+    ...(fields.recipients ?? []).flatMap((recipient) => [recipient.smtpAddress, recipient.email]),
+  ].filter((address): address is string => !!address && address.includes('@'));
+}
+
+/**
+ * Attachment files; embedded messages come back from msgreader as standalone .msg files
+ * An unreadable attachment is logged and skipped rather than failing the message.
+ */
+function readAttachments(
+  reader: MsgReader,
+  entries: FieldsData[],
+  filename?: string
+): ParsedAttachment[] {
+  const attachments: ParsedAttachment[] = [];
+
+  for (const entry of entries) {
+    try {
+      const data = reader.getAttachment(entry);
+      let name = data.fileName || entry.fileName || entry.name || 'attachment';
+      if (entry.innerMsgContent && !/\.msg$/i.test(name)) {
+        name = `${name}.msg`;
+      }
+
+      attachments.push({
+        filename: name,
+        content: Buffer.from(data.content),
+        mimeType: entry.innerMsgContent
+          ? MSG_MIME_TYPE
+          : entry.attachMimeTag || getMimeTypeFromExtension(name),
+      });
+    } catch (error) {
+      logger.warn('Failed to read Outlook attachment', {
+        filename,
+        attachment: entry.fileName || entry.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return attachments;
+}
+
+function formatRecipients(recipients: FieldsData[] | undefined, type: 'to' | 'cc'): string {
+  return (recipients ?? [])
+    .filter((recipient) => (recipient.recipType ?? 'to') === type)
+    .map((recipient) => formatAddress(recipient.name, recipient.smtpAddress || recipient.email))
+    .filter(Boolean)
+    .join(', ');
+}
+
+function formatAddress(name?: string, email?: string): string {
+  if (name && email && name !== email) {
+    return `${name} <${email}>`;
+  }
+  return name || email || '';
+}
+
+function parseDate(value?: string): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
@@ -0,0 +1,293 @@
+import type { TextItem } from "pdfjs-dist/types/src/display/api.js";
+
+/**
+ * Layout-aware text for a PDF page
+ * pdfjs returns positioned text fragments in content-stream order. Fragments
+ * are grouped into rows by baseline, rows are split into column flows where a
+ * vertical gutter runs through them, and runs of aligned multi-cell rows
+ * become Markdown tables.
+ */
+
+// Distances in ems of the row's font size
+const WORD_GAP_EM = 0.15;
+const CELL_GAP_EM = 1.5;
+const PARAGRAPH_GAP_EM = 1.8;
+const MIN_GUTTER_EM = 0.8;
+
+// Column detection
+const MIN_COLUMN_ROWS = 6;
+const MAX_COLUMN_DEPTH = 2;
+/** Share of rows allowed to cross a gutter (full-width headings, footers) */
+const MAX_CROSSING_SHARE = 0.15;
+/** Share of rows each column must hold */
+const MIN_COLUMN_SHARE = 0.25;
+/** Width-weighted average segment width per column, as a share of the text width; tables have narrower cells */
+const MIN_PROSE_WIDTH_SHARE = 0.25;
+
+interface Fragment {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+}
+
+/** Text of one row between two large horizontal gaps (a cell, or a column's line) */
+interface Segment {
+  text: string;
+  x0: number;
+  x1: number;
+}
+
+interface Row {
+  /** Baseline, in PDF units from the bottom of the page */
+  y: number;
+  fontSize: number;
+  segments: Segment[];
+}
+
+/**
+ * Page text in reading order: columns one after another, tables as Markdown
+ */
+export function layoutPageText(items: TextItem[]): string {
+  const rows = groupRows(toFragments(items));
+  return renderRows(orderRows(rows, 0));
+}
+
+function toFragments(items: TextItem[]): Fragment[] {
+  return items
+    .filter((item) => item.str.trim().length > 0)
+    .map((item) => {
+      const [, , c, d, x, y] = item.transform as number[];
+      return {
+        text: item.str,
+        x,
+        y,
+        width: item.width,
+        fontSize: Math.hypot(c, d) || item.height || 10,
+      };
+    });
+}
+
+/**
+ * Rows of fragments sharing a baseline, top to bottom
+ */
+function groupRows(fragments: Fragment[]): Row[] {
+  const sorted = [...fragments].sort((a, b) => b.y - a.y || a.x - b.x);
+  const groups: Array<{ y: number; fontSize: number; fragments: Fragment[] }> = [];
+
+  for (const fragment of sorted) {
+    const current = groups[groups.length - 1];
+    const tolerance = Math.min(fragment.fontSize, current?.fontSize ?? fragment.fontSize) * 0.5;
+    if (current && Math.abs(current.y - fragment.y) <= tolerance) {
+      current.fragments.push(fragment);
+      current.fontSize = Math.max(current.fontSize, fragment.fontSize);
+    } else {
+      groups.push({ y: fragment.y, fontSize: fragment.fontSize, fragments: [fragment] });
+    }
+  }
+
+  return groups.map((group) => ({
+    y: group.y,
+    fontSize: group.fontSize,
+    segments: toSegments(
+      group.fragments.sort((a, b) => a.x - b.x),
+      group.fontSize,
+    ),
+  }));
+}
+
+function toSegments(fragments: Fragment[], fontSize: number): Segment[] {
+  const segments: Segment[] = [];
+  let current: Segment | null = null;
+
+  for (const fragment of fragments) {
+    const gap = current ? fragment.x - current.x1 : 0;
+    if (!current || gap > fontSize * CELL_GAP_EM) {
+      current = { text: fragment.text, x0: fragment.x, x1: fragment.x + fragment.width };
+      segments.push(current);
+      continue;
+    }
+
+    const needsSpace =
+      gap > fontSize * WORD_GAP_EM && !/\s$/.test(current.text) && !/^\s/.test(fragment.text);
+    current.text += (needsSpace ? " " : "") + fragment.text;
+    current.x1 = Math.max(current.x1, fragment.x + fragment.width);
+  }
+
+  return segments
+    .map((segment) => ({ ...segment, text: segment.text.replace(/\s+/g, " ").trim() }))
+    .filter((segment) => segment.text.length > 0);
+}
+
+/**
+ * Rows in reading order
+ * Rows crossing a gutter (headings spanning both columns) end a block; within
+ * a block the left column is read before the right one. Columns are split
+ * again for three- and four-column layouts.
+ */
+function orderRows(rows: Row[], depth: number): Row[] {
+  const gutter = depth < MAX_COLUMN_DEPTH ? findGutter(rows) : null;
+  if (gutter === null) return rows;
+
+  const ordered: Row[] = [];
+  let left: Row[] = [];
+  let right: Row[] = [];
+  const flush = () => {
+    ordered.push(...orderRows(left, depth + 1), ...orderRows(right, depth + 1));
+    left = [];
+    right = [];
+  };
+
+  for (const row of rows) {
+    const leftSegments = row.segments.filter((s) => s.x1 <= gutter);
+    const rightSegments = row.segments.filter((s) => s.x0 >= gutter);
+    // Crossing the gutter, or a table row with cells on both sides
+    const fullWidth =
+      leftSegments.length + rightSegments.length < row.segments.length ||
+      (leftSegments.length > 0 && rightSegments.length > 0 && row.segments.length > 2);
+    if (fullWidth) {
+      flush();
+      ordered.push(row);
+      continue;
+    }
+    if (leftSegments.length > 0) left.push({ ...row, segments: leftSegments });
+    if (rightSegments.length > 0) right.push({ ...row, segments: rightSegments });
+  }
+  flush();
+
+  return ordered;
+}
+
+/**
+ * x of a vertical gutter separating two prose columns, or null
+ */
+function findGutter(rows: Row[]): number | null {
+  if (rows.length < MIN_COLUMN_ROWS) return null;
+
+  const segments = rows.flatMap((row) => row.segments);
+  const minX = Math.min(...segments.map((s) => s.x0));
+  const maxX = Math.max(...segments.map((s) => s.x1));
+  const width = maxX - minX;
+  if (width <= 0) return null;
+
+  // Rows covering each 1-unit column of the page
+  const coverage = new Array<number>(Math.ceil(width) + 1).fill(0);
+  for (const row of rows) {
+    const covered = new Set<number>();
+    for (const s of row.segments) {
+      for (let x = Math.floor(s.x0 - minX); x < Math.ceil(s.x1 - minX); x++) covered.add(x);
+    }
+    covered.forEach((x) => coverage[x]++);
+  }
+
+  // Widest run of (nearly) empty columns in the middle of the text
+  const maxCrossing = Math.floor(rows.length * MAX_CROSSING_SHARE);
+  const fontSizes = rows.map((row) => row.fontSize).sort((a, b) => a - b);
+  const minGutter = fontSizes[Math.floor(fontSizes.length / 2)] * MIN_GUTTER_EM;
+  let best: { start: number; length: number } | null = null;
+  let runStart = -1;
+  const from = Math.floor(width * 0.2);
+  const to = Math.ceil(width * 0.8);
+  for (let x = from; x <= to + 1; x++) {
+    if (x <= to && coverage[x] <= maxCrossing) {
+      if (runStart < 0) runStart = x;
+    } else if (runStart >= 0) {
+      const length = x - runStart;
+      if (length >= minGutter && (!best || length > best.length)) best = { start: runStart, length };
+      runStart = -1;
+    }
+  }
+  if (!best) return null;
+
+  const gutter = minX + best.start + best.length / 2;
+  const leftSegments = segments.filter((s) => s.x1 <= gutter);
+  const rightSegments = segments.filter((s) => s.x0 >= gutter);
+  const leftRows = rows.filter((row) => row.segments.some((s) => s.x1 <= gutter)).length;
+  const rightRows = rows.filter((row) => row.segments.some((s) => s.x0 >= gutter)).length;
+  const averageWidth = (list: Segment[]) =>
+    list.reduce((sum, s) => sum + (s.x1 - s.x0) ** 2, 0) /
+    Math.max(list.reduce((sum, s) => sum + s.x1 - s.x0, 0), 1);
+
+  const isProse =
+    leftRows >= rows.length * MIN_COLUMN_SHARE &&
+    rightRows >= rows.length * MIN_COLUMN_SHARE &&
+    averageWidth(leftSegments) >= width * MIN_PROSE_WIDTH_SHARE &&
+    averageWidth(rightSegments) >= width * MIN_PROSE_WIDTH_SHARE;
+
+  return isProse ? gutter : null;
+}
+
+/**
+ * Rows as text; paragraph breaks at large vertical gaps and column jumps
+ */
+function renderRows(rows: Row[]): string {
+  const blocks: string[] = [];
+  let paragraph: string[] = [];
+  const flushParagraph = () => {
+    if (paragraph.length > 0) blocks.push(paragraph.join("\n"));
+    paragraph = [];
+  };
+
+  let i = 0;
+  while (i < rows.length) {
+    // Runs of multi-cell rows are table candidates
+    let end = i;
+    while (end < rows.length && rows[end].segments.length > 1) end++;
+    const table = end - i >= 2 ? renderTable(rows.slice(i, end)) : null;
+
+    if (table) {
+      flushParagraph();
+      blocks.push(table);
+      i = end;
+      continue;
+    }
+
+    const row = rows[i];
+    const previous = rows[i - 1];
+    if (
+      previous &&
+      (row.y > previous.y || previous.y - row.y > previous.fontSize * PARAGRAPH_GAP_EM)
+    ) {
+      flushParagraph();
+    }
+    paragraph.push(row.segments.map((s) => s.text).join(" "));
+    i++;
+  }
+  flushParagraph();
+
+  return blocks.join("\n\n");
+}
+
+/**
+ * Markdown table for rows whose cells line up, or null
+ * Columns are the overlapping cell extents of all rows; the first row is the header.
+ */
+function renderTable(rows: Row[]): string | null {
+  const extents = rows
+    .flatMap((row) => row.segments.map((s) => [s.x0, s.x1] as [number, number]))
+    .sort((a, b) => a[0] - b[0]);
+  const columns: Array<[number, number]> = [];
+  for (const [x0, x1] of extents) {
+    const last = columns[columns.length - 1];
+    if (last && x0 < last[1]) last[1] = Math.max(last[1], x1);
+    else columns.push([x0, x1]);
+  }
+  if (columns.length < 2) return null;
+
+  const cells = rows.map((row) => {
+    const rowCells = columns.map(() => [] as string[]);
+    for (const s of row.segments) {
+      const column = columns.findIndex(([x0, x1]) => s.x0 < x1 && s.x1 > x0);
+      rowCells[column].push(s.text.replace(/\|/g, "\\|"));
+    }
+    return rowCells.map((parts) => parts.join(" "));
+  });
+
+  const line = (values: string[]) => `| ${values.join(" | ")} |`;
+  return [
+    line(cells[0]),
+    line(columns.map(() => "---")),
+    ...cells.slice(1).map(line),
+  ].join("\n");
+}
@@ -0,0 +1,85 @@
+import { spawn } from "child_process";
+import { extractTextFromImage, type VisionOptions } from "../services/vision-service.js";
+import { getConfig } from "../utils/config.js";
+import { logger } from "../utils/logger.js";
+import type { OcrSettings } from "../types/index.js";
+
+/**
+ * OCR for rendered PDF pages without a text layer (config parsing.ocr, PDF_OCR)
+ */
+
+export type ResolvedOcrSettings = Required<OcrSettings>;
+
+const DEFAULT_OCR_SETTINGS: ResolvedOcrSettings = {
+  enabled: false,
+  provider: "tesseract",
+  languages: "nor+swe+dan+deu+eng",
+  model: "gpt-4o-mini",
+  minPageChars: 20,
+  maxPages: 50,
+  scale: 2,
+  timeoutMs: 60_000,
+};
+
+/**
+ * OCR settings with defaults, or null when OCR is disabled
+ */
+export function getOcrSettings(): ResolvedOcrSettings | null {
+  const settings = { ...DEFAULT_OCR_SETTINGS, ...getConfig().parsing?.ocr };
+  return settings.enabled ? settings : null;
+}
+
+/**
+ * Text of a rendered page (PNG)
+ */
+export async function recognizePageImage(
+  png: Buffer,
+  settings: ResolvedOcrSettings,
+): Promise<string> {
+  if (settings.provider === "vision") {
+    return extractTextFromImage(png.toString("base64"), "image/png", {
+      model: settings.model as VisionOptions["model"],
+      detail: "high",
+    });
+  }
+  return runTesseract(png, settings);
+}
+
+/**
+ * Local tesseract binary; the image is passed on stdin
+ */
+function runTesseract(png: Buffer, settings: ResolvedOcrSettings): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn("tesseract", ["stdin", "stdout", "-l", settings.languages], {
+      timeout: settings.timeoutMs,
+    });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+
+    child.stdout.on("data", (chunk: Buffer) => stdout.push(chunk));
+    child.stderr.on("data", (chunk: Buffer) => stderr.push(chunk));
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      reject(
+        error.code === "ENOENT"
+          ? new Error("tesseract not found; install it or set parsing.ocr.provider to vision")
+          : error,
+      );
+    });
+    child.on("close", (code, signal) => {
+      if (code === 0) {
+        resolve(Buffer.concat(stdout).toString("utf-8"));
+        return;
+      }
+      const message = signal
+        ? `tesseract stopped by ${signal} (timeout ${settings.timeoutMs}ms)`
+        : `tesseract exited with code ${code}: ${Buffer.concat(stderr).toString("utf-8").trim()}`;
+      logger.debug("tesseract failed", { code, signal });
+      reject(new Error(message));
+    });
+
+    child.stdin.on("error", () => {
+      // Reported by the close/error handlers
+    });
+    child.stdin.end(png);
+  });
+}
@@ -1,13 +1,36 @@
 import * as pdfjs from "pdfjs-dist/legacy/build/pdf.mjs";
-import type { TextItem } from "pdfjs-dist/types/src/display/api.js";
+import type {
+  PDFDocumentProxy,
+  PDFPageProxy,
+  TextItem,
+} from "pdfjs-dist/types/src/display/api.js";
 import { BaseParser } from "./base-parser.js";
+import { layoutPageText } from "./pdf-layout.js";
+import {
+  getOcrSettings,
+  recognizePageImage,
+  type ResolvedOcrSettings,
+} from "./pdf-ocr.js";
 import { ParsingError } from "../utils/error-handler.js";
 import { logger } from "../utils/logger.js";
-import type { ParseResult } from "../types/index.js";
+import type { ContentLocation, ParseResult } from "../types/index.js";
 
 // Use legacy build for Node.js - doesn't require web worker
 // The legacy build is compatible with older environments and Node.js
 
+/**
+ * Canvas from pdfjs's NodeCanvasFactory (@napi-rs/canvas)
+ */
+interface PageCanvas {
+  canvas: { toBuffer(mimeType: "image/png"): Buffer };
+  context: Parameters<PDFPageProxy["render"]>[0]["canvasContext"];
+}
+
+interface CanvasFactory {
+  create(width: number, height: number): PageCanvas;
+  destroy(canvasAndContext: PageCanvas): void;
+}
+
 export class PdfParser extends BaseParser {
   readonly supportedMimeTypes = ["application/pdf"];
   readonly supportedExtensions = ["pdf"];
@@ -27,31 +50,70 @@ export class PdfParser extends BaseParser {
 
       const doc = await loadingTask.promise;
 
-      // Extract text from all pages
-      const textContent: string[] = [];
+      // Extract text page by page, recording where each page lands in the content
+      const ocr = getOcrSettings();
+      const pageTexts: string[] = [];
+      const locations: ContentLocation[] = [];
+      const textlessPages: number[] = [];
+      let ocrPages = 0;
+      let offset = 0;
 
       for (let pageNum = 1; pageNum <= doc.numPages; pageNum++) {
         const page = await doc.getPage(pageNum);
-        const content = await page.getTextContent();
+        const textContent = await page.getTextContent();
+        let pageText = this.cleanText(
+          layoutPageText(
+            textContent.items.filter((item): item is TextItem => "str" in item),
+          ),
+        );
+        let fromOcr = false;
 
-        // Join text items with spaces, preserving rough structure
-        const pageText = content.items
-          .filter((item): item is TextItem => "str" in item)
-          .map((item) => item.str)
-          .join(" ");
+        if (pageText.length < (ocr?.minPageChars ?? 20)) {
+          if (ocr && ocrPages < ocr.maxPages) {
+            ocrPages++;
+            const ocrText = await this.ocrPage(doc, page, ocr, filename);
+            if (ocrText.length > pageText.length) {
+              pageText = ocrText;
+              fromOcr = true;
+            }
+          } else {
+            textlessPages.push(pageNum);
+          }
+        }
+        page.cleanup();
 
-        textContent.push(pageText);
+        if (!pageText) continue;
+        if (pageTexts.length > 0) offset += 2; // "\n\n" between pages
+        pageTexts.push(pageText);
+        locations.push({
+          start: offset,
+          end: offset + pageText.length,
+          page: pageNum,
+          ...(fromOcr ? { ocr: true } : {}),
+        });
+        offset += pageText.length;
       }
 
-      const rawText = textContent.join("\n\n");
-      const content = this.cleanText(rawText);
+      const content = pageTexts.join("\n\n");
 
-      if (!content || content.length < 10) {
+      if (textlessPages.length > 0) {
         logger.warn(
-          "PDF has minimal text content, may be scanned/image-based",
-          { filename },
+          "PDF pages have no text layer, may be scanned/image-based",
+          {
+            filename,
+            pages: textlessPages.slice(0, 20),
+            pageCount: textlessPages.length,
+            ocr: ocr ? `page limit (${ocr.maxPages}) reached` : "disabled (PDF_OCR)",
+          },
         );
       }
+      if (ocrPages > 0) {
+        logger.info("OCR applied to PDF pages without text", {
+          filename,
+          pages: ocrPages,
+          provider: ocr?.provider,
+        });
+      }
 
       // Extract metadata
       let title = this.extractTitleFromFilename(filename);
@@ -76,6 +138,7 @@ export class PdfParser extends BaseParser {
           originalFilename: filename,
           fileSize: buffer.length,
         },
+        locations,
       };
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
@@ -83,4 +146,46 @@ export class PdfParser extends BaseParser {
       throw new ParsingError(`Failed to parse PDF: ${message}`, { filename });
     }
   }
+
+  /**
+   * Render a page and OCR it; failures leave the page without text
+   */
+  private async ocrPage(
+    doc: PDFDocumentProxy,
+    page: PDFPageProxy,
+    settings: ResolvedOcrSettings,
+    filename?: string,
+  ): Promise<string> {
+    const factory = (doc as unknown as { canvasFactory: CanvasFactory })
+      .canvasFactory;
+    const viewport = page.getViewport({ scale: settings.scale });
+    const target = factory.create(
+      Math.ceil(viewport.width),
+      Math.ceil(viewport.height),
+    );
+
+    try {
+      await page.render({
+        canvasContext: target.context,
+        viewport,
+      }).promise;
+      const png = target.canvas.toBuffer("image/png");
+      const text = await this.withTimeout(
+        recognizePageImage(png, settings),
+        settings.timeoutMs,
+        filename,
+      );
+      return this.cleanText(text);
+    } catch (error) {
+      logger.warn("OCR failed for PDF page", {
+        filename,
+        page: page.pageNumber,
+        provider: settings.provider,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return "";
+    } finally {
+      factory.destroy(target);
+    }
+  }
 }
@@ -0,0 +1,266 @@
+import * as CFB from 'cfb';
+import { BaseParser } from './base-parser.js';
+import { ParsingError } from '../utils/error-handler.js';
+import { logger } from '../utils/logger.js';
+import type { ParseResult } from '../types/index.js';
+
+/**
+ * PowerPoint 97-2003 (.ppt) binary presentations
+ * The "PowerPoint Document" stream is a tree of records. The persist directory
+ * of the latest edit maps the document, slides and notes to their offsets; a
+ * slide's text sits in the document's slide list (placeholders) and in its
+ * drawing (other text boxes). Output matches PptxParser: slides in order,
+ * speaker notes after the last slide.
+ */
+
+// [MS-PPT] record types
+const RT_DOCUMENT = 0x03e8;
+const RT_SLIDE_ATOM = 0x03ef;
+const RT_MAIN_MASTER = 0x03f8;
+const RT_SLIDE_PERSIST_ATOM = 0x03f3;
+const RT_TEXT_CHARS_ATOM = 0x0fa0;
+const RT_TEXT_BYTES_ATOM = 0x0fa8;
+const RT_SLIDE_LIST_WITH_TEXT = 0x0ff0;
+const RT_USER_EDIT_ATOM = 0x0ff5;
+const RT_PERSIST_DIRECTORY_ATOM = 0x1772;
+
+// SlideListWithTextContainer instances (2 lists the notes pages)
+const SLIDE_LIST_SLIDES = 0;
+const SLIDE_LIST_MASTERS = 1;
+
+/** CurrentUserAtom.headerToken of an encrypted presentation */
+const ENCRYPTED_HEADER_TOKEN = 0xf3d1c4df;
+/** Guard against edit chains that loop */
+const MAX_USER_EDITS = 1000;
+
+interface PptRecord {
+  type: number;
+  instance: number;
+  isContainer: boolean;
+  /** Offset of the record body (after the 8-byte header) */
+  offset: number;
+  length: number;
+}
+
+export class PptParser extends BaseParser {
+  readonly supportedMimeTypes = ['application/vnd.ms-powerpoint'];
+  readonly supportedExtensions = ['ppt'];
+
+  async parse(buffer: Buffer, filename?: string): Promise<ParseResult> {
+    try {
+      logger.debug('Parsing PPT document', { filename });
+
+      const container = CFB.read(buffer, { type: 'buffer' });
+      const documentEntry = CFB.find(container, 'PowerPoint Document');
+      if (!documentEntry) {
+        throw new Error('Not a PowerPoint 97-2003 file (no PowerPoint Document stream)');
+      }
+      const stream = Buffer.from(documentEntry.content);
+      const currentUserEntry = CFB.find(container, 'Current User');
+      const currentUser = currentUserEntry ? Buffer.from(currentUserEntry.content) : null;
+
+      if (
+        CFB.find(container, 'EncryptedSummary') ||
+        (currentUser && currentUser.length >= 16 && currentUser.readUInt32LE(12) === ENCRYPTED_HEADER_TOKEN)
+      ) {
+        throw new Error('Encrypted presentations are not supported');
+      }
+
+      let blocks: string[];
+      try {
+        blocks = readSlides(stream, currentUser);
+      } catch (error) {
+        // Damaged or unusual edit history: take the text of every record in file order
+        logger.warn('PPT persist directory unreadable, reading records in file order', {
+          filename,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        blocks = [uniqueTexts(collectTexts(stream, 0, stream.length)).join('\n')];
+      }
+
+      const content = this.cleanText(blocks.filter(Boolean).join('\n\n'));
+      if (!content) {
+        throw new ParsingError('No text content extracted from PPT', { filename });
+      }
+
+      return {
+        content,
+        metadata: {
+          title: this.extractTitleFromFilename(filename),
+          mimeType: 'application/vnd.ms-powerpoint',
+          originalFilename: filename,
+          fileSize: buffer.length,
+        },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('Failed to parse PPT', { filename, error: message });
+      throw new ParsingError(`Failed to parse PPT: ${message}`, { filename });
+    }
+  }
+}
+
+/**
+ * Text blocks per slide, then per notes page
+ */
+function readSlides(stream: Buffer, currentUser: Buffer | null): string[] {
+  if (!currentUser || currentUser.length < 20) {
+    throw new Error('Current User stream missing');
+  }
+  const { persist, documentId } = readPersistDirectory(stream, currentUser.readUInt32LE(16));
+
+  const document = recordAt(stream, offsetOf(persist, documentId), RT_DOCUMENT);
+  const slideIds: number[] = [];
+  const listTexts = new Map<number, string[]>();
+  for (const list of children(stream, document)) {
+    if (list.type !== RT_SLIDE_LIST_WITH_TEXT || list.instance === SLIDE_LIST_MASTERS) continue;
+
+    // Placeholder text follows the SlidePersistAtom of its slide or notes page
+    let texts: string[] | null = null;
+    for (const record of children(stream, list)) {
+      if (record.type === RT_SLIDE_PERSIST_ATOM) {
+        const persistId = stream.readUInt32LE(record.offset);
+        texts = [];
+        listTexts.set(persistId, texts);
+        if (list.instance === SLIDE_LIST_SLIDES) slideIds.push(persistId);
+      } else if (texts) {
+        texts.push(...collectTexts(stream, record.offset - 8, record.offset + record.length));
+      }
+    }
+  }
+
+  const slides: string[] = [];
+  const notes: string[] = [];
+  for (const slideId of slideIds) {
+    const slide = recordAt(stream, offsetOf(persist, slideId));
+    slides.push(pageText(stream, slide, listTexts.get(slideId)));
+
+    const slideAtom = children(stream, slide).find((record) => record.type === RT_SLIDE_ATOM);
+    const notesId = slideAtom && slideAtom.length >= 20 ? stream.readUInt32LE(slideAtom.offset + 16) : 0;
+    if (notesId && persist.has(notesId)) {
+      notes.push(pageText(stream, recordAt(stream, offsetOf(persist, notesId)), listTexts.get(notesId)));
+    }
+  }
+
+  return [...slides, ...notes];
+}
+
+/**
+ * Placeholder text from the slide list, then text boxes of the page's drawing
+ */
+function pageText(stream: Buffer, page: PptRecord, placeholderTexts: string[] = []): string {
+  const drawingTexts = collectTexts(stream, page.offset, page.offset + page.length);
+  return uniqueTexts([...placeholderTexts, ...drawingTexts]).join('\n');
+}
+
+/**
+ * Persist id -> stream offset, applying the edits oldest first
+ */
+function readPersistDirectory(
+  stream: Buffer,
+  currentEditOffset: number
+): { persist: Map<number, number>; documentId: number } {
+  const edits: PptRecord[] = [];
+  const seen = new Set<number>();
+  let offset = currentEditOffset;
+  while (!seen.has(offset) && edits.length < MAX_USER_EDITS) {
+    seen.add(offset);
+    const edit = recordAt(stream, offset, RT_USER_EDIT_ATOM);
+    edits.push(edit);
+    offset = stream.readUInt32LE(edit.offset + 8); // offsetLastEdit
+    if (offset === 0) break;
+  }
+
+  const persist = new Map<number, number>();
+  for (const edit of edits.reverse()) {
+    const directory = recordAt(stream, stream.readUInt32LE(edit.offset + 12), RT_PERSIST_DIRECTORY_ATOM);
+    let position = directory.offset;
+    const end = directory.offset + directory.length;
+    while (position + 4 <= end) {
+      const entry = stream.readUInt32LE(position);
+      const firstId = entry & 0xfffff;
+      const count = entry >>> 20;
+      position += 4;
+      for (let i = 0; i < count && position + 4 <= end; i++, position += 4) {
+        persist.set(firstId + i, stream.readUInt32LE(position));
+      }
+    }
+  }
+
+  const latest = edits[edits.length - 1];
+  return { persist, documentId: stream.readUInt32LE(latest.offset + 16) };
+}
+
+function offsetOf(persist: Map<number, number>, persistId: number): number {
+  const offset = persist.get(persistId);
+  if (offset === undefined) {
+    throw new Error(`Persist object ${persistId} not found`);
+  }
+  return offset;
+}
+
+function recordAt(stream: Buffer, offset: number, expectedType?: number): PptRecord {
+  if (offset + 8 > stream.length) {
+    throw new Error(`Record offset ${offset} outside the document stream`);
+  }
+  const versionAndInstance = stream.readUInt16LE(offset);
+  const record: PptRecord = {
+    type: stream.readUInt16LE(offset + 2),
+    instance: versionAndInstance >>> 4,
+    isContainer: (versionAndInstance & 0xf) === 0xf,
+    offset: offset + 8,
+    length: Math.min(stream.readUInt32LE(offset + 4), stream.length - offset - 8),
+  };
+  if (expectedType !== undefined && record.type !== expectedType) {
+    throw new Error(
+      `Expected record 0x${expectedType.toString(16)} at ${offset}, found 0x${record.type.toString(16)}`
+    );
+  }
+  return record;
+}
+
+function children(stream: Buffer, container: PptRecord): PptRecord[] {
+  const records: PptRecord[] = [];
+  if (!container.isContainer) return records;
+  const end = container.offset + container.length;
+  for (let offset = container.offset; offset + 8 <= end; ) {
+    const record = recordAt(stream, offset);
+    records.push(record);
+    offset = record.offset + record.length;
+  }
+  return records;
+}
+
+/**
+ * Text atoms of the records in [start, end), depth first; masters are skipped
+ */
+function collectTexts(stream: Buffer, start: number, end: number): string[] {
+  const texts: string[] = [];
+  for (let offset = start; offset + 8 <= end; ) {
+    const record = recordAt(stream, offset);
+    offset = record.offset + record.length;
+
+    if (
+      record.type === RT_MAIN_MASTER ||
+      (record.type === RT_SLIDE_LIST_WITH_TEXT && record.instance === SLIDE_LIST_MASTERS)
+    ) {
+      continue;
+    }
+    if (record.isContainer) {
+      texts.push(...collectTexts(stream, record.offset, record.offset + record.length));
+    } else if (record.type === RT_TEXT_CHARS_ATOM) {
+      texts.push(stream.toString('utf16le', record.offset, record.offset + record.length));
+    } else if (record.type === RT_TEXT_BYTES_ATOM) {
+      texts.push(stream.toString('latin1', record.offset, record.offset + record.length));
+    }
+  }
+  // Paragraphs end with \r, line breaks within a paragraph are \v
+  return texts.map((text) => text.replace(/[\r\v]/g, '\n').trim());
+}
+
+/**
+ * Non-empty texts without repeats; "*" is the slide number field placeholder
+ */
+function uniqueTexts(texts: string[]): string[] {
+  return Array.from(new Set(texts.filter((text) => text && text !== '*')));
+}
@@ -1,5 +1,6 @@
 import { parseOfficeAsync } from 'officeparser';
 import { BaseParser } from './base-parser.js';
+import { extractOoxmlEmbeddings } from './embedded-files.js';
 import { ParsingError } from '../utils/error-handler.js';
 import { logger } from '../utils/logger.js';
 import type { ParseResult } from '../types/index.js';
@@ -7,9 +8,8 @@ import type { ParseResult } from '../types/index.js';
 export class PptxParser extends BaseParser {
   readonly supportedMimeTypes = [
     'application/vnd.openxmlformats-officedocument.presentationml.presentation',
-    'application/vnd.ms-powerpoint',
   ];
-  readonly supportedExtensions = ['pptx', 'ppt'];
+  readonly supportedExtensions = ['pptx'];
 
   async parse(buffer: Buffer, filename?: string): Promise<ParseResult> {
     try {
@@ -26,6 +26,7 @@ export class PptxParser extends BaseParser {
       }
 
       const cleanedContent = this.cleanText(content);
+      const attachments = await extractOoxmlEmbeddings(buffer, filename);
 
       return {
         content: cleanedContent,
@@ -35,6 +36,7 @@ export class PptxParser extends BaseParser {
           originalFilename: filename,
           fileSize: buffer.length,
         },
+        attachments,
       };
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
@@ -0,0 +1,201 @@
+/**
+ * Text of an RTF document
+ * Only what message bodies need: paragraphs, tabs, escaped characters in the
+ * document code page and \u characters. Tables of fonts, colours, styles,
+ * pictures, objects and other destinations are skipped. RTF that Outlook
+ * generated from HTML (\fromhtml) is de-encapsulated to the original HTML
+ * instead (MS-OXRTFEX), so the caller can convert it like any HTML body.
+ */
+export interface RtfContent {
+  text: string;
+  /** text is the de-encapsulated HTML of a \fromhtml document */
+  html: boolean;
+}
+
+/** Destinations whose content is never document text */
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl',
+  'colortbl',
+  'stylesheet',
+  'listtable',
+  'listoverridetable',
+  'revtbl',
+  'rsidtbl',
+  'info',
+  'pict',
+  'object',
+  'fldinst',
+  'header',
+  'headerl',
+  'headerr',
+  'headerf',
+  'footer',
+  'footerl',
+  'footerr',
+  'footerf',
+  'xmlnstbl',
+]);
+
+/** Control words that produce text */
+const CONTROL_TEXT: Record<string, string> = {
+  par: '\n',
+  line: '\n',
+  sect: '\n',
+  page: '\n',
+  row: '\n',
+  cell: '\t',
+  tab: '\t',
+  emdash: '—',
+  endash: '–',
+  bullet: '•',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+  emspace: ' ',
+  enspace: ' ',
+  qmspace: ' ',
+};
+
+interface GroupState {
+  /** Inside a skipped destination */
+  skip: boolean;
+  /** Inside an \htmltag destination (output even while \htmlrtf is on) */
+  htmlTag: boolean;
+  /** \htmlrtf: RTF-only content that is not part of the encapsulated HTML */
+  htmlRtf: boolean;
+  /** \ucN: fallback characters following each \u character */
+  unicodeSkip: number;
+}
+
+const TOKEN_PATTERN = /\\([a-z]{1,32})(-?\d{1,10})? ?|\\'([0-9a-f]{2})|\\([^a-z])|([{}])|[\r\n]+|[^\\{}\r\n]+/giy;
+
+export function readRtf(rtf: string): RtfContent {
+  let codePage = 'windows-1252';
+  let html = false;
+  let output = '';
+  let bytes: number[] = [];
+  let fallbackChars = 0;
+
+  let state: GroupState = { skip: false, htmlTag: false, htmlRtf: false, unicodeSkip: 1 };
+  const stack: GroupState[] = [];
+  // Set at "{" until the group's first token: that token may name a destination
+  let groupStart = false;
+  let ignorable = false;
+
+  const visible = () => !state.skip && (state.htmlTag || !state.htmlRtf);
+  const flushBytes = () => {
+    if (bytes.length > 0) {
+      output += decodeBytes(bytes, codePage);
+      bytes = [];
+    }
+  };
+  const append = (text: string) => {
+    if (visible()) {
+      flushBytes();
+      output += text;
+    }
+  };
+
+  TOKEN_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TOKEN_PATTERN.exec(rtf))) {
+    const [token, word, param, hex, symbol, brace] = match;
+
+    if (brace === '{') {
+      stack.push(state);
+      state = { ...state };
+      groupStart = true;
+      ignorable = false;
+      continue;
+    }
+    if (brace === '}') {
+      state = stack.pop() ?? state;
+      groupStart = false;
+      continue;
+    }
+
+    if (symbol === '*' && groupStart) {
+      ignorable = true;
+      continue;
+    }
+
+    if (word) {
+      const atGroupStart = groupStart;
+      groupStart = false;
+
+      if (atGroupStart && ignorable) {
+        // Unknown \* destinations are skipped; \htmltag holds the encapsulated HTML
+        if (html && word === 'htmltag') {
+          state.htmlTag = true;
+        } else {
+          state.skip = true;
+        }
+        continue;
+      }
+      if (atGroupStart && SKIPPED_DESTINATIONS.has(word)) {
+        state.skip = true;
+        continue;
+      }
+      if (state.skip) {
+        continue;
+      }
+
+      if (word === 'fromhtml') {
+        html = true;
+      } else if (word === 'ansicpg' && param) {
+        codePage = `windows-${param}`;
+      } else if (word === 'htmlrtf') {
+        state.htmlRtf = param !== '0';
+      } else if (word === 'uc' && param) {
+        state.unicodeSkip = Number(param);
+      } else if (word === 'u' && param) {
+        const code = Number(param);
+        append(String.fromCharCode(code < 0 ? code + 0x10000 : code));
+        fallbackChars = state.unicodeSkip;
+      } else if (word in CONTROL_TEXT) {
+        append(CONTROL_TEXT[word]);
+      }
+      continue;
+    }
+
+    groupStart = false;
+    if (state.skip) {
+      continue;
+    }
+
+    if (hex) {
+      if (fallbackChars > 0) {
+        fallbackChars--;
+      } else if (visible()) {
+        bytes.push(parseInt(hex, 16));
+      }
+    } else if (symbol) {
+      if (symbol === '~') {
+        append(' ');
+      } else if (symbol === '\\' || symbol === '{' || symbol === '}') {
+        append(symbol);
+      }
+      // \- (optional hyphen), \_ (non-breaking hyphen marker) and others add nothing
+    } else if (!/^[\r\n]/.test(token)) {
+      // Literal text; the first characters may be the fallback of a \u character
+      const skipped = Math.min(fallbackChars, token.length);
+      fallbackChars -= skipped;
+      append(token.slice(skipped));
+    }
+  }
+  flushBytes();
+
+  return { text: output, html };
+}
+
+/**
+ * Escaped bytes in the document code page (latin1 if Node has no decoder for it)
+ */
+function decodeBytes(bytes: number[], codePage: string): string {
+  try {
+    return new TextDecoder(codePage).decode(Uint8Array.from(bytes));
+  } catch {
+    return Buffer.from(bytes).toString('latin1');
+  }
+}
@@ -189,10 +189,12 @@ export class SlackParser extends BaseParser {
 
   /**
    * Parse multiple JSON files from a channel and return grouped threads
+   * isExcludedUser drops a user's messages and the threads they started
    */
   parseChannelExport(
     files: Array<{ buffer: Buffer; filename: string }>,
     channel: string,
+    options: { isExcludedUser?: (userId: string) => boolean } = {},
   ): SlackThread[] {
     const allMessages: SlackMessage[] = [];
 
@@ -205,8 +207,21 @@ export class SlackParser extends BaseParser {
     // Build user cache from all messages
     this.buildUserCache(allMessages);
 
+    let messages = allMessages;
+    const isExcluded = options.isExcludedUser;
+    if (isExcluded) {
+      const excludedThreads = new Set(
+        allMessages
+          .filter((m) => m.user && isExcluded(m.user) && (!m.thread_ts || m.thread_ts === m.ts))
+          .map((m) => m.ts),
+      );
+      messages = allMessages.filter(
+        (m) => !(m.user && isExcluded(m.user)) && !excludedThreads.has(m.thread_ts || m.ts),
+      );
+    }
+
     // Group messages by thread
-    return this.groupByThread(allMessages, channel);
+    return this.groupByThread(messages, channel);
   }
 
   /**
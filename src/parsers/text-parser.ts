@@ -4,33 +4,15 @@ import { logger } from '../utils/logger.js';
 import type { ParseResult } from '../types/index.js';
 
 export class TextParser extends BaseParser {
-  readonly supportedMimeTypes = [
-    'text/plain',
-    'text/markdown',
-    'application/json',
-    'application/xml',
-    'text/xml',
-  ];
-  readonly supportedExtensions = ['txt', 'md', 'markdown', 'json', 'xml', 'log', 'rtf'];
+  readonly supportedMimeTypes = ['text/plain'];
+  readonly supportedExtensions = ['txt', 'log', 'rtf'];
 
   async parse(buffer: Buffer, filename?: string): Promise<ParseResult> {
     try {
       logger.debug('Parsing text document', { filename });
       
-      // Try UTF-8 first, then fallback to latin1
-      let text: string;
-      try {
-        text = buffer.toString('utf-8');
-        // Check for invalid UTF-8 sequences
-        if (text.includes('\ufffd')) {
-          text = buffer.toString('latin1');
-        }
-      } catch {
-        text = buffer.toString('latin1');
-      }
-
-      const content = this.cleanText(text);
-      const mimeType = this.detectMimeType(filename, content);
+      const content = this.cleanText(this.decodeText(buffer));
+      const mimeType = this.detectMimeType(content);
 
       return {
         content,
@@ -48,22 +30,7 @@ export class TextParser extends BaseParser {
     }
   }
 
-  private detectMimeType(filename?: string, content?: string): string {
-    if (filename) {
-      const ext = filename.toLowerCase().split('.').pop();
-      switch (ext) {
-        case 'md':
-        case 'markdown':
-          return 'text/markdown';
-        case 'json':
-          return 'application/json';
-        case 'xml':
-          return 'application/xml';
-        default:
-          break;
-      }
-    }
-
+  private detectMimeType(content?: string): string {
     // Try to detect from content
     if (content) {
       const trimmed = content.trim();
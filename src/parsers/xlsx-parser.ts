@@ -1,8 +1,35 @@
 import * as XLSX from "xlsx";
 import { BaseParser } from "./base-parser.js";
 import { ParsingError } from "../utils/error-handler.js";
+import { getConfig } from "../utils/config.js";
 import { logger } from "../utils/logger.js";
-import type { ParseResult } from "../types/index.js";
+import type {
+  ContentLocation,
+  ParseResult,
+  SpreadsheetMode,
+} from "../types/index.js";
+
+const DEFAULT_MAX_TABLE_ROWS = 30;
+/** Rows searched for a header (title rows may come first) */
+const HEADER_SCAN_ROWS = 10;
+
+/**
+ * A visible, non-empty sheet row
+ */
+interface SheetRow {
+  /** 1-based row number as shown in Excel */
+  rowNumber: number;
+  cells: string[];
+}
+
+/**
+ * Output line and the rows it came from
+ */
+interface RenderedLine {
+  text: string;
+  rowStart?: number;
+  rowEnd?: number;
+}
 
 export class XlsxParser extends BaseParser {
   readonly supportedMimeTypes = [
@@ -16,8 +43,39 @@ export class XlsxParser extends BaseParser {
     try {
       logger.debug("Parsing spreadsheet document", { filename });
 
+      const settings = getConfig().parsing?.spreadsheets;
+      const mode: SpreadsheetMode = settings?.mode ?? "auto";
+      const maxTableRows = settings?.maxTableRows ?? DEFAULT_MAX_TABLE_ROWS;
+      const isCsv = this.getMimeTypeForSpreadsheet(filename) === "text/csv";
+
+      // Formula cells keep the value cached by Excel; formulas are not re-evaluated
       const workbook = XLSX.read(buffer, { type: "buffer" });
-      const sheetContents: string[] = [];
+      const lines: string[] = [];
+      const locations: ContentLocation[] = [];
+      let offset = 0;
+
+      // One location per line, so chunks can be tagged with the rows they hold
+      const push = (line: RenderedLine, sheet?: string) => {
+        const text = this.cleanText(line.text);
+        if (lines.length === 0 && !text) return;
+        if (!text) {
+          // Blank line: extend the previous line so every location starts after a newline
+          lines[lines.length - 1] += "\n";
+          offset += 1;
+          return;
+        }
+        if (lines.length > 0) offset += 1; // "\n"
+        lines.push(text);
+        locations.push({
+          start: offset,
+          end: offset + text.length,
+          ...(sheet !== undefined ? { sheet } : {}),
+          ...(line.rowStart !== undefined
+            ? { rowStart: line.rowStart, rowEnd: line.rowEnd ?? line.rowStart }
+            : {}),
+        });
+        offset += text.length;
+      };
 
       for (const sheetName of workbook.SheetNames) {
         const sheet = workbook.Sheets[sheetName];
@@ -31,18 +89,19 @@ export class XlsxParser extends BaseParser {
           continue;
         }
 
-        // Convert sheet to text format
-        const text = XLSX.utils.sheet_to_txt(sheet, {
-          blankrows: false,
-          skipHidden: true,
-        });
+        const rows = readRows(sheet);
+        if (rows.length === 0) continue;
 
-        if (text?.trim()) {
-          sheetContents.push(`--- Sheet: ${sheetName} ---\n${text}`);
-        }
+        const label = isCsv ? undefined : sheetName;
+        const rendered = renderSheet(rows, mode, maxTableRows);
+
+        // Blank line between sheets; chunks are tagged with their sheet as well
+        push({ text: "" });
+        if (label) push({ text: `Sheet: ${label}` }, label);
+        for (const line of rendered) push(line, label);
       }
 
-      const content = this.cleanText(sheetContents.join("\n\n"));
+      const content = lines.join("\n");
 
       return {
         content,
@@ -52,6 +111,7 @@ export class XlsxParser extends BaseParser {
           originalFilename: filename,
           fileSize: buffer.length,
         },
+        locations,
       };
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
@@ -77,3 +137,118 @@ export class XlsxParser extends BaseParser {
     }
   }
 }
+
+/**
+ * Visible rows with displayed cell values; empty rows and columns are dropped
+ */
+function readRows(sheet: XLSX.WorkSheet): SheetRow[] {
+  if (!sheet["!ref"]) return [];
+  const range = XLSX.utils.decode_range(sheet["!ref"]);
+  const hiddenRows = sheet["!rows"] ?? [];
+  const hiddenCols = sheet["!cols"] ?? [];
+
+  const rows: SheetRow[] = [];
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    if (hiddenRows[r]?.hidden) continue;
+    const cells: string[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      if (hiddenCols[c]?.hidden) {
+        cells.push("");
+        continue;
+      }
+      const cell = sheet[XLSX.utils.encode_cell({ r, c })] as XLSX.CellObject | undefined;
+      // Formatted value (the cached result for formula cells)
+      const value = cell && cell.v !== undefined ? XLSX.utils.format_cell(cell) : "";
+      cells.push(value.replace(/\s+/g, " ").trim());
+    }
+    if (cells.some(Boolean)) rows.push({ rowNumber: r + 1, cells });
+  }
+
+  // Drop columns that are empty in every row (hidden, spacing, trailing)
+  const width = rows[0]?.cells.length ?? 0;
+  const used = Array.from({ length: width }, (_, c) => rows.some((row) => row.cells[c]));
+  return rows.map((row) => ({
+    ...row,
+    cells: row.cells.filter((_, c) => used[c]),
+  }));
+}
+
+function renderSheet(
+  rows: SheetRow[],
+  mode: SpreadsheetMode,
+  maxTableRows: number,
+): RenderedLine[] {
+  const headerIndex = detectHeaderRow(rows);
+  const preamble = headerIndex > 0 ? rows.slice(0, headerIndex) : [];
+  const data = headerIndex >= 0 ? rows.slice(headerIndex + 1) : rows;
+  const header =
+    headerIndex >= 0
+      ? rows[headerIndex].cells.map((cell, c) => cell || XLSX.utils.encode_col(c))
+      : rows[0].cells.map((_, c) => XLSX.utils.encode_col(c));
+
+  const useRecords =
+    mode === "records" ||
+    (mode === "auto" && headerIndex >= 0 && data.length > maxTableRows);
+
+  const lines: RenderedLine[] = preamble.map((row) => ({
+    text: row.cells.filter(Boolean).join(" "),
+    rowStart: row.rowNumber,
+  }));
+
+  if (useRecords) {
+    for (const row of data) {
+      const fields = row.cells
+        .map((cell, c) => (cell ? `${header[c]}: ${cell}` : ""))
+        .filter(Boolean);
+      lines.push({ text: fields.join("; "), rowStart: row.rowNumber });
+    }
+    return lines;
+  }
+
+  // Markdown tables; long sheets repeat the header so every block stands alone
+  for (let i = 0; i < Math.max(data.length, 1); i += maxTableRows) {
+    if (i > 0) lines.push({ text: "" });
+    lines.push({ text: tableRow(header) });
+    lines.push({ text: tableRow(header.map(() => "---")) });
+    for (const row of data.slice(i, i + maxTableRows)) {
+      lines.push({ text: tableRow(row.cells), rowStart: row.rowNumber });
+    }
+  }
+  return lines;
+}
+
+/**
+ * Index of the header row, or -1
+ * The first row with two or more cells is the header when its cells are
+ * distinct labels rather than numbers; rows above it are titles.
+ */
+function detectHeaderRow(rows: SheetRow[]): number {
+  const candidate = rows
+    .slice(0, HEADER_SCAN_ROWS)
+    .findIndex((row) => row.cells.filter(Boolean).length >= 2);
+  if (candidate < 0 || candidate === rows.length - 1) return -1;
+
+  const labels = rows[candidate].cells.filter(Boolean);
+  const distinct = new Set(labels.map((label) => label.toLowerCase())).size === labels.length;
+  const headerShare = numericShare(labels);
+  const nextShare = numericShare(rows[candidate + 1].cells.filter(Boolean));
+
+  return distinct && headerShare < 0.5 && (headerShare === 0 || nextShare > headerShare)
+    ? candidate
+    : -1;
+}
+
+/**
+ * Share of cells holding numbers; years count as labels (2025, 2026 column headers)
+ */
+function numericShare(cells: string[]): number {
+  if (cells.length === 0) return 0;
+  const numeric = cells.filter(
+    (cell) => /^[-+(]?[\d\s.,]+\)?\s?%?$/.test(cell) && !/^(19|20)\d\d$/.test(cell),
+  ).length;
+  return numeric / cells.length;
+}
+
+function tableRow(cells: string[]): string {
+  return `| ${cells.map((cell) => cell.replace(/\|/g, "\\|")).join(" | ")} |`;
+}
@@ -0,0 +1,102 @@
+import { SaxesParser } from 'saxes';
+import { BaseParser } from './base-parser.js';
+import { ParsingError } from '../utils/error-handler.js';
+import { logger } from '../utils/logger.js';
+import type { ParseResult } from '../types/index.js';
+
+interface OpenElement {
+  path: string;
+  text: string[];
+}
+
+/**
+ * XML files, rendered as one "element/path: text" line per element with text
+ * and "element/path/@attribute: value" per attribute, e.g.
+ * catalog/book/@id: bk101 and catalog/book/title: Guide. Children of the root
+ * element that hold more than one line are separated by blank lines, so
+ * records stay together in chunks. Malformed files are kept as plain text.
+ */
+export class XmlParser extends BaseParser {
+  readonly supportedMimeTypes = ['application/xml', 'text/xml'];
+  readonly supportedExtensions = ['xml'];
+
+  async parse(buffer: Buffer, filename?: string): Promise<ParseResult> {
+    try {
+      logger.debug('Parsing XML document', { filename });
+
+      const text = this.decodeText(buffer);
+      let content: string;
+      try {
+        content = this.cleanText(renderXml(text));
+      } catch (error) {
+        logger.warn('Malformed XML, indexing as plain text', {
+          filename,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        content = this.cleanText(text);
+      }
+
+      return {
+        content,
+        metadata: {
+          title: this.extractTitleFromFilename(filename),
+          mimeType: 'application/xml',
+          originalFilename: filename,
+          fileSize: buffer.length,
+        },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('Failed to parse XML', { filename, error: message });
+      throw new ParsingError(`Failed to parse XML: ${message}`, { filename });
+    }
+  }
+}
+
+function renderXml(xml: string): string {
+  const parser = new SaxesParser();
+  const stack: OpenElement[] = [];
+  // Output lines per child of the root element (and for the root's own text between them)
+  const blocks: string[][] = [[]];
+  const currentBlock = () => blocks[blocks.length - 1];
+
+  const flushText = (element: OpenElement) => {
+    const value = element.text.join('').replace(/\s+/g, ' ').trim();
+    if (value) currentBlock().push(`${element.path}: ${value}`);
+    element.text = [];
+  };
+
+  parser.on('opentag', (tag) => {
+    const parent = stack[stack.length - 1];
+    if (parent) flushText(parent);
+    if (stack.length === 1) blocks.push([]);
+
+    const element: OpenElement = { path: parent ? `${parent.path}/${tag.name}` : tag.name, text: [] };
+    stack.push(element);
+    for (const [name, value] of Object.entries(tag.attributes as Record<string, string>)) {
+      const normalized = value.replace(/\s+/g, ' ').trim();
+      if (normalized) currentBlock().push(`${element.path}/@${name}: ${normalized}`);
+    }
+  });
+  parser.on('text', (text) => stack[stack.length - 1]?.text.push(text));
+  parser.on('cdata', (text) => stack[stack.length - 1]?.text.push(text));
+  parser.on('closetag', () => {
+    const element = stack.pop();
+    if (element) flushText(element);
+    if (stack.length === 1) blocks.push([]);
+  });
+  parser.on('error', (error) => {
+    throw error;
+  });
+
+  parser.write(xml).close();
+
+  // Blank line around multi-line blocks; single lines stay together
+  const nonEmpty = blocks.filter((block) => block.length > 0);
+  return nonEmpty
+    .map((block, i) => {
+      const separate = i > 0 && (block.length > 1 || nonEmpty[i - 1].length > 1);
+      return separate ? `\n${block.join('\n')}` : block.join('\n');
+    })
+    .join('\n');
+}
@@ -0,0 +1,60 @@
+import { BaseParser } from "./base-parser.js";
+import { extractEmbeddedFiles } from "./embedded-files.js";
+import { ParsingError } from "../utils/error-handler.js";
+import { logger } from "../utils/logger.js";
+import type { ParseResult } from "../types/index.js";
+
+/**
+ * ZIP archives
+ * The archive itself is stored as a file listing; each file is returned as an
+ * attachment and ingested as a child document.
+ */
+export class ZipParser extends BaseParser {
+  readonly supportedMimeTypes = [
+    "application/zip",
+    "application/x-zip-compressed",
+  ];
+  readonly supportedExtensions = ["zip"];
+
+  async parse(buffer: Buffer, filename?: string): Promise<ParseResult> {
+    try {
+      logger.debug("Parsing ZIP archive", { filename });
+
+      const attachments = await this.withTimeout(
+        extractEmbeddedFiles(buffer, { filename }),
+        undefined,
+        filename,
+      );
+
+      const listing = attachments
+        .map((file) => `- ${file.filename} (${formatSize(file.content.length)})`)
+        .join("\n");
+      const content = this.cleanText(
+        `Archive: ${filename ?? "archive.zip"}\n\nFiles:\n${listing || "(empty)"}`,
+      );
+
+      return {
+        content,
+        metadata: {
+          title: this.extractTitleFromFilename(filename),
+          mimeType: "application/zip",
+          originalFilename: filename,
+          fileSize: buffer.length,
+        },
+        attachments,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error("Failed to parse ZIP archive", { filename, error: message });
+      throw new ParsingError(`Failed to parse ZIP archive: ${message}`, {
+        filename,
+      });
+    }
+  }
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,84 @@
+#!/usr/bin/env node
+import 'dotenv/config';
+import { Command } from 'commander';
+import {
+  ACCESS_LEVELS,
+  createApiClient,
+  isAccessLevel,
+  listApiClients,
+  revokeApiClient,
+} from '../compliance/index.js';
+import { logger } from '../utils/logger.js';
+
+const program = new Command();
+
+program
+  .name('api-clients')
+  .description('API keys of search clients (MCP server) and their clearance')
+  .version('1.0.0');
+
+// Create
+program
+  .command('create')
+  .description('Create a client and print its API key (shown once)')
+  .argument('<name>', 'Client name, e.g. website-chat')
+  .requiredOption('--clearance <level>', `Highest access level the client may read (${ACCESS_LEVELS.join(', ')})`)
+  .action(async (name: string, opts) => {
+    try {
+      if (!isAccessLevel(opts.clearance)) {
+        throw new Error(`Unknown clearance: ${opts.clearance} (use ${ACCESS_LEVELS.join(', ')})`);
+      }
+      const created = await createApiClient(name, opts.clearance);
+      console.log(`\nClient: ${created.name} (${created.clearance})`);
+      console.log(`API key: ${created.apiKey}`);
+      console.log('Store the key now; only its hash is kept.\n');
+    } catch (error) {
+      logger.error('Failed to create API client', { error });
+      process.exit(1);
+    }
+  });
+
+// List
+program
+  .command('list')
+  .description('List clients and their clearance')
+  .action(async () => {
+    try {
+      const clients = await listApiClients();
+      if (clients.length === 0) {
+        console.log('\nNo API clients.\n');
+        return;
+      }
+      console.log('');
+      for (const c of clients) {
+        const status = c.isActive ? '' : ' (revoked)';
+        const lastUsed = c.lastUsedAt ? `last used ${c.lastUsedAt.slice(0, 10)}` : 'never used';
+        console.log(`  ${c.name.padEnd(30)} ${c.clearance.padEnd(14)} ${lastUsed}${status}`);
+      }
+      console.log('');
+    } catch (error) {
+      logger.error('Failed to list API clients', { error });
+      process.exit(1);
+    }
+  });
+
+// Revoke
+program
+  .command('revoke')
+  .description('Deactivate a client key')
+  .argument('<name>', 'Client name')
+  .action(async (name: string) => {
+    try {
+      const revoked = await revokeApiClient(name);
+      if (!revoked) {
+        console.error(`No active client named ${name}`);
+        process.exit(1);
+      }
+      console.log(`\nRevoked ${name}.\n`);
+    } catch (error) {
+      logger.error('Failed to revoke API client', { error });
+      process.exit(1);
+    }
+  });
+
+program.parse();
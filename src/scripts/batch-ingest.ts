@@ -6,6 +6,7 @@ import { NotionSource } from '../sources/notion-source.js';
 import { SharePointSource } from '../sources/sharepoint-source.js';
 import { HubSpotSource } from '../sources/hubspot-source.js';
 import { processSourceDocuments } from '../core/document-processor.js';
+import { getEmbeddingCacheStats } from '../core/embedding-cache.js';
 import { generateComplianceReport, type AuditLogEntry } from '../compliance/index.js';
 import { getSourceStatus, type BaseSource } from '../sources/index.js';
 import { logger } from '../utils/logger.js';
@@ -151,6 +152,8 @@ program
       console.log(`Total Documents: ${totalDocs}`);
       console.log(`Successful:      ${totalSuccess}`);
       console.log(`Failed:          ${totalFailed}`);
+      const cacheStats = getEmbeddingCacheStats();
+      console.log(`Embedding cache: ${cacheStats.hits} hits, ${cacheStats.misses} misses`);
 
       // Print compliance report
       if (allAuditLogs.length > 0) {
@@ -0,0 +1,162 @@
+#!/usr/bin/env node
+import 'dotenv/config';
+import { Command } from 'commander';
+import { writeFile } from 'fs/promises';
+import {
+  eraseDataSubjectData,
+  exportDataSubjectData,
+  findDataSubjectRecords,
+  getDataSubjectRecord,
+  verifyDataSubjectRecord,
+} from '../compliance/data-subject.js';
+import { logger } from '../utils/logger.js';
+import type { DataSubject, DataSubjectRecord } from '../types/index.js';
+
+const program = new Command();
+
+program
+  .name('dsar')
+  .description('GDPR data subject requests: search, export, erase and verify')
+  .version('1.0.0');
+
+const collect = (value: string, previous: string[] = []) => [...previous, value];
+
+function withSubjectOptions(command: Command): Command {
+  return command
+    .option('--email <email>', 'Email address (repeatable)', collect)
+    .option('--phone <phone>', 'Phone number (repeatable)', collect)
+    .option('--name <name>', 'Full name (repeatable)', collect);
+}
+
+function subjectFrom(opts: { email?: string[]; phone?: string[]; name?: string[] }): DataSubject {
+  const subject: DataSubject = { emails: opts.email, phones: opts.phone, names: opts.name };
+  if (!opts.email?.length && !opts.phone?.length && !opts.name?.length) {
+    console.error('Provide at least one --email, --phone or --name');
+    process.exit(1);
+  }
+  return subject;
+}
+
+function printRecord(record: DataSubjectRecord): void {
+  console.log('\n' + '='.repeat(60));
+  console.log('SUMMARY');
+  console.log('='.repeat(60));
+  console.log(`Request: ${record.id} (${record.requestType})`);
+  console.log(`Requested by: ${record.requestedBy}`);
+  for (const [table, count] of Object.entries(record.matched)) {
+    const actions = record.actions[table as keyof DataSubjectRecord['actions']];
+    const detail = actions
+      ? ` -> deleted ${actions.deleted.length}, redacted ${actions.redacted.length}, re-embedded ${actions.reembedded}, embeddings cleared ${actions.embeddingsCleared}`
+      : '';
+    console.log(`  ${table.padEnd(30)} ${String(count).padStart(6)} matches${detail}`);
+  }
+  console.log(record.signature ? `Signature: ${record.signature}\n` : 'Not signed (dry run)\n');
+}
+
+// Search
+withSubjectOptions(
+  program
+    .command('search')
+    .description('List rows that mention the data subject')
+).action(async (opts) => {
+  try {
+    const matches = await findDataSubjectRecords(subjectFrom(opts));
+    if (matches.length === 0) {
+      console.log('\nNo records found.\n');
+      return;
+    }
+    console.log(`\n${matches.length} matching rows:`);
+    for (const match of matches) {
+      console.log(`  ${match.table.padEnd(30)} ${match.id}  [${match.fields.join(', ')}]`);
+    }
+    console.log('');
+  } catch (error) {
+    logger.error('Data subject search failed', { error });
+    process.exit(1);
+  }
+});
+
+// Export (access request)
+withSubjectOptions(
+  program
+    .command('export')
+    .description('Write a DSAR export bundle (JSON) and record the access request')
+    .requiredOption('--requested-by <who>', 'Person handling the request')
+    .requiredOption('-o, --output <file>', 'Output JSON file')
+    .option('--reason <text>', 'Reference, e.g. the ticket of the request')
+).action(async (opts) => {
+  try {
+    const bundle = await exportDataSubjectData(subjectFrom(opts), {
+      requestedBy: opts.requestedBy,
+      reason: opts.reason,
+    });
+    await writeFile(opts.output, JSON.stringify(bundle, null, 2), 'utf-8');
+    printRecord(bundle.record);
+    console.log(`Export written to ${opts.output}\n`);
+  } catch (error) {
+    logger.error('Data subject export failed', { error });
+    process.exit(1);
+  }
+});
+
+// Erasure / redaction
+withSubjectOptions(
+  program
+    .command('erase')
+    .description('Delete (erasure) or redact the data subject everywhere and record a signed record')
+    .requiredOption('--requested-by <who>', 'Person handling the request')
+    .option('--mode <mode>', 'erasure (delete rows where possible) or redaction', 'erasure')
+    .option('--reason <text>', 'Reference, e.g. the ticket of the request')
+    .option('--dry-run', 'Show what would change without modifying data')
+    .option('--yes', 'Confirm the erasure (required unless --dry-run)')
+).action(async (opts) => {
+  try {
+    if (opts.mode !== 'erasure' && opts.mode !== 'redaction') {
+      throw new Error(`Unknown mode: ${opts.mode} (use erasure or redaction)`);
+    }
+    if (!opts.dryRun && !opts.yes) {
+      console.error('Erasure cannot be undone. Re-run with --dry-run to preview, or --yes to proceed.');
+      process.exit(1);
+    }
+
+    const record = await eraseDataSubjectData(subjectFrom(opts), {
+      requestedBy: opts.requestedBy,
+      reason: opts.reason,
+      mode: opts.mode,
+      dryRun: opts.dryRun,
+    });
+    printRecord(record);
+
+    if (!opts.dryRun) {
+      console.log('Cleared embeddings are regenerated by training:embed and the slack-messages-embed job.');
+      console.log('Remove the data at the source too (HubSpot, Slack, Notion), or the next sync re-imports it.\n');
+    }
+  } catch (error) {
+    logger.error('Data subject erasure failed', { error });
+    process.exit(1);
+  }
+});
+
+// Verify
+program
+  .command('verify')
+  .description('Verify the signature of a stored request record')
+  .argument('<requestId>', 'Request ID')
+  .action(async (requestId: string) => {
+    try {
+      const record = await getDataSubjectRecord(requestId);
+      if (!record) {
+        console.error(`Request not found: ${requestId}`);
+        process.exit(1);
+      }
+      const valid = verifyDataSubjectRecord(record);
+      printRecord(record);
+      console.log(valid ? 'Signature valid\n' : 'SIGNATURE INVALID - record has been modified\n');
+      if (!valid) process.exit(1);
+    } catch (error) {
+      logger.error('Failed to verify data subject request', { error });
+      process.exit(1);
+    }
+  });
+
+program.parse();
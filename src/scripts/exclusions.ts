@@ -0,0 +1,139 @@
+#!/usr/bin/env node
+import 'dotenv/config';
+import { Command } from 'commander';
+import {
+  EXCLUSION_TYPES,
+  addExclusionRule,
+  globToRegExp,
+  listExclusionRules,
+  normalizeExclusion,
+  removeExclusionRule,
+} from '../compliance/index.js';
+import { SharePointSource } from '../sources/sharepoint-source.js';
+import { logger } from '../utils/logger.js';
+import type { ExclusionPurgeResult, ExclusionRuleType } from '../types/index.js';
+
+const program = new Command();
+
+program
+  .name('exclusions')
+  .description('Do-not-ingest rules: Slack users/channels, email domains, Notion pages/databases, SharePoint paths')
+  .version('1.0.0');
+
+function printPurge(purged: ExclusionPurgeResult[], dryRun: boolean): void {
+  console.log('\n' + '='.repeat(60));
+  console.log(dryRun ? 'SUMMARY (dry run - rule not added, nothing deleted)' : 'SUMMARY');
+  console.log('='.repeat(60));
+  for (const p of purged) {
+    console.log(`  ${p.table.padEnd(24)} ${String(p.rowCount).padStart(6)} rows`);
+  }
+  const total = purged.reduce((sum, p) => sum + p.rowCount, 0);
+  console.log(`Total: ${total} stored rows ${dryRun ? 'would be purged' : 'purged'}\n`);
+}
+
+/**
+ * Stored SharePoint paths hold item IDs, so a path glob is resolved by
+ * listing the drive
+ */
+async function resolveSharePointPaths(glob: string): Promise<string[]> {
+  const source = new SharePointSource();
+  if (!source.isConfigured()) {
+    console.warn('SharePoint is not configured; documents stored before this rule are not purged.');
+    return [];
+  }
+  await source.ensureInitialized();
+  const pattern = globToRegExp(glob);
+  const documents = await source.listDocuments();
+  return documents
+    .filter((doc) => pattern.test(String(doc.metadata?.drivePath ?? '')))
+    .map((doc) => String(doc.metadata?.sourcePath));
+}
+
+// List
+program
+  .command('list')
+  .description('List exclusion rules')
+  .option('-t, --type <type>', `Only rules of this type (${EXCLUSION_TYPES.join(', ')})`)
+  .action(async (opts) => {
+    try {
+      if (opts.type && !EXCLUSION_TYPES.includes(opts.type)) {
+        throw new Error(`Unknown exclusion type: ${opts.type} (use ${EXCLUSION_TYPES.join(', ')})`);
+      }
+      const rules = await listExclusionRules(opts.type as ExclusionRuleType | undefined);
+      if (rules.length === 0) {
+        console.log('\nNo exclusion rules.\n');
+        return;
+      }
+      console.log('');
+      for (const rule of rules) {
+        const purged = rule.lastPurgedAt
+          ? `purged ${rule.purgedRowCount ?? 0} rows ${rule.lastPurgedAt.slice(0, 10)}`
+          : 'not purged';
+        const reason = rule.reason ? `  (${rule.reason})` : '';
+        console.log(`  ${rule.type.padEnd(16)} ${rule.value.padEnd(36)} ${purged}${reason}`);
+      }
+      console.log('');
+    } catch (error) {
+      logger.error('Failed to list exclusion rules', { error });
+      process.exit(1);
+    }
+  });
+
+// Add
+program
+  .command('add')
+  .description('Add a rule and purge stored content matching it')
+  .argument('<type>', EXCLUSION_TYPES.join(' | '))
+  .argument('<value>', 'Slack ID, email domain, Notion ID or URL, or SharePoint path glob (/HR/**)')
+  .option('--reason <text>', 'Why the content is excluded (e.g. customer opt-out)')
+  .option('--by <who>', 'Person adding the rule')
+  .option('--dry-run', 'Count stored rows that would be purged without adding the rule')
+  .option('--yes', 'Confirm the purge (required unless --dry-run)')
+  .action(async (type: string, value: string, opts) => {
+    try {
+      const rule = normalizeExclusion(type, value);
+      if (!opts.dryRun && !opts.yes) {
+        console.error('Purged data cannot be restored. Re-run with --dry-run to preview, or --yes to proceed.');
+        process.exit(1);
+      }
+
+      const sourcePaths = rule.type === 'sharepoint_path' ? await resolveSharePointPaths(rule.value) : undefined;
+      const result = await addExclusionRule({
+        type: rule.type,
+        value: rule.value,
+        reason: opts.reason,
+        createdBy: opts.by,
+        sourcePaths,
+        dryRun: Boolean(opts.dryRun),
+      });
+
+      console.log(`\nRule: ${rule.type} ${rule.value}`);
+      printPurge(result.purged, result.dryRun);
+    } catch (error) {
+      logger.error('Failed to add exclusion rule', { error });
+      process.exit(1);
+    }
+  });
+
+// Remove
+program
+  .command('remove')
+  .description('Remove a rule (purged content is ingested again by the next sync)')
+  .argument('<type>', EXCLUSION_TYPES.join(' | '))
+  .argument('<value>', 'Rule value')
+  .action(async (type: string, value: string) => {
+    try {
+      const rule = normalizeExclusion(type, value);
+      const removed = await removeExclusionRule(rule);
+      if (!removed) {
+        console.error(`No exclusion rule ${rule.type} ${rule.value}`);
+        process.exit(1);
+      }
+      console.log(`\nRemoved ${rule.type} ${rule.value}.\n`);
+    } catch (error) {
+      logger.error('Failed to remove exclusion rule', { error });
+      process.exit(1);
+    }
+  });
+
+program.parse();
@@ -2,7 +2,8 @@
 import 'dotenv/config';
 import { Command } from 'commander';
 import { getSupabaseClient } from '../database/supabase-client.js';
-import { generateEmbedding } from '../core/embedding-service.js';
+import { generateEmbedding, getEmbeddingModel } from '../core/embedding-service.js';
+import { getEmbeddingCacheStats } from '../core/embedding-cache.js';
 import { logger } from '../utils/logger.js';
 
 const program = new Command();
@@ -201,7 +202,7 @@ program
           // Update the conversation with the embedding (convert to string for pgvector)
           const { error: updateError } = await client
             .from('training_conversations')
-            .update({ embedding: `[${embedding.join(',')}]` })
+            .update({ embedding: `[${embedding.join(',')}]`, embedding_model: getEmbeddingModel() })
             .eq('id', conv.id);
 
           if (updateError) {
@@ -243,6 +244,8 @@ program
     console.log(`Successful: ${successful}`);
     console.log(`Failed: ${failed}`);
     console.log(`Total tokens used: ${totalTokens}`);
+    const cacheStats = getEmbeddingCacheStats();
+    console.log(`Embedding cache: ${cacheStats.hits} hits, ${cacheStats.misses} misses`);
     console.log(`Time elapsed: ${elapsed}s`);
     console.log(`Rate: ${(successful / parseFloat(elapsed)).toFixed(2)} conversations/sec`);
 
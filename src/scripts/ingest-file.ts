@@ -2,8 +2,15 @@
 import 'dotenv/config';
 import { Command } from 'commander';
 import { stat } from 'fs/promises';
+import { resolve } from 'path';
 import { FileSource } from '../sources/file-source.js';
-import { processDocument, processSourceDocuments } from '../core/document-processor.js';
+import { getEmbeddingCacheStats } from '../core/embedding-cache.js';
+import {
+  CHANGE_DETECTION_MODES,
+  isChangeDetectionMode,
+  processDocument,
+  processSourceDocuments,
+} from '../core/document-processor.js';
 import { generateComplianceReport } from '../compliance/index.js';
 import { logger } from '../utils/logger.js';
 import type { IngestionOptions, AccessLevel } from '../types/index.js';
@@ -20,16 +27,30 @@ program
   .option('-a, --access <level>', 'Access level (public, internal, restricted, confidential)', 'internal')
   .option('--tags <tags>', 'Comma-separated tags')
   .option('--dry-run', 'Validate without inserting into database')
+  .option('--change-detection <mode>', 'How existing documents are handled: source_path (skip) or content_hash (re-ingest when changed)', 'source_path')
+  .option('--force-reembed', 'Re-ingest even if the content hash is unchanged (with --change-detection content_hash)')
   .option('--recursive', 'Recursively process directories', true)
   .option('--limit <n>', 'Maximum number of documents to process', parseInt)
   .option('--chunking', 'Enable chunking for long documents (better RAG retrieval)')
   .option('--chunk-size <n>', 'Maximum chunk size in characters', parseInt)
   .option('--chunk-overlap <n>', 'Chunk overlap in characters', parseInt)
-  .option('--source-path <path>', 'Unique source path for deduplication')
+  .option('--chunk-tokens <n>', 'Maximum chunk size in tokens (token-based chunking)', parseInt)
+  .option('--chunk-overlap-tokens <n>', 'Chunk overlap in tokens (with --chunk-tokens)', parseInt)
+  .option('--hierarchical', 'Hierarchical chunking: small child chunks linked to parent sections with breadcrumbs (with --chunking)')
+  .option('--parent-chunk-size <n>', 'Maximum parent chunk size in characters (with --hierarchical)', parseInt)
+  .option('--parent-chunk-tokens <n>', 'Maximum parent chunk size in tokens (with --hierarchical)', parseInt)
+  .option('--source-path <path>', 'Unique source path for deduplication (single files default to file://<absolute path>)')
   .action(async (inputPath: string, opts) => {
     try {
       logger.info('Starting file ingestion', { path: inputPath, options: opts });
 
+      if (!isChangeDetectionMode(opts.changeDetection)) {
+        console.error(
+          `Unknown change detection mode: ${opts.changeDetection} (use ${CHANGE_DETECTION_MODES.join(', ')})`
+        );
+        process.exit(1);
+      }
+
       const options: IngestionOptions = {
         department: opts.department,
         documentType: opts.type,
@@ -37,9 +58,16 @@ program
         accessLevel: opts.access as AccessLevel,
         tags: opts.tags?.split(',').map((t: string) => t.trim()),
         dryRun: opts.dryRun,
+        changeDetection: opts.changeDetection,
+        forceReembed: opts.forceReembed,
         enableChunking: opts.chunking,
         maxChunkSize: opts.chunkSize,
         chunkOverlap: opts.chunkOverlap,
+        maxChunkTokens: opts.chunkTokens,
+        chunkOverlapTokens: opts.chunkOverlapTokens,
+        chunkingStrategy: opts.hierarchical ? 'hierarchical' : 'flat',
+        maxParentChunkSize: opts.parentChunkSize,
+        maxParentChunkTokens: opts.parentChunkTokens,
         sourceType: 'file',
         sourcePath: opts.sourcePath,
       };
@@ -51,8 +79,13 @@ program
         // Process single file
         const source = new FileSource();
         const { buffer, filename } = await source.readFile(inputPath);
-        
-        const result = await processDocument(buffer, filename, options);
+
+        // Same source_path as a directory run, so change detection and
+        // attachment links work without --source-path
+        const result = await processDocument(buffer, filename, {
+          ...options,
+          sourcePath: options.sourcePath ?? `file://${resolve(inputPath)}`,
+        });
         
         if (result.success) {
           console.log(`[SUCCESS] ${result.title}`);
@@ -62,6 +95,9 @@ program
           if (result.chunkCount && result.chunkCount > 1) {
             console.log(`  Chunks: ${result.chunkCount}`);
           }
+          if (result.failedChunks) {
+            console.log(`  Failed chunks (skipped): ${result.failedChunks}`);
+          }
         } else {
           console.error(`[FAILED] ${result.title}: ${result.error}`);
           process.exit(1);
@@ -96,6 +132,8 @@ program
         console.log(`Total:      ${result.total}`);
         console.log(`Successful: ${result.successful}`);
         console.log(`Failed:     ${result.failed}`);
+        const cacheStats = getEmbeddingCacheStats();
+        console.log(`Embedding cache: ${cacheStats.hits} hits, ${cacheStats.misses} misses`);
 
         if (result.errors.length > 0) {
           console.log('\nFailed documents:');
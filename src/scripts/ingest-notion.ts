@@ -3,6 +3,7 @@ import 'dotenv/config';
 import { Command } from 'commander';
 import { NotionSource } from '../sources/notion-source.js';
 import { processSourceDocuments } from '../core/document-processor.js';
+import { getEmbeddingCacheStats } from '../core/embedding-cache.js';
 import { generateComplianceReport } from '../compliance/index.js';
 import { logger } from '../utils/logger.js';
 import type { IngestionOptions, AccessLevel } from '../types/index.js';
@@ -74,6 +75,8 @@ program
       console.log(`Total:      ${result.total}`);
       console.log(`Successful: ${result.successful}`);
       console.log(`Failed:     ${result.failed}`);
+      const cacheStats = getEmbeddingCacheStats();
+      console.log(`Embedding cache: ${cacheStats.hits} hits, ${cacheStats.misses} misses`);
 
       if (result.errors.length > 0) {
         console.log('\nFailed pages:');
@@ -2,7 +2,12 @@
 import 'dotenv/config';
 import { Command } from 'commander';
 import { SharePointSource } from '../sources/sharepoint-source.js';
-import { processSourceDocuments } from '../core/document-processor.js';
+import {
+  CHANGE_DETECTION_MODES,
+  isChangeDetectionMode,
+  processSourceDocuments,
+} from '../core/document-processor.js';
+import { getEmbeddingCacheStats } from '../core/embedding-cache.js';
 import { generateComplianceReport } from '../compliance/index.js';
 import { logger } from '../utils/logger.js';
 import type { IngestionOptions, AccessLevel } from '../types/index.js';
@@ -19,6 +24,8 @@ program
   .option('-a, --access <level>', 'Access level (public, internal, restricted, confidential)', 'internal')
   .option('--tags <tags>', 'Comma-separated tags')
   .option('--dry-run', 'Validate without inserting into database')
+  .option('--change-detection <mode>', 'How existing documents are handled: source_path (skip) or content_hash (re-ingest when changed)', 'source_path')
+  .option('--force-reembed', 'Re-ingest even if the content hash is unchanged (with --change-detection content_hash)')
   .option('--limit <n>', 'Maximum number of documents to process', parseInt)
   .action(async (opts) => {
     try {
@@ -46,6 +53,13 @@ program
         process.exit(1);
       }
 
+      if (!isChangeDetectionMode(opts.changeDetection)) {
+        console.error(
+          `Unknown change detection mode: ${opts.changeDetection} (use ${CHANGE_DETECTION_MODES.join(', ')})`
+        );
+        process.exit(1);
+      }
+
       const options: IngestionOptions = {
         department: opts.department,
         documentType: opts.type,
@@ -53,6 +67,8 @@ program
         accessLevel: opts.access as AccessLevel,
         tags: opts.tags?.split(',').map((t: string) => t.trim()),
         dryRun: opts.dryRun,
+        changeDetection: opts.changeDetection,
+        forceReembed: opts.forceReembed,
       };
 
       // Initialize source
@@ -91,6 +107,8 @@ program
       console.log(`Total:      ${result.total}`);
       console.log(`Successful: ${result.successful}`);
       console.log(`Failed:     ${result.failed}`);
+      const cacheStats = getEmbeddingCacheStats();
+      console.log(`Embedding cache: ${cacheStats.hits} hits, ${cacheStats.misses} misses`);
 
       if (result.errors.length > 0) {
         console.log('\nFailed documents:');
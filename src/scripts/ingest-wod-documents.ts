@@ -14,7 +14,7 @@ import * as crypto from "crypto";
 import { Command } from "commander";
 import { parseDocument } from "../parsers/index.js";
 import { getSupabaseClient } from "../database/supabase-client.js";
-import { generateEmbedding } from "../core/embedding-service.js";
+import { generateEmbedding, getEmbeddingModel } from "../core/embedding-service.js";
 import { chunkText, estimateTokens } from "../utils/text-chunker.js";
 import { logger } from "../utils/logger.js";
 import {
@@ -898,6 +898,7 @@ async function insertWodDocument(
       section_header: chunk.sectionHeader,
       token_count: chunk.tokenCount,
       embedding: chunk.embedding ? `[${chunk.embedding.join(",")}]` : null,
+      embedding_model: chunk.embedding ? getEmbeddingModel() : null,
     }));
 
     // Note: Type assertion needed until database types are regenerated after migration
@@ -10,7 +10,7 @@ import * as path from 'path';
 import { Command } from 'commander';
 import { WodParser } from '../parsers/wod-parser.js';
 import { getSupabaseClient } from '../database/supabase-client.js';
-import { generateEmbedding } from '../core/embedding-service.js';
+import { generateEmbedding, getEmbeddingModel } from '../core/embedding-service.js';
 import { logger } from '../utils/logger.js';
 import type {
   WodDeal,
@@ -453,6 +453,7 @@ async function insertWodData(
       template_version: deal.templateVersion,
       file_hash: deal.fileHash,
       embedding: embedding ? `[${embedding.join(',')}]` : null,
+      embedding_model: embedding ? getEmbeddingModel() : null,
       embedding_content: embeddingContent,
       sensitivity: 'PII',
     })
@@ -608,6 +609,7 @@ async function insertWodData(
       .insert({
         content: embeddingContent,
         embedding: `[${embedding.join(',')}]`,
+        embedding_model: getEmbeddingModel(),
         department: 'sales',
         document_type: 'wod-deal',
         title: `Wheel of Deal: ${deal.dealName}`,
@@ -0,0 +1,214 @@
+#!/usr/bin/env node
+import 'dotenv/config';
+import { Command } from 'commander';
+import {
+  EMBEDDING_MIGRATION_TABLES,
+  cancelEmbeddingMigration,
+  flipEmbeddingMigration,
+  getActiveEmbeddingMigration,
+  getActiveEmbeddingModel,
+  getEmbeddingMigrationCoverage,
+  getEmbeddingMigrationProgress,
+  runEmbeddingMigration,
+  startEmbeddingMigration,
+} from '../core/embedding-migration.js';
+import { getEmbeddingCacheStats } from '../core/embedding-cache.js';
+import { getConfig } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import type { EmbeddingMigration, EmbeddingMigrationTable } from '../types/index.js';
+
+const program = new Command();
+
+program
+  .name('migrate-embeddings')
+  .description('Switch the embedding model: re-embed into a shadow column, then flip')
+  .version('1.0.0');
+
+async function requireActiveMigration(): Promise<EmbeddingMigration> {
+  const migration = await getActiveEmbeddingMigration();
+  if (!migration) {
+    console.error('No embedding migration in progress. Start one with: migrate-embeddings start');
+    process.exit(1);
+  }
+  return migration;
+}
+
+async function printCoverage(migration: EmbeddingMigration): Promise<boolean> {
+  const coverage = await getEmbeddingMigrationCoverage(migration.id);
+  for (const c of coverage) {
+    const pct = c.total_rows === 0 ? 100 : (c.migrated_rows / c.total_rows) * 100;
+    console.log(
+      `  ${c.table_name.padEnd(30)} ${String(c.migrated_rows).padStart(8)} / ${String(c.total_rows).padEnd(8)} ${pct.toFixed(1)}%`
+    );
+  }
+  return coverage.every((c) => c.migrated_rows >= c.total_rows);
+}
+
+// Start a migration
+program
+  .command('start')
+  .description('Register a migration to a new embedding model')
+  .requiredOption('-m, --model <model>', 'Target embedding model')
+  .requiredOption(
+    '-d, --dimensions <n>',
+    'Target embedding dimensions (must match the live columns, e.g. 1536)',
+    (val) => parseInt(val, 10)
+  )
+  .option(
+    '-t, --tables <tables>',
+    `Comma-separated tables (default: ${EMBEDDING_MIGRATION_TABLES.join(',')})`,
+    (val) => val.split(',').map((t) => t.trim()) as EmbeddingMigrationTable[]
+  )
+  .action(async (opts) => {
+    try {
+      const migration = await startEmbeddingMigration({
+        targetModel: opts.model,
+        targetDimensions: opts.dimensions,
+        tables: opts.tables,
+      });
+
+      console.log(`\nEmbedding migration started: ${migration.id}`);
+      console.log(`  ${migration.source_model} -> ${migration.target_model} (${migration.target_dimensions} dims)`);
+      console.log(`  Tables: ${migration.tables.join(', ')}`);
+      console.log('\nNext: npm run embeddings:migrate -- run\n');
+    } catch (error) {
+      logger.error('Failed to start embedding migration', { error });
+      process.exit(1);
+    }
+  });
+
+// Show status
+program
+  .command('status')
+  .description('Show coverage and saved progress of the current migration')
+  .action(async () => {
+    try {
+      const activeModel = await getActiveEmbeddingModel();
+      const configModel = getConfig().embedding.model;
+
+      console.log(`\nActive embedding model: ${activeModel}`);
+      if (configModel !== activeModel) {
+        console.log(`  WARNING: config.embedding.model is ${configModel}; the database rejects vectors from it`);
+      }
+
+      const migration = await getActiveEmbeddingMigration();
+      if (!migration) {
+        console.log('No embedding migration in progress.\n');
+        return;
+      }
+
+      console.log(`\nMigration ${migration.id} [${migration.status}]`);
+      console.log(`  ${migration.source_model} -> ${migration.target_model} (${migration.target_dimensions} dims)`);
+      console.log(`  Started: ${migration.created_at}\n`);
+      console.log('Coverage:');
+      const complete = await printCoverage(migration);
+
+      const progress = await getEmbeddingMigrationProgress(migration.id);
+      if (progress.length > 0) {
+        console.log('\nJob progress:');
+        for (const p of progress) {
+          console.log(`  ${p.table.padEnd(30)} processed ${p.processedRows}, failed ${p.failedRows}`);
+        }
+      }
+
+      console.log(complete
+        ? '\nCoverage is 100%. Flip with: npm run embeddings:migrate -- flip\n'
+        : '\nContinue with: npm run embeddings:migrate -- run\n');
+    } catch (error) {
+      logger.error('Failed to get embedding migration status', { error });
+      process.exit(1);
+    }
+  });
+
+// Run the re-embed job
+program
+  .command('run')
+  .description('Re-embed rows into the shadow column (resumable)')
+  .option('-b, --batch-size <n>', 'Rows per batch', (val) => parseInt(val, 10))
+  .option('--max-batches <n>', 'Stop after this many batches', (val) => parseInt(val, 10))
+  .option('--flip', 'Flip automatically when coverage reaches 100%')
+  .action(async (opts) => {
+    try {
+      const migration = await requireActiveMigration();
+      const startTime = Date.now();
+
+      console.log(`\nRe-embedding for ${migration.target_model} (migration ${migration.id})\n`);
+
+      const result = await runEmbeddingMigration(migration, {
+        batchSize: opts.batchSize,
+        maxBatches: opts.maxBatches,
+        onProgress: (p) => {
+          console.log(`  [${p.table}] processed ${p.processedRows}, failed ${p.failedRows}`);
+        },
+      });
+
+      const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+      console.log('\n' + '='.repeat(60));
+      console.log('SUMMARY');
+      console.log('='.repeat(60));
+      console.log(`Re-embedded: ${result.processedRows}`);
+      console.log(`Failed: ${result.failedRows}`);
+      if (result.clearedRows > 0) {
+        console.log(`Vectors removed (no text to embed): ${result.clearedRows}`);
+      }
+      console.log(`Total tokens used: ${result.tokenUsage}`);
+      const cacheStats = getEmbeddingCacheStats();
+      console.log(`Embedding cache: ${cacheStats.hits} hits, ${cacheStats.misses} misses`);
+      console.log(`Time elapsed: ${elapsed}s\n`);
+      console.log('Coverage:');
+      await printCoverage(migration);
+
+      if (result.complete && opts.flip) {
+        const flipped = await flipEmbeddingMigration(migration.id);
+        console.log(`\nFlipped ${flipped.reduce((sum, f) => sum + f.flipped_rows, 0)} rows to ${migration.target_model}`);
+        console.log(`Set embedding.model to ${migration.target_model} in config and EMBEDDING_MODEL for Edge Functions.\n`);
+      } else if (result.complete) {
+        console.log('\nCoverage is 100%. Flip with: npm run embeddings:migrate -- flip\n');
+      }
+
+      if (result.failedRows > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      logger.error('Embedding migration run failed', { error });
+      process.exit(1);
+    }
+  });
+
+// Flip to the new model
+program
+  .command('flip')
+  .description('Swap shadow vectors into the live columns (requires 100% coverage)')
+  .action(async () => {
+    try {
+      const migration = await requireActiveMigration();
+      const flipped = await flipEmbeddingMigration(migration.id);
+
+      console.log(`\nFlipped to ${migration.target_model}:`);
+      for (const f of flipped) {
+        console.log(`  ${f.table_name.padEnd(30)} ${f.flipped_rows} rows`);
+      }
+      console.log(`\nSet embedding.model to ${migration.target_model} in config and EMBEDDING_MODEL for Edge Functions;`);
+      console.log('writes with the previous model are rejected from now on.\n');
+    } catch (error) {
+      logger.error('Failed to flip embedding migration', { error });
+      process.exit(1);
+    }
+  });
+
+// Cancel
+program
+  .command('cancel')
+  .description('Abandon the current migration (live vectors are untouched)')
+  .action(async () => {
+    try {
+      const migration = await requireActiveMigration();
+      await cancelEmbeddingMigration(migration.id);
+      console.log(`\nCancelled embedding migration ${migration.id}\n`);
+    } catch (error) {
+      logger.error('Failed to cancel embedding migration', { error });
+      process.exit(1);
+    }
+  });
+
+program.parse();
@@ -0,0 +1,87 @@
+#!/usr/bin/env node
+import 'dotenv/config';
+import { Command } from 'commander';
+import { writeFile } from 'fs/promises';
+import { PII_RESCAN_TABLES, rescanStoredPII } from '../compliance/index.js';
+import { logger } from '../utils/logger.js';
+import type { PIIRescanStats, PIIRescanTable, SourceType } from '../types/index.js';
+
+const program = new Command();
+
+program
+  .name('pii-rescan')
+  .description('Scan stored documents, Slack messages and ticket messages with the current PII detector')
+  .option('-t, --table <tables>', `Comma-separated tables (${PII_RESCAN_TABLES.join(', ')}; default: all)`)
+  .option('-s, --source <type>', 'Only documents with this source type (e.g. hubspot)')
+  .option('-l, --limit <n>', 'Stop each table after n rows', parseInt)
+  .option('--apply', 'Redact rows with PII in place and re-embed them')
+  .option('--yes', 'Confirm --apply (redaction cannot be undone)')
+  .option('-o, --output <file>', 'Write the report, including row IDs, to a JSON file')
+  .action(async (opts) => {
+    try {
+      const tables = opts.table
+        ? (opts.table as string).split(',').map((t) => t.trim()) as PIIRescanTable[]
+        : undefined;
+      const unknown = tables?.filter((t) => !PII_RESCAN_TABLES.includes(t));
+      if (unknown && unknown.length > 0) {
+        throw new Error(`Unknown table: ${unknown.join(', ')} (use ${PII_RESCAN_TABLES.join(', ')})`);
+      }
+      if (opts.apply && !opts.yes) {
+        console.error('Redacted text cannot be restored. Run without --apply to preview, or add --yes to proceed.');
+        process.exit(1);
+      }
+
+      const results = await rescanStoredPII({
+        tables,
+        sourceType: opts.source as SourceType | undefined,
+        limit: opts.limit,
+        apply: Boolean(opts.apply),
+        onProgress: (table, scanned) => process.stderr.write(`\r${table}: ${scanned} rows scanned`),
+      });
+      process.stderr.write('\n');
+
+      printResults(results, Boolean(opts.apply));
+
+      if (opts.output) {
+        await writeFile(opts.output, JSON.stringify(results, null, 2), 'utf-8');
+        console.log(`Rescan report written to ${opts.output}\n`);
+      }
+    } catch (error) {
+      logger.error('PII rescan failed', { error });
+      process.exit(1);
+    }
+  });
+
+function printResults(results: PIIRescanStats[], applied: boolean): void {
+  console.log('\n' + '='.repeat(60));
+  console.log(applied ? 'SUMMARY' : 'SUMMARY (report only - nothing changed)');
+  console.log('='.repeat(60));
+
+  if (results.length === 0) {
+    console.log('No rows scanned.\n');
+    return;
+  }
+
+  for (const r of results) {
+    console.log(`\n${r.table} / ${r.sourceType}`);
+    console.log(`  Scanned:         ${r.scanned}`);
+    console.log(`  With PII:        ${r.withPII}`);
+    console.log(`  Newly detected:  ${r.newlyDetected}`);
+    const types = Object.entries(r.piiTypes).sort((a, b) => b[1] - a[1]);
+    if (types.length > 0) {
+      console.log(`  Types:           ${types.map(([type, count]) => `${type} (${count})`).join(', ')}`);
+    }
+    const detectors = Object.entries(r.detectors).sort((a, b) => b[1] - a[1]);
+    if (detectors.length > 0) {
+      console.log(`  Detectors:       ${detectors.map(([name, count]) => `${name} (${count})`).join(', ')}`);
+    }
+    if (applied) {
+      console.log(`  Redacted:        ${r.redacted} (re-embedded ${r.reembedded}, embeddings cleared ${r.embeddingsCleared})`);
+    }
+  }
+
+  const total = results.reduce((sum, r) => sum + r.newlyDetected, 0);
+  console.log(`\nTotal: ${total} rows with newly detected PII\n`);
+}
+
+program.parse();
@@ -0,0 +1,125 @@
+#!/usr/bin/env node
+import 'dotenv/config';
+import { Command } from 'commander';
+import { writeFile } from 'fs/promises';
+import {
+  applyRetentionRules,
+  getRetentionRules,
+  getRetentionRun,
+  syncRetentionRules,
+  type RetentionRun,
+} from '../compliance/index.js';
+import { logger } from '../utils/logger.js';
+import type { RetentionPurgeResult } from '../types/index.js';
+
+const program = new Command();
+
+program
+  .name('retention')
+  .description('Retention rules: sync from config, purge expired data, report what was purged')
+  .version('1.0.0');
+
+function printResults(results: RetentionPurgeResult[], dryRun: boolean): void {
+  console.log('\n' + '='.repeat(60));
+  console.log(dryRun ? 'SUMMARY (dry run - nothing deleted)' : 'SUMMARY');
+  console.log('='.repeat(60));
+  if (results[0]) console.log(`Run: ${results[0].runId}`);
+  for (const r of results) {
+    const range = r.oldestAt ? `  ${r.oldestAt.slice(0, 10)} .. ${r.newestAt?.slice(0, 10)}` : '';
+    console.log(
+      `  ${r.ruleName.padEnd(24)} ${r.table.padEnd(24)} ${String(r.rowCount).padStart(6)} rows before ${r.cutoff.slice(0, 10)}${range}`
+    );
+  }
+  const total = results.reduce((sum, r) => sum + r.rowCount, 0);
+  console.log(`Total: ${total} rows ${dryRun ? 'would be purged' : 'purged'}\n`);
+}
+
+// Rules
+program
+  .command('rules')
+  .description('Show the configured retention rules')
+  .action(() => {
+    const rules = getRetentionRules();
+    if (rules.length === 0) {
+      console.log('\nNo retention rules configured (compliance.retention.rules).\n');
+      return;
+    }
+    console.log('');
+    for (const rule of rules) {
+      const filters = Object.entries(rule.filters ?? {})
+        .map(([key, value]) => `${key}=${Array.isArray(value) ? value.join('|') : value}`)
+        .join(' AND ');
+      const status = rule.enabled === false ? ' (disabled)' : '';
+      console.log(`  ${rule.name.padEnd(24)} ${rule.table}${filters ? ` WHERE ${filters}` : ''} -> ${rule.retainMonths} months${status}`);
+    }
+    console.log('');
+  });
+
+// Sync
+program
+  .command('sync-rules')
+  .description('Write the configured rules to volterra_kb.retention_rules')
+  .action(async () => {
+    try {
+      const { synced, disabled } = await syncRetentionRules();
+      console.log(`\nSynced ${synced} retention rules.`);
+      if (disabled.length > 0) {
+        console.log(`Disabled rules no longer in config: ${disabled.join(', ')}`);
+      }
+      console.log('');
+    } catch (error) {
+      logger.error('Failed to sync retention rules', { error });
+      process.exit(1);
+    }
+  });
+
+// Purge
+program
+  .command('purge')
+  .description('Apply the synced rules now (the retention-purge job does this daily)')
+  .option('--dry-run', 'Count expired rows without deleting them')
+  .option('--yes', 'Confirm the purge (required unless --dry-run)')
+  .action(async (opts) => {
+    try {
+      if (!opts.dryRun && !opts.yes) {
+        console.error('Purged data cannot be restored. Re-run with --dry-run to preview, or --yes to proceed.');
+        process.exit(1);
+      }
+      const results = await applyRetentionRules(Boolean(opts.dryRun));
+      if (results.length === 0) {
+        console.log('\nNo enabled retention rules. Run sync-rules first.\n');
+        return;
+      }
+      printResults(results, Boolean(opts.dryRun));
+    } catch (error) {
+      logger.error('Retention purge failed', { error });
+      process.exit(1);
+    }
+  });
+
+// Report
+program
+  .command('report')
+  .description('Report what a run purged (default: latest run)')
+  .argument('[runId]', 'Run ID')
+  .option('-o, --output <file>', 'Write the run, including purged row IDs, to a JSON file')
+  .action(async (runId: string | undefined, opts) => {
+    try {
+      const run = await getRetentionRun(runId);
+      if (!run) {
+        console.error(runId ? `Run not found: ${runId}` : 'No retention runs recorded yet');
+        process.exit(1);
+      }
+      console.log(`\nStarted: ${run.startedAt}`);
+      printResults(run.results, run.dryRun);
+      if (opts.output) {
+        await writeFile(opts.output, JSON.stringify(run satisfies RetentionRun, null, 2), 'utf-8');
+        console.log(`Purge report written to ${opts.output}\n`);
+      }
+    } catch (error) {
+      logger.error('Failed to load retention report', { error });
+      process.exit(1);
+    }
+  });
+
+program.parse();
@@ -0,0 +1,40 @@
+#!/usr/bin/env node
+import 'dotenv/config';
+import { Command } from 'commander';
+import { revealPII } from '../compliance/pii-vault.js';
+import { logger } from '../utils/logger.js';
+
+const program = new Command();
+
+program
+  .name('reveal-pii')
+  .description('Reveal the original value behind a PII pseudonym token (audited)')
+  .version('1.0.0')
+  .argument('<documentId>', 'Document (chunk) ID containing the token')
+  .argument('<token>', 'Pseudonym token, e.g. "<EMAIL_7f3a>"')
+  .requiredOption('--requested-by <who>', 'Your user ID or email (written to the access log)')
+  .option('--reason <text>', 'Why the value is needed (written to the access log)')
+  .action(async (documentId: string, token: string, opts) => {
+    // Read from the environment so the key stays out of shell history
+    const apiKey = process.env.PII_REVEAL_API_KEY;
+    if (!apiKey) {
+      console.error(
+        'Set PII_REVEAL_API_KEY to the key of a restricted or confidential API client (npm run access:clients -- create)'
+      );
+      process.exit(1);
+    }
+
+    try {
+      const value = await revealPII(documentId, token, {
+        requestedBy: opts.requestedBy,
+        apiKey,
+        reason: opts.reason,
+      });
+      console.log(value);
+    } catch (error) {
+      logger.error('Failed to reveal PII', { error });
+      process.exit(1);
+    }
+  });
+
+program.parse();
@@ -1,6 +1,7 @@
 /**
  * Vision Service for analyzing images using OpenAI's GPT-4V/GPT-4o
- * Used to generate descriptions and structured analysis of project site photos
+ * Used to generate descriptions and structured analysis of project site photos,
+ * and to transcribe scanned PDF pages (OCR fallback)
  */
 
 import OpenAI from "openai";
@@ -115,6 +116,14 @@ Respond with JSON in this exact format:
   "notes": "string or null"
 }`;
 
+const PAGE_TRANSCRIPTION_PROMPT = `Transcribe all text on this scanned document page.
+
+- Keep the original language; do not translate or summarize
+- Keep the reading order; read multi-column pages one column at a time
+- Write tables as Markdown tables
+- Leave out page decoration such as logos and stamps
+- If the page has no text, answer with an empty response`;
+
 // ============================================================================
 // MAIN FUNCTIONS
 // ============================================================================
@@ -211,6 +220,53 @@ export async function analyzeImageBase64(
   return analyzeImage(dataUrl, options);
 }
 
+/**
+ * Transcribe the text of a scanned page image
+ */
+export async function extractTextFromImage(
+  base64Data: string,
+  mimeType: "image/jpeg" | "image/png" | "image/gif" | "image/webp",
+  options: VisionOptions = {},
+): Promise<string> {
+  const client = getOpenAIClient();
+  const model = options.model || "gpt-4o-mini";
+  const maxTokens = options.maxTokens || 4000;
+
+  try {
+    const response = await client.chat.completions.create({
+      model,
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: PAGE_TRANSCRIPTION_PROMPT },
+            {
+              type: "image_url",
+              image_url: {
+                url: `data:${mimeType};base64,${base64Data}`,
+                detail: options.detail || "high",
+              },
+            },
+          ],
+        },
+      ],
+      max_tokens: maxTokens,
+    });
+
+    const text = response.choices[0]?.message?.content ?? "";
+    logger.debug("Page transcription complete", {
+      model,
+      characters: text.length,
+      tokensUsed: response.usage?.total_tokens || 0,
+    });
+    return text;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error("Page transcription failed", { error: message });
+    throw new Error(`Page transcription failed: ${message}`);
+  }
+}
+
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
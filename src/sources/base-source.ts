@@ -1,3 +1,6 @@
+import { loadExclusions } from "../compliance/exclusions.js";
+import type { ExclusionList, ExclusionMatch } from "../compliance/exclusion-rules.js";
+import { logger } from "../utils/logger.js";
 import type { SourceDocument, IngestionOptions } from "../types/index.js";
 
 /**
@@ -59,6 +62,26 @@ export abstract class BaseSource {
    */
   abstract downloadDocument(document: SourceDocument): Promise<Buffer>;
 
+  /**
+   * Do-not-ingest rules (volterra_kb.ingestion_exclusions)
+   * listDocuments implementations skip content matching a rule, so it is never
+   * downloaded or stored
+   */
+  protected getExclusions(): Promise<ExclusionList> {
+    return loadExclusions();
+  }
+
+  /**
+   * Log content skipped because of an exclusion rule
+   */
+  protected logExcluded(item: string, match: ExclusionMatch): void {
+    logger.info("Skipping excluded content", {
+      source: this.type,
+      item,
+      rule: `${match.type}:${match.value}`,
+    });
+  }
+
   /**
    * Get default ingestion options for this source
    */
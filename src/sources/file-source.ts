@@ -1,12 +1,17 @@
-import { readFile, readdir, stat } from "fs/promises";
+import { open, readFile, readdir, stat } from "fs/promises";
 import { join, extname, basename } from "path";
 import { BaseSource, type ListDocumentsOptions } from "./base-source.js";
 import {
   getMimeTypeFromExtension,
   getSupportedExtensions,
+  readMsgAddresses,
 } from "../parsers/index.js";
 import { logger } from "../utils/logger.js";
 import { SourceError } from "../utils/error-handler.js";
+import {
+  extractEmailAddresses,
+  type ExclusionList,
+} from "../compliance/exclusion-rules.js";
 import type { SourceDocument, IngestionOptions } from "../types/index.js";
 
 export class FileSource extends BaseSource {
@@ -45,11 +50,13 @@ export class FileSource extends BaseSource {
       : this.basePath;
     const supportedExtensions = options.fileTypes || getSupportedExtensions();
     const documents: SourceDocument[] = [];
+    const exclusions = await this.getExclusions();
 
     await this.scanDirectory(
       targetPath,
       documents,
       supportedExtensions,
+      exclusions,
       options.limit,
     );
 
@@ -67,6 +74,7 @@ export class FileSource extends BaseSource {
     dirPath: string,
     documents: SourceDocument[],
     supportedExtensions: string[],
+    exclusions: ExclusionList,
     limit?: number,
   ): Promise<void> {
     if (limit && documents.length >= limit) return;
@@ -93,12 +101,28 @@ export class FileSource extends BaseSource {
             fullPath,
             documents,
             supportedExtensions,
+            exclusions,
             limit,
           );
         } else if (entry.isFile()) {
           const ext = extname(entry.name).toLowerCase().slice(1);
 
           if (supportedExtensions.includes(ext)) {
+            if (
+              (ext === "eml" || ext === "msg") &&
+              exclusions.has("email_domain")
+            ) {
+              const excluded = exclusions.matchEmails(
+                ext === "msg"
+                  ? readMsgAddresses(await readFile(fullPath))
+                  : await readEmailAddresses(fullPath),
+              );
+              if (excluded) {
+                this.logExcluded(fullPath, excluded);
+                continue;
+              }
+            }
+
             const stats = await stat(fullPath);
             const mimeType = getMimeTypeFromExtension(entry.name);
 
@@ -113,6 +137,8 @@ export class FileSource extends BaseSource {
                   .replace(/^\//, ""),
                 size: stats.size,
                 modifiedAt: stats.mtime,
+                sourceType: "file",
+                sourcePath: `file://${fullPath}`,
               },
             });
           }
@@ -168,3 +194,30 @@ export class FileSource extends BaseSource {
     return true; // File source is always available
   }
 }
+
+// Headers of an .eml file are within its first bytes; the body is not read
+const EMAIL_HEADER_BYTES = 64 * 1024;
+
+/**
+ * Sender and recipient addresses from an .eml file's headers
+ */
+async function readEmailAddresses(filePath: string): Promise<string[]> {
+  const file = await open(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(EMAIL_HEADER_BYTES);
+    const { bytesRead } = await file.read(buffer, 0, EMAIL_HEADER_BYTES, 0);
+    const headers = buffer
+      .subarray(0, bytesRead)
+      .toString("utf-8")
+      .split(/\r?\n\r?\n/)[0]
+      // Unfold continuation lines
+      .replace(/\r?\n[ \t]+/g, " ");
+
+    return headers
+      .split(/\r?\n/)
+      .filter((line) => /^(from|to|cc|bcc|reply-to|sender):/i.test(line))
+      .flatMap((line) => extractEmailAddresses(line));
+  } finally {
+    await file.close();
+  }
+}
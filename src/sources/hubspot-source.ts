@@ -96,6 +96,8 @@ export class HubSpotSource extends BaseSource {
               createdAt: fileData.createdAt,
               updatedAt: fileData.updatedAt,
               access: fileData.access,
+              sourceType: "hubspot",
+              sourcePath: `hubspot://file/${fileData.id}`,
             },
           });
 
@@ -187,6 +189,8 @@ export class HubSpotSource extends BaseSource {
               size: fileData.size,
               createdAt: fileData.createdAt,
               updatedAt: fileData.updatedAt,
+              sourceType: "hubspot",
+              sourcePath: `hubspot://file/${fileData.id}`,
             },
           });
         }
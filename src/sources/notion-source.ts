@@ -139,6 +139,7 @@ export class NotionSource extends BaseSource {
       }
 
       // Default: search for all accessible pages
+      const exclusions = await this.getExclusions();
       let cursor: string | undefined = options.cursor;
       do {
         const response = await this.client.search({
@@ -156,6 +157,18 @@ export class NotionSource extends BaseSource {
           const pageObj = page as PageObjectResponse;
           const title = this.extractPageTitle(pageObj);
 
+          const excluded =
+            exclusions.matchNotionPage(pageObj.id) ??
+            exclusions.matchNotionDatabase(
+              pageObj.parent.type === "database_id"
+                ? pageObj.parent.database_id
+                : undefined,
+            );
+          if (excluded) {
+            this.logExcluded(pageObj.id, excluded);
+            continue;
+          }
+
           // Normalize page ID for stable source_path
           const normalizedId = pageObj.id.replace(/-/g, "");
 
@@ -216,27 +229,35 @@ export class NotionSource extends BaseSource {
       // Fetch the page itself
       const page = await this.client.pages.retrieve({ page_id: pageId });
 
+      // An excluded page is skipped; its child pages are checked on their own
+      const excluded = (await this.getExclusions()).matchNotionPage(pageId);
+      if (excluded) {
+        this.logExcluded(pageId, excluded);
+      }
+
       if ("properties" in page) {
         const pageObj = page as PageObjectResponse;
         const title = this.extractPageTitle(pageObj);
         const normalizedId = pageObj.id.replace(/-/g, "");
 
-        documents.push({
-          id: pageObj.id,
-          name: title,
-          mimeType: "text/plain",
-          metadata: {
-            notionId: pageObj.id,
-            url: pageObj.url,
-            createdTime: pageObj.created_time,
-            lastEditedTime: pageObj.last_edited_time,
-            createdBy: pageObj.created_by?.id,
-            lastEditedBy: pageObj.last_edited_by?.id,
-            depth: currentDepth,
-            sourceType: "notion",
-            sourcePath: `notion://page/${normalizedId}`,
-          },
-        });
+        if (!excluded) {
+          documents.push({
+            id: pageObj.id,
+            name: title,
+            mimeType: "text/plain",
+            metadata: {
+              notionId: pageObj.id,
+              url: pageObj.url,
+              createdTime: pageObj.created_time,
+              lastEditedTime: pageObj.last_edited_time,
+              createdBy: pageObj.created_by?.id,
+              lastEditedBy: pageObj.last_edited_by?.id,
+              depth: currentDepth,
+              sourceType: "notion",
+              sourcePath: `notion://page/${normalizedId}`,
+            },
+          });
+        }
 
         // Recursively fetch child pages if enabled
         if (recursive && currentDepth < maxDepth) {
@@ -278,6 +299,13 @@ export class NotionSource extends BaseSource {
     const documents: SourceDocument[] = [];
     let cursor: string | undefined;
 
+    const exclusions = await this.getExclusions();
+    const excludedDb = exclusions.matchNotionDatabase(databaseId);
+    if (excludedDb) {
+      this.logExcluded(databaseId, excludedDb);
+      return documents;
+    }
+
     try {
       // Debug: log available APIs
       logger.info("Available Notion client APIs", {
@@ -306,6 +334,12 @@ export class NotionSource extends BaseSource {
           if (!("properties" in page)) continue;
 
           const pageObj = page as PageObjectResponse;
+          const excluded = exclusions.matchNotionPage(pageObj.id);
+          if (excluded) {
+            this.logExcluded(pageObj.id, excluded);
+            continue;
+          }
+
           const title = this.extractPageTitle(pageObj);
           const normalizedPageId = pageObj.id.replace(/-/g, "");
           const normalizedDbId = databaseId.replace(/-/g, "");
@@ -453,15 +487,27 @@ export class NotionSource extends BaseSource {
 
   private blocksToText(blocks: BlockObjectResponse[]): string {
     const lines: string[] = [];
+    // Table rows follow their table block; a header row gets a Markdown separator
+    let tableHasHeader = false;
     let i = 0;
 
     while (i < blocks.length) {
       const block = blocks[i];
       const text = this.blockToText(block);
 
+      if (block.type === "table") {
+        tableHasHeader = block.table.has_column_header;
+      }
+
       if (text) {
         lines.push(text);
 
+        if (block.type === "table_row" && tableHasHeader) {
+          const columns = block.table_row.cells.length;
+          lines.push(`|${" --- |".repeat(columns)}`);
+          tableHasHeader = false;
+        }
+
         // For toggle blocks (FAQs), check if next blocks are children (indented content)
         // This helps capture Q&A patterns common in support docs
         if (block.type === "toggle" && block.has_children) {
@@ -539,9 +585,9 @@ export class NotionSource extends BaseSource {
       case "divider":
         return "---";
       case "table_row":
-        return block.table_row.cells
+        return `| ${block.table_row.cells
           .map((cell) => this.richTextToString(cell))
-          .join(" | ");
+          .join(" | ")} |`;
       case "bookmark":
         const bookmarkUrl = (block.bookmark as any).url || "";
         const bookmarkCaption = (block.bookmark as any).caption
@@ -4,6 +4,7 @@ import { logger } from '../utils/logger.js';
 import { SourceError } from '../utils/error-handler.js';
 import { getConfig } from '../utils/config.js';
 import { getSupportedExtensions } from '../parsers/index.js';
+import type { ExclusionList } from '../compliance/exclusion-rules.js';
 import type { SourceDocument, IngestionOptions } from '../types/index.js';
 
 interface SharePointDriveItem {
@@ -23,9 +24,22 @@ interface SharePointDriveItem {
   lastModifiedBy?: {
     user?: { displayName: string; email: string };
   };
+  parentReference?: {
+    /** /drive/root:/Folder/Sub */
+    path?: string;
+  };
   '@microsoft.graph.downloadUrl'?: string;
 }
 
+/**
+ * Path of an item from the drive root (/Folder/Sub/file.docx), which
+ * sharepoint_path exclusion globs match against
+ */
+function getDrivePath(item: SharePointDriveItem): string {
+  const parent = item.parentReference?.path?.replace(/^.*?root:/, '') ?? '';
+  return `${decodeURIComponent(parent)}/${item.name}`;
+}
+
 export class SharePointSource extends BaseSource {
   readonly name = 'SharePoint';
   readonly type = 'sharepoint';
@@ -100,6 +114,7 @@ export class SharePointSource extends BaseSource {
     const config = getConfig();
     const documents: SourceDocument[] = [];
     const supportedExtensions = options.fileTypes || getSupportedExtensions();
+    const exclusions = await this.getExclusions();
 
     try {
       // Build the API path
@@ -118,12 +133,12 @@ export class SharePointSource extends BaseSource {
         .top(options.limit || config.sources.sharepoint.pageSize)
         .get() as { value: SharePointDriveItem[]; '@odata.nextLink'?: string };
 
-      await this.processItems(response.value, documents, supportedExtensions, options.limit);
+      await this.processItems(response.value, documents, supportedExtensions, exclusions, options.limit);
 
       // Handle pagination
       while (response['@odata.nextLink'] && (!options.limit || documents.length < options.limit)) {
         response = await this.client.api(response['@odata.nextLink']).get() as { value: SharePointDriveItem[]; '@odata.nextLink'?: string };
-        await this.processItems(response.value, documents, supportedExtensions, options.limit);
+        await this.processItems(response.value, documents, supportedExtensions, exclusions, options.limit);
       }
 
       logger.info('Listed SharePoint documents', { count: documents.length });
@@ -138,6 +153,7 @@ export class SharePointSource extends BaseSource {
     items: SharePointDriveItem[],
     documents: SourceDocument[],
     supportedExtensions: string[],
+    exclusions: ExclusionList,
     limit?: number
   ): Promise<void> {
     for (const item of items) {
@@ -146,7 +162,11 @@ export class SharePointSource extends BaseSource {
       if (item.file) {
         // It's a file
         const ext = item.name.split('.').pop()?.toLowerCase() || '';
-        if (supportedExtensions.includes(ext)) {
+        const drivePath = getDrivePath(item);
+        const excluded = exclusions.matchSharePointPath(drivePath);
+        if (excluded) {
+          this.logExcluded(drivePath, excluded);
+        } else if (supportedExtensions.includes(ext)) {
           documents.push({
             id: item.id,
             name: item.name,
@@ -154,11 +174,14 @@ export class SharePointSource extends BaseSource {
             downloadUrl: item['@microsoft.graph.downloadUrl'],
             metadata: {
               webUrl: item.webUrl,
+              drivePath,
               size: item.size,
               createdAt: item.createdDateTime,
               modifiedAt: item.lastModifiedDateTime,
               createdBy: item.createdBy?.user?.displayName,
               modifiedBy: item.lastModifiedBy?.user?.displayName,
+              sourceType: 'sharepoint',
+              sourcePath: `sharepoint://${this.siteId || 'me'}/${item.id}`,
             },
           });
         }
@@ -170,7 +193,7 @@ export class SharePointSource extends BaseSource {
             : `/me/drive/items/${item.id}/children`;
           
           const folderResponse = await this.client.api(folderPath).get();
-          await this.processItems(folderResponse.value, documents, supportedExtensions, limit);
+          await this.processItems(folderResponse.value, documents, supportedExtensions, exclusions, limit);
         } catch (error) {
           logger.warn('Failed to list folder contents', { 
             folder: item.name, 
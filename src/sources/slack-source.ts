@@ -2,6 +2,7 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import { BaseSource, type ListDocumentsOptions } from './base-source.js';
 import { SlackParser, type SlackThread } from '../parsers/slack-parser.js';
+import type { ExclusionList } from '../compliance/exclusion-rules.js';
 import { logger } from '../utils/logger.js';
 import type { SourceDocument, IngestionOptions } from '../types/index.js';
 
@@ -64,6 +65,7 @@ export class SlackSource extends BaseSource {
   private exportPath: string;
   private channels: string[];
   private parser: SlackParser;
+  private channelIds: Map<string, string> | null = null;
 
   constructor(options: SlackSourceOptions) {
     super();
@@ -93,11 +95,19 @@ export class SlackSource extends BaseSource {
     const documents: SourceDocument[] = [];
     const limit = options?.limit;
     let totalCount = 0;
+    const exclusions = await this.getExclusions();
+    const channelIds = exclusions.has('slack_channel') ? await this.loadChannelIds() : new Map<string, string>();
 
     for (const channel of this.channels) {
       if (limit && totalCount >= limit) break;
 
-      const channelDocs = await this.listChannelDocuments(channel);
+      const excluded = exclusions.matchSlackChannel(channelIds.get(channel));
+      if (excluded) {
+        this.logExcluded(`#${channel}`, excluded);
+        continue;
+      }
+
+      const channelDocs = await this.listChannelDocuments(channel, exclusions);
       
       for (const doc of channelDocs) {
         if (limit && totalCount >= limit) break;
@@ -114,10 +124,32 @@ export class SlackSource extends BaseSource {
     return documents;
   }
 
+  /**
+   * Channel name -> ID from the export's channels.json
+   * Exclusion rules name channels by ID; export folders are named by channel.
+   */
+  private async loadChannelIds(): Promise<Map<string, string>> {
+    if (this.channelIds) return this.channelIds;
+
+    this.channelIds = new Map();
+    try {
+      const raw = await fs.readFile(path.join(this.exportPath, 'channels.json'), 'utf-8');
+      for (const channel of JSON.parse(raw) as Array<{ id?: string; name?: string }>) {
+        if (channel.id && channel.name) this.channelIds.set(channel.name, channel.id);
+      }
+    } catch {
+      logger.warn('channels.json not found in Slack export; channel exclusion rules cannot be applied', {
+        path: this.exportPath,
+      });
+    }
+    return this.channelIds;
+  }
+
   /**
    * List all thread documents from a specific channel
+   * Messages of excluded users, and threads they started, are left out.
    */
-  async listChannelDocuments(channel: string): Promise<SourceDocument[]> {
+  async listChannelDocuments(channel: string, exclusions?: ExclusionList): Promise<SourceDocument[]> {
     const channelPath = path.join(this.exportPath, channel);
     
     try {
@@ -143,7 +175,10 @@ export class SlackSource extends BaseSource {
     }
 
     // Parse and group into threads
-    const threads = this.parser.parseChannelExport(fileContents, channel);
+    const rules = exclusions ?? (await this.getExclusions());
+    const threads = this.parser.parseChannelExport(fileContents, channel, {
+      isExcludedUser: rules.has('slack_user') ? (userId) => !!rules.matchSlackUser(userId) : undefined,
+    });
 
     // Convert threads to SourceDocuments
     const documents: SourceDocument[] = threads.map(thread => 
@@ -4,6 +4,7 @@
 
 // Re-export WoD types
 export * from './wod.js';
+import type { WodMarket } from './wod.js';
 
 // Re-export Database types from Supabase
 export type { Database, Tables, TablesInsert, TablesUpdate } from './database.types.js';
@@ -28,6 +29,28 @@ export interface ParseResult {
   content: string;
   metadata: Partial<DocumentMetadata>;
   attachments?: ParsedAttachment[];
+  /** Where spans of content sit in the source file; chunks are tagged with them */
+  locations?: ContentLocation[];
+}
+
+/**
+ * A span of parsed content and its place in the source file
+ * Spans are in content order and the character before each start (after the
+ * first) is a newline.
+ */
+export interface ContentLocation {
+  /** Character offsets into ParseResult.content */
+  start: number;
+  end: number;
+  /** 1-based PDF page */
+  page?: number;
+  /** Text came from OCR rather than the text layer */
+  ocr?: boolean;
+  /** Spreadsheet sheet (unset for CSV) */
+  sheet?: string;
+  /** 1-based spreadsheet rows; unset for headings and header rows */
+  rowStart?: number;
+  rowEnd?: number;
 }
 
 export interface ParsedAttachment {
@@ -49,12 +72,205 @@ export interface PIIEntity {
   value: string;
   start: number;
   end: number;
+  /** Detector that found the entity: 'pattern', 'llm:<model>' or 'local-ner' */
+  detector?: string;
+}
+
+/**
+ * Where a PII entity was found and by which detector, without its value (audit log)
+ */
+export interface PIIEntityFinding {
+  type: string;
+  detector: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Second-stage detector for free-text names and street addresses
+ * - llm: chat model prompt (OPENAI_API_KEY)
+ * - local: offline heuristics (Nordic/German first names, sign-offs, street suffixes)
+ */
+export type PIISecondStageProvider = 'llm' | 'local';
+
+export interface PIISecondStageSettings {
+  enabled: boolean;
+  provider: PIISecondStageProvider;
+  /** Chat model for the llm provider (default: gpt-4o-mini) */
+  model?: string;
+  /** Texts shorter than this skip the second stage */
+  minLength: number;
+  /** Sources scanned whenever above minLength; other sources only when the pattern stage found PII */
+  riskSources?: SourceType[];
+}
+
+/**
+ * OCR for PDF pages without a text layer
+ * - tesseract: local `tesseract` binary
+ * - vision: OpenAI vision model (src/services/vision-service.ts)
+ */
+export type OcrProvider = 'tesseract' | 'vision';
+
+export interface OcrSettings {
+  enabled: boolean;
+  provider: OcrProvider;
+  /** Tesseract languages (default: nor+swe+dan+deu+eng) */
+  languages?: string;
+  /** Vision model for the vision provider (default: gpt-4o-mini) */
+  model?: string;
+  /** Pages with fewer extracted characters are OCR'd (default: 20) */
+  minPageChars?: number;
+  /** OCR at most this many pages per document (default: 50) */
+  maxPages?: number;
+  /** Render scale; 2 is about 144 dpi (default: 2) */
+  scale?: number;
+  /** Per-page timeout in milliseconds (default: 60000) */
+  timeoutMs?: number;
+}
+
+/**
+ * How spreadsheet sheets are rendered
+ * - table: Markdown table, header repeated every maxTableRows rows
+ * - records: one "Header: value; ..." line per row (price lists, registers)
+ * - auto: records for sheets with a header row and more than maxTableRows rows
+ */
+export type SpreadsheetMode = 'auto' | 'table' | 'records';
+
+export interface SpreadsheetSettings {
+  mode: SpreadsheetMode;
+  /** Rows per Markdown table block, and the auto mode threshold (default: 30) */
+  maxTableRows?: number;
+}
+
+/**
+ * How detected PII is handled in stored content
+ * - flag: content is stored unchanged, the document is only classified
+ * - redact: PII is irreversibly replaced (redact-pii)
+ * - pseudonymize: PII is replaced by stable tokens (<EMAIL_7f3a>) kept in the PII vault
+ */
+export type PIIHandlingMode = 'flag' | 'redact' | 'pseudonymize';
+
+/**
+ * Which PII recognizers run
+ * markets selects the national formats (ID numbers, phones, plates, bank accounts);
+ * entities limits the recognizer types. Omitted fields fall back to the global setting.
+ */
+export interface PIIRecognizerSettings {
+  markets?: WodMarket[];
+  entities?: string[];
+}
+
+/**
+ * Tables a retention rule can purge
+ */
+export type RetentionTable = 'documents' | 'slack_messages' | 'slack_threads' | 'training_conversations';
+
+/**
+ * Rows of a table matching all filters expire retainMonths after they were
+ * created (documents), sent (Slack) or opened (tickets).
+ * Filter values are a value or a list of values; documents also accept
+ * source_path_prefix.
+ */
+export interface RetentionRule {
+  name: string;
+  table: RetentionTable;
+  filters?: Record<string, string | string[]>;
+  retainMonths: number;
+  enabled?: boolean;
+}
+
+/**
+ * Result of one retention rule in a purge run
+ */
+export interface RetentionPurgeResult {
+  runId: string;
+  ruleName: string;
+  table: RetentionTable;
+  cutoff: string;
+  rowCount: number;
+  oldestAt: string | null;
+  newestAt: string | null;
+  dryRun: boolean;
+}
+
+/**
+ * Tables the PII rescan reads
+ */
+export type PIIRescanTable = 'documents' | 'slack_messages' | 'training_messages';
+
+/**
+ * PII rescan results for one table and source type
+ */
+export interface PIIRescanStats {
+  table: PIIRescanTable;
+  /** documents.source_type; slack for Slack messages, hubspot for ticket messages */
+  sourceType: SourceType;
+  scanned: number;
+  withPII: number;
+  /** Rows with PII not classified as such (documents with sensitivity None/unset; every row of the other tables) */
+  newlyDetected: number;
+  piiTypes: Record<string, number>;
+  /** Entities per detector (pattern, llm:<model>, local-ner) */
+  detectors: Record<string, number>;
+  /** Rows with newly detected PII */
+  rowIds: string[];
+  redacted: number;
+  reembedded: number;
+  /** Rows whose embedding was cleared for the sync/embed jobs to regenerate */
+  embeddingsCleared: number;
+}
+
+/**
+ * What a do-not-ingest rule matches
+ */
+export type ExclusionRuleType =
+  | 'slack_user'
+  | 'slack_channel'
+  | 'email_domain'
+  | 'notion_page'
+  | 'notion_database'
+  | 'sharepoint_path';
+
+/**
+ * A do-not-ingest rule (volterra_kb.ingestion_exclusions)
+ */
+export interface ExclusionRule {
+  id: string;
+  type: ExclusionRuleType;
+  /** Normalized value: Slack ID, domain, Notion ID without dashes or path glob */
+  value: string;
+  reason?: string;
+  createdBy?: string;
+  createdAt: string;
+  lastPurgedAt?: string;
+  /** Rows deleted by the last purge */
+  purgedRowCount?: number;
+}
+
+/**
+ * Rows of one table removed (or, for dry runs, matched) by an exclusion rule
+ */
+export interface ExclusionPurgeResult {
+  table: string;
+  rowCount: number;
+}
+
+/**
+ * A token that replaced a PII value in pseudonymized content
+ */
+export interface PIIPseudonym {
+  token: string;
+  type: string;
+  value: string;
 }
 
 export interface DocumentRecord {
   id?: string;
   content: string;
-  embedding: number[];
+  /** Null for hierarchical parent chunks, which are returned as context but not searched */
+  embedding: number[] | null;
+  /** Model that produced embedding; required by the database whenever embedding is set */
+  embedding_model?: string;
   department: string;
   document_type: string;
   title: string;
@@ -65,16 +281,41 @@ export interface DocumentRecord {
   language?: string;
   source_type?: SourceType;
   source_path?: string;
+  /** MIME type of the parsed source file */
+  mime_type?: string;
+  /** Hash of the source file bytes, shared by all chunks of a source document */
+  content_hash?: string;
+  /** Parent chunk of a hierarchical child chunk */
+  parent_id?: string;
+  chunk_role?: ChunkRole;
+  /** Heading breadcrumb, e.g. "Charging > Troubleshooting > Error 42" */
+  section_path?: string;
   created_at?: string;
   updated_at?: string;
 }
 
+export type ChunkRole = 'parent' | 'child';
+
+/**
+ * How long documents are split
+ * - flat: header/Q&A/sliding-window chunks, each embedded
+ * - hierarchical: embedded child chunks linked to larger parent chunks with section breadcrumbs
+ */
+export type ChunkingStrategy = 'flat' | 'hierarchical';
+
 export type AccessLevel = 'public' | 'internal' | 'restricted' | 'confidential';
 
 export type Sensitivity = 'GDPR' | 'PII' | 'None';
 
 export type SourceType = 'file' | 'notion' | 'sharepoint' | 'hubspot' | 'email' | 'slack';
 
+/**
+ * How re-ingestion of an existing source_path is handled
+ * - source_path: skip any document whose source_path already exists
+ * - content_hash: re-ingest only when the source bytes changed, replacing the old chunk set
+ */
+export type ChangeDetectionMode = 'source_path' | 'content_hash';
+
 export interface IngestionOptions {
   department?: string;
   documentType?: string;
@@ -91,10 +332,38 @@ export interface IngestionOptions {
   maxChunkSize?: number;
   /** Chunk overlap in characters (default: 100) */
   chunkOverlap?: number;
+  /** Maximum chunk size in tokens; switches chunking to token mode (overrides maxChunkSize) */
+  maxChunkTokens?: number;
+  /** Chunk overlap in tokens when maxChunkTokens is set (default: 50) */
+  chunkOverlapTokens?: number;
+  /** Chunking strategy (default: flat); hierarchical uses maxChunkSize/maxChunkTokens for children */
+  chunkingStrategy?: ChunkingStrategy;
+  /** Maximum parent chunk size in characters for hierarchical chunking (default: 4000) */
+  maxParentChunkSize?: number;
+  /** Maximum parent chunk size in tokens for hierarchical chunking (token mode) */
+  maxParentChunkTokens?: number;
   /** Source type for tracking origin */
   sourceType?: SourceType;
   /** Source path/identifier for deduplication */
   sourcePath?: string;
+  /** Change detection for existing source paths (default: source_path) */
+  changeDetection?: ChangeDetectionMode;
+  /** Re-ingest even when the stored content hash matches (content_hash mode only) */
+  forceReembed?: boolean;
+  /** Levels of attachments/embedded files ingested as child documents (default: 3, 0 disables) */
+  maxAttachmentDepth?: number;
+  /** Set by the processor for attachments; the child is never classified below its parent */
+  parentDocument?: AttachmentParent;
+}
+
+/**
+ * Document an attachment or embedded file was extracted from
+ */
+export interface AttachmentParent {
+  title: string;
+  sourcePath?: string;
+  accessLevel: AccessLevel;
+  sensitivity: Sensitivity;
 }
 
 export interface BatchResult {
@@ -119,12 +388,130 @@ export interface SourceDocument {
   downloadUrl?: string;
 }
 
+/**
+ * Embedding backends selectable via config.embedding.provider
+ * - openai: api.openai.com
+ * - azure-openai: Azure OpenAI deployment
+ * - openai-compatible: self-hosted server with an OpenAI-style /v1/embeddings API
+ * - fake: deterministic hash-based vectors for tests and offline runs
+ */
+export type EmbeddingProviderType = 'openai' | 'azure-openai' | 'openai-compatible' | 'fake';
+
+/**
+ * BPE encodings used for token counting (cl100k_base: text-embedding-3-*, o200k_base: GPT-4o and newer)
+ */
+export type TokenizerEncoding = 'cl100k_base' | 'o200k_base';
+
+/**
+ * Tables with an embedding column covered by embedding model migrations
+ */
+export type EmbeddingMigrationTable =
+  | 'documents'
+  | 'training_conversations'
+  | 'slack_messages'
+  | 'wod_deals'
+  | 'wod_project_document_chunks';
+
+export type EmbeddingMigrationStatus = 'running' | 'completed' | 'flipped' | 'cancelled';
+
+export interface EmbeddingMigration {
+  id: string;
+  source_model: string;
+  target_model: string;
+  target_dimensions: number;
+  tables: EmbeddingMigrationTable[];
+  status: EmbeddingMigrationStatus;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+  flipped_at: string | null;
+}
+
+export interface EmbeddingMigrationCoverage {
+  table_name: EmbeddingMigrationTable;
+  /** Rows with a live embedding */
+  total_rows: number;
+  /** Rows with a shadow embedding from the target model */
+  migrated_rows: number;
+}
+
+/**
+ * Identifiers of a GDPR data subject (at least one is required)
+ */
+export interface DataSubject {
+  emails?: string[];
+  phones?: string[];
+  names?: string[];
+}
+
+export type DataSubjectRequestType = 'access' | 'erasure' | 'redaction';
+
+/**
+ * Tables searched for data subject requests
+ */
+export type DataSubjectTable =
+  | 'documents'
+  | 'pii_vault'
+  | 'training_conversations'
+  | 'training_messages'
+  | 'slack_messages'
+  | 'slack_threads'
+  | 'wod_deals'
+  | 'wod_project_documents'
+  | 'wod_project_document_chunks';
+
+export interface DataSubjectTableActions {
+  deleted: string[];
+  redacted: string[];
+  /** Rows re-embedded from their redacted text */
+  reembedded: number;
+  /** Rows whose embedding was cleared for the sync/embed jobs to regenerate */
+  embeddingsCleared: number;
+}
+
+/**
+ * Signed record of a completed data subject request (volterra_kb.data_subject_requests)
+ */
+export interface DataSubjectRecord {
+  id: string;
+  requestType: DataSubjectRequestType;
+  /** SHA-256 of each normalized identifier */
+  subjectHashes: string[];
+  requestedBy: string;
+  reason?: string;
+  /** Matching rows per table */
+  matched: Partial<Record<DataSubjectTable, number>>;
+  actions: Partial<Record<DataSubjectTable, DataSubjectTableActions>>;
+  createdAt: string;
+  completedAt: string;
+  /** HMAC-SHA256 of the record; empty for dry runs */
+  signature: string;
+}
+
 export interface Config {
   embedding: {
+    /** Embedding backend (default: openai) */
+    provider?: EmbeddingProviderType;
     model: string;
     dimensions: number;
     maxTokensPerRequest: number;
     batchSize: number;
+    /** Token budget for one batched embeddings request */
+    maxTokensPerBatch?: number;
+    /** Tokenizer used for truncation and token-based chunking (default: derived from model) */
+    tokenizer?: TokenizerEncoding;
+    /** Base URL for the openai-compatible provider (EMBEDDING_BASE_URL overrides) */
+    baseUrl?: string;
+    /** Azure OpenAI settings (AZURE_OPENAI_* env vars override) */
+    azure?: {
+      endpoint?: string;
+      deployment?: string;
+      apiVersion?: string;
+    };
+    /** Persistent embedding cache in volterra_kb.embedding_cache (default: enabled) */
+    cache?: {
+      enabled: boolean;
+    };
   };
   processing: {
     batchSize: number;
@@ -135,13 +522,32 @@ export interface Config {
   compliance: {
     piiDetection: {
       enabled: boolean;
-      mode: 'flag' | 'redact';
+      mode: PIIHandlingMode;
       entities: string[];
+      /** National formats to recognize (default: all WoD markets) */
+      markets?: WodMarket[];
+      /** Per-source overrides, e.g. fewer recognizers for Slack */
+      sources?: Partial<Record<SourceType, PIIRecognizerSettings>>;
+      /** Optional name/address pass after the pattern recognizers */
+      secondStage?: PIISecondStageSettings;
     };
     gdpr: {
       autoFlagPII: boolean;
       defaultSensitivity: string;
     };
+    /** Clearance of search callers without an API key or JWT clearance claim */
+    accessControl?: {
+      defaultClearance: AccessLevel;
+    };
+    /** Synced to volterra_kb.retention_rules with `npm run gdpr:retention -- sync-rules` */
+    retention?: {
+      rules: RetentionRule[];
+    };
+  };
+  /** Parser settings */
+  parsing?: {
+    ocr?: OcrSettings;
+    spreadsheets?: SpreadsheetSettings;
   };
   metadataInference: {
     departments: Record<string, string[]>;
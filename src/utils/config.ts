@@ -1,7 +1,7 @@
 import { readFileSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
-import type { Config } from '../types/index.js';
+import type { AccessLevel, Config, EmbeddingProviderType, OcrProvider, PIIHandlingMode, PIISecondStageProvider, WodMarket } from '../types/index.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
@@ -26,6 +26,15 @@ export function loadConfig(): Config {
     if (process.env.EMBEDDING_MODEL) {
       config.embedding.model = process.env.EMBEDDING_MODEL;
     }
+    if (process.env.EMBEDDING_PROVIDER) {
+      config.embedding.provider = process.env.EMBEDDING_PROVIDER as EmbeddingProviderType;
+    }
+    if (process.env.EMBEDDING_DIMENSIONS) {
+      config.embedding.dimensions = parseInt(process.env.EMBEDDING_DIMENSIONS, 10);
+    }
+    if (process.env.EMBEDDING_CACHE_ENABLED) {
+      config.embedding.cache = { enabled: process.env.EMBEDDING_CACHE_ENABLED === 'true' };
+    }
     if (process.env.LOG_LEVEL) {
       config.logging.level = process.env.LOG_LEVEL;
     }
@@ -33,7 +42,39 @@ export function loadConfig(): Config {
       config.compliance.piiDetection.enabled = process.env.PII_DETECTION_ENABLED === 'true';
     }
     if (process.env.PII_REDACTION_MODE) {
-      config.compliance.piiDetection.mode = process.env.PII_REDACTION_MODE as 'flag' | 'redact';
+      config.compliance.piiDetection.mode = process.env.PII_REDACTION_MODE as PIIHandlingMode;
+    }
+    if (process.env.DEFAULT_CLEARANCE) {
+      config.compliance.accessControl = {
+        defaultClearance: process.env.DEFAULT_CLEARANCE as AccessLevel,
+      };
+    }
+    if (process.env.PII_MARKETS) {
+      config.compliance.piiDetection.markets = process.env.PII_MARKETS
+        .split(',')
+        .map((m) => m.trim().toUpperCase()) as WodMarket[];
+    }
+    if (process.env.PII_SECOND_STAGE) {
+      const provider = process.env.PII_SECOND_STAGE;
+      const secondStage = config.compliance.piiDetection.secondStage;
+      config.compliance.piiDetection.secondStage = {
+        minLength: 200,
+        ...secondStage,
+        enabled: provider !== 'off',
+        provider: provider === 'off' ? secondStage?.provider ?? 'local' : provider as PIISecondStageProvider,
+      };
+    }
+    if (process.env.PDF_OCR) {
+      const provider = process.env.PDF_OCR;
+      const ocr = config.parsing?.ocr;
+      config.parsing = {
+        ...config.parsing,
+        ocr: {
+          ...ocr,
+          enabled: provider !== 'off',
+          provider: provider === 'off' ? ocr?.provider ?? 'tesseract' : provider as OcrProvider,
+        },
+      };
     }
     
     return config;
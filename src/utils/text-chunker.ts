@@ -3,6 +3,9 @@
  * Splits long documents into semantically meaningful chunks
  */
 
+import { countTokens } from './tokenizer.js';
+import type { TokenizerEncoding } from '../types/index.js';
+
 export interface ChunkOptions {
   /** Maximum characters per chunk (default: 2000) */
   maxChunkSize?: number;
@@ -14,6 +17,12 @@ export interface ChunkOptions {
   splitByHeaders?: boolean;
   /** Preserve Q&A patterns (keep question and answer together) */
   preserveQA?: boolean;
+  /** Maximum tokens per chunk; enables token mode (maxChunkSize and overlap are ignored) */
+  maxChunkTokens?: number;
+  /** Overlap between chunks in tokens (token mode, default: 50) */
+  overlapTokens?: number;
+  /** Tokenizer encoding for token mode (default: derived from config.embedding) */
+  encoding?: TokenizerEncoding;
 }
 
 export interface TextChunk {
@@ -24,10 +33,56 @@ export interface TextChunk {
     startChar: number;
     endChar: number;
     isQA?: boolean;
+    /** Heading path from the document root, e.g. ["Charging", "Troubleshooting"] */
+    breadcrumb?: string[];
+    /** Index of the parent chunk (hierarchical chunking, child chunks only) */
+    parentIndex?: number;
   };
 }
 
-const DEFAULT_OPTIONS: Required<ChunkOptions> = {
+export interface HierarchicalChunkOptions {
+  /** Maximum parent (context) chunk size in characters (default: 4000) */
+  maxParentSize?: number;
+  /** Maximum child (retrieval) chunk size in characters (default: 800) */
+  maxChildSize?: number;
+  /** Minimum child size when a section is split further (default: 50) */
+  minChildSize?: number;
+  /** Overlap between children of one section in characters (default: 100) */
+  overlap?: number;
+  /** Token-mode limits; when set they replace the character limits above */
+  maxParentTokens?: number;
+  maxChildTokens?: number;
+  overlapTokens?: number;
+  encoding?: TokenizerEncoding;
+  /** Deepest heading level that opens a new section (default: 6) */
+  maxHeadingLevel?: number;
+}
+
+export interface HierarchicalChunks {
+  /** Larger chunks returned as context; not embedded */
+  parents: TextChunk[];
+  /** Small retrieval chunks; metadata.parentIndex points into parents */
+  children: TextChunk[];
+}
+
+/**
+ * Measures chunk size in characters or tokens
+ * Offsets are always character offsets into the text being chunked.
+ */
+interface ChunkSizer {
+  /** Whether the text fits in a single chunk */
+  fits(text: string): boolean;
+  /** Furthest end offset for a chunk starting at start */
+  windowEnd(text: string, start: number): number;
+  /** Start offset of the next chunk so that it overlaps [start, end) */
+  nextStart(text: string, start: number, end: number): number;
+}
+
+type ResolvedChunkOptions = Required<
+  Omit<ChunkOptions, 'maxChunkTokens' | 'overlapTokens' | 'encoding'>
+> & { sizer: ChunkSizer };
+
+const DEFAULT_OPTIONS = {
   maxChunkSize: 2000,
   minChunkSize: 200,
   overlap: 100,
@@ -35,14 +90,89 @@ const DEFAULT_OPTIONS: Required<ChunkOptions> = {
   preserveQA: true,
 };
 
+const DEFAULT_OVERLAP_TOKENS = 50;
+
+function createCharSizer(maxChunkSize: number, overlap: number): ChunkSizer {
+  return {
+    fits: (text) => text.length <= maxChunkSize,
+    windowEnd: (text, start) => Math.min(start + maxChunkSize, text.length),
+    nextStart: (_text, _start, end) => end - overlap,
+  };
+}
+
+function createTokenSizer(
+  maxTokens: number,
+  overlapTokens: number,
+  encoding?: TokenizerEncoding,
+): ChunkSizer {
+  const tokens = (text: string) => countTokens(text, encoding);
+
+  return {
+    fits: (text) => tokens(text) <= maxTokens,
+
+    // Largest end whose (trimmed) slice fits in maxTokens (binary search on character offset)
+    windowEnd: (text, start) => {
+      let lo = start + 1;
+      let hi = text.length;
+      if (tokens(text.slice(start, hi).trim()) <= maxTokens) return hi;
+      while (lo < hi) {
+        const mid = Math.ceil((lo + hi) / 2);
+        if (tokens(text.slice(start, mid).trim()) <= maxTokens) {
+          lo = mid;
+        } else {
+          hi = mid - 1;
+        }
+      }
+      return lo;
+    },
+
+    // Smallest start whose slice up to end fits in overlapTokens
+    nextStart: (text, start, end) => {
+      if (overlapTokens <= 0) return end;
+      let lo = start + 1;
+      let hi = end;
+      while (lo < hi) {
+        const mid = Math.floor((lo + hi) / 2);
+        if (tokens(text.slice(mid, end)) <= overlapTokens) {
+          hi = mid;
+        } else {
+          lo = mid + 1;
+        }
+      }
+      return lo;
+    },
+  };
+}
+
+function resolveOptions(options: ChunkOptions): ResolvedChunkOptions {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const sizer = options.maxChunkTokens
+    ? createTokenSizer(
+        options.maxChunkTokens,
+        options.overlapTokens ?? DEFAULT_OVERLAP_TOKENS,
+        options.encoding,
+      )
+    : createCharSizer(opts.maxChunkSize, opts.overlap);
+
+  return {
+    maxChunkSize: opts.maxChunkSize,
+    minChunkSize: opts.minChunkSize,
+    overlap: opts.overlap,
+    splitByHeaders: opts.splitByHeaders,
+    preserveQA: opts.preserveQA,
+    sizer,
+  };
+}
+
 /**
  * Chunk text into semantically meaningful pieces
+ * Sizes are in characters by default, or in tokens when maxChunkTokens is set.
  */
 export function chunkText(text: string, options: ChunkOptions = {}): TextChunk[] {
-  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const opts = resolveOptions(options);
   
   // If text is small enough, return as single chunk
-  if (text.length <= opts.maxChunkSize) {
+  if (opts.sizer.fits(text)) {
     return [{
       content: text,
       index: 0,
@@ -65,15 +195,19 @@ export function chunkText(text: string, options: ChunkOptions = {}): TextChunk[]
 /**
  * Split text by markdown headers (H1, H2, H3)
  */
-function chunkByHeaders(text: string, opts: Required<ChunkOptions>): TextChunk[] {
+function chunkByHeaders(text: string, opts: ResolvedChunkOptions): TextChunk[] {
   // Match H1, H2, H3 headers
   const headerPattern = /^(#{1,3})\s+(.+)$/gm;
   const chunks: TextChunk[] = [];
   
   const matches: Array<{ index: number; level: number; title: string }> = [];
+  // "#" lines inside fenced code are comments or shell prompts, not headers
+  const codeBlocks = findAtomicBlocks(text).filter((b) => b.kind === 'code');
   
   let match;
   while ((match = headerPattern.exec(text)) !== null) {
+    const index = match.index;
+    if (codeBlocks.some((b) => index > b.start && index < b.end)) continue;
     matches.push({
       index: match.index,
       level: match[1].length,
@@ -92,6 +226,20 @@ function chunkByHeaders(text: string, opts: Required<ChunkOptions>): TextChunk[]
     return [];
   }
 
+  // Content before the first header comes first, so indices stay in document order
+  const preamble = text.slice(0, matches[0].index).trim();
+  if (preamble.length >= opts.minChunkSize) {
+    chunks.push({
+      content: preamble,
+      index: 0,
+      metadata: {
+        section: 'Introduction',
+        startChar: 0,
+        endChar: matches[0].index,
+      },
+    });
+  }
+
   // Split by headers
   for (let i = 0; i < matches.length; i++) {
     const currentMatch = matches[i];
@@ -102,7 +250,7 @@ function chunkByHeaders(text: string, opts: Required<ChunkOptions>): TextChunk[]
     const sectionContent = text.slice(startIndex, endIndex).trim();
     
     // If section is too large, split it further
-    if (sectionContent.length > opts.maxChunkSize) {
+    if (!opts.sizer.fits(sectionContent)) {
       const subChunks = chunkBySlidingWindow(sectionContent, opts);
       for (const subChunk of subChunks) {
         chunks.push({
@@ -128,33 +276,13 @@ function chunkByHeaders(text: string, opts: Required<ChunkOptions>): TextChunk[]
     }
   }
 
-  // Handle content before first header
-  if (matches.length > 0 && matches[0].index > opts.minChunkSize) {
-    const preamble = text.slice(0, matches[0].index).trim();
-    if (preamble.length >= opts.minChunkSize) {
-      chunks.unshift({
-        content: preamble,
-        index: 0,
-        metadata: {
-          section: 'Introduction',
-          startChar: 0,
-          endChar: matches[0].index,
-        },
-      });
-      // Re-index other chunks
-      for (let i = 1; i < chunks.length; i++) {
-        chunks[i].index = i;
-      }
-    }
-  }
-
   return chunks;
 }
 
 /**
  * Split text by Q&A pattern (common in support FAQs)
  */
-function chunkByQAPattern(text: string, opts: Required<ChunkOptions>): TextChunk[] {
+function chunkByQAPattern(text: string, opts: ResolvedChunkOptions): TextChunk[] {
   // Match Q&A patterns: "**Q:**" or "Q:" at start of line
   const qaPattern = /(?:^|\n)\*?\*?Q:?\*?\*?\s+/gi;
   const chunks: TextChunk[] = [];
@@ -177,7 +305,7 @@ function chunkByQAPattern(text: string, opts: Required<ChunkOptions>): TextChunk
     
     if (qaContent.length >= opts.minChunkSize) {
       // Further split if too large
-      if (qaContent.length > opts.maxChunkSize) {
+      if (!opts.sizer.fits(qaContent)) {
         const subChunks = chunkBySlidingWindow(qaContent, opts);
         chunks.push(...subChunks.map((sc, idx) => ({
           ...sc,
@@ -206,12 +334,121 @@ function chunkByQAPattern(text: string, opts: Required<ChunkOptions>): TextChunk
   return chunks;
 }
 
+/**
+ * A Markdown table or fenced code block that must not be cut mid-way
+ */
+interface AtomicBlock {
+  kind: 'table' | 'code';
+  start: number;
+  end: number;
+}
+
+/**
+ * Locate pipe tables (2+ consecutive "|" lines) and fenced code blocks
+ * An unclosed fence runs to the end of the text.
+ */
+function findAtomicBlocks(text: string): AtomicBlock[] {
+  const blocks: AtomicBlock[] = [];
+  const lines: Array<{ start: number; end: number; text: string }> = [];
+  let offset = 0;
+  for (const line of text.split('\n')) {
+    lines.push({ start: offset, end: offset + line.length, text: line });
+    offset += line.length + 1;
+  }
+
+  for (let i = 0; i < lines.length; i++) {
+    const fence = /^\s*(`{3,}|~{3,})/.exec(lines[i].text);
+    if (fence) {
+      const marker = fence[1];
+      let j = i + 1;
+      while (j < lines.length && !lines[j].text.trim().startsWith(marker)) j++;
+      const last = Math.min(j, lines.length - 1);
+      blocks.push({ kind: 'code', start: lines[i].start, end: lines[last].end });
+      i = last;
+      continue;
+    }
+
+    if (lines[i].text.trim().startsWith('|')) {
+      let j = i;
+      while (j + 1 < lines.length && lines[j + 1].text.trim().startsWith('|')) j++;
+      if (j > i) {
+        blocks.push({ kind: 'table', start: lines[i].start, end: lines[j].end });
+      }
+      i = j;
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Split an oversized block into pieces that each fit the chunk size
+ * Tables repeat their header row (and separator) in every piece; code pieces
+ * are re-wrapped in the opening and closing fence. A single row or line that
+ * is larger than the limit becomes its own piece.
+ */
+function splitAtomicBlock(text: string, block: AtomicBlock, opts: ResolvedChunkOptions): TextChunk[] {
+  const lines: Array<{ start: number; end: number; text: string }> = [];
+  let offset = block.start;
+  for (const line of text.slice(block.start, block.end).split('\n')) {
+    lines.push({ start: offset, end: offset + line.length, text: line });
+    offset += line.length + 1;
+  }
+
+  let prefix: string[] = [];
+  let suffix: string[] = [];
+  let body = lines;
+
+  if (block.kind === 'table') {
+    const hasHeader = lines.length > 2 && /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/.test(lines[1].text);
+    if (hasHeader) {
+      prefix = [lines[0].text, lines[1].text];
+      body = lines.slice(2);
+    }
+  } else {
+    const marker = /^\s*(`{3,}|~{3,})/.exec(lines[0].text)?.[1] ?? '```';
+    const closed = lines.length > 1 && lines[lines.length - 1].text.trim().startsWith(marker);
+    prefix = [lines[0].text];
+    suffix = [closed ? lines[lines.length - 1].text : marker];
+    body = lines.slice(1, closed ? -1 : undefined);
+  }
+
+  const chunks: TextChunk[] = [];
+  let current: typeof body = [];
+
+  const flush = () => {
+    if (current.length === 0) return;
+    chunks.push({
+      content: [...prefix, ...current.map((l) => l.text), ...suffix].join('\n').trim(),
+      index: chunks.length,
+      metadata: { startChar: current[0].start, endChar: current[current.length - 1].end },
+    });
+    current = [];
+  };
+
+  for (const line of body) {
+    const candidate = [...prefix, ...current.map((l) => l.text), line.text, ...suffix].join('\n');
+    if (current.length > 0 && !opts.sizer.fits(candidate.trim())) {
+      flush();
+    }
+    current.push(line);
+  }
+  flush();
+
+  return chunks;
+}
+
 /**
  * Sliding window chunking with overlap
+ * Tables and fenced code blocks are kept whole; blocks larger than a chunk
+ * are split by splitAtomicBlock.
  */
-function chunkBySlidingWindow(text: string, opts: Required<ChunkOptions>): TextChunk[] {
+function chunkBySlidingWindow(text: string, opts: ResolvedChunkOptions): TextChunk[] {
   const chunks: TextChunk[] = [];
+  const blocks = findAtomicBlocks(text);
+  const blockAt = (pos: number) => blocks.find((b) => pos > b.start && pos < b.end);
   let startChar = 0;
+  let lastEndChar = 0;
   let iterations = 0;
   const maxIterations = Math.ceil(text.length / Math.max(opts.minChunkSize, 1)) + 10; // Safety limit
 
@@ -229,7 +466,8 @@ function chunkBySlidingWindow(text: string, opts: Required<ChunkOptions>): TextC
       }
       break;
     }
-    let endChar = Math.min(startChar + opts.maxChunkSize, text.length);
+    const windowEnd = opts.sizer.windowEnd(text, startChar);
+    let endChar = windowEnd;
     
     // Try to end at a sentence or paragraph boundary
     if (endChar < text.length) {
@@ -249,8 +487,31 @@ function chunkBySlidingWindow(text: string, opts: Required<ChunkOptions>): TextC
       }
     }
 
+    // Never end inside a table or code block
+    const cutBlock = blockAt(endChar);
+    let stopBeforeBlock = false;
+    if (cutBlock) {
+      if (windowEnd >= cutBlock.end) {
+        endChar = cutBlock.end;
+      } else if (text.slice(startChar, cutBlock.start).trim().length > 0) {
+        endChar = cutBlock.start;
+        stopBeforeBlock = true;
+      } else {
+        // The block starts this window and does not fit: split it on row/line boundaries
+        for (const piece of splitAtomicBlock(text, cutBlock, opts)) {
+          chunks.push({ ...piece, index: chunks.length });
+        }
+        startChar = lastEndChar = cutBlock.end;
+        continue;
+      }
+    }
+
     const content = text.slice(startChar, endChar).trim();
-    if (content.length >= opts.minChunkSize) {
+    // Text no earlier chunk covers (e.g. the remainder after a split table, which
+    // gets no overlap) is kept even below minChunkSize; a window that is only
+    // overlap, left over when a block follows, is skipped
+    const hasNewText = text.slice(lastEndChar, endChar).trim().length > 0;
+    if (hasNewText || (content.length >= opts.minChunkSize && !stopBeforeBlock)) {
       chunks.push({
         content,
         index: chunks.length,
@@ -260,9 +521,15 @@ function chunkBySlidingWindow(text: string, opts: Required<ChunkOptions>): TextC
         },
       });
     }
+    lastEndChar = Math.max(lastEndChar, endChar);
 
-    // Move start position with overlap
-    const newStartChar = endChar - opts.overlap;
+    // Move start position with overlap (none into a block that did not fit, it is split next)
+    let newStartChar = stopBeforeBlock ? endChar : opts.sizer.nextStart(text, startChar, endChar);
+    // Overlap must not begin inside a table or code block (it would lack the header/fence)
+    const overlapBlock = blockAt(newStartChar);
+    if (overlapBlock) {
+      newStartChar = Math.min(overlapBlock.end, endChar);
+    }
     
     // Prevent infinite loop: if we're not making progress, force move forward
     if (newStartChar <= startChar) {
@@ -299,15 +566,191 @@ function findLastSentenceEnd(text: string): number {
 
 /**
  * Check if text should be chunked
+ * When maxTokens is given the decision is made on the real token count.
  */
-export function shouldChunk(text: string, maxSize: number = 2000): boolean {
+export function shouldChunk(text: string, maxSize: number = 2000, maxTokens?: number): boolean {
+  if (maxTokens) {
+    return countTokens(text) > maxTokens;
+  }
   return text.length > maxSize;
 }
 
 /**
- * Estimate token count (rough approximation)
+ * Token count for the configured embedding model's tokenizer
  */
 export function estimateTokens(text: string): number {
-  // Rough estimate: ~4 chars per token for English
-  return Math.ceil(text.length / 4);
+  return countTokens(text);
+}
+
+/**
+ * Format a heading path for display and storage ("Charging > Troubleshooting")
+ */
+export function formatBreadcrumb(breadcrumb: string[] = []): string {
+  return breadcrumb.join(' > ');
+}
+
+interface SectionNode {
+  title: string;
+  level: number;
+  path: string[];
+  /** Offset of the heading line (0 for the document root) */
+  start: number;
+  /** End of the section including its sub-sections */
+  end: number;
+  children: SectionNode[];
+}
+
+/**
+ * Structure-aware chunking into parents and children
+ * - Builds a heading tree (H1-H6); content before the first heading belongs
+ *   to the root section
+ * - A section whose whole subtree fits maxParentSize becomes one parent chunk;
+ *   larger sections emit their own body as a parent and recurse
+ * - Each parent is split into small children along sub-section boundaries,
+ *   every child carrying its breadcrumb and a link to its parent
+ */
+export function chunkTextHierarchical(
+  text: string,
+  options: HierarchicalChunkOptions = {},
+): HierarchicalChunks {
+  const parentOpts = resolveOptions({
+    maxChunkSize: options.maxParentSize ?? 4000,
+    minChunkSize: 1,
+    overlap: 0,
+    maxChunkTokens: options.maxParentTokens,
+    overlapTokens: 0,
+    encoding: options.encoding,
+  });
+  const childOpts = resolveOptions({
+    maxChunkSize: options.maxChildSize ?? 800,
+    minChunkSize: options.minChildSize ?? 50,
+    overlap: options.overlap ?? 100,
+    maxChunkTokens: options.maxChildTokens,
+    overlapTokens: options.overlapTokens,
+    encoding: options.encoding,
+  });
+
+  const root = buildSectionTree(text, options.maxHeadingLevel ?? 6);
+  const result: HierarchicalChunks = { parents: [], children: [] };
+
+  const addParent = (node: SectionNode, start: number, end: number, segments: SectionNode[] | null) => {
+    const content = text.slice(start, end).trim();
+    if (!content || isHeadingOnly(content)) return;
+
+    const parentIndex = result.parents.length;
+    result.parents.push({
+      content,
+      index: parentIndex,
+      metadata: {
+        section: node.path[node.path.length - 1],
+        breadcrumb: node.path,
+        startChar: start,
+        endChar: end,
+      },
+    });
+
+    // Children follow sub-section boundaries when the parent spans a subtree
+    const ranges = segments
+      ? segments.map((s) => ({ node: s, start: s.start, end: ownBodyEnd(s) }))
+      : [{ node, start, end }];
+
+    for (const range of ranges) {
+      const segment = text.slice(range.start, range.end).trim();
+      if (!segment || isHeadingOnly(segment)) continue;
+
+      const pieces = childOpts.sizer.fits(segment)
+        ? [{ content: segment, metadata: { startChar: 0, endChar: range.end - range.start } }]
+        : chunkBySlidingWindow(text.slice(range.start, range.end), childOpts);
+
+      for (const piece of pieces) {
+        result.children.push({
+          content: piece.content,
+          index: result.children.length,
+          metadata: {
+            section: range.node.path[range.node.path.length - 1],
+            breadcrumb: range.node.path,
+            parentIndex,
+            startChar: range.start + piece.metadata.startChar,
+            endChar: range.start + piece.metadata.endChar,
+          },
+        });
+      }
+    }
+  };
+
+  const visit = (node: SectionNode) => {
+    if (parentOpts.sizer.fits(text.slice(node.start, node.end).trim())) {
+      addParent(node, node.start, node.end, flattenSections(node));
+      return;
+    }
+
+    // Too large: the section's own body becomes one or more parents
+    const bodyEnd = ownBodyEnd(node);
+    const body = text.slice(node.start, bodyEnd);
+    if (parentOpts.sizer.fits(body.trim())) {
+      addParent(node, node.start, bodyEnd, null);
+    } else {
+      for (const window of chunkBySlidingWindow(body, parentOpts)) {
+        addParent(
+          node,
+          node.start + window.metadata.startChar,
+          node.start + window.metadata.endChar,
+          null,
+        );
+      }
+    }
+
+    for (const child of node.children) {
+      visit(child);
+    }
+  };
+
+  visit(root);
+  return result;
+}
+
+/**
+ * Build the heading tree; headings inside fenced code blocks are ignored
+ */
+function buildSectionTree(text: string, maxLevel: number): SectionNode {
+  const root: SectionNode = { title: '', level: 0, path: [], start: 0, end: text.length, children: [] };
+  const stack: SectionNode[] = [root];
+  const codeBlocks = findAtomicBlocks(text).filter((b) => b.kind === 'code');
+  const headingPattern = /^(#{1,6})[ \t]+(.+?)(?:[ \t]+#+)?[ \t]*$/gm;
+
+  let match;
+  while ((match = headingPattern.exec(text)) !== null) {
+    const index = match.index;
+    const level = match[1].length;
+    if (level > maxLevel || codeBlocks.some((b) => index > b.start && index < b.end)) continue;
+
+    while (stack.length > 1 && stack[stack.length - 1].level >= level) {
+      stack.pop()!.end = index;
+    }
+    const parent = stack[stack.length - 1];
+    const node: SectionNode = {
+      title: match[2],
+      level,
+      path: [...parent.path, match[2]],
+      start: index,
+      end: text.length,
+      children: [],
+    };
+    parent.children.push(node);
+    stack.push(node);
+  }
+
+  return root;
+}
+
+function ownBodyEnd(node: SectionNode): number {
+  return node.children.length > 0 ? node.children[0].start : node.end;
+}
+
+function flattenSections(node: SectionNode): SectionNode[] {
+  return [node, ...node.children.flatMap(flattenSections)];
+}
+
+function isHeadingOnly(content: string): boolean {
+  return /^#{1,6}\s+[^\n]*$/.test(content);
 }
@@ -0,0 +1,83 @@
+/**
+ * Tokenizer-backed token counting for embedding limits and chunking
+ * Uses the same BPE encodings as the OpenAI models (cl100k_base, o200k_base)
+ */
+
+import { Tiktoken } from 'js-tiktoken/lite';
+import cl100k_base from 'js-tiktoken/ranks/cl100k_base';
+import o200k_base from 'js-tiktoken/ranks/o200k_base';
+import { getConfig } from './config.js';
+import type { TokenizerEncoding } from '../types/index.js';
+
+const RANKS = { cl100k_base, o200k_base };
+
+const encoders = new Map<TokenizerEncoding, Tiktoken>();
+
+function getEncoder(encoding: TokenizerEncoding): Tiktoken {
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    encoder = new Tiktoken(RANKS[encoding]);
+    encoders.set(encoding, encoder);
+  }
+  return encoder;
+}
+
+/**
+ * Encoding used by a model
+ * text-embedding-3-* / ada-002 use cl100k_base; GPT-4o and newer use o200k_base.
+ */
+export function getEncodingForModel(model: string): TokenizerEncoding {
+  if (/^(gpt-4o|gpt-4\.1|gpt-5|o\d)/.test(model)) {
+    return 'o200k_base';
+  }
+  return 'cl100k_base';
+}
+
+/**
+ * Encoding for the configured embedding model (config.embedding.tokenizer overrides)
+ */
+export function getDefaultEncoding(): TokenizerEncoding {
+  const { embedding } = getConfig();
+  return embedding.tokenizer ?? getEncodingForModel(embedding.model);
+}
+
+/**
+ * Count tokens exactly
+ */
+export function countTokens(
+  text: string,
+  encoding: TokenizerEncoding = getDefaultEncoding(),
+): number {
+  if (!text) return 0;
+  return getEncoder(encoding).encode(text).length;
+}
+
+/**
+ * Truncate text to at most maxTokens tokens
+ * Cuts on a token boundary; a multi-byte character split by the cut is dropped.
+ */
+export function truncateToTokens(
+  text: string,
+  maxTokens: number,
+  encoding: TokenizerEncoding = getDefaultEncoding(),
+): { text: string; tokens: number; originalTokens: number; truncated: boolean } {
+  // Every token covers at least one UTF-8 byte, so short texts cannot exceed the limit
+  if (Buffer.byteLength(text, 'utf8') <= maxTokens) {
+    const tokens = countTokens(text, encoding);
+    return { text, tokens, originalTokens: tokens, truncated: false };
+  }
+
+  const encoder = getEncoder(encoding);
+  const tokens = encoder.encode(text);
+  if (tokens.length <= maxTokens) {
+    return { text, tokens: tokens.length, originalTokens: tokens.length, truncated: false };
+  }
+
+  const truncated = encoder.decode(tokens.slice(0, maxTokens)).replace(/�+$/, '');
+  return {
+    text: truncated,
+    tokens: maxTokens,
+    originalTokens: tokens.length,
+    truncated: true,
+  };
+}
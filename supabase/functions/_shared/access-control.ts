@@ -0,0 +1,101 @@
+// Caller clearance for Edge Functions
+//
+// Maps the caller of a request to the highest document access level it may
+// read. Document RPCs take it as p_clearance; the database filters the rows.
+//
+//   x-api-key, or Authorization: Bearer <key>   volterra_kb.api_clients
+//   Authorization: Bearer <user JWT>            app_metadata.clearance (default internal)
+//   neither                                     DEFAULT_CLEARANCE (default: public)
+//
+// API keys are created with `npm run access:clients -- create`. Project keys
+// (anon/service role JWTs) are not user identities and get the default.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.3";
+
+export type Clearance = "public" | "internal" | "restricted" | "confidential";
+
+export const ACCESS_LEVELS: Clearance[] = [
+  "public",
+  "internal",
+  "restricted",
+  "confidential",
+];
+
+export interface Caller {
+  /** API client name, user email/id, or "anonymous" */
+  name: string;
+  clearance: Clearance;
+}
+
+export function isClearance(value: unknown): value is Clearance {
+  return typeof value === "string" &&
+    ACCESS_LEVELS.includes(value as Clearance);
+}
+
+/**
+ * Access levels readable with this clearance, for .in("access_level", ...) filters
+ */
+export function accessibleLevels(clearance: Clearance): Clearance[] {
+  return ACCESS_LEVELS.slice(0, ACCESS_LEVELS.indexOf(clearance) + 1);
+}
+
+export function getDefaultClearance(): Clearance {
+  const value = Deno.env.get("DEFAULT_CLEARANCE");
+  return isClearance(value) ? value : "public";
+}
+
+/**
+ * Resolve the caller, or null when the request presents an unknown or
+ * revoked API key (respond 401)
+ */
+export async function resolveCaller(
+  req: Request,
+  supabase: SupabaseClient,
+): Promise<Caller | null> {
+  const bearer = req.headers.get("authorization")?.replace(/^Bearer\s+/i, "")
+    .trim();
+  const apiKey = req.headers.get("x-api-key")?.trim() ||
+    (bearer && !isJwt(bearer) ? bearer : undefined);
+
+  if (apiKey) {
+    const { data, error } = await supabase
+      .schema("volterra_kb")
+      .rpc("resolve_api_client", { p_key_hash: await sha256Hex(apiKey) });
+    if (error) {
+      throw new Error(`Failed to resolve API client: ${error.message}`);
+    }
+    const row = (data ?? [])[0] as
+      | { name: string; clearance: string }
+      | undefined;
+    if (!row || !isClearance(row.clearance)) return null;
+    return { name: row.name, clearance: row.clearance };
+  }
+
+  if (bearer) {
+    const { data } = await supabase.auth.getUser(bearer);
+    const user = data?.user;
+    if (user) {
+      const claim = user.app_metadata?.clearance;
+      return {
+        name: user.email ?? user.id,
+        clearance: isClearance(claim) ? claim : "internal",
+      };
+    }
+  }
+
+  return { name: "anonymous", clearance: getDefaultClearance() };
+}
+
+function isJwt(token: string): boolean {
+  return /^[\w-]+\.[\w-]+\.[\w-]+$/.test(token);
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(value),
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
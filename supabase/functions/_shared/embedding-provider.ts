@@ -0,0 +1,295 @@
+// Shared embedding provider for Edge Functions
+//
+// Mirrors src/core/embedding-providers.ts for the Deno runtime. The backend is
+// selected with environment variables instead of config/default.json:
+//
+//   EMBEDDING_PROVIDER   openai (default) | azure-openai | openai-compatible | fake
+//   EMBEDDING_MODEL      model name (default: text-embedding-3-small; the fake
+//                        provider always reports fake-hash-<dimensions>)
+//   EMBEDDING_DIMENSIONS vector size (default: 1536; requested from text-embedding-3-*)
+//   OPENAI_API_KEY       openai
+//   AZURE_OPENAI_API_KEY, AZURE_OPENAI_ENDPOINT, AZURE_OPENAI_DEPLOYMENT,
+//   AZURE_OPENAI_API_VERSION                        azure-openai
+//   EMBEDDING_BASE_URL, EMBEDDING_API_KEY (optional) openai-compatible
+//   EMBEDDING_CACHE_ENABLED  set to 'false' to bypass volterra_kb.embedding_cache
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.3";
+
+export type EmbeddingProviderType =
+  | "openai"
+  | "azure-openai"
+  | "openai-compatible"
+  | "fake";
+
+export interface EmbeddingSettings {
+  provider: EmbeddingProviderType;
+  model: string;
+  dimensions: number;
+}
+
+export function getEmbeddingSettings(): EmbeddingSettings {
+  const provider = (Deno.env.get("EMBEDDING_PROVIDER") ||
+    "openai") as EmbeddingProviderType;
+  const dimensions = parseInt(Deno.env.get("EMBEDDING_DIMENSIONS") || "1536", 10);
+  return {
+    provider,
+    // Hash vectors are never stored under a real model's name
+    model: provider === "fake"
+      ? `fake-hash-${dimensions}`
+      : Deno.env.get("EMBEDDING_MODEL") || "text-embedding-3-small",
+    dimensions,
+  };
+}
+
+/**
+ * Throw early (at request start) if the selected provider is missing settings
+ */
+export function assertEmbeddingConfigured(): void {
+  const { provider } = getEmbeddingSettings();
+  const required: Record<EmbeddingProviderType, string[]> = {
+    openai: ["OPENAI_API_KEY"],
+    "azure-openai": [
+      "AZURE_OPENAI_API_KEY",
+      "AZURE_OPENAI_ENDPOINT",
+      "AZURE_OPENAI_DEPLOYMENT",
+    ],
+    "openai-compatible": ["EMBEDDING_BASE_URL"],
+    fake: [],
+  };
+
+  if (!required[provider]) {
+    throw new Error(`Unknown EMBEDDING_PROVIDER: ${provider}`);
+  }
+
+  const missing = required[provider].filter((name) => !Deno.env.get(name));
+  if (missing.length > 0) {
+    throw new Error(`${missing.join(", ")} not configured`);
+  }
+}
+
+/**
+ * Embed a batch of already-cleaned texts; results are aligned with the input
+ * Vectors for previously embedded text are served from the embedding cache.
+ */
+export async function embedTexts(texts: string[]): Promise<number[][]> {
+  const settings = getEmbeddingSettings();
+
+  if (settings.provider === "fake") {
+    return Promise.all(
+      texts.map((t) => fakeEmbedding(t, settings.model, settings.dimensions)),
+    );
+  }
+
+  if (Deno.env.get("EMBEDDING_CACHE_ENABLED") === "false") {
+    return await requestEmbeddings(settings, texts);
+  }
+
+  const hashes = await Promise.all(texts.map(hashText));
+  const cached = await getCachedEmbeddings(
+    settings.model,
+    settings.dimensions,
+    hashes,
+  );
+  const missing = texts
+    .map((_, i) => i)
+    .filter((i) => !cached.has(hashes[i]));
+  const fresh = missing.length > 0
+    ? await requestEmbeddings(settings, missing.map((i) => texts[i]))
+    : [];
+
+  await storeCachedEmbeddings(
+    settings.model,
+    missing.map((i, j) => ({ hash: hashes[i], embedding: fresh[j] })),
+  );
+
+  const embeddings = texts.map((_, i) => cached.get(hashes[i]) as number[]);
+  missing.forEach((i, j) => {
+    embeddings[i] = fresh[j];
+  });
+  return embeddings;
+}
+
+/**
+ * Embed a single already-cleaned text
+ */
+export async function embedText(text: string): Promise<number[]> {
+  const [embedding] = await embedTexts([text]);
+  return embedding;
+}
+
+// Models that accept a reduced output size through the `dimensions` parameter
+const DIMENSIONS_PARAMETER_MODELS = /^text-embedding-3-/;
+
+async function requestEmbeddings(
+  settings: EmbeddingSettings,
+  texts: string[],
+): Promise<number[][]> {
+  const { url, headers } = getRequestTarget(settings);
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { ...headers, "Content-Type": "application/json" },
+    body: JSON.stringify({
+      model: settings.model,
+      input: texts,
+      encoding_format: "float",
+      ...(DIMENSIONS_PARAMETER_MODELS.test(settings.model)
+        ? { dimensions: settings.dimensions }
+        : {}),
+    }),
+  });
+
+  if (!response.ok) {
+    const errText = await response.text();
+    throw new Error(
+      `Embedding error (${settings.provider}): ${response.status} - ${errText}`,
+    );
+  }
+
+  const data = await response.json();
+  const embeddings: number[][] = new Array(texts.length);
+  for (const d of data.data as Array<{ index: number; embedding: number[] }>) {
+    if (d.embedding.length !== settings.dimensions) {
+      throw new Error(
+        `Model ${settings.model} returned ${d.embedding.length}-dimensional embeddings, expected ${settings.dimensions}`,
+      );
+    }
+    embeddings[d.index] = d.embedding;
+  }
+  return embeddings;
+}
+
+// ============================================================================
+// EMBEDDING CACHE (volterra_kb.embedding_cache, shared with the Node pipeline)
+// ============================================================================
+
+function getCacheClient() {
+  return createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    { db: { schema: "volterra_kb" } },
+  );
+}
+
+// SHA-256 hex of the exact text sent to the provider (same key as Node)
+async function hashText(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(text),
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Lookup failures are treated as misses
+async function getCachedEmbeddings(
+  model: string,
+  dimensions: number,
+  hashes: string[],
+): Promise<Map<string, number[]>> {
+  const found = new Map<string, number[]>();
+  try {
+    const { data, error } = await getCacheClient().rpc(
+      "get_cached_embeddings",
+      {
+        p_model: model,
+        p_dimensions: dimensions,
+        p_text_hashes: [...new Set(hashes)],
+      },
+    );
+    if (error) throw error;
+    for (const row of (data ?? []) as Array<{ text_hash: string; embedding: string }>) {
+      found.set(row.text_hash, JSON.parse(row.embedding));
+    }
+  } catch (err) {
+    console.warn("Embedding cache lookup failed:", err);
+  }
+  return found;
+}
+
+async function storeCachedEmbeddings(
+  model: string,
+  entries: Array<{ hash: string; embedding: number[] }>,
+): Promise<void> {
+  if (entries.length === 0) return;
+  const { error } = await getCacheClient()
+    .from("embedding_cache")
+    .upsert(
+      entries.map((e) => ({
+        model,
+        text_hash: e.hash,
+        embedding: `[${e.embedding.join(",")}]`,
+        dimensions: e.embedding.length,
+      })),
+      { onConflict: "model,dimensions,text_hash", ignoreDuplicates: true },
+    );
+  if (error) {
+    console.warn("Failed to store embeddings in cache:", error.message);
+  }
+}
+
+function getRequestTarget(settings: EmbeddingSettings): {
+  url: string;
+  headers: Record<string, string>;
+} {
+  switch (settings.provider) {
+    case "azure-openai": {
+      const endpoint = (Deno.env.get("AZURE_OPENAI_ENDPOINT") ?? "").replace(
+        /\/+$/,
+        "",
+      );
+      const deployment = Deno.env.get("AZURE_OPENAI_DEPLOYMENT");
+      const apiVersion = Deno.env.get("AZURE_OPENAI_API_VERSION") ||
+        "2024-10-21";
+      return {
+        url:
+          `${endpoint}/openai/deployments/${deployment}/embeddings?api-version=${apiVersion}`,
+        headers: { "api-key": Deno.env.get("AZURE_OPENAI_API_KEY") ?? "" },
+      };
+    }
+    case "openai-compatible": {
+      const baseUrl = (Deno.env.get("EMBEDDING_BASE_URL") ?? "").replace(
+        /\/+$/,
+        "",
+      );
+      return {
+        url: `${baseUrl}/embeddings`,
+        headers: {
+          Authorization: `Bearer ${Deno.env.get("EMBEDDING_API_KEY") || "local"}`,
+        },
+      };
+    }
+    default:
+      return {
+        url: "https://api.openai.com/v1/embeddings",
+        headers: {
+          Authorization: `Bearer ${Deno.env.get("OPENAI_API_KEY") ?? ""}`,
+        },
+      };
+  }
+}
+
+// Deterministic hash-based vector (same algorithm as the Node FakeEmbeddingProvider)
+async function fakeEmbedding(
+  text: string,
+  model: string,
+  dimensions: number,
+): Promise<number[]> {
+  const encoder = new TextEncoder();
+  const vector: number[] = [];
+  let counter = 0;
+
+  while (vector.length < dimensions) {
+    const digest = await crypto.subtle.digest(
+      "SHA-256",
+      encoder.encode(`${model}:${counter++}:${text}`),
+    );
+    const view = new DataView(digest);
+    for (let i = 0; i + 1 < view.byteLength && vector.length < dimensions; i += 2) {
+      vector.push(view.getUint16(i) / 32767.5 - 1);
+    }
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return vector.map((v) => v / norm);
+}
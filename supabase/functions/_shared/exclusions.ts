@@ -0,0 +1,39 @@
+// Shared do-not-ingest rules for Edge Functions
+//
+// Rules live in volterra_kb.ingestion_exclusions and are added with
+// `npm run gdpr:exclusions -- add`, which also purges rows stored before the
+// rule existed. Matching is src/compliance/exclusion-rules.ts, the same module
+// the Node sources use. No environment variables.
+
+import {
+  ExclusionList,
+  type ExclusionType,
+} from "../../../src/compliance/exclusion-rules.ts";
+
+export { ExclusionList };
+export type { ExclusionMatch } from "../../../src/compliance/exclusion-rules.ts";
+
+/**
+ * Load all rules once per sync run
+ * A failed read throws: syncing without the rules would store excluded data.
+ */
+export async function loadExclusions(
+  // deno-lint-ignore no-explicit-any
+  supabase: any,
+): Promise<ExclusionList> {
+  const { data, error } = await supabase
+    .schema("volterra_kb")
+    .from("ingestion_exclusions")
+    .select("rule_type, value");
+
+  if (error) {
+    throw new Error(`Failed to load exclusion rules: ${error.message}`);
+  }
+
+  return new ExclusionList(
+    (data ?? []).map((row: { rule_type: ExclusionType; value: string }) => ({
+      type: row.rule_type,
+      value: row.value,
+    })),
+  );
+}
@@ -0,0 +1,175 @@
+// Shared PII detection for Edge Functions
+//
+// The recognizers, checksums and sensitivity/access level rules are
+// src/compliance/pii-recognizers.ts, the same module the Node ingestion
+// pipeline uses, so a document gets the same classification whichever path
+// stored it. Settings come from environment variables instead of
+// config/default.json:
+//
+//   PII_DETECTION_ENABLED    'false' disables detection (default: true)
+//   PII_MARKETS              national formats to recognize (default: SE,NO,DK,DE)
+//   PII_REDACTION_MODE       flag (default) | redact | pseudonymize
+//   PII_ENTITIES_<SOURCE>    entity types for one source, e.g. PII_ENTITIES_SLACK
+//                            (mirrors compliance.piiDetection.sources; default: all)
+//
+// Pseudonymization needs the PII vault and is only done by the Node pipeline;
+// the syncs redact instead. redact-pii (names/addresses in English) and the
+// second-stage detector are Node-only too; `npm run pii:rescan` covers rows
+// stored here with the full detector.
+
+import {
+  accessLevelForSensitivity,
+  classifyPIISensitivity,
+  findPIIEntities,
+  getPIIRecognizers,
+  PII_MARKETS,
+  replacePIIEntities,
+  toPIILabel,
+  type PIIAccessLevel,
+  type PIIMarket,
+  type PIIMatch,
+  type PIISensitivity,
+} from "../../../src/compliance/pii-recognizers.ts";
+
+export type PIIHandlingMode = "flag" | "redact" | "pseudonymize";
+
+export interface PIIScanResult {
+  /** Content to store: unchanged in flag mode, PII replaced otherwise */
+  content: string;
+  hasPII: boolean;
+  piiTypes: string[];
+  entities: PIIMatch[];
+  sensitivity: PIISensitivity;
+  /** Level before the PII upgrade */
+  accessLevelRequested: PIIAccessLevel;
+  accessLevel: PIIAccessLevel;
+  redactionApplied: boolean;
+}
+
+export interface PIIScanOptions {
+  /** documents.source_type (notion, slack, hubspot, ...) */
+  sourceType: string;
+  /** Access level before the PII upgrade (default: internal) */
+  accessLevel?: PIIAccessLevel;
+}
+
+export function getPIIMode(): PIIHandlingMode {
+  const mode = Deno.env.get("PII_REDACTION_MODE");
+  return mode === "redact" || mode === "pseudonymize" ? mode : "flag";
+}
+
+function getMarkets(): PIIMarket[] {
+  const value = Deno.env.get("PII_MARKETS");
+  if (!value) return PII_MARKETS;
+  return value.split(",").map((m) => m.trim().toUpperCase()) as PIIMarket[];
+}
+
+function getEntities(sourceType: string): string[] | undefined {
+  const value = Deno.env.get(`PII_ENTITIES_${sourceType.toUpperCase()}`);
+  return value ? value.split(",").map((e) => e.trim()) : undefined;
+}
+
+/**
+ * Detect PII, classify sensitivity and upgrade the access level, the way
+ * processForGDPR does at ingestion
+ */
+export function scanForPII(
+  content: string,
+  options: PIIScanOptions,
+): PIIScanResult {
+  const accessLevelRequested = options.accessLevel ?? "internal";
+
+  if (Deno.env.get("PII_DETECTION_ENABLED") === "false") {
+    return {
+      content,
+      hasPII: false,
+      piiTypes: [],
+      entities: [],
+      sensitivity: "None",
+      accessLevelRequested,
+      accessLevel: accessLevelRequested,
+      redactionApplied: false,
+    };
+  }
+
+  const entities = findPIIEntities(
+    content,
+    getPIIRecognizers(getMarkets(), getEntities(options.sourceType)),
+  );
+  const piiTypes = [...new Set(entities.map((e) => e.type))];
+  const hasPII = entities.length > 0;
+  const sensitivity = classifyPIISensitivity(hasPII, piiTypes);
+  const redact = hasPII && getPIIMode() !== "flag";
+
+  return {
+    content: redact
+      ? replacePIIEntities(content, entities, (e) => toPIILabel(e.type))
+      : content,
+    hasPII,
+    piiTypes,
+    entities,
+    sensitivity,
+    accessLevelRequested,
+    accessLevel: accessLevelForSensitivity(accessLevelRequested, sensitivity),
+    redactionApplied: redact,
+  };
+}
+
+/**
+ * Mask PII in text returned to callers, e.g. [REDACTED_EMAIL]
+ * Independent of PII_REDACTION_MODE; all markets and entity types.
+ */
+export function redactPII(text: string): string {
+  const entities = findPIIEntities(text, getPIIRecognizers(PII_MARKETS));
+  return replacePIIEntities(
+    text,
+    entities,
+    (e) => `[REDACTED_${toPIILabel(e.type)}]`,
+  );
+}
+
+/**
+ * Store the scan in volterra_kb.gdpr_audit_log (no values, only types and
+ * spans). The rows are already written, so failures are logged, not thrown.
+ */
+export async function recordPIIScan(
+  // deno-lint-ignore no-explicit-any
+  supabase: any,
+  scan: PIIScanResult,
+  document: {
+    title: string;
+    sourceType: string;
+    sourcePath: string;
+    documentIds: string[];
+  },
+): Promise<void> {
+  const { error } = await supabase
+    .schema("volterra_kb")
+    .from("gdpr_audit_log")
+    .insert({
+      action: "PII_SCAN",
+      document_title: document.title,
+      document_ids: document.documentIds,
+      source_type: document.sourceType,
+      source_path: document.sourcePath,
+      pii_found: scan.hasPII,
+      pii_types: scan.piiTypes,
+      pii_entities: scan.entities.map(({ type, start, end }) => ({
+        type,
+        detector: "pattern",
+        start,
+        end,
+      })),
+      sensitivity_level: scan.sensitivity,
+      access_level_requested: scan.accessLevelRequested,
+      access_level_assigned: scan.accessLevel,
+      redaction_applied: scan.redactionApplied,
+      scanned_at: new Date().toISOString(),
+    });
+
+  if (error) {
+    console.error(
+      `Failed to record PII scan for ${document.sourcePath}: ${error.message}`,
+    );
+  }
+}
@@ -0,0 +1,204 @@
+// Shared reranker for Edge Functions
+//
+// Scores (query, candidate) pairs so results retrieved from different sources
+// can be merged into one ranked list. The backend is selected with
+// environment variables:
+//
+//   RERANK_PROVIDER   llm (default) | cross-encoder | lexical
+//   RERANK_MODEL      llm: chat model (default: gpt-4o-mini)
+//                     cross-encoder: model name sent to the endpoint
+//   OPENAI_API_KEY    llm
+//   RERANK_BASE_URL, RERANK_API_KEY (optional)   cross-encoder; any service
+//                     exposing POST {base}/rerank (Cohere, Jina, TEI)
+//
+// lexical is a local stand-in without network calls: query term coverage
+// blended with the retrieval similarity. Useful offline and as a fallback.
+
+export type RerankerType = "llm" | "cross-encoder" | "lexical";
+
+export interface RerankCandidate {
+  text: string;
+  /** Retrieval score (cosine similarity), used by the lexical reranker */
+  score?: number;
+}
+
+export interface RerankerSettings {
+  provider: RerankerType;
+  model: string;
+}
+
+// Keep prompts/requests small; candidates are scored in parallel batches
+const RERANK_BATCH_SIZE = 20;
+const MAX_CANDIDATE_CHARS = 1000;
+
+export function getRerankerSettings(): RerankerSettings {
+  const provider = (Deno.env.get("RERANK_PROVIDER") || "llm") as RerankerType;
+  return {
+    provider,
+    model: Deno.env.get("RERANK_MODEL") ||
+      (provider === "llm" ? "gpt-4o-mini" : "rerank"),
+  };
+}
+
+/**
+ * Throw if the selected reranker is missing settings
+ */
+export function assertRerankerConfigured(): void {
+  const { provider } = getRerankerSettings();
+  const required: Record<RerankerType, string[]> = {
+    llm: ["OPENAI_API_KEY"],
+    "cross-encoder": ["RERANK_BASE_URL"],
+    lexical: [],
+  };
+
+  if (!required[provider]) {
+    throw new Error(`Unknown RERANK_PROVIDER: ${provider}`);
+  }
+
+  const missing = required[provider].filter((name) => !Deno.env.get(name));
+  if (missing.length > 0) {
+    throw new Error(`${missing.join(", ")} not configured`);
+  }
+}
+
+/**
+ * Relevance scores (0-1) for each candidate, aligned with the input
+ */
+export async function rerank(
+  query: string,
+  candidates: RerankCandidate[],
+): Promise<number[]> {
+  if (candidates.length === 0) return [];
+
+  assertRerankerConfigured();
+  const settings = getRerankerSettings();
+  const texts = candidates.map((c) => c.text.slice(0, MAX_CANDIDATE_CHARS));
+
+  switch (settings.provider) {
+    case "lexical":
+      return candidates.map((c, i) => lexicalScore(query, texts[i], c.score));
+    case "cross-encoder":
+      return await crossEncoderScores(settings, query, texts);
+    case "llm": {
+      const batches: Promise<number[]>[] = [];
+      for (let i = 0; i < texts.length; i += RERANK_BATCH_SIZE) {
+        batches.push(
+          llmScores(settings, query, texts.slice(i, i + RERANK_BATCH_SIZE)),
+        );
+      }
+      return (await Promise.all(batches)).flat();
+    }
+  }
+}
+
+// ============================================================================
+// PROVIDERS
+// ============================================================================
+
+async function llmScores(
+  settings: RerankerSettings,
+  query: string,
+  texts: string[],
+): Promise<number[]> {
+  const passages = texts
+    .map((t, i) => `[${i}] ${t.replace(/\s+/g, " ")}`)
+    .join("\n\n");
+
+  const response = await fetch("https://api.openai.com/v1/chat/completions", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${Deno.env.get("OPENAI_API_KEY")}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model: settings.model,
+      temperature: 0,
+      response_format: { type: "json_object" },
+      messages: [
+        {
+          role: "system",
+          content:
+            'You rank search results. Rate how well each passage answers the query from 0 (irrelevant) to 10 (directly answers it). Reply with JSON: {"scores": [<one number per passage, in order>]}',
+        },
+        {
+          role: "user",
+          content: `Query: ${query}\n\nPassages:\n${passages}`,
+        },
+      ],
+    }),
+  });
+
+  if (!response.ok) {
+    const errText = await response.text();
+    throw new Error(`Rerank error (llm): ${response.status} - ${errText}`);
+  }
+
+  const data = await response.json();
+  const parsed = JSON.parse(data.choices?.[0]?.message?.content ?? "{}");
+  const scores = Array.isArray(parsed.scores) ? parsed.scores : [];
+
+  return texts.map((_, i) => {
+    const score = Number(scores[i]);
+    return Number.isFinite(score) ? Math.min(Math.max(score / 10, 0), 1) : 0;
+  });
+}
+
+async function crossEncoderScores(
+  settings: RerankerSettings,
+  query: string,
+  texts: string[],
+): Promise<number[]> {
+  const baseUrl = Deno.env.get("RERANK_BASE_URL")!.replace(/\/+$/, "");
+  const apiKey = Deno.env.get("RERANK_API_KEY");
+
+  const response = await fetch(`${baseUrl}/rerank`, {
+    method: "POST",
+    headers: {
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model: settings.model,
+      query,
+      // Cohere/Jina read documents, TEI reads texts
+      documents: texts,
+      texts,
+      top_n: texts.length,
+    }),
+  });
+
+  if (!response.ok) {
+    const errText = await response.text();
+    throw new Error(
+      `Rerank error (cross-encoder): ${response.status} - ${errText}`,
+    );
+  }
+
+  // Cohere/Jina: { results: [{ index, relevance_score }] }, TEI: [{ index, score }]
+  const data = await response.json();
+  const rows = (Array.isArray(data) ? data : data.results ?? []) as Array<{
+    index: number;
+    relevance_score?: number;
+    score?: number;
+  }>;
+
+  const scores = new Array(texts.length).fill(0);
+  for (const row of rows) {
+    scores[row.index] = row.relevance_score ?? row.score ?? 0;
+  }
+  return scores;
+}
+
+// Share of query terms found in the candidate, blended with the retrieval score
+function lexicalScore(query: string, text: string, retrieval = 0): number {
+  const terms = tokenize(query);
+  if (terms.length === 0) return retrieval;
+
+  const words = new Set(tokenize(text));
+  const coverage = terms.filter((t) => words.has(t)).length / terms.length;
+  return 0.6 * coverage + 0.4 * Math.min(Math.max(retrieval, 0), 1);
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
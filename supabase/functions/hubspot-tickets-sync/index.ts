@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.3';
+import { scanForPII } from '../_shared/pii.ts';
+import { loadExclusions } from '../_shared/exclusions.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -142,6 +144,11 @@ function sanitizeContent(content: string | null | undefined): string {
   return cleaned;
 }
 
+// Training tables have no sensitivity column; PII is only redacted (PII_REDACTION_MODE=redact)
+function redactForStorage(text: string): string {
+  return scanForPII(text, { sourceType: 'hubspot' }).content;
+}
+
 // ============================================================================
 // PARTICIPANT ROLE INFERENCE
 // ============================================================================
@@ -309,6 +316,7 @@ serve(async (req) => {
   let conversationsUpserted = 0;
   let messagesUpserted = 0;
   let failedTickets = 0;
+  let excludedTickets = 0;
   let lastError: string | null = null;
   let maxCursor = 0;
   
@@ -367,6 +375,9 @@ serve(async (req) => {
     
     console.log(`Starting sync: cursor=${state.cursor_hs_lastmodified_ms}, lookback=${lookbackHours}h, sinceMs=${sinceMs}, limit=${limit}`);
     
+    // Do-not-ingest rules (opted-out customers by email domain)
+    const exclusions = await loadExclusions(supabaseClient);
+    
     // Fetch tickets from HubSpot
     const { tickets, maxLastModified } = await searchTickets(hubspotToken, sinceMs, limit);
     ticketsFetched = tickets.length;
@@ -382,6 +393,7 @@ serve(async (req) => {
         
         // Build messages from engagements
         const participants = new Map<string, { email: string; name: string; role: string }>();
+        const addresses: string[] = [];
         const messages: Array<{
           id: string;
           timestamp: string;
@@ -407,6 +419,7 @@ serve(async (req) => {
           if (detectAutoReply(subj, rawContent)) continue;
           
           const fromEmail = parseEmail(eng.properties?.hs_email_from) || 'unknown@unknown.com';
+          addresses.push(fromEmail, ...String(eng.properties?.hs_email_to || '').split(',').map(a => parseEmail(a) || ''));
           const rawDirection = eng.properties?.hs_email_direction;
           const role = inferRole(rawDirection, fromEmail);
           const direction = normalizeDirection(rawDirection, role);
@@ -433,6 +446,12 @@ serve(async (req) => {
           });
         }
         
+        // Tickets with an excluded customer are not stored at all
+        if (exclusions.matchEmails(addresses)) {
+          excludedTickets++;
+          continue;
+        }
+        
         // Sort messages by timestamp
         messages.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
         
@@ -441,9 +460,10 @@ serve(async (req) => {
         const primaryLanguage = allContent.trim() ? detectLanguage(allContent) : null;
         
         // Build conversation row
+        const subject = ticket.properties.subject ? redactForStorage(ticket.properties.subject) : null;
         const conversationRow: ConversationRow = {
           hubspot_ticket_id: ticket.id,
-          subject: ticket.properties.subject || 'No Subject',
+          subject: subject || 'No Subject',
           priority: ticket.properties.hs_ticket_priority || null,
           status: ticket.properties.hs_pipeline_stage || null,
           pipeline: ticket.properties.hs_pipeline || null,
@@ -452,7 +472,7 @@ serve(async (req) => {
           create_date: ticket.properties.createdate || null,
           source_type: 'hubspot_ticket',
           primary_language: primaryLanguage,
-          conversation_summary: `${ticket.properties.subject || 'Support ticket'} - ${messages.length} messages`,
+          conversation_summary: `${subject || 'Support ticket'} - ${messages.length} messages`,
           participant_count: participants.size,
           thread_length: messages.length,
           training_type: 'email_agent',
@@ -486,8 +506,8 @@ serve(async (req) => {
             from_email: m.fromEmail,
             from_name: m.fromName,
             participant_role: m.role,
-            subject: m.subject,
-            content: m.content,
+            subject: redactForStorage(m.subject),
+            content: redactForStorage(m.content),
             content_type: 'email',
             direction: m.direction,
             engagement_type: m.engagementType,
@@ -551,7 +571,7 @@ serve(async (req) => {
     }
     
     const elapsed = Date.now() - startTime;
-    console.log(`Sync completed in ${elapsed}ms: ${ticketsFetched} tickets, ${conversationsUpserted} conversations, ${messagesUpserted} messages, ${failedTickets} failed`);
+    console.log(`Sync completed in ${elapsed}ms: ${ticketsFetched} tickets, ${conversationsUpserted} conversations, ${messagesUpserted} messages, ${excludedTickets} excluded, ${failedTickets} failed`);
     
     return new Response(
       JSON.stringify({
@@ -559,6 +579,7 @@ serve(async (req) => {
         ticketsFetched,
         conversationsUpserted,
         messagesUpserted,
+        excludedTickets,
         failedTickets,
         cursorAdvanced: maxCursor > state.cursor_hs_lastmodified_ms,
         newCursor: maxCursor,
@@ -1,5 +1,17 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.3";
+import {
+  embedText,
+  getEmbeddingSettings,
+} from "../_shared/embedding-provider.ts";
+import { getRerankerSettings, rerank } from "../_shared/reranker.ts";
+import {
+  accessibleLevels,
+  type Caller,
+  type Clearance,
+  resolveCaller,
+} from "../_shared/access-control.ts";
+import { redactPII } from "../_shared/pii.ts";
 
 // ============================================================================
 // TYPES
@@ -46,12 +58,9 @@ const CORS_HEADERS = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Methods": "POST, GET, OPTIONS",
   "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type",
+    "authorization, x-client-info, apikey, content-type, x-api-key",
 };
 
-const EMBEDDING_MODEL = "text-embedding-3-small";
-const EMBEDDING_DIMENSIONS = 1536;
-
 // OpenAI ChatGPT egress IP ranges (as of Dec 2024)
 // Source: https://platform.openai.com/docs/actions/production
 const OPENAI_EGRESS_CIDRS = [
@@ -612,6 +621,10 @@ Returns: Top 5-50 results per source (documents, training, slack, wod) with simi
 
 Performance: Searches 4 sources in parallel. Typical response: 10-80 results in 1-3 seconds. Results sorted by semantic relevance (cosine similarity).
 
+Use mode "hybrid" for queries containing exact terms (error codes, ticket IDs, product names like "Zaptec Pro"): full-text and vector rankings are fused with reciprocal rank fusion (rrf_score). WoD deals are always searched by vector.
+
+Set rerank: true to merge all sources into ONE list ordered by a reranker (rerank_score 0-1, plus the original retrieval_score and source on every result) instead of separate per-source lists.
+
 Related tools: Use 'fetch' after this for full content, 'query_table' for browsing specific tables, 'count_rows' for statistics.`,
     inputSchema: {
       type: "object",
@@ -635,6 +648,22 @@ Related tools: Use 'fetch' after this for full content, 'query_table' for browsi
           minimum: 1,
           maximum: 50,
         },
+        mode: {
+          type: "string",
+          enum: ["vector", "hybrid"],
+          description:
+            "Optional: 'vector' (cosine similarity) or 'hybrid' (full-text + vector, fused with reciprocal rank fusion). Default: vector.",
+        },
+        rerank: {
+          type: "boolean",
+          description:
+            "Optional: merge results from all sources into one list ranked by relevance to the query (rerank_score). Default: false.",
+        },
+        include_parent_context: {
+          type: "boolean",
+          description:
+            "Optional: for document matches that are sub-section chunks, also return the enclosing section (parent_context) and its breadcrumb (section_path). Default: false.",
+        },
       },
       required: ["query"],
     },
@@ -1815,23 +1844,6 @@ function hubspotTicketUrl(
   return `https://app-eu1.hubspot.com/contacts/YOUR_PORTAL_ID/record/0-5/${idStr}`;
 }
 
-function redactPII(text: string): string {
-  // Keep this lightweight (best-effort). Primary protection is schema + safe columns.
-  let out = text;
-  // Emails
-  out = out.replace(
-    /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi,
-    "[REDACTED_EMAIL]",
-  );
-  // Phone-like patterns (very rough, avoids eating timestamps/IDs by requiring 8+ digits total)
-  out = out.replace(/\b(\+?\d[\d\s().-]{7,}\d)\b/g, (m) => {
-    const digits = m.replace(/\D/g, "");
-    if (digits.length < 8) return m;
-    return "[REDACTED_PHONE]";
-  });
-  return out;
-}
-
 function stripHtml(input: string): string {
   // Best-effort HTML->text (no DOM available). Keep cheap.
   return input
@@ -1866,9 +1878,6 @@ function log(
 // ============================================================================
 
 async function generateEmbedding(text: string): Promise<number[]> {
-  const apiKey = Deno.env.get("OPENAI_API_KEY");
-  if (!apiKey) throw new Error("OPENAI_API_KEY not configured");
-
   // Clean and truncate
   const cleaned = text
     .replace(/\n+/g, " ")
@@ -1876,26 +1885,7 @@ async function generateEmbedding(text: string): Promise<number[]> {
     .trim()
     .slice(0, 10000); // Conservative limit
 
-  const response = await fetch("https://api.openai.com/v1/embeddings", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      model: EMBEDDING_MODEL,
-      input: cleaned,
-      encoding_format: "float",
-    }),
-  });
-
-  if (!response.ok) {
-    const err = await response.text();
-    throw new Error(`OpenAI embedding error: ${err}`);
-  }
-
-  const result = await response.json();
-  return result.data[0].embedding;
+  return await embedText(cleaned);
 }
 
 // ============================================================================
@@ -1904,7 +1894,15 @@ async function generateEmbedding(text: string): Promise<number[]> {
 
 async function executeKbSearch(
   supabase: ReturnType<typeof createClient>,
-  params: { query: string; sources?: string[]; match_count?: number },
+  clearance: Clearance,
+  params: {
+    query: string;
+    sources?: string[];
+    match_count?: number;
+    mode?: "vector" | "hybrid";
+    rerank?: boolean;
+    include_parent_context?: boolean;
+  },
 ): Promise<ToolCallResult> {
   const query = params.query?.trim();
   if (!query) {
@@ -1923,42 +1921,58 @@ async function executeKbSearch(
   const embeddingVec = JSON.stringify(embedding);
 
   const results: Record<string, unknown[]> = {};
+  const hybrid = params.mode === "hybrid";
+
+  // Hybrid variants take the raw query text for full-text ranking
+  const matchSource = (fn: string, extra: Record<string, unknown> = {}) =>
+    hybrid
+      ? supabase.rpc(fn.replace("mcp_match_", "mcp_hybrid_match_"), {
+        query_text: query,
+        query_embedding: embeddingVec,
+        match_count: matchCount,
+        ...extra,
+      })
+      : supabase.rpc(fn, {
+        query_embedding: embeddingVec,
+        match_count: matchCount,
+        ...extra,
+      });
 
   // Search each requested source
   if (sources.includes("documents")) {
-    const { data, error } = await supabase.rpc("mcp_match_documents", {
-      query_embedding: embeddingVec,
-      match_count: matchCount,
+    const { data, error } = await matchSource("mcp_match_documents", {
+      p_clearance: clearance,
     });
     if (error) {
-      log("error", "mcp_match_documents error", { error: error.message });
+      log("error", "mcp_match_documents error", { error: error.message, hybrid });
+    }
+    if (!error && data) {
+      results.documents = params.include_parent_context
+        ? await attachParentContext(supabase, data as Array<{ id: string }>, clearance)
+        : data;
     }
-    if (!error && data) results.documents = data;
   }
 
   if (sources.includes("training")) {
-    const { data, error } = await supabase.rpc(
+    const { data, error } = await matchSource(
       "mcp_match_training_conversations",
-      {
-        query_embedding: embeddingVec,
-        match_count: matchCount,
-      },
     );
     if (error) {
       log("error", "mcp_match_training_conversations error", {
         error: error.message,
+        hybrid,
       });
     }
     if (!error && data) results.training_conversations = data;
   }
 
   if (sources.includes("slack")) {
-    const { data, error } = await supabase.rpc("mcp_match_slack_messages", {
-      query_embedding: embeddingVec,
-      match_count: matchCount,
-    });
+    const { data, error } = await matchSource("mcp_match_slack_messages");
     if (error) {
-      log("error", "mcp_match_slack_messages error", { error: error.message });
+      log("error", "mcp_match_slack_messages error", {
+        error: error.message,
+        hybrid,
+      });
     }
     if (!error && data) results.slack_messages = data;
   }
@@ -1976,6 +1990,27 @@ async function executeKbSearch(
 
   const totalResults = Object.values(results).flat().length;
 
+  if (params.rerank) {
+    const ranked = await rerankKbResults(query, results);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              query,
+              mode: hybrid ? "hybrid" : "vector",
+              total_results: totalResults,
+              ...ranked,
+            },
+            null,
+            2,
+          ),
+        },
+      ],
+    };
+  }
+
   return {
     content: [
       {
@@ -1983,6 +2018,7 @@ async function executeKbSearch(
         text: JSON.stringify(
           {
             query,
+            mode: hybrid ? "hybrid" : "vector",
             total_results: totalResults,
             results,
           },
@@ -1994,6 +2030,119 @@ async function executeKbSearch(
   };
 }
 
+// Text the reranker sees for a result of each source
+function kbResultText(source: string, row: Record<string, unknown>): string {
+  const parts = (...values: unknown[]) =>
+    values.filter((v) => v !== null && v !== undefined && v !== "").join("\n");
+
+  switch (source) {
+    case "documents":
+      return parts(row.title, row.section_path, row.content_preview);
+    case "training_conversations":
+      return parts(row.subject, row.category, row.summary);
+    case "slack_messages":
+      return parts(row.text);
+    case "wod_deals":
+      return parts(
+        row.deal_name,
+        row.geographic_area,
+        row.country,
+        row.total_parking_spaces
+          ? `${row.total_parking_spaces} parking spaces`
+          : null,
+      );
+    default:
+      return JSON.stringify(row);
+  }
+}
+
+// Merge per-source results into one list ordered by reranker score.
+// If the reranker fails, the list is ordered by retrieval similarity instead.
+async function rerankKbResults(
+  query: string,
+  results: Record<string, unknown[]>,
+): Promise<{ reranker: string; rerank_error?: string; results: unknown[] }> {
+  const candidates = Object.entries(results).flatMap(([source, rows]) =>
+    (rows as Array<Record<string, unknown>>).map((row) => ({
+      source,
+      row,
+      text: kbResultText(source, row),
+      score: typeof row.similarity === "number" ? row.similarity : 0,
+    }))
+  );
+
+  const { provider, model } = getRerankerSettings();
+  let scores: number[];
+  let rerankError: string | undefined;
+  try {
+    scores = await rerank(query, candidates);
+  } catch (err) {
+    rerankError = err instanceof Error ? err.message : String(err);
+    log("error", "Rerank failed, falling back to retrieval scores", {
+      error: rerankError,
+    });
+    scores = candidates.map((c) => c.score);
+  }
+
+  const merged = candidates
+    .map((c, i) => ({
+      source: c.source,
+      rerank_score: Math.round(scores[i] * 1000) / 1000,
+      retrieval_score: c.score,
+      ...c.row,
+    }))
+    .sort((a, b) => b.rerank_score - a.rerank_score);
+
+  return {
+    reranker: rerankError ? "none" : `${provider}:${model}`,
+    ...(rerankError ? { rerank_error: rerankError } : {}),
+    results: merged,
+  };
+}
+
+// Hierarchical child chunks: add the parent section and breadcrumb to each match
+// Parents above the caller's clearance are left out
+async function attachParentContext(
+  supabase: ReturnType<typeof createClient>,
+  documents: Array<{ id: string }>,
+  clearance: Clearance,
+): Promise<unknown[]> {
+  if (documents.length === 0) return documents;
+
+  const { data, error } = await supabase.rpc("get_parent_chunks", {
+    p_document_ids: documents.map((d) => d.id),
+    p_clearance: clearance,
+  });
+  if (error) {
+    log("error", "get_parent_chunks error", { error: error.message });
+    return documents;
+  }
+
+  const parents = new Map(
+    ((data ?? []) as Array<{
+      document_id: string;
+      parent_id: string;
+      section_path: string | null;
+      parent_title: string;
+      parent_content: string;
+    }>).map((row) => [row.document_id, row]),
+  );
+
+  return documents.map((doc) => {
+    const parent = parents.get(doc.id);
+    if (!parent) return doc;
+    return {
+      ...doc,
+      section_path: parent.section_path,
+      parent_context: {
+        id: parent.parent_id,
+        title: parent.parent_title,
+        content: parent.parent_content,
+      },
+    };
+  });
+}
+
 // ============================================================================
 // OPENAI DEEP RESEARCH: search + fetch
 // ============================================================================
@@ -2008,6 +2157,7 @@ type DeepResearchSearchResult = {
 
 async function executeDeepResearchSearch(
   supabase: ReturnType<typeof createClient>,
+  clearance: Clearance,
   params: { query: string },
 ): Promise<ToolCallResult> {
   const query = params.query?.trim();
@@ -2028,6 +2178,7 @@ async function executeDeepResearchSearch(
     supabase.rpc("mcp_match_documents", {
       query_embedding: embeddingVec,
       match_count: perSource,
+      p_clearance: clearance,
     }),
     supabase.rpc("mcp_match_training_conversations", {
       query_embedding: embeddingVec,
@@ -2175,6 +2326,7 @@ async function executeDeepResearchSearch(
 
 async function executeDeepResearchFetch(
   supabase: ReturnType<typeof createClient>,
+  clearance: Clearance,
   params: { id: string },
 ): Promise<ToolCallResult> {
   const rawId = params.id?.trim();
@@ -2211,6 +2363,7 @@ async function executeDeepResearchFetch(
         "id,title,department,document_type,source_type,source_path,language,access_level,created_at,updated_at,content",
       )
       .eq("id", itemId)
+      .in("access_level", accessibleLevels(clearance))
       .maybeSingle();
     if (error)
       return {
@@ -2587,6 +2740,7 @@ async function executeDbTableStats(
 
 async function executeQueryTable(
   supabase: ReturnType<typeof createClient>,
+  clearance: Clearance,
   params: {
     table: string;
     filters?: Record<string, unknown>;
@@ -2623,6 +2777,11 @@ async function executeQueryTable(
     .order(schema.orderBy ?? "id", { ascending: order === "asc" })
     .range(offset, offset + limit - 1);
 
+  // Rows above the caller's clearance are never returned
+  if (schema.columns.includes("access_level")) {
+    query = query.in("access_level", accessibleLevels(clearance));
+  }
+
   // Apply filters
   if (params.filters) {
     for (const [key, value] of Object.entries(params.filters)) {
@@ -2878,6 +3037,7 @@ const EMBEDDING_SOURCES: Record<
 
 async function executeGetEmbeddings(
   supabase: ReturnType<typeof createClient>,
+  clearance: Clearance,
   params: { source: string; ids: string[] },
 ): Promise<ToolCallResult> {
   const sourceConfig = EMBEDDING_SOURCES[params.source];
@@ -2906,12 +3066,17 @@ async function executeGetEmbeddings(
     };
   }
 
-  const { data, error } = await supabase
+  let query = supabase
     .from(sourceConfig.table)
     .select(
       `${sourceConfig.idColumn}, ${sourceConfig.labelColumn}, ${sourceConfig.embeddingColumn}`,
     )
     .in(sourceConfig.idColumn, ids);
+  if (sourceConfig.table === "documents") {
+    query = query.in("access_level", accessibleLevels(clearance));
+  }
+
+  const { data, error } = await query;
 
   if (error) {
     return {
@@ -2973,7 +3138,7 @@ async function executeGenerateEmbedding(params: {
             {
               input_text: text.slice(0, 200) + (text.length > 200 ? "..." : ""),
               input_length: text.length,
-              model: EMBEDDING_MODEL,
+              model: getEmbeddingSettings().model,
               dimensions: embedding.length,
               embedding,
             },
@@ -3007,6 +3172,7 @@ function cosineSimilarity(a: number[], b: number[]): number {
 
 async function executeComputeSimilarity(
   supabase: ReturnType<typeof createClient>,
+  clearance: Clearance,
   params: {
     text: string;
     compare_to: {
@@ -3112,12 +3278,17 @@ async function executeComputeSimilarity(
         };
       }
 
-      const { data, error } = await supabase
+      let query = supabase
         .from(sourceConfig.table)
         .select(
           `${sourceConfig.idColumn}, ${sourceConfig.labelColumn}, ${sourceConfig.embeddingColumn}`,
         )
         .in(sourceConfig.idColumn, ids);
+      if (sourceConfig.table === "documents") {
+        query = query.in("access_level", accessibleLevels(clearance));
+      }
+
+      const { data, error } = await query;
 
       if (error) {
         return {
@@ -3288,6 +3459,7 @@ async function executeFetchConversationMessages(
 
 async function executeFetchDocumentFull(
   supabase: ReturnType<typeof createClient>,
+  clearance: Clearance,
   params: { document_id: string; max_chars?: number },
 ): Promise<ToolCallResult> {
   const documentId = params.document_id?.trim();
@@ -3303,6 +3475,7 @@ async function executeFetchDocumentFull(
   const { data, error } = await supabase.rpc("mcp_fetch_document_full", {
     p_document_id: documentId,
     p_max_chars: maxChars,
+    p_clearance: clearance,
   });
 
   if (error) {
@@ -3688,6 +3861,7 @@ async function executeAnalyzeTrainingResolutionPatterns(
 
 async function executeFindSimilarDocuments(
   supabase: ReturnType<typeof createClient>,
+  clearance: Clearance,
   params: { document_id: string; match_criteria?: string[]; limit?: number },
 ): Promise<ToolCallResult> {
   const documentId = params.document_id?.trim();
@@ -3714,6 +3888,7 @@ async function executeFindSimilarDocuments(
       "id, title, department, document_type, tags, source_type, source_path",
     )
     .eq("id", documentId)
+    .in("access_level", accessibleLevels(clearance))
     .single();
 
   if (refError || !refDoc) {
@@ -3735,7 +3910,8 @@ async function executeFindSimilarDocuments(
     .select(
       "id, title, department, document_type, tags, source_type, source_path",
     )
-    .neq("id", documentId);
+    .neq("id", documentId)
+    .in("access_level", accessibleLevels(clearance));
 
   // Apply filters based on match criteria
   if (matchCriteria.includes("department") && refDoc.department) {
@@ -4301,6 +4477,7 @@ async function executeGetReleaseDetails(
 
 async function executePrivateKbSearch(
   supabase: ReturnType<typeof createClient>,
+  clearance: Clearance,
   params: {
     query: string;
     match_count?: number;
@@ -4314,13 +4491,14 @@ async function executePrivateKbSearch(
     const embedding = await generateEmbedding(query);
     const embeddingVec = JSON.stringify(embedding);
 
-    // Call the private_kb.match_documents RPC function
+    // Call the private_kb.match_documents RPC function (clearance-filtered)
     const { data, error } = await supabase
       .schema("private_kb")
       .rpc("match_documents", {
         query_embedding: embeddingVec,
         match_threshold: match_threshold,
         match_count: match_count,
+        p_clearance: clearance,
       });
 
     if (error) {
@@ -4388,6 +4566,7 @@ async function executePrivateKbSearch(
 
 async function executePrivateKbQuery(
   supabase: ReturnType<typeof createClient>,
+  clearance: Clearance,
   params: {
     limit?: number;
     date_from?: string;
@@ -4404,6 +4583,8 @@ async function executePrivateKbQuery(
       .select(
         "id, title, document_type, source_path, notion_page_id, notion_database_id, tags, owner, created_at, updated_at",
       )
+      // Rows above the caller's clearance are never returned
+      .in("access_level", accessibleLevels(clearance))
       .order("created_at", { ascending: false })
       .limit(Math.min(limit, 100));
 
@@ -4524,49 +4705,21 @@ async function executeSearchTools(
     const matchCount = Math.min(Math.max(args.match_count || 5, 1), 10);
 
     // Generate embedding for the query
-    const openaiKey = Deno.env.get("OPENAI_API_KEY");
-    if (!openaiKey) {
+    let embedding: number[];
+    try {
+      embedding = await generateEmbedding(args.query);
+    } catch (embeddingError) {
       return {
         content: [
-          { type: "text", text: "Error: OPENAI_API_KEY not configured" },
+          {
+            type: "text",
+            text: `Embedding error: ${embeddingError instanceof Error ? embeddingError.message : String(embeddingError)}`,
+          },
         ],
         isError: true,
       };
     }
 
-    const embeddingResponse = await fetch(
-      "https://api.openai.com/v1/embeddings",
-      {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${openaiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: EMBEDDING_MODEL,
-          input: args.query,
-        }),
-      },
-    );
-
-    if (!embeddingResponse.ok) {
-      const errorText = await embeddingResponse.text();
-      return {
-        content: [{ type: "text", text: `Embedding error: ${errorText}` }],
-        isError: true,
-      };
-    }
-
-    const embeddingData = await embeddingResponse.json();
-    const embedding = embeddingData.data?.[0]?.embedding;
-
-    if (!embedding) {
-      return {
-        content: [{ type: "text", text: "Error: No embedding returned" }],
-        isError: true,
-      };
-    }
-
     // Search for matching tools
     const { data, error } = await supabase.rpc("mcp_search_tools", {
       p_query_embedding: JSON.stringify(embedding),
@@ -4641,26 +4794,45 @@ async function handleToolsList(): Promise<MCPResponse["result"]> {
 
 async function handleToolsCall(
   supabase: ReturnType<typeof createClient>,
+  caller: Caller,
   params: { name: string; arguments?: Record<string, unknown> },
 ): Promise<ToolCallResult> {
   const toolName = params.name;
   const args = params.arguments ?? {};
+  const { clearance } = caller;
 
   switch (toolName) {
     case "search":
-      return executeDeepResearchSearch(supabase, args as { query: string });
+      return executeDeepResearchSearch(
+        supabase,
+        clearance,
+        args as { query: string },
+      );
     case "fetch":
-      return executeDeepResearchFetch(supabase, args as { id: string });
+      return executeDeepResearchFetch(
+        supabase,
+        clearance,
+        args as { id: string },
+      );
     case "get_instructions":
       return { content: [{ type: "text", text: SYSTEM_INSTRUCTIONS }] };
     case "kb_search":
       return executeKbSearch(
         supabase,
-        args as { query: string; sources?: string[]; match_count?: number },
+        clearance,
+        args as {
+          query: string;
+          sources?: string[];
+          match_count?: number;
+          mode?: "vector" | "hybrid";
+          rerank?: boolean;
+          include_parent_context?: boolean;
+        },
       );
     case "query_table":
       return executeQueryTable(
         supabase,
+        clearance,
         args as {
           table: string;
           filters?: Record<string, unknown>;
@@ -4701,6 +4873,7 @@ async function handleToolsCall(
     case "get_embeddings":
       return executeGetEmbeddings(
         supabase,
+        clearance,
         args as { source: string; ids: string[] },
       );
     case "generate_embedding":
@@ -4708,6 +4881,7 @@ async function handleToolsCall(
     case "compute_similarity":
       return executeComputeSimilarity(
         supabase,
+        clearance,
         args as {
           text: string;
           compare_to: {
@@ -4739,6 +4913,7 @@ async function handleToolsCall(
     case "fetch_document_full":
       return executeFetchDocumentFull(
         supabase,
+        clearance,
         args as {
           document_id: string;
           max_chars?: number;
@@ -4775,6 +4950,7 @@ async function handleToolsCall(
     case "find_similar_documents":
       return executeFindSimilarDocuments(
         supabase,
+        clearance,
         args as {
           document_id: string;
           match_criteria?: string[];
@@ -4842,6 +5018,7 @@ async function handleToolsCall(
     case "private_kb_search":
       return executePrivateKbSearch(
         supabase,
+        clearance,
         args as {
           query: string;
           match_count?: number;
@@ -4851,6 +5028,7 @@ async function handleToolsCall(
     case "private_kb_query":
       return executePrivateKbQuery(
         supabase,
+        clearance,
         args as {
           limit?: number;
           date_from?: string;
@@ -4880,6 +5058,7 @@ async function handleToolsCall(
 async function handleMCPRequest(
   request: MCPRequest,
   supabase: ReturnType<typeof createClient>,
+  caller: Caller,
 ): Promise<MCPResponse> {
   const { id, method, params } = request;
 
@@ -4900,6 +5079,7 @@ async function handleMCPRequest(
       case "tools/call":
         result = await handleToolsCall(
           supabase,
+          caller,
           params as { name: string; arguments?: Record<string, unknown> },
         );
         break;
@@ -4972,18 +5152,30 @@ serve(async (req) => {
       db: { schema: "volterra_kb" },
     });
 
+    // Caller clearance limits which documents any tool can return
+    const caller = await resolveCaller(req, supabase);
+    if (!caller) {
+      log("warn", "Invalid API key", { requestId, clientIP });
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...CORS_HEADERS, "Content-Type": "application/json" },
+      });
+    }
+
     // Parse JSON-RPC request
     const body = (await req.json()) as MCPRequest;
 
     log("info", "MCP request", {
       requestId,
       clientIP,
+      caller: caller.name,
+      clearance: caller.clearance,
       method: body.method,
       toolName: body.params?.name as string | undefined,
     });
 
     // Handle MCP request
-    const response = await handleMCPRequest(body, supabase);
+    const response = await handleMCPRequest(body, supabase, caller);
 
     const latency = Date.now() - startTime;
     log("info", "MCP response", {
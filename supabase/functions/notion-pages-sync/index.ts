@@ -1,6 +1,13 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.3";
 import { crypto } from "https://deno.land/std@0.168.0/crypto/mod.ts";
+import {
+  assertEmbeddingConfigured,
+  embedText,
+  getEmbeddingSettings,
+} from "../_shared/embedding-provider.ts";
+import { recordPIIScan, scanForPII, type PIIScanResult } from "../_shared/pii.ts";
+import { loadExclusions } from "../_shared/exclusions.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -102,6 +109,7 @@ interface SyncStats {
   pagesSeen: number;
   pagesChanged: number;
   pagesDeleted: number;
+  pagesExcluded: number;
   docsUpserted: number;
   docsDeleted: number;
   chunksCreated: number;
@@ -114,7 +122,6 @@ interface SyncStats {
 // CONSTANTS
 // ============================================================================
 
-const EMBEDDING_MODEL = "text-embedding-3-small";
 const MAX_CHUNK_SIZE = 2000;
 const CHUNK_OVERLAP = 100;
 const NOTION_API_VERSION = "2022-06-28";
@@ -597,10 +604,7 @@ function chunkText(
 // EMBEDDINGS
 // ============================================================================
 
-async function generateEmbedding(
-  text: string,
-  openaiKey: string,
-): Promise<number[]> {
+async function generateEmbedding(text: string): Promise<number[]> {
   const cleaned = text
     .replace(/\n+/g, " ")
     .replace(/\s+/g, " ")
@@ -611,26 +615,7 @@ async function generateEmbedding(
     throw new Error("Text too short for embedding");
   }
 
-  const response = await fetch("https://api.openai.com/v1/embeddings", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${openaiKey}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      model: EMBEDDING_MODEL,
-      input: cleaned,
-      encoding_format: "float",
-    }),
-  });
-
-  if (!response.ok) {
-    const errText = await response.text();
-    throw new Error(`OpenAI embedding error: ${response.status} - ${errText}`);
-  }
-
-  const data = await response.json();
-  return data.data[0].embedding;
+  return await embedText(cleaned);
 }
 
 // ============================================================================
@@ -747,41 +732,45 @@ async function upsertDocumentChunks(
   page: NotionPage,
   chunks: TextChunk[],
   sourcePath: string,
-  openaiKey: string,
+  pii: PIIScanResult,
 ): Promise<number> {
   const title = extractPageTitle(page);
+  const documentIds: string[] = [];
   let upserted = 0;
 
   for (const chunk of chunks) {
     try {
-      const embedding = await generateEmbedding(chunk.content, openaiKey);
+      const embedding = await generateEmbedding(chunk.content);
       const chunkSourcePath =
         chunks.length > 1 ? `${sourcePath}#chunk${chunk.index}` : sourcePath;
 
       const docRecord = {
         content: chunk.content,
         embedding,
+        embedding_model: getEmbeddingSettings().model,
         department: "Support",
         document_type: "Knowledge Base",
         title:
           chunks.length > 1
             ? `${title} (Part ${chunk.index}/${chunks.length})`
             : title,
-        access_level: "internal",
+        access_level: pii.accessLevel,
         tags: ["notion", "kb", `chunk:${chunk.index}/${chunks.length}`],
-        sensitivity: "None",
+        sensitivity: pii.sensitivity,
         source_type: "notion",
         source_path: chunkSourcePath,
       };
 
       // Upsert: insert or update based on unique constraint
-      const { error: upsertError } = await supabase
+      const { data: upsertedDoc, error: upsertError } = await supabase
         .schema("volterra_kb")
         .from("documents")
         .upsert(docRecord, {
           onConflict: "source_type,source_path",
           ignoreDuplicates: false,
-        });
+        })
+        .select("id")
+        .single();
 
       if (upsertError) {
         // Fallback: try insert then delete older duplicates (like Slack pattern)
@@ -808,6 +797,10 @@ async function upsertDocumentChunks(
           .eq("source_type", "notion")
           .eq("source_path", chunkSourcePath)
           .neq("id", inserted.id);
+
+        documentIds.push(inserted.id);
+      } else {
+        documentIds.push(upsertedDoc.id);
       }
 
       upserted++;
@@ -823,6 +816,15 @@ async function upsertDocumentChunks(
     }
   }
 
+  if (documentIds.length > 0) {
+    await recordPIIScan(supabase, pii, {
+      title,
+      sourceType: "notion",
+      sourcePath,
+      documentIds,
+    });
+  }
+
   return upserted;
 }
 
@@ -948,6 +950,7 @@ serve(async (req) => {
     pagesSeen: 0,
     pagesChanged: 0,
     pagesDeleted: 0,
+    pagesExcluded: 0,
     docsUpserted: 0,
     docsDeleted: 0,
     chunksCreated: 0,
@@ -985,10 +988,7 @@ serve(async (req) => {
       throw new Error("NOTION_API_KEY not configured");
     }
 
-    const openaiKey = Deno.env.get("OPENAI_API_KEY");
-    if (!openaiKey) {
-      throw new Error("OPENAI_API_KEY not configured");
-    }
+    assertEmbeddingConfigured();
 
     const supabase = createClient(
       Deno.env.get("SUPABASE_URL") ?? "",
@@ -999,6 +999,8 @@ serve(async (req) => {
       `Starting Notion sync, maxPages=${maxPages}, forceReembed=${forceReembed}`,
     );
 
+    const exclusions = await loadExclusions(supabase);
+
     // Step 1: List all pages from Notion
     const pages = await searchAllPages(notionToken, maxPages);
     stats.pagesSeen = pages.length;
@@ -1007,6 +1009,15 @@ serve(async (req) => {
     // Step 2: Process each page
     for (const page of pages) {
       try {
+        // Excluded pages are never marked seen, so step 3 deletes any stored copy
+        if (
+          exclusions.matchNotionPage(page.id) ||
+          exclusions.matchNotionDatabase(page.parent.database_id)
+        ) {
+          stats.pagesExcluded++;
+          continue;
+        }
+
         const normalizedId = page.id.replace(/-/g, "");
         const sourcePath =
           page.parent.type === "database_id"
@@ -1072,8 +1083,11 @@ serve(async (req) => {
           continue;
         }
 
+        // Classify (and in redact mode, redact) the page before chunking
+        const pii = scanForPII(fullContent, { sourceType: "notion" });
+
         // Chunk the content
-        const chunks = chunkText(fullContent, MAX_CHUNK_SIZE, CHUNK_OVERLAP);
+        const chunks = chunkText(pii.content, MAX_CHUNK_SIZE, CHUNK_OVERLAP);
         stats.chunksCreated += chunks.length;
 
         // Upsert document chunks with embeddings
@@ -1082,7 +1096,7 @@ serve(async (req) => {
           page,
           chunks,
           sourcePath,
-          openaiKey,
+          pii,
         );
         stats.docsUpserted += upserted;
 
@@ -1151,7 +1165,7 @@ serve(async (req) => {
     await updateSyncState(supabase, stats);
 
     console.log(
-      `Sync completed in ${stats.durationMs}ms: ${stats.pagesSeen} seen, ${stats.pagesChanged} changed, ${stats.pagesDeleted} deleted, ${stats.docsUpserted} docs upserted, ${stats.failedPages} failed`,
+      `Sync completed in ${stats.durationMs}ms: ${stats.pagesSeen} seen, ${stats.pagesChanged} changed, ${stats.pagesDeleted} deleted, ${stats.pagesExcluded} excluded, ${stats.docsUpserted} docs upserted, ${stats.failedPages} failed`,
     );
 
     return new Response(
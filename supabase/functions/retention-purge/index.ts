@@ -0,0 +1,101 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.3';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-cron-secret',
+};
+
+interface PurgeResult {
+  run_id: string;
+  rule_name: string;
+  table_name: string;
+  cutoff: string;
+  row_count: number;
+  oldest_at: string | null;
+  newest_at: string | null;
+  dry_run: boolean;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const startTime = Date.now();
+
+  try {
+    // Verify cron secret
+    const cronSecret = Deno.env.get('CRON_SECRET');
+    const requestSecret = req.headers.get('x-cron-secret');
+    if (cronSecret && requestSecret !== cronSecret) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Parse input; an unparseable body is treated as a dry run, never as a purge
+    let dryRun = true;
+
+    try {
+      const body = await req.json();
+      dryRun = body.dry_run !== false;
+    } catch {
+      // Use defaults
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Rules, deletion and the purge log live in the database function
+    const { data, error } = await supabase
+      .schema('volterra_kb')
+      .rpc('apply_retention_rules', { p_dry_run: dryRun });
+
+    if (error) {
+      throw new Error(`Retention purge failed: ${error.message}`);
+    }
+
+    const results = (data ?? []) as PurgeResult[];
+    const totalRows = results.reduce((sum, r) => sum + r.row_count, 0);
+    const elapsed = Date.now() - startTime;
+
+    console.log(
+      `Retention ${dryRun ? 'dry run' : 'purge'} complete: ${totalRows} rows across ${results.length} rules in ${elapsed}ms`
+    );
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        runId: results[0]?.run_id ?? null,
+        dryRun,
+        totalRows,
+        rules: results.map((r) => ({
+          rule: r.rule_name,
+          table: r.table_name,
+          cutoff: r.cutoff,
+          rows: r.row_count,
+          oldestAt: r.oldest_at,
+          newestAt: r.newest_at,
+        })),
+        elapsedMs: elapsed,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.error('Retention purge error:', err.message);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: err.message,
+      }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
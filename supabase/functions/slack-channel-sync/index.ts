@@ -1,5 +1,12 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.3";
+import {
+  assertEmbeddingConfigured,
+  embedText,
+  getEmbeddingSettings,
+} from "../_shared/embedding-provider.ts";
+import { recordPIIScan, scanForPII } from "../_shared/pii.ts";
+import { loadExclusions } from "../_shared/exclusions.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -131,7 +138,6 @@ const SKIP_SUBTYPES = new Set([
   "file_comment",
 ]);
 
-const EMBEDDING_MODEL = "text-embedding-3-small";
 const EMBEDDING_DIMENSIONS = 1536;
 const MAX_CHUNK_SIZE = 3000;
 const CHUNK_OVERLAP = 150;
@@ -579,10 +585,7 @@ function chunkText(
 // EMBEDDINGS
 // ============================================================================
 
-async function generateEmbedding(
-  text: string,
-  openaiKey: string,
-): Promise<number[]> {
+async function generateEmbedding(text: string): Promise<number[]> {
   // Clean and truncate text
   const cleaned = text
     .replace(/\n+/g, " ")
@@ -590,32 +593,41 @@ async function generateEmbedding(
     .trim()
     .slice(0, 10000); // Conservative limit for token safety
 
-  const response = await fetch("https://api.openai.com/v1/embeddings", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${openaiKey}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      model: EMBEDDING_MODEL,
-      input: cleaned,
-      encoding_format: "float",
-    }),
-  });
-
-  if (!response.ok) {
-    const errText = await response.text();
-    throw new Error(`OpenAI embedding error: ${response.status} - ${errText}`);
-  }
-
-  const data = await response.json();
-  return data.data[0].embedding;
+  return await embedText(cleaned);
 }
 
 // ============================================================================
 // DATABASE OPERATIONS
 // ============================================================================
 
+// Message tables have no sensitivity column; PII is only redacted (PII_REDACTION_MODE=redact)
+function redactForStorage(text: string): string {
+  return scanForPII(text, { sourceType: "slack" }).content;
+}
+
+function redactNullable(text: string | null | undefined): string | null {
+  return text ? redactForStorage(text) : null;
+}
+
+// Timestamps and IDs (ts, thread_ts, user, team, client_msg_id, ...) can pass
+// a checksum by chance and must stay intact
+const RAW_IDENTIFIER_KEY = /(?:^|_)(?:ts|id|user|team)$/;
+
+// Every other string in a raw Slack payload (text, blocks, attachments, profiles)
+function redactRaw<T>(value: T): T {
+  if (typeof value === "string") return redactForStorage(value) as T;
+  if (Array.isArray(value)) return value.map(redactRaw) as T;
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [
+        key,
+        RAW_IDENTIFIER_KEY.test(key) ? v : redactRaw(v),
+      ]),
+    ) as T;
+  }
+  return value;
+}
+
 async function upsertThread(
   supabase: any,
   channelId: string,
@@ -630,14 +642,14 @@ async function upsertThread(
     root_user_id: rootMsg.user || null,
     root_bot_id: rootMsg.bot_id || null,
     root_subtype: rootMsg.subtype || null,
-    root_text: extractMessageText(rootMsg).slice(0, 10000),
+    root_text: redactForStorage(extractMessageText(rootMsg).slice(0, 10000)),
     root_message_at: tsToIso(rootMsg.ts),
     reply_count: thread.replyCount,
     latest_reply_ts: thread.latestReplyTs,
     message_count: thread.messages.length,
     participant_user_ids: Array.from(thread.participants),
     participant_count: thread.participants.size,
-    root_raw: rootMsg,
+    root_raw: redactRaw(rootMsg),
     last_checked_at: new Date().toISOString(),
     last_synced_at: new Date().toISOString(),
   };
@@ -690,20 +702,25 @@ async function upsertMessages(
         user_id: userId,
         bot_id: msg.bot_id || null,
         subtype: msg.subtype || null,
-        text: extractMessageText(msg).slice(0, 50000),
+        text: redactForStorage(extractMessageText(msg).slice(0, 50000)),
         message_at: tsToIso(msg.ts),
         // Prefer cache, fall back to msg.user_profile (rare), then null
-        user_display_name:
-          cachedUser?.display_name || msg.user_profile?.display_name || null,
-        user_real_name:
-          cachedUser?.real_name || msg.user_profile?.real_name || null,
+        user_display_name: redactNullable(
+          cachedUser?.display_name || msg.user_profile?.display_name,
+        ),
+        user_real_name: redactNullable(
+          cachedUser?.real_name || msg.user_profile?.real_name,
+        ),
         has_files: (msg.files?.length || 0) > 0,
         file_count: msg.files?.length || 0,
-        raw: msg,
+        raw: redactRaw(msg),
         // NEW FIELDS: Extended Slack data capture
-        user_first_name:
-          cachedUser?.first_name || msg.user_profile?.first_name || null,
-        username: cachedUser?.username || msg.user_profile?.name || null,
+        user_first_name: redactNullable(
+          cachedUser?.first_name || msg.user_profile?.first_name,
+        ),
+        username: redactNullable(
+          cachedUser?.username || msg.user_profile?.name,
+        ),
         team_id: msg.team || null,
         edited_at: editedAt,
         edited_by: msg.edited?.user || null,
@@ -735,12 +752,13 @@ async function upsertDocumentChunks(
   thread: ThreadData,
   channelId: string,
   channelName: string,
-  openaiKey: string,
 ): Promise<{ upserted: number; oldChunkCount: number }> {
   const markdown = renderThreadAsMarkdown(thread, channelId, channelName);
   if (!markdown.trim()) return { upserted: 0, oldChunkCount: 0 };
 
-  const chunks = chunkText(markdown, MAX_CHUNK_SIZE, CHUNK_OVERLAP);
+  // Classify (and in redact mode, redact) the whole thread before chunking
+  const pii = scanForPII(markdown, { sourceType: "slack" });
+  const chunks = chunkText(pii.content, MAX_CHUNK_SIZE, CHUNK_OVERLAP);
   const basePath = `slack://${channelId}/${thread.threadTs}`;
   const insertedIds: string[] = [];
 
@@ -757,7 +775,7 @@ async function upsertDocumentChunks(
 
   for (const chunk of chunks) {
     try {
-      const embedding = await generateEmbedding(chunk.content, openaiKey);
+      const embedding = await generateEmbedding(chunk.content);
       const sourcePath =
         chunks.length > 1 ? `${basePath}#chunk${chunk.index}` : basePath;
 
@@ -765,15 +783,16 @@ async function upsertDocumentChunks(
       const docRecord = {
         content: chunk.content,
         embedding,
+        embedding_model: getEmbeddingSettings().model,
         department: "platform",
         document_type: "slack-thread",
         title:
           chunks.length > 1
             ? `[#${channelName}] Thread ${thread.threadTs} (Part ${chunk.index}/${chunks.length})`
             : `[#${channelName}] Thread ${thread.threadTs}`,
-        access_level: "internal",
+        access_level: pii.accessLevel,
         tags: ["slack", channelName, "help-me-platform"],
-        sensitivity: "None",
+        sensitivity: pii.sensitivity,
         source_type: "slack",
         source_path: sourcePath,
       };
@@ -836,6 +855,15 @@ async function upsertDocumentChunks(
     }
   }
 
+  if (insertedIds.length > 0) {
+    await recordPIIScan(supabase, pii, {
+      title: `[#${channelName}] Thread ${thread.threadTs}`,
+      sourceType: "slack",
+      sourcePath: basePath,
+      documentIds: insertedIds,
+    });
+  }
+
   // Update thread with new chunk count
   await supabase
     .schema("volterra_kb")
@@ -1001,6 +1029,25 @@ serve(async (req) => {
 
     const channelName = stateRow?.channel_name || "help-me-platform";
 
+    // Do-not-ingest rules: skip excluded channels, and excluded users' messages
+    const exclusions = await loadExclusions(supabase);
+    if (exclusions.matchSlackChannel(channelId)) {
+      console.log(
+        `Channel ${channelId} (${channelName}) is excluded from ingestion, skipping`,
+      );
+      return new Response(
+        JSON.stringify({
+          success: true,
+          channelId,
+          channelName,
+          skipped: "excluded",
+        }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+    const isExcludedUser = (msg: SlackMessage) =>
+      !!exclusions.matchSlackUser(msg.user);
+
     // Build user cache for display names (conversations.history doesn't include user_profile)
     const userCache = await buildUserCache(slackToken);
 
@@ -1041,9 +1088,8 @@ serve(async (req) => {
       recheckThreads = 0;
     }
 
-    const openaiKey = generateDocs ? Deno.env.get("OPENAI_API_KEY") : null;
-    if (generateDocs && !openaiKey) {
-      throw new Error("OPENAI_API_KEY not configured");
+    if (generateDocs) {
+      assertEmbeddingConfigured();
     }
 
     console.log(
@@ -1051,13 +1097,15 @@ serve(async (req) => {
     );
 
     // Step 1: Fetch a bounded window of channel history (paged, capped)
-    const channelMessages = await fetchChannelHistory(slackToken, channelId, {
-      oldest: historyOldest,
-      latest: historyLatest,
-      inclusive: historyInclusive,
-      pageLimit: historyPageLimit,
-      maxPages: maxHistoryPages,
-    });
+    const channelMessages = (
+      await fetchChannelHistory(slackToken, channelId, {
+        oldest: historyOldest,
+        latest: historyLatest,
+        inclusive: historyInclusive,
+        pageLimit: historyPageLimit,
+        maxPages: maxHistoryPages,
+      })
+    ).filter((msg) => !isExcludedUser(msg));
     console.log(
       `Fetched ${channelMessages.length} messages from channel history window`,
     );
@@ -1121,10 +1169,18 @@ serve(async (req) => {
           continue;
         }
 
+        // Threads started by an excluded user are not stored at all
+        const threadRoot = threadMessages.find((m) => m.ts === threadTs);
+        if (threadRoot && isExcludedUser(threadRoot)) {
+          continue;
+        }
+
         // Build thread data from fetched messages
         const thread: ThreadData = {
           threadTs,
-          messages: threadMessages.filter((m) => !shouldSkipMessage(m)),
+          messages: threadMessages.filter(
+            (m) => !shouldSkipMessage(m) && !isExcludedUser(m),
+          ),
           participants: new Set(),
           replyCount: 0,
           latestReplyTs: null,
@@ -1163,7 +1219,6 @@ serve(async (req) => {
             thread,
             channelId,
             channelName,
-            openaiKey,
           );
           docsUpserted += docResult.upserted;
         }
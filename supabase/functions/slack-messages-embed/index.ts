@@ -1,12 +1,12 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.3';
+import { assertEmbeddingConfigured, embedText, getEmbeddingSettings } from '../_shared/embedding-provider.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-cron-secret',
 };
 
-const EMBEDDING_MODEL = 'text-embedding-3-small';
 const BATCH_SIZE = 50;
 
 interface SlackMessage {
@@ -16,10 +16,7 @@ interface SlackMessage {
   message_ts: string;
 }
 
-async function generateEmbedding(
-  text: string,
-  openaiKey: string
-): Promise<number[]> {
+async function generateEmbedding(text: string): Promise<number[]> {
   const cleaned = text
     .replace(/\n+/g, ' ')
     .replace(/\s+/g, ' ')
@@ -30,26 +27,7 @@ async function generateEmbedding(
     throw new Error('Text too short for embedding');
   }
 
-  const response = await fetch('https://api.openai.com/v1/embeddings', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${openaiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: EMBEDDING_MODEL,
-      input: cleaned,
-      encoding_format: 'float',
-    }),
-  });
-
-  if (!response.ok) {
-    const errText = await response.text();
-    throw new Error(`OpenAI embedding error: ${response.status} - ${errText}`);
-  }
-
-  const data = await response.json();
-  return data.data[0].embedding;
+  return await embedText(cleaned);
 }
 
 serve(async (req) => {
@@ -85,10 +63,7 @@ serve(async (req) => {
       // Use defaults
     }
 
-    const openaiKey = Deno.env.get('OPENAI_API_KEY');
-    if (!openaiKey) {
-      throw new Error('OPENAI_API_KEY not configured');
-    }
+    assertEmbeddingConfigured();
 
     const supabase = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
@@ -139,11 +114,11 @@ serve(async (req) => {
           continue;
         }
 
-        const embedding = await generateEmbedding(msg.text, openaiKey);
+        const embedding = await generateEmbedding(msg.text);
 
         const { error: updateError } = await supabase
           .schema('volterra_kb').from('slack_messages')
-          .update({ embedding })
+          .update({ embedding, embedding_model: getEmbeddingSettings().model })
           .eq('id', msg.id);
 
         if (updateError) {
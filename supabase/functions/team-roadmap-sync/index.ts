@@ -18,6 +18,9 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { Client } from "https://esm.sh/@notionhq/client@5.6.0";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import { embedText, getEmbeddingSettings } from "../_shared/embedding-provider.ts";
+import { recordPIIScan, scanForPII } from "../_shared/pii.ts";
+import { loadExclusions } from "../_shared/exclusions.ts";
 
 const DATA_SOURCE_ID = "YOUR_NOTION_DB_ID";
 const DATABASE_ID = "c9ea0b87-7c7e-4996-8c99-4419ac08a270";
@@ -55,6 +58,20 @@ serve(async (req) => {
       { db: { schema: "volterra_kb" } },
     );
 
+    const exclusions = await loadExclusions(supabase);
+    const excludedDb =
+      exclusions.matchNotionDatabase(DATABASE_ID) ??
+      exclusions.matchNotionDatabase(DATA_SOURCE_ID);
+    if (excludedDb) {
+      console.log("Database is excluded from ingestion, skipping sync");
+      result.success = true;
+      result.duration = Date.now() - startTime;
+      return new Response(JSON.stringify(result), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
     console.log("Starting Team Platform Roadmap sync...");
 
     // Query all pages from the database
@@ -88,6 +105,11 @@ serve(async (req) => {
 
       try {
         const pageId = page.id;
+        if (exclusions.matchNotionPage(pageId)) {
+          result.pagesSkipped++;
+          continue;
+        }
+
         const title = extractPageTitle(page);
         const normalizedPageId = pageId.replace(/-/g, "");
         const normalizedDbId = DATA_SOURCE_ID.replace(/-/g, "");
@@ -108,29 +130,41 @@ serve(async (req) => {
         // Download page content
         const content = await downloadPageContent(notion, pageId);
         const fullContent = `# ${title}\n\n${content}`;
+        const pii = scanForPII(fullContent, { sourceType: "notion" });
 
         // Generate embedding
-        const embedding = await generateEmbedding(fullContent);
+        const embedding = await generateEmbedding(pii.content);
 
         // Insert to database
-        const { error: insertError } = await supabase.from("documents").insert({
-          content: fullContent,
-          embedding: `[${embedding.join(",")}]`,
-          department: "Platform",
-          document_type: "Documentation",
-          title,
-          access_level: "internal",
-          tags: ["notion", "platform-roadmap"],
-          sensitivity: "None",
-          source_type: "notion",
-          source_path: sourcePath,
-        });
+        const { data: inserted, error: insertError } = await supabase
+          .from("documents")
+          .insert({
+            content: pii.content,
+            embedding: `[${embedding.join(",")}]`,
+            embedding_model: getEmbeddingSettings().model,
+            department: "Platform",
+            document_type: "Documentation",
+            title,
+            access_level: pii.accessLevel,
+            tags: ["notion", "platform-roadmap"],
+            sensitivity: pii.sensitivity,
+            source_type: "notion",
+            source_path: sourcePath,
+          })
+          .select("id")
+          .single();
 
         if (insertError) {
           result.pagesFailed++;
           result.errors.push(`${title}: ${insertError.message}`);
         } else {
           result.pagesSuccess++;
+          await recordPIIScan(supabase, pii, {
+            title,
+            sourceType: "notion",
+            sourcePath,
+            documentIds: [inserted.id],
+          });
         }
       } catch (error) {
         result.pagesFailed++;
@@ -228,24 +262,5 @@ function blockToText(block: any): string {
 }
 
 async function generateEmbedding(text: string): Promise<number[]> {
-  const apiKey = Deno.env.get("OPENAI_API_KEY");
-
-  const response = await fetch("https://api.openai.com/v1/embeddings", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      model: "text-embedding-3-small",
-      input: text.substring(0, 8000), // Limit to ~8K chars
-    }),
-  });
-
-  if (!response.ok) {
-    throw new Error(`OpenAI API error: ${response.statusText}`);
-  }
-
-  const data = await response.json();
-  return data.data[0].embedding;
+  return await embedText(text.substring(0, 8000)); // Limit to ~8K chars
 }
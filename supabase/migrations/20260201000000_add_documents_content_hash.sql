@@ -0,0 +1,113 @@
+-- Migration: add_documents_content_hash
+-- Created: 2026-02-01
+-- Purpose: Content-hash change detection for the Node ingestion pipeline
+--
+-- Adds a per-source content hash to volterra_kb.documents so that edited
+-- SharePoint/HubSpot/local files can be re-ingested when (and only when)
+-- their bytes change. All chunks of one source document share the same hash.
+--
+-- Functions:
+--   - get_source_document_state: stored hash + chunk count for a source_path
+--   - replace_source_documents: atomically swap the chunk set of a source_path
+SET
+  search_path TO volterra_kb,
+  public,
+  extensions;
+
+-- ============================================================================
+-- CONTENT HASH COLUMN
+-- ============================================================================
+ALTER TABLE volterra_kb.documents
+ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_documents_content_hash ON volterra_kb.documents (content_hash)
+WHERE
+  content_hash IS NOT NULL;
+
+COMMENT ON COLUMN volterra_kb.documents.content_hash IS 'SHA-256 of the source file bytes, shared by all chunks of a source document. Used for change detection.';
+
+-- ============================================================================
+-- GET SOURCE DOCUMENT STATE
+-- ============================================================================
+-- Returns the stored hash and number of rows for a base source_path,
+-- covering both the non-chunked row and its #chunkN rows.
+CREATE OR REPLACE FUNCTION volterra_kb.get_source_document_state (p_source_path TEXT) RETURNS TABLE (content_hash TEXT, chunk_count INTEGER) LANGUAGE sql STABLE
+SET
+  search_path = volterra_kb,
+  public AS $$
+  SELECT
+    MAX(d.content_hash) AS content_hash,
+    COUNT(*)::INTEGER AS chunk_count
+  FROM volterra_kb.documents d
+  WHERE d.source_path = p_source_path
+     OR starts_with(d.source_path, p_source_path || '#chunk')
+  HAVING COUNT(*) > 0;
+$$;
+
+COMMENT ON FUNCTION volterra_kb.get_source_document_state IS 'Stored content hash and row count for a base source_path (including #chunkN rows)';
+
+GRANT
+EXECUTE ON FUNCTION volterra_kb.get_source_document_state TO service_role;
+
+-- ============================================================================
+-- REPLACE SOURCE DOCUMENTS
+-- ============================================================================
+-- Deletes every row for the base source_path (plain and #chunkN) and inserts
+-- the new set in a single transaction, so readers never observe a mix of old
+-- and new chunks and orphaned chunks are removed when the count shrinks.
+-- p_documents is a JSON array of rows; embedding is a pgvector literal string.
+CREATE OR REPLACE FUNCTION volterra_kb.replace_source_documents (p_source_path TEXT, p_documents JSONB) RETURNS TABLE (id UUID) LANGUAGE plpgsql
+SET
+  search_path = volterra_kb,
+  public,
+  extensions AS $$
+BEGIN
+  DELETE FROM volterra_kb.documents d
+  WHERE d.source_path = p_source_path
+     OR starts_with(d.source_path, p_source_path || '#chunk');
+
+  RETURN QUERY
+  INSERT INTO volterra_kb.documents (
+    content,
+    embedding,
+    department,
+    document_type,
+    title,
+    owner,
+    access_level,
+    tags,
+    sensitivity,
+    language,
+    source_type,
+    source_path,
+    content_hash
+  )
+  SELECT
+    e.doc ->> 'content',
+    (e.doc ->> 'embedding')::extensions.vector(1536),
+    e.doc ->> 'department',
+    e.doc ->> 'document_type',
+    e.doc ->> 'title',
+    e.doc ->> 'owner',
+    e.doc ->> 'access_level',
+    CASE
+      WHEN jsonb_typeof(e.doc -> 'tags') = 'array' THEN ARRAY(
+        SELECT
+          jsonb_array_elements_text(e.doc -> 'tags')
+      )
+    END,
+    e.doc ->> 'sensitivity',
+    e.doc ->> 'language',
+    e.doc ->> 'source_type',
+    e.doc ->> 'source_path',
+    e.doc ->> 'content_hash'
+  FROM jsonb_array_elements(p_documents) WITH ORDINALITY AS e (doc, ord)
+  ORDER BY e.ord
+  RETURNING documents.id;
+END;
+$$;
+
+COMMENT ON FUNCTION volterra_kb.replace_source_documents IS 'Atomically replace all rows (plain and #chunkN) for a base source_path';
+
+GRANT
+EXECUTE ON FUNCTION volterra_kb.replace_source_documents TO service_role;
@@ -0,0 +1,436 @@
+-- Migration: add_embedding_model_migration
+-- Created: 2026-02-02
+-- Purpose: Safe switching of the embedding model across all vector tables
+--
+-- Changing config.embedding.model used to silently mix incompatible vectors.
+-- This migration records the model/dimension of every stored vector and adds
+-- a shadow column that a re-embed job (npm run embeddings:migrate) fills in
+-- resumable batches. Once every table is fully covered, flip_embedding_migration
+-- swaps the shadow vectors into the live column in one transaction, so the
+-- match_* / mcp_match_* RPCs serve the new model without code changes.
+--
+-- Tables:
+--   - embedding_migrations: one row per model switch (status, target model)
+--   - embedding_migration_progress: per-table cursor and counters
+--
+-- Columns (on every vector table):
+--   - embedding_model / embedding_dimensions: model that produced embedding
+--   - embedding_next / embedding_next_model: shadow vector during a migration
+--
+-- Functions:
+--   - active_embedding_model: model the live vectors are produced with
+--   - get_embedding_migration_coverage: per-table shadow coverage
+--   - set_shadow_embeddings: batch write of shadow vectors
+--   - flip_embedding_migration: swap shadow vectors in at 100% coverage
+SET
+  search_path TO volterra_kb,
+  public,
+  extensions;
+
+-- ============================================================================
+-- MIGRATION STATE TABLES
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS volterra_kb.embedding_migrations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source_model TEXT NOT NULL,
+  target_model TEXT NOT NULL,
+  target_dimensions INTEGER NOT NULL CHECK (
+    target_dimensions > 0
+    AND target_dimensions <= 2000
+  ),
+  tables TEXT[] NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (
+    status IN ('running', 'completed', 'flipped', 'cancelled')
+  ),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  flipped_at TIMESTAMPTZ
+);
+
+-- Only one migration may be in flight at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_embedding_migrations_single_active ON volterra_kb.embedding_migrations ((TRUE))
+WHERE
+  status IN ('running', 'completed');
+
+CREATE TABLE IF NOT EXISTS volterra_kb.embedding_migration_progress (
+  migration_id UUID NOT NULL REFERENCES volterra_kb.embedding_migrations (id) ON DELETE CASCADE,
+  table_name TEXT NOT NULL,
+  -- Last row id handled in the current pass (rows are walked in id order)
+  cursor_id UUID,
+  processed_rows BIGINT NOT NULL DEFAULT 0,
+  failed_rows BIGINT NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (migration_id, table_name)
+);
+
+ALTER TABLE volterra_kb.embedding_migrations ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE volterra_kb.embedding_migration_progress ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE volterra_kb.embedding_migrations IS 'Embedding model switches. running -> completed (100% shadow coverage) -> flipped.';
+
+COMMENT ON TABLE volterra_kb.embedding_migration_progress IS 'Resumable per-table progress of the re-embed job for an embedding migration';
+
+-- ============================================================================
+-- ACTIVE MODEL
+-- ============================================================================
+-- The model of the most recently flipped migration, or the original model.
+CREATE OR REPLACE FUNCTION volterra_kb.active_embedding_model () RETURNS TEXT LANGUAGE sql STABLE
+SET
+  search_path = volterra_kb,
+  public AS $$
+  SELECT COALESCE(
+    (
+      SELECT m.target_model
+      FROM volterra_kb.embedding_migrations m
+      WHERE m.status = 'flipped'
+      ORDER BY m.flipped_at DESC
+      LIMIT 1
+    ),
+    'text-embedding-3-small'
+  );
+$$;
+
+COMMENT ON FUNCTION volterra_kb.active_embedding_model IS 'Embedding model the live embedding columns are produced with';
+
+GRANT
+EXECUTE ON FUNCTION volterra_kb.active_embedding_model TO service_role;
+
+-- ============================================================================
+-- PER-ROW MODEL METADATA + SHADOW COLUMN
+-- ============================================================================
+-- Stamps embedding_model/embedding_dimensions whenever embedding is written,
+-- so existing writers (Node scripts, edge functions) need no changes. A row
+-- whose live vector changes loses its shadow vector and is re-embedded again.
+CREATE OR REPLACE FUNCTION volterra_kb.set_embedding_model_metadata () RETURNS TRIGGER LANGUAGE plpgsql
+SET
+  search_path = volterra_kb,
+  public,
+  extensions AS $$
+BEGIN
+  IF NEW.embedding IS NULL THEN
+    NEW.embedding_model := NULL;
+    NEW.embedding_dimensions := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.embedding_model := COALESCE(NEW.embedding_model, volterra_kb.active_embedding_model());
+  ELSIF NEW.embedding IS DISTINCT FROM OLD.embedding THEN
+    IF NEW.embedding_model IS NOT DISTINCT FROM OLD.embedding_model THEN
+      NEW.embedding_model := volterra_kb.active_embedding_model();
+    END IF;
+    IF NEW.embedding_next_model IS NOT DISTINCT FROM OLD.embedding_next_model THEN
+      NEW.embedding_next := NULL;
+      NEW.embedding_next_model := NULL;
+    END IF;
+  END IF;
+
+  NEW.embedding_dimensions := vector_dims(NEW.embedding);
+  RETURN NEW;
+END;
+$$;
+
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY[
+    'documents',
+    'training_conversations',
+    'slack_messages',
+    'wod_deals',
+    'wod_project_document_chunks'
+  ] LOOP
+    EXECUTE format(
+      'ALTER TABLE volterra_kb.%I
+         ADD COLUMN IF NOT EXISTS embedding_model TEXT,
+         ADD COLUMN IF NOT EXISTS embedding_dimensions INTEGER,
+         ADD COLUMN IF NOT EXISTS embedding_next extensions.vector,
+         ADD COLUMN IF NOT EXISTS embedding_next_model TEXT',
+      t
+    );
+
+    -- Everything stored so far was produced by text-embedding-3-small
+    EXECUTE format(
+      'UPDATE volterra_kb.%I
+         SET embedding_model = ''text-embedding-3-small'',
+             embedding_dimensions = vector_dims(embedding)
+       WHERE embedding IS NOT NULL AND embedding_model IS NULL',
+      t
+    );
+
+    EXECUTE format('DROP TRIGGER IF EXISTS set_embedding_model_metadata ON volterra_kb.%I', t);
+    EXECUTE format(
+      'CREATE TRIGGER set_embedding_model_metadata
+         BEFORE INSERT OR UPDATE OF embedding ON volterra_kb.%I
+         FOR EACH ROW EXECUTE FUNCTION volterra_kb.set_embedding_model_metadata()',
+      t
+    );
+
+    EXECUTE format(
+      'COMMENT ON COLUMN volterra_kb.%I.embedding_next IS %L',
+      t,
+      'Shadow vector written by an in-flight embedding migration; swapped into embedding on flip'
+    );
+  END LOOP;
+END;
+$$;
+
+-- ============================================================================
+-- COVERAGE
+-- ============================================================================
+-- A row counts as migrated when its shadow vector was produced by the target
+-- model. Rows without a live embedding are not part of the migration.
+CREATE OR REPLACE FUNCTION volterra_kb.get_embedding_migration_coverage (p_migration_id UUID) RETURNS TABLE (
+  table_name TEXT,
+  total_rows BIGINT,
+  migrated_rows BIGINT
+) LANGUAGE plpgsql STABLE
+SET
+  search_path = volterra_kb,
+  public,
+  extensions AS $$
+DECLARE
+  v_migration volterra_kb.embedding_migrations%ROWTYPE;
+  t TEXT;
+BEGIN
+  SELECT * INTO v_migration
+  FROM volterra_kb.embedding_migrations m
+  WHERE m.id = p_migration_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Embedding migration % not found', p_migration_id;
+  END IF;
+
+  FOREACH t IN ARRAY v_migration.tables LOOP
+    table_name := t;
+    EXECUTE format(
+      'SELECT COUNT(*), COUNT(*) FILTER (WHERE embedding_next_model = $1 AND embedding_next IS NOT NULL)
+       FROM volterra_kb.%I
+       WHERE embedding IS NOT NULL',
+      t
+    )
+    INTO total_rows, migrated_rows
+    USING v_migration.target_model;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+COMMENT ON FUNCTION volterra_kb.get_embedding_migration_coverage IS 'Per-table count of rows with a live embedding vs rows with a shadow vector from the target model';
+
+GRANT
+EXECUTE ON FUNCTION volterra_kb.get_embedding_migration_coverage TO service_role;
+
+-- ============================================================================
+-- SET SHADOW EMBEDDINGS
+-- ============================================================================
+-- p_rows is a JSON array of {id, embedding} where embedding is a pgvector
+-- literal string. Returns the number of rows updated.
+CREATE OR REPLACE FUNCTION volterra_kb.set_shadow_embeddings (
+  p_migration_id UUID,
+  p_table_name TEXT,
+  p_rows JSONB
+) RETURNS INTEGER LANGUAGE plpgsql
+SET
+  search_path = volterra_kb,
+  public,
+  extensions AS $$
+DECLARE
+  v_migration volterra_kb.embedding_migrations%ROWTYPE;
+  v_updated INTEGER;
+BEGIN
+  SELECT * INTO v_migration
+  FROM volterra_kb.embedding_migrations m
+  WHERE m.id = p_migration_id;
+
+  IF NOT FOUND OR v_migration.status NOT IN ('running', 'completed') THEN
+    RAISE EXCEPTION 'Embedding migration % is not active', p_migration_id;
+  END IF;
+
+  IF NOT (p_table_name = ANY (v_migration.tables)) THEN
+    RAISE EXCEPTION 'Table % is not part of embedding migration %', p_table_name, p_migration_id;
+  END IF;
+
+  EXECUTE format(
+    'UPDATE volterra_kb.%I t
+       SET embedding_next = (r.doc ->> ''embedding'')::extensions.vector,
+           embedding_next_model = $1
+     FROM jsonb_array_elements($2) AS r (doc)
+     WHERE t.id = (r.doc ->> ''id'')::UUID
+       AND vector_dims((r.doc ->> ''embedding'')::extensions.vector) = $3',
+    p_table_name
+  )
+  USING v_migration.target_model, p_rows, v_migration.target_dimensions;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  UPDATE volterra_kb.embedding_migrations m
+  SET updated_at = NOW()
+  WHERE m.id = p_migration_id;
+
+  RETURN v_updated;
+END;
+$$;
+
+COMMENT ON FUNCTION volterra_kb.set_shadow_embeddings IS 'Write a batch of shadow vectors for an active embedding migration';
+
+GRANT
+EXECUTE ON FUNCTION volterra_kb.set_shadow_embeddings TO service_role;
+
+-- ============================================================================
+-- FLIP
+-- ============================================================================
+-- Refuses unless every table is at 100% coverage. Swaps embedding_next into
+-- embedding (changing the column dimension if needed; vector indexes are
+-- rebuilt by ALTER TABLE) and marks the migration flipped, all in one
+-- transaction. match_* RPCs read the live column, so they switch atomically.
+CREATE OR REPLACE FUNCTION volterra_kb.flip_embedding_migration (p_migration_id UUID) RETURNS TABLE (table_name TEXT, flipped_rows BIGINT) LANGUAGE plpgsql
+SET
+  search_path = volterra_kb,
+  public,
+  extensions AS $$
+DECLARE
+  v_migration volterra_kb.embedding_migrations%ROWTYPE;
+  v_current_dims INTEGER;
+  v_incomplete TEXT;
+  v_rows BIGINT;
+  t TEXT;
+BEGIN
+  SELECT * INTO v_migration
+  FROM volterra_kb.embedding_migrations m
+  WHERE m.id = p_migration_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_migration.status NOT IN ('running', 'completed') THEN
+    RAISE EXCEPTION 'Embedding migration % is not active', p_migration_id;
+  END IF;
+
+  SELECT string_agg(c.table_name || ' (' || c.migrated_rows || '/' || c.total_rows || ')', ', ')
+  INTO v_incomplete
+  FROM volterra_kb.get_embedding_migration_coverage(p_migration_id) c
+  WHERE c.migrated_rows < c.total_rows;
+
+  IF v_incomplete IS NOT NULL THEN
+    RAISE EXCEPTION 'Embedding migration % is not fully covered: %', p_migration_id, v_incomplete;
+  END IF;
+
+  FOREACH t IN ARRAY v_migration.tables LOOP
+    EXECUTE format('LOCK TABLE volterra_kb.%I IN SHARE ROW EXCLUSIVE MODE', t);
+
+    SELECT a.atttypmod INTO v_current_dims
+    FROM pg_attribute a
+    WHERE a.attrelid = format('volterra_kb.%I', t)::regclass
+      AND a.attname = 'embedding';
+
+    IF v_current_dims IS DISTINCT FROM v_migration.target_dimensions THEN
+      EXECUTE format(
+        'ALTER TABLE volterra_kb.%I
+           ALTER COLUMN embedding TYPE extensions.vector(%s)
+           USING CASE WHEN embedding IS NULL THEN NULL ELSE embedding_next END',
+        t,
+        v_migration.target_dimensions
+      );
+      EXECUTE format(
+        'UPDATE volterra_kb.%I
+           SET embedding_model = $1,
+               embedding_dimensions = $2,
+               embedding_next = NULL,
+               embedding_next_model = NULL
+         WHERE embedding IS NOT NULL',
+        t
+      )
+      USING v_migration.target_model, v_migration.target_dimensions;
+      GET DIAGNOSTICS v_rows = ROW_COUNT;
+    ELSE
+      EXECUTE format(
+        'UPDATE volterra_kb.%I
+           SET embedding = embedding_next,
+               embedding_model = $1,
+               embedding_next = NULL,
+               embedding_next_model = NULL
+         WHERE embedding IS NOT NULL',
+        t
+      )
+      USING v_migration.target_model;
+      GET DIAGNOSTICS v_rows = ROW_COUNT;
+    END IF;
+
+    table_name := t;
+    flipped_rows := v_rows;
+    RETURN NEXT;
+  END LOOP;
+
+  UPDATE volterra_kb.embedding_migrations m
+  SET status = 'flipped',
+      flipped_at = NOW(),
+      updated_at = NOW()
+  WHERE m.id = p_migration_id;
+END;
+$$;
+
+COMMENT ON FUNCTION volterra_kb.flip_embedding_migration IS 'Swap shadow vectors into the live embedding columns once coverage is 100%';
+
+GRANT
+EXECUTE ON FUNCTION volterra_kb.flip_embedding_migration TO service_role;
+
+-- ============================================================================
+-- REPLACE SOURCE DOCUMENTS (dimension-agnostic)
+-- ============================================================================
+-- Re-created without the fixed vector(1536) cast so ingestion keeps working
+-- after a flip to a model with a different dimension.
+CREATE OR REPLACE FUNCTION volterra_kb.replace_source_documents (p_source_path TEXT, p_documents JSONB) RETURNS TABLE (id UUID) LANGUAGE plpgsql
+SET
+  search_path = volterra_kb,
+  public,
+  extensions AS $$
+BEGIN
+  DELETE FROM volterra_kb.documents d
+  WHERE d.source_path = p_source_path
+     OR starts_with(d.source_path, p_source_path || '#chunk');
+
+  RETURN QUERY
+  INSERT INTO volterra_kb.documents (
+    content,
+    embedding,
+    department,
+    document_type,
+    title,
+    owner,
+    access_level,
+    tags,
+    sensitivity,
+    language,
+    source_type,
+    source_path,
+    content_hash
+  )
+  SELECT
+    e.doc ->> 'content',
+    (e.doc ->> 'embedding')::extensions.vector,
+    e.doc ->> 'department',
+    e.doc ->> 'document_type',
+    e.doc ->> 'title',
+    e.doc ->> 'owner',
+    e.doc ->> 'access_level',
+    CASE
+      WHEN jsonb_typeof(e.doc -> 'tags') = 'array' THEN ARRAY(
+        SELECT
+          jsonb_array_elements_text(e.doc -> 'tags')
+      )
+    END,
+    e.doc ->> 'sensitivity',
+    e.doc ->> 'language',
+    e.doc ->> 'source_type',
+    e.doc ->> 'source_path',
+    e.doc ->> 'content_hash'
+  FROM jsonb_array_elements(p_documents) WITH ORDINALITY AS e (doc, ord)
+  ORDER BY e.ord
+  RETURNING documents.id;
+END;
+$$;
+
+GRANT
+EXECUTE ON FUNCTION volterra_kb.replace_source_documents TO service_role;
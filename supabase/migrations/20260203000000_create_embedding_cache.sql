@@ -0,0 +1,85 @@
+-- Migration: create_embedding_cache
+-- Created: 2026-02-03
+-- Purpose: Persistent embedding cache shared by Node ingestion and Edge Functions
+--
+-- Re-running ingest:file, training:embed or the Slack/Notion syncs used to
+-- re-pay for identical text. Vectors are cached per model under the SHA-256
+-- of the exact text sent to the embeddings API (after prepareTextForEmbedding
+-- in Node, after the per-function cleaning in Edge Functions).
+--
+-- Tables:
+--   - embedding_cache: (model, text_hash) -> embedding
+--
+-- Functions:
+--   - prune_embedding_cache: delete entries not used since a cutoff
+SET
+  search_path TO volterra_kb,
+  public,
+  extensions;
+
+-- ============================================================================
+-- EMBEDDING CACHE TABLE
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS volterra_kb.embedding_cache (
+  model TEXT NOT NULL,
+  text_hash TEXT NOT NULL,
+  -- Dimension-agnostic so models of any size can share the table
+  embedding extensions.vector NOT NULL,
+  dimensions INTEGER NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (model, text_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_embedding_cache_last_used_at ON volterra_kb.embedding_cache (last_used_at);
+
+ALTER TABLE volterra_kb.embedding_cache ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE volterra_kb.embedding_cache IS 'Embedding vectors keyed by model + SHA-256 of the embedded text. Service role only.';
+
+COMMENT ON COLUMN volterra_kb.embedding_cache.text_hash IS 'SHA-256 (hex) of the exact text sent to the embeddings API';
+
+-- ============================================================================
+-- GET CACHED EMBEDDINGS
+-- ============================================================================
+-- Returns cached vectors for the given hashes and bumps last_used_at so that
+-- pruning only removes entries that are no longer being hit.
+CREATE OR REPLACE FUNCTION volterra_kb.get_cached_embeddings (p_model TEXT, p_text_hashes TEXT[]) RETURNS TABLE (text_hash TEXT, embedding TEXT) LANGUAGE sql
+SET
+  search_path = volterra_kb,
+  public,
+  extensions AS $$
+  UPDATE volterra_kb.embedding_cache c
+  SET last_used_at = NOW()
+  WHERE c.model = p_model
+    AND c.text_hash = ANY (p_text_hashes)
+  RETURNING c.text_hash, c.embedding::TEXT;
+$$;
+
+COMMENT ON FUNCTION volterra_kb.get_cached_embeddings IS 'Look up cached embeddings for a model by text hash (vectors returned as pgvector literals)';
+
+GRANT
+EXECUTE ON FUNCTION volterra_kb.get_cached_embeddings TO service_role;
+
+-- ============================================================================
+-- PRUNE EMBEDDING CACHE
+-- ============================================================================
+CREATE OR REPLACE FUNCTION volterra_kb.prune_embedding_cache (p_unused_since TIMESTAMPTZ) RETURNS INTEGER LANGUAGE plpgsql
+SET
+  search_path = volterra_kb,
+  public AS $$
+DECLARE
+  v_deleted INTEGER;
+BEGIN
+  DELETE FROM volterra_kb.embedding_cache c
+  WHERE c.last_used_at < p_unused_since;
+
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  RETURN v_deleted;
+END;
+$$;
+
+COMMENT ON FUNCTION volterra_kb.prune_embedding_cache IS 'Delete embedding cache entries not used since the given timestamp';
+
+GRANT
+EXECUTE ON FUNCTION volterra_kb.prune_embedding_cache TO service_role;
@@ -0,0 +1,155 @@
+-- Migration: add_hierarchical_chunks
+-- Created: 2026-02-04
+-- Purpose: Parent/child chunk links and section breadcrumbs on documents
+--
+-- Hierarchical chunking stores small child chunks (embedded, used for
+-- retrieval) that point at a larger parent chunk (not embedded) holding the
+-- surrounding section. Search matches children and can return the parent as
+-- context. Parent rows use source_path '<base>#parentN', children '<base>#chunkN'.
+--
+-- Columns (documents):
+--   - parent_id: parent chunk of a child chunk
+--   - chunk_role: 'parent' | 'child' (NULL for flat chunks and whole documents)
+--   - section_path: heading breadcrumb, e.g. 'Charging > Troubleshooting > Error 42'
+--
+-- Functions:
+--   - get_source_document_state / replace_source_documents: include #parentN rows
+--   - get_parent_chunks: parent context for matched child chunks
+SET
+  search_path TO volterra_kb,
+  public,
+  extensions;
+
+-- ============================================================================
+-- DOCUMENT COLUMNS
+-- ============================================================================
+ALTER TABLE volterra_kb.documents
+ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES volterra_kb.documents (id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS chunk_role TEXT CHECK (chunk_role IN ('parent', 'child')),
+ADD COLUMN IF NOT EXISTS section_path TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_documents_parent_id ON volterra_kb.documents (parent_id)
+WHERE
+  parent_id IS NOT NULL;
+
+COMMENT ON COLUMN volterra_kb.documents.parent_id IS 'Parent (context) chunk of a hierarchical child chunk';
+
+COMMENT ON COLUMN volterra_kb.documents.chunk_role IS 'parent (context only, no embedding) or child (retrieval chunk); NULL for flat chunks';
+
+COMMENT ON COLUMN volterra_kb.documents.section_path IS 'Heading breadcrumb of the chunk, e.g. Charging > Troubleshooting > Error 42';
+
+-- ============================================================================
+-- SOURCE DOCUMENT STATE
+-- ============================================================================
+CREATE OR REPLACE FUNCTION volterra_kb.get_source_document_state (p_source_path TEXT) RETURNS TABLE (content_hash TEXT, chunk_count INTEGER) LANGUAGE sql STABLE
+SET
+  search_path = volterra_kb,
+  public AS $$
+  SELECT
+    MAX(d.content_hash) AS content_hash,
+    COUNT(*)::INTEGER AS chunk_count
+  FROM volterra_kb.documents d
+  WHERE d.source_path = p_source_path
+     OR starts_with(d.source_path, p_source_path || '#chunk')
+     OR starts_with(d.source_path, p_source_path || '#parent')
+  HAVING COUNT(*) > 0;
+$$;
+
+COMMENT ON FUNCTION volterra_kb.get_source_document_state IS 'Stored content hash and row count for a base source_path (including #chunkN and #parentN rows)';
+
+-- ============================================================================
+-- REPLACE SOURCE DOCUMENTS
+-- ============================================================================
+-- Rows may carry a client-generated id so children can reference their parent
+-- (parent_id) within the same call; parents have a NULL embedding.
+CREATE OR REPLACE FUNCTION volterra_kb.replace_source_documents (p_source_path TEXT, p_documents JSONB) RETURNS TABLE (id UUID) LANGUAGE plpgsql
+SET
+  search_path = volterra_kb,
+  public,
+  extensions AS $$
+BEGIN
+  DELETE FROM volterra_kb.documents d
+  WHERE d.source_path = p_source_path
+     OR starts_with(d.source_path, p_source_path || '#chunk')
+     OR starts_with(d.source_path, p_source_path || '#parent');
+
+  RETURN QUERY
+  INSERT INTO volterra_kb.documents (
+    id,
+    content,
+    embedding,
+    department,
+    document_type,
+    title,
+    owner,
+    access_level,
+    tags,
+    sensitivity,
+    language,
+    source_type,
+    source_path,
+    content_hash,
+    parent_id,
+    chunk_role,
+    section_path
+  )
+  SELECT
+    COALESCE((e.doc ->> 'id')::UUID, gen_random_uuid()),
+    e.doc ->> 'content',
+    (e.doc ->> 'embedding')::extensions.vector,
+    e.doc ->> 'department',
+    e.doc ->> 'document_type',
+    e.doc ->> 'title',
+    e.doc ->> 'owner',
+    e.doc ->> 'access_level',
+    CASE
+      WHEN jsonb_typeof(e.doc -> 'tags') = 'array' THEN ARRAY(
+        SELECT
+          jsonb_array_elements_text(e.doc -> 'tags')
+      )
+    END,
+    e.doc ->> 'sensitivity',
+    e.doc ->> 'language',
+    e.doc ->> 'source_type',
+    e.doc ->> 'source_path',
+    e.doc ->> 'content_hash',
+    (e.doc ->> 'parent_id')::UUID,
+    e.doc ->> 'chunk_role',
+    e.doc ->> 'section_path'
+  FROM jsonb_array_elements(p_documents) WITH ORDINALITY AS e (doc, ord)
+  ORDER BY e.ord
+  RETURNING documents.id;
+END;
+$$;
+
+COMMENT ON FUNCTION volterra_kb.replace_source_documents IS 'Atomically replace all rows (plain, #chunkN and #parentN) for a base source_path';
+
+-- ============================================================================
+-- GET PARENT CHUNKS
+-- ============================================================================
+-- Parent context for search hits; documents without a parent are omitted.
+CREATE OR REPLACE FUNCTION volterra_kb.get_parent_chunks (p_document_ids UUID[]) RETURNS TABLE (
+  document_id UUID,
+  parent_id UUID,
+  section_path TEXT,
+  parent_title TEXT,
+  parent_content TEXT
+) LANGUAGE sql STABLE
+SET
+  search_path = volterra_kb,
+  public AS $$
+  SELECT
+    c.id AS document_id,
+    p.id AS parent_id,
+    c.section_path,
+    p.title AS parent_title,
+    p.content AS parent_content
+  FROM volterra_kb.documents c
+  JOIN volterra_kb.documents p ON p.id = c.parent_id
+  WHERE c.id = ANY (p_document_ids);
+$$;
+
+COMMENT ON FUNCTION volterra_kb.get_parent_chunks IS 'Parent chunk content and breadcrumb for matched hierarchical child chunks';
+
+GRANT
+EXECUTE ON FUNCTION volterra_kb.get_parent_chunks TO service_role;
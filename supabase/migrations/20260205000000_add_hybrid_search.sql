@@ -0,0 +1,361 @@
+-- Migration: add_hybrid_search
+-- Created: 2026-02-05
+-- Purpose: Hybrid retrieval (full-text + vector) fused with reciprocal rank fusion
+--
+-- Pure cosine similarity misses exact tokens such as error codes, HubSpot
+-- ticket IDs and product names ("Zaptec Pro"). Each searchable table gets a
+-- generated tsvector column; the hybrid functions rank candidates by full-text
+-- and by vector distance separately and fuse the two lists with RRF:
+--   score = full_text_weight / (rrf_k + fts_rank) + semantic_weight / (rrf_k + vector_rank)
+--
+-- Columns:
+--   - documents.fts: title (weight A) + content (weight B), using the
+--     Norwegian/Swedish/English config matching documents.language
+--   - training_conversations.fts, slack_messages.fts: 'simple' config (exact terms)
+--
+-- Functions:
+--   - fts_config_for_language: documents.language -> text search config
+--   - build_search_query: query text -> tsquery across no/sv/en/simple configs
+--   - hybrid_search_documents: hybrid search used by the Node API
+--   - mcp_hybrid_match_documents / _training_conversations / _slack_messages:
+--     hybrid variants of the mcp_match_* functions used by kb_search
+SET
+  search_path TO volterra_kb,
+  public,
+  extensions;
+
+-- ============================================================================
+-- TEXT SEARCH HELPERS
+-- ============================================================================
+CREATE OR REPLACE FUNCTION volterra_kb.fts_config_for_language (p_language TEXT) RETURNS regconfig LANGUAGE sql IMMUTABLE
+SET
+  search_path = pg_catalog AS $$
+  SELECT CASE lower(p_language)
+    WHEN 'no' THEN 'pg_catalog.norwegian'::regconfig
+    WHEN 'nb' THEN 'pg_catalog.norwegian'::regconfig
+    WHEN 'nn' THEN 'pg_catalog.norwegian'::regconfig
+    WHEN 'sv' THEN 'pg_catalog.swedish'::regconfig
+    WHEN 'en' THEN 'pg_catalog.english'::regconfig
+    ELSE 'pg_catalog.simple'::regconfig
+  END;
+$$;
+
+COMMENT ON FUNCTION volterra_kb.fts_config_for_language IS 'Text search configuration for a documents.language code (no/sv/en, otherwise simple)';
+
+-- Queries have no reliable language, so they are parsed with every config and
+-- OR-ed: a stemmed Norwegian document still matches an English-stemmed query
+-- term, and the simple config keeps codes and names unstemmed.
+CREATE OR REPLACE FUNCTION volterra_kb.build_search_query (p_query TEXT) RETURNS tsquery LANGUAGE sql IMMUTABLE
+SET
+  search_path = pg_catalog AS $$
+  SELECT websearch_to_tsquery('pg_catalog.norwegian', p_query)
+      || websearch_to_tsquery('pg_catalog.swedish', p_query)
+      || websearch_to_tsquery('pg_catalog.english', p_query)
+      || websearch_to_tsquery('pg_catalog.simple', p_query);
+$$;
+
+COMMENT ON FUNCTION volterra_kb.build_search_query IS 'Parse a user query into a tsquery matching Norwegian, Swedish, English or exact (simple) terms';
+
+-- ============================================================================
+-- FULL-TEXT COLUMNS
+-- ============================================================================
+ALTER TABLE volterra_kb.documents
+ADD COLUMN IF NOT EXISTS fts tsvector GENERATED ALWAYS AS (
+  setweight(
+    to_tsvector(volterra_kb.fts_config_for_language (language), COALESCE(title, '')),
+    'A'
+  ) || setweight(
+    to_tsvector(volterra_kb.fts_config_for_language (language), COALESCE(content, '')),
+    'B'
+  )
+) STORED;
+
+ALTER TABLE volterra_kb.training_conversations
+ADD COLUMN IF NOT EXISTS fts tsvector GENERATED ALWAYS AS (
+  to_tsvector(
+    'pg_catalog.simple',
+    COALESCE(hubspot_ticket_id, '') || ' ' || COALESCE(subject, '') || ' ' || COALESCE(conversation_summary, '')
+  )
+) STORED;
+
+ALTER TABLE volterra_kb.slack_messages
+ADD COLUMN IF NOT EXISTS fts tsvector GENERATED ALWAYS AS (to_tsvector('pg_catalog.simple', COALESCE(text, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_documents_fts ON volterra_kb.documents USING gin (fts);
+
+CREATE INDEX IF NOT EXISTS idx_training_conversations_fts ON volterra_kb.training_conversations USING gin (fts);
+
+CREATE INDEX IF NOT EXISTS idx_slack_messages_fts ON volterra_kb.slack_messages USING gin (fts);
+
+COMMENT ON COLUMN volterra_kb.documents.fts IS 'Full-text vector of title + content in the config for the document language (hybrid search)';
+
+COMMENT ON COLUMN volterra_kb.training_conversations.fts IS 'Full-text vector of ticket id, subject and summary (simple config, hybrid search)';
+
+COMMENT ON COLUMN volterra_kb.slack_messages.fts IS 'Full-text vector of the message text (simple config, hybrid search)';
+
+-- ============================================================================
+-- HYBRID SEARCH: DOCUMENTS (Node API)
+-- ============================================================================
+-- Parent chunks of hierarchical documents are context only and never matched.
+CREATE OR REPLACE FUNCTION volterra_kb.hybrid_search_documents (
+  query_text TEXT,
+  query_embedding extensions.vector,
+  match_count INT DEFAULT 10,
+  filter_department TEXT DEFAULT NULL,
+  filter_access_level TEXT DEFAULT NULL,
+  full_text_weight FLOAT DEFAULT 1.0,
+  semantic_weight FLOAT DEFAULT 1.0,
+  rrf_k INT DEFAULT 60
+) RETURNS TABLE (
+  id UUID,
+  content TEXT,
+  department TEXT,
+  document_type TEXT,
+  title TEXT,
+  access_level TEXT,
+  sensitivity TEXT,
+  source_type TEXT,
+  source_path TEXT,
+  section_path TEXT,
+  similarity FLOAT,
+  text_rank FLOAT,
+  rrf_score FLOAT
+) LANGUAGE sql STABLE
+SET
+  search_path = volterra_kb,
+  public,
+  extensions AS $$
+  WITH full_text AS (
+    SELECT
+      d.id,
+      ts_rank_cd(d.fts, q.query) AS text_rank,
+      ROW_NUMBER() OVER (ORDER BY ts_rank_cd(d.fts, q.query) DESC) AS rank_ix
+    FROM volterra_kb.documents d,
+      LATERAL (SELECT volterra_kb.build_search_query(query_text) AS query) q
+    WHERE d.fts @@ q.query
+      AND d.chunk_role IS DISTINCT FROM 'parent'
+      AND (filter_department IS NULL OR d.department = filter_department)
+      AND (filter_access_level IS NULL OR d.access_level = filter_access_level)
+    ORDER BY rank_ix
+    LIMIT LEAST(match_count, 50) * 2
+  ),
+  semantic AS (
+    SELECT
+      d.id,
+      1 - (d.embedding <=> query_embedding) AS similarity,
+      ROW_NUMBER() OVER (ORDER BY d.embedding <=> query_embedding) AS rank_ix
+    FROM volterra_kb.documents d
+    WHERE d.embedding IS NOT NULL
+      AND (filter_department IS NULL OR d.department = filter_department)
+      AND (filter_access_level IS NULL OR d.access_level = filter_access_level)
+    ORDER BY rank_ix
+    LIMIT LEAST(match_count, 50) * 2
+  )
+  SELECT
+    d.id,
+    d.content,
+    d.department,
+    d.document_type,
+    d.title,
+    d.access_level,
+    d.sensitivity,
+    d.source_type,
+    d.source_path,
+    d.section_path,
+    s.similarity,
+    f.text_rank,
+    COALESCE(1.0 / (rrf_k + f.rank_ix), 0.0) * full_text_weight
+      + COALESCE(1.0 / (rrf_k + s.rank_ix), 0.0) * semantic_weight AS rrf_score
+  FROM full_text f
+  FULL OUTER JOIN semantic s ON s.id = f.id
+  JOIN volterra_kb.documents d ON d.id = COALESCE(f.id, s.id)
+  ORDER BY rrf_score DESC
+  LIMIT LEAST(match_count, 50);
+$$;
+
+COMMENT ON FUNCTION volterra_kb.hybrid_search_documents IS 'Hybrid full-text + vector search over documents, fused with reciprocal rank fusion';
+
+GRANT
+EXECUTE ON FUNCTION volterra_kb.hybrid_search_documents TO service_role;
+
+-- ============================================================================
+-- HYBRID SEARCH: MCP kb_search
+-- ============================================================================
+-- Same columns as the mcp_match_* functions plus text_rank and rrf_score.
+CREATE OR REPLACE FUNCTION volterra_kb.mcp_hybrid_match_documents (
+  query_text TEXT,
+  query_embedding extensions.vector,
+  match_count INT DEFAULT 10,
+  rrf_k INT DEFAULT 60
+) RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  department TEXT,
+  document_type TEXT,
+  source_type TEXT,
+  source_path TEXT,
+  content_preview TEXT,
+  similarity FLOAT,
+  text_rank FLOAT,
+  rrf_score FLOAT
+) LANGUAGE sql STABLE SECURITY DEFINER
+SET
+  search_path = 'extensions',
+  'volterra_kb',
+  'public' AS $$
+  SELECT
+    h.id,
+    h.title,
+    h.department,
+    h.document_type,
+    h.source_type,
+    h.source_path,
+    LEFT(h.content, 500) AS content_preview,
+    h.similarity,
+    h.text_rank,
+    h.rrf_score
+  FROM volterra_kb.hybrid_search_documents(
+    query_text,
+    query_embedding,
+    match_count,
+    rrf_k => rrf_k
+  ) h;
+$$;
+
+CREATE OR REPLACE FUNCTION volterra_kb.mcp_hybrid_match_training_conversations (
+  query_text TEXT,
+  query_embedding extensions.vector,
+  match_count INT DEFAULT 10,
+  rrf_k INT DEFAULT 60
+) RETURNS TABLE (
+  id UUID,
+  hubspot_ticket_id TEXT,
+  subject TEXT,
+  category TEXT,
+  subcategory TEXT,
+  training_type TEXT,
+  summary TEXT,
+  similarity FLOAT,
+  text_rank FLOAT,
+  rrf_score FLOAT
+) LANGUAGE sql STABLE SECURITY DEFINER
+SET
+  search_path = 'extensions',
+  'volterra_kb',
+  'public' AS $$
+  WITH full_text AS (
+    SELECT
+      tc.id,
+      ts_rank_cd(tc.fts, q.query) AS text_rank,
+      ROW_NUMBER() OVER (ORDER BY ts_rank_cd(tc.fts, q.query) DESC) AS rank_ix
+    FROM volterra_kb.training_conversations tc,
+      LATERAL (SELECT volterra_kb.build_search_query(query_text) AS query) q
+    WHERE tc.fts @@ q.query
+    ORDER BY rank_ix
+    LIMIT LEAST(match_count, 50) * 2
+  ),
+  semantic AS (
+    SELECT
+      tc.id,
+      1 - (tc.embedding <=> query_embedding) AS similarity,
+      ROW_NUMBER() OVER (ORDER BY tc.embedding <=> query_embedding) AS rank_ix
+    FROM volterra_kb.training_conversations tc
+    WHERE tc.embedding IS NOT NULL
+    ORDER BY rank_ix
+    LIMIT LEAST(match_count, 50) * 2
+  )
+  SELECT
+    tc.id,
+    tc.hubspot_ticket_id,
+    tc.subject,
+    tc.category,
+    tc.subcategory,
+    tc.training_type,
+    LEFT(tc.conversation_summary, 500) AS summary,
+    s.similarity,
+    f.text_rank,
+    COALESCE(1.0 / (rrf_k + f.rank_ix), 0.0) + COALESCE(1.0 / (rrf_k + s.rank_ix), 0.0) AS rrf_score
+  FROM full_text f
+  FULL OUTER JOIN semantic s ON s.id = f.id
+  JOIN volterra_kb.training_conversations tc ON tc.id = COALESCE(f.id, s.id)
+  ORDER BY rrf_score DESC
+  LIMIT LEAST(match_count, 50);
+$$;
+
+CREATE OR REPLACE FUNCTION volterra_kb.mcp_hybrid_match_slack_messages (
+  query_text TEXT,
+  query_embedding extensions.vector,
+  match_count INT DEFAULT 10,
+  rrf_k INT DEFAULT 60
+) RETURNS TABLE (
+  id UUID,
+  channel_id TEXT,
+  message_ts TEXT,
+  thread_ts TEXT,
+  user_display_name TEXT,
+  text TEXT,
+  message_at TIMESTAMPTZ,
+  similarity FLOAT,
+  text_rank FLOAT,
+  rrf_score FLOAT
+) LANGUAGE sql STABLE SECURITY DEFINER
+SET
+  search_path = 'extensions',
+  'volterra_kb',
+  'public' AS $$
+  WITH full_text AS (
+    SELECT
+      sm.id,
+      ts_rank_cd(sm.fts, q.query) AS text_rank,
+      ROW_NUMBER() OVER (ORDER BY ts_rank_cd(sm.fts, q.query) DESC) AS rank_ix
+    FROM volterra_kb.slack_messages sm,
+      LATERAL (SELECT volterra_kb.build_search_query(query_text) AS query) q
+    WHERE sm.fts @@ q.query
+    ORDER BY rank_ix
+    LIMIT LEAST(match_count, 50) * 2
+  ),
+  semantic AS (
+    SELECT
+      sm.id,
+      1 - (sm.embedding <=> query_embedding) AS similarity,
+      ROW_NUMBER() OVER (ORDER BY sm.embedding <=> query_embedding) AS rank_ix
+    FROM volterra_kb.slack_messages sm
+    WHERE sm.embedding IS NOT NULL
+    ORDER BY rank_ix
+    LIMIT LEAST(match_count, 50) * 2
+  )
+  SELECT
+    sm.id,
+    sm.channel_id,
+    sm.message_ts,
+    sm.thread_ts,
+    sm.user_display_name,
+    LEFT(sm.text, 500) AS text,
+    sm.message_at,
+    s.similarity,
+    f.text_rank,
+    COALESCE(1.0 / (rrf_k + f.rank_ix), 0.0) + COALESCE(1.0 / (rrf_k + s.rank_ix), 0.0) AS rrf_score
+  FROM full_text f
+  FULL OUTER JOIN semantic s ON s.id = f.id
+  JOIN volterra_kb.slack_messages sm ON sm.id = COALESCE(f.id, s.id)
+  ORDER BY rrf_score DESC
+  LIMIT LEAST(match_count, 50);
+$$;
+
+GRANT
+EXECUTE ON FUNCTION volterra_kb.mcp_hybrid_match_documents TO service_role,
+anon;
+
+GRANT
+EXECUTE ON FUNCTION volterra_kb.mcp_hybrid_match_training_conversations TO service_role,
+anon;
+
+GRANT
+EXECUTE ON FUNCTION volterra_kb.mcp_hybrid_match_slack_messages TO service_role,
+anon;
+
+COMMENT ON FUNCTION volterra_kb.mcp_hybrid_match_documents IS 'MCP hybrid (full-text + vector, RRF) search for documents. Used by kb_search mode=hybrid.';
+
+COMMENT ON FUNCTION volterra_kb.mcp_hybrid_match_training_conversations IS 'MCP hybrid (full-text + vector, RRF) search for training conversations. Used by kb_search mode=hybrid.';
+
+COMMENT ON FUNCTION volterra_kb.mcp_hybrid_match_slack_messages IS 'MCP hybrid (full-text + vector, RRF) search for Slack messages. Used by kb_search mode=hybrid.';
@@ -0,0 +1,125 @@
+-- Migration: create_pii_vault
+-- Created: 2026-02-06
+-- Purpose: Reversible PII pseudonymization
+--
+-- With compliance.piiDetection.mode = 'pseudonymize' ingestion replaces each
+-- PII entity with a stable token (e.g. <EMAIL_7f3a>) and stores the original
+-- value here. Values can only be read back through reveal_pii, which checks
+-- the caller's role against the document and logs every attempt.
+--
+-- Tables:
+--   - pii_vault: (document_id, token) -> original value
+--   - pii_vault_access_log: audit trail of reveal requests (granted and denied)
+--
+-- Functions:
+--   - reveal_pii: role-checked, audited lookup of a single token
+SET
+  search_path TO volterra_kb,
+  public,
+  extensions;
+
+-- ============================================================================
+-- PII VAULT TABLE
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS volterra_kb.pii_vault (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid (),
+  document_id UUID NOT NULL REFERENCES volterra_kb.documents (id) ON DELETE CASCADE,
+  token TEXT NOT NULL,
+  pii_type TEXT NOT NULL,
+  value TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (document_id, token)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pii_vault_document_id ON volterra_kb.pii_vault (document_id);
+
+-- No policies: only the service role (and reveal_pii) can read the vault
+ALTER TABLE volterra_kb.pii_vault ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE volterra_kb.pii_vault IS 'Original values behind PII pseudonym tokens. Service role only; read through reveal_pii.';
+
+COMMENT ON COLUMN volterra_kb.pii_vault.token IS 'Token as it appears in documents.content, e.g. <EMAIL_7f3a>';
+
+-- ============================================================================
+-- ACCESS LOG TABLE
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS volterra_kb.pii_vault_access_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid (),
+  document_id UUID NOT NULL,
+  token TEXT NOT NULL,
+  requested_by TEXT NOT NULL,
+  role TEXT NOT NULL,
+  reason TEXT,
+  granted BOOLEAN NOT NULL,
+  denial_reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pii_vault_access_log_document_id ON volterra_kb.pii_vault_access_log (document_id);
+
+CREATE INDEX IF NOT EXISTS idx_pii_vault_access_log_created_at ON volterra_kb.pii_vault_access_log (created_at);
+
+ALTER TABLE volterra_kb.pii_vault_access_log ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE volterra_kb.pii_vault_access_log IS 'Audit trail of PII reveal requests. Kept when documents are deleted.';
+
+-- ============================================================================
+-- REVEAL PII
+-- ============================================================================
+-- Denials are returned rather than raised so the audit row is committed.
+CREATE OR REPLACE FUNCTION volterra_kb.reveal_pii (
+  p_document_id UUID,
+  p_token TEXT,
+  p_requested_by TEXT,
+  p_role TEXT,
+  p_reason TEXT DEFAULT NULL
+) RETURNS TABLE (granted BOOLEAN, value TEXT, denial_reason TEXT) LANGUAGE plpgsql SECURITY DEFINER
+SET
+  search_path = volterra_kb,
+  public AS $$
+DECLARE
+  v_levels TEXT[] := ARRAY['public', 'internal', 'restricted', 'confidential'];
+  v_access_level TEXT;
+  v_value TEXT;
+  v_denial TEXT;
+BEGIN
+  SELECT d.access_level INTO v_access_level
+  FROM volterra_kb.documents d
+  WHERE d.id = p_document_id;
+
+  IF p_role IS NULL OR p_role NOT IN ('restricted', 'confidential') THEN
+    v_denial := 'Role must be restricted or confidential';
+  ELSIF v_access_level IS NULL THEN
+    v_denial := 'Document not found';
+  ELSIF array_position(v_levels, p_role) < array_position(v_levels, v_access_level) THEN
+    v_denial := format('Role %s cannot access %s documents', p_role, v_access_level);
+  ELSE
+    SELECT v.value INTO v_value
+    FROM volterra_kb.pii_vault v
+    WHERE v.document_id = p_document_id
+      AND v.token = p_token;
+
+    IF v_value IS NULL THEN
+      v_denial := 'Token not found';
+    END IF;
+  END IF;
+
+  INSERT INTO volterra_kb.pii_vault_access_log (
+    document_id, token, requested_by, role, reason, granted, denial_reason
+  ) VALUES (
+    p_document_id, p_token, p_requested_by, COALESCE(p_role, ''), p_reason, v_denial IS NULL, v_denial
+  );
+
+  RETURN QUERY SELECT v_denial IS NULL, v_value, v_denial;
+END;
+$$;
+
+COMMENT ON FUNCTION volterra_kb.reveal_pii IS 'Return the original value behind a PII token for restricted/confidential roles; every attempt is logged';
+
+REVOKE
+EXECUTE ON FUNCTION volterra_kb.reveal_pii
+FROM
+  PUBLIC;
+
+GRANT
+EXECUTE ON FUNCTION volterra_kb.reveal_pii TO service_role;
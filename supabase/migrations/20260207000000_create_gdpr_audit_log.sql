@@ -0,0 +1,48 @@
+-- Migration: create_gdpr_audit_log
+-- Created: 2026-02-07
+-- Purpose: Persist GDPR audit entries from ingestion
+--
+-- processForGDPR builds an audit entry for every scanned document; until now
+-- those entries only went to the application logs. Entries are stored once the
+-- document rows exist so they can be linked to document IDs, and they outlive
+-- the documents (no foreign key) so deletions remain auditable.
+--
+-- Tables:
+--   - gdpr_audit_log: one row per scanned and stored document
+SET
+  search_path TO volterra_kb,
+  public,
+  extensions;
+
+-- ============================================================================
+-- GDPR AUDIT LOG TABLE
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS volterra_kb.gdpr_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid (),
+  action TEXT NOT NULL,
+  document_title TEXT NOT NULL,
+  -- All rows of the document (chunks and hierarchical parents)
+  document_ids UUID[] NOT NULL DEFAULT '{}',
+  source_type TEXT,
+  source_path TEXT,
+  pii_found BOOLEAN NOT NULL,
+  pii_types TEXT[] NOT NULL DEFAULT '{}',
+  sensitivity_level TEXT NOT NULL,
+  access_level_requested TEXT,
+  access_level_assigned TEXT NOT NULL,
+  redaction_applied BOOLEAN NOT NULL DEFAULT FALSE,
+  scanned_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_gdpr_audit_log_scanned_at ON volterra_kb.gdpr_audit_log (scanned_at);
+
+CREATE INDEX IF NOT EXISTS idx_gdpr_audit_log_document_ids ON volterra_kb.gdpr_audit_log USING GIN (document_ids);
+
+CREATE INDEX IF NOT EXISTS idx_gdpr_audit_log_source_path ON volterra_kb.gdpr_audit_log (source_path);
+
+ALTER TABLE volterra_kb.gdpr_audit_log ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE volterra_kb.gdpr_audit_log IS 'GDPR audit trail of PII scans at ingestion. Service role only; rows are kept after documents are deleted.';
+
+COMMENT ON COLUMN volterra_kb.gdpr_audit_log.access_level_requested IS 'Access level before the automatic PII upgrade';
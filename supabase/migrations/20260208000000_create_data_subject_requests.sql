@@ -0,0 +1,159 @@
+-- Migration: create_data_subject_requests
+-- Created: 2026-02-08
+-- Purpose: GDPR data subject access (DSAR) and erasure workflow
+--
+-- A data subject is identified by email addresses, phone numbers and names.
+-- find_data_subject_records scans every table that can hold customer data;
+-- the Node workflow (src/compliance/data-subject.ts) exports, deletes or
+-- redacts the matching rows and re-embeds or clears the affected vectors.
+-- Each completed request is stored with an HMAC signature so the record
+-- can be verified later.
+--
+-- Tables:
+--   - data_subject_requests: signed record of every access/erasure/redaction
+--
+-- Functions:
+--   - find_data_subject_records: regex search across documents, training,
+--     Slack, WoD and PII vault tables
+SET
+  search_path TO volterra_kb,
+  public,
+  extensions;
+
+-- ============================================================================
+-- DATA SUBJECT REQUESTS TABLE
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS volterra_kb.data_subject_requests (
+  id UUID PRIMARY KEY,
+  request_type TEXT NOT NULL CHECK (request_type IN ('access', 'erasure', 'redaction')),
+  -- SHA-256 of each normalized identifier; the record must not re-store the PII
+  subject_hashes TEXT[] NOT NULL,
+  requested_by TEXT NOT NULL,
+  reason TEXT,
+  matched JSONB NOT NULL DEFAULT '{}'::JSONB,
+  actions JSONB NOT NULL DEFAULT '{}'::JSONB,
+  signature TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL,
+  completed_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_data_subject_requests_created_at ON volterra_kb.data_subject_requests (created_at);
+
+CREATE INDEX IF NOT EXISTS idx_data_subject_requests_subject_hashes ON volterra_kb.data_subject_requests USING GIN (subject_hashes);
+
+ALTER TABLE volterra_kb.data_subject_requests ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE volterra_kb.data_subject_requests IS 'Signed records of GDPR data subject requests (access, erasure, redaction). Service role only.';
+
+COMMENT ON COLUMN volterra_kb.data_subject_requests.signature IS 'HMAC-SHA256 (DSAR_SIGNING_SECRET) of the canonical JSON record';
+
+-- ============================================================================
+-- FIND DATA SUBJECT RECORDS
+-- ============================================================================
+-- p_patterns are case-insensitive regular expressions built by the Node
+-- workflow (one per identifier). Full scans are acceptable: requests are rare.
+-- The columns searched per table are exactly those SUBJECT_TABLES in
+-- data-subject.ts redacts (fields and jsonFields); keep the two in sync.
+CREATE OR REPLACE FUNCTION volterra_kb.find_data_subject_records (p_patterns TEXT[]) RETURNS TABLE (
+  table_name TEXT,
+  row_id UUID,
+  matched_fields TEXT[]
+) LANGUAGE sql STABLE
+SET
+  search_path = volterra_kb,
+  public AS $$
+  SELECT 'documents', d.id, array_remove(ARRAY[
+      CASE WHEN d.title ~* ANY (p_patterns) THEN 'title' END,
+      CASE WHEN d.content ~* ANY (p_patterns) THEN 'content' END
+    ], NULL)
+  FROM volterra_kb.documents d
+  WHERE d.title ~* ANY (p_patterns) OR d.content ~* ANY (p_patterns)
+
+  UNION ALL
+  SELECT 'pii_vault', v.id, ARRAY['value']
+  FROM volterra_kb.pii_vault v
+  WHERE v.value ~* ANY (p_patterns)
+
+  UNION ALL
+  SELECT 'training_conversations', c.id, array_remove(ARRAY[
+      CASE WHEN c.subject ~* ANY (p_patterns) THEN 'subject' END,
+      CASE WHEN c.conversation_summary ~* ANY (p_patterns) THEN 'conversation_summary' END
+    ], NULL)
+  FROM volterra_kb.training_conversations c
+  WHERE c.subject ~* ANY (p_patterns) OR c.conversation_summary ~* ANY (p_patterns)
+
+  UNION ALL
+  SELECT 'training_messages', m.id, array_remove(ARRAY[
+      CASE WHEN m.from_email ~* ANY (p_patterns) THEN 'from_email' END,
+      CASE WHEN m.from_name ~* ANY (p_patterns) THEN 'from_name' END,
+      CASE WHEN m.subject ~* ANY (p_patterns) THEN 'subject' END,
+      CASE WHEN m.content ~* ANY (p_patterns) THEN 'content' END
+    ], NULL)
+  FROM volterra_kb.training_messages m
+  WHERE m.from_email ~* ANY (p_patterns)
+    OR m.from_name ~* ANY (p_patterns)
+    OR m.subject ~* ANY (p_patterns)
+    OR m.content ~* ANY (p_patterns)
+
+  UNION ALL
+  SELECT 'slack_messages', s.id, array_remove(ARRAY[
+      CASE WHEN s.text ~* ANY (p_patterns) THEN 'text' END,
+      CASE WHEN s.user_real_name ~* ANY (p_patterns) THEN 'user_real_name' END,
+      CASE WHEN s.user_display_name ~* ANY (p_patterns) THEN 'user_display_name' END,
+      CASE WHEN s.raw::TEXT ~* ANY (p_patterns) THEN 'raw' END
+    ], NULL)
+  FROM volterra_kb.slack_messages s
+  WHERE s.text ~* ANY (p_patterns)
+    OR s.user_real_name ~* ANY (p_patterns)
+    OR s.user_display_name ~* ANY (p_patterns)
+    OR s.raw::TEXT ~* ANY (p_patterns)
+
+  UNION ALL
+  SELECT 'slack_threads', t.id, array_remove(ARRAY[
+      CASE WHEN t.root_text ~* ANY (p_patterns) THEN 'root_text' END,
+      CASE WHEN t.root_raw::TEXT ~* ANY (p_patterns) THEN 'root_raw' END
+    ], NULL)
+  FROM volterra_kb.slack_threads t
+  WHERE t.root_text ~* ANY (p_patterns)
+    OR t.root_raw::TEXT ~* ANY (p_patterns)
+
+  UNION ALL
+  SELECT 'wod_deals', w.id, array_remove(ARRAY[
+      CASE WHEN w.deal_name ~* ANY (p_patterns) THEN 'deal_name' END,
+      CASE WHEN w.creator_name ~* ANY (p_patterns) THEN 'creator_name' END,
+      CASE WHEN w.four_eyes_name ~* ANY (p_patterns) THEN 'four_eyes_name' END,
+      CASE WHEN w.raw_inputs::TEXT ~* ANY (p_patterns) THEN 'raw_inputs' END,
+      CASE WHEN w.raw_economy::TEXT ~* ANY (p_patterns) THEN 'raw_economy' END,
+      CASE WHEN w.raw_cost_output::TEXT ~* ANY (p_patterns) THEN 'raw_cost_output' END,
+      CASE WHEN w.embedding_content ~* ANY (p_patterns) THEN 'embedding_content' END
+    ], NULL)
+  FROM volterra_kb.wod_deals w
+  WHERE w.deal_name ~* ANY (p_patterns)
+    OR w.creator_name ~* ANY (p_patterns)
+    OR w.four_eyes_name ~* ANY (p_patterns)
+    OR w.raw_inputs::TEXT ~* ANY (p_patterns)
+    OR w.raw_economy::TEXT ~* ANY (p_patterns)
+    OR w.raw_cost_output::TEXT ~* ANY (p_patterns)
+    OR w.embedding_content ~* ANY (p_patterns)
+
+  UNION ALL
+  SELECT 'wod_project_documents', p.id, array_remove(ARRAY[
+      CASE WHEN p.title ~* ANY (p_patterns) THEN 'title' END,
+      CASE WHEN p.raw_text ~* ANY (p_patterns) THEN 'raw_text' END,
+      CASE WHEN p.extracted_metadata::TEXT ~* ANY (p_patterns) THEN 'extracted_metadata' END
+    ], NULL)
+  FROM volterra_kb.wod_project_documents p
+  WHERE p.title ~* ANY (p_patterns)
+    OR p.raw_text ~* ANY (p_patterns)
+    OR p.extracted_metadata::TEXT ~* ANY (p_patterns)
+
+  UNION ALL
+  SELECT 'wod_project_document_chunks', pc.id, ARRAY['content']
+  FROM volterra_kb.wod_project_document_chunks pc
+  WHERE pc.content ~* ANY (p_patterns);
+$$;
+
+COMMENT ON FUNCTION volterra_kb.find_data_subject_records IS 'Rows (and matching fields) that mention a data subject, across all tables holding customer data';
+
+GRANT
+EXECUTE ON FUNCTION volterra_kb.find_data_subject_records TO service_role;
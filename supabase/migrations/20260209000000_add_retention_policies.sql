@@ -0,0 +1,224 @@
+-- Migration: add_retention_policies
+-- Created: 2026-02-09
+-- Purpose: Declarative retention rules with a scheduled purge
+--
+-- Rules are declared in config/default.json (compliance.retention.rules) and
+-- written to retention_rules with `npm run gdpr:retention -- sync-rules`. The
+-- retention-purge Edge Function runs apply_retention_rules daily; every run
+-- (including dry runs) is recorded per rule in retention_purge_log.
+--
+-- Tables:
+--   - retention_rules: table + column filters -> months to retain
+--   - retention_purge_log: per-rule result of each run, with the purged row IDs
+--
+-- Functions:
+--   - apply_retention_rules: purge (or count, for dry runs) expired rows
+--   - invoke_retention_purge: trigger the Edge Function via pg_net
+SET
+  search_path TO volterra_kb,
+  public,
+  extensions;
+
+-- ============================================================================
+-- RETENTION RULES TABLE
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS volterra_kb.retention_rules (
+  name TEXT PRIMARY KEY,
+  table_name TEXT NOT NULL CHECK (
+    table_name IN ('documents', 'slack_messages', 'slack_threads', 'training_conversations')
+  ),
+  -- Column -> value or array of values; documents also accept source_path_prefix
+  filters JSONB NOT NULL DEFAULT '{}'::JSONB,
+  retain_months INTEGER NOT NULL CHECK (retain_months > 0),
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE volterra_kb.retention_rules ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE volterra_kb.retention_rules IS 'Retention rules synced from config/default.json (compliance.retention.rules)';
+
+-- ============================================================================
+-- PURGE LOG TABLE
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS volterra_kb.retention_purge_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid (),
+  run_id UUID NOT NULL,
+  rule_name TEXT NOT NULL,
+  table_name TEXT NOT NULL,
+  dry_run BOOLEAN NOT NULL,
+  cutoff TIMESTAMPTZ NOT NULL,
+  row_count INTEGER NOT NULL,
+  oldest_at TIMESTAMPTZ,
+  newest_at TIMESTAMPTZ,
+  row_ids UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_retention_purge_log_run_id ON volterra_kb.retention_purge_log (run_id);
+
+CREATE INDEX IF NOT EXISTS idx_retention_purge_log_created_at ON volterra_kb.retention_purge_log (created_at DESC);
+
+ALTER TABLE volterra_kb.retention_purge_log ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE volterra_kb.retention_purge_log IS 'What each retention run purged (or would purge, for dry runs), per rule';
+
+-- ============================================================================
+-- APPLY RETENTION RULES
+-- ============================================================================
+-- Table and filter columns are whitelisted; rule values are quoted literals.
+-- Deleting documents cascades to child chunks and PII vault entries.
+CREATE OR REPLACE FUNCTION volterra_kb.apply_retention_rules (p_dry_run BOOLEAN DEFAULT TRUE) RETURNS TABLE (
+  run_id UUID,
+  rule_name TEXT,
+  table_name TEXT,
+  cutoff TIMESTAMPTZ,
+  row_count INTEGER,
+  oldest_at TIMESTAMPTZ,
+  newest_at TIMESTAMPTZ,
+  dry_run BOOLEAN
+) LANGUAGE plpgsql
+SET
+  search_path = volterra_kb,
+  public AS $$
+#variable_conflict use_column
+DECLARE
+  v_run_id UUID := gen_random_uuid();
+  v_rule RECORD;
+  v_time_column TEXT;
+  v_allowed TEXT[];
+  v_where TEXT;
+  v_key TEXT;
+  v_value JSONB;
+  v_cutoff TIMESTAMPTZ;
+  v_ids UUID[];
+  v_oldest TIMESTAMPTZ;
+  v_newest TIMESTAMPTZ;
+BEGIN
+  FOR v_rule IN
+    SELECT r.name, r.table_name, r.filters, r.retain_months
+    FROM volterra_kb.retention_rules r
+    WHERE r.enabled
+    ORDER BY r.name
+  LOOP
+    v_time_column := CASE v_rule.table_name
+      WHEN 'documents' THEN 'created_at'
+      WHEN 'slack_messages' THEN 'message_at'
+      WHEN 'slack_threads' THEN 'COALESCE(root_message_at, created_at)'
+      WHEN 'training_conversations' THEN 'COALESCE(create_date::TIMESTAMPTZ, created_at)'
+    END;
+
+    v_allowed := CASE v_rule.table_name
+      WHEN 'documents' THEN ARRAY['source_type', 'sensitivity', 'document_type', 'department', 'access_level', 'source_path_prefix']
+      WHEN 'slack_messages' THEN ARRAY['channel_id']
+      WHEN 'slack_threads' THEN ARRAY['channel_id']
+      WHEN 'training_conversations' THEN ARRAY['training_type', 'category', 'status']
+    END;
+
+    v_cutoff := NOW() - make_interval(months => v_rule.retain_months);
+    v_where := format('%s < %L', v_time_column, v_cutoff);
+
+    FOR v_key, v_value IN SELECT f.key, f.value FROM jsonb_each(v_rule.filters) f LOOP
+      IF NOT v_key = ANY (v_allowed) THEN
+        RAISE EXCEPTION 'Retention rule %: unsupported filter % on %', v_rule.name, v_key, v_rule.table_name;
+      END IF;
+
+      IF v_key = 'source_path_prefix' THEN
+        v_where := v_where || format(' AND source_path LIKE %L', (v_value #>> '{}') || '%');
+      ELSE
+        v_where := v_where || format(
+          ' AND %I = ANY (%L::TEXT[])',
+          v_key,
+          ARRAY(
+            SELECT jsonb_array_elements_text(
+              CASE jsonb_typeof(v_value) WHEN 'array' THEN v_value ELSE jsonb_build_array(v_value) END
+            )
+          )
+        );
+      END IF;
+    END LOOP;
+
+    EXECUTE format(
+      'SELECT array_agg(id), min(%1$s), max(%1$s) FROM volterra_kb.%2$I WHERE %3$s',
+      v_time_column, v_rule.table_name, v_where
+    ) INTO v_ids, v_oldest, v_newest;
+
+    IF NOT p_dry_run AND v_ids IS NOT NULL THEN
+      IF v_rule.table_name = 'training_conversations' THEN
+        DELETE FROM volterra_kb.training_messages m WHERE m.conversation_id = ANY (v_ids);
+      END IF;
+
+      EXECUTE format('DELETE FROM volterra_kb.%I WHERE id = ANY ($1)', v_rule.table_name) USING v_ids;
+    END IF;
+
+    INSERT INTO volterra_kb.retention_purge_log (
+      run_id, rule_name, table_name, dry_run, cutoff, row_count, oldest_at, newest_at, row_ids
+    ) VALUES (
+      v_run_id, v_rule.name, v_rule.table_name, p_dry_run, v_cutoff,
+      COALESCE(cardinality(v_ids), 0), v_oldest, v_newest, COALESCE(v_ids, '{}')
+    );
+
+    RETURN QUERY SELECT
+      v_run_id, v_rule.name, v_rule.table_name, v_cutoff,
+      COALESCE(cardinality(v_ids), 0), v_oldest, v_newest, p_dry_run;
+  END LOOP;
+END;
+$$;
+
+COMMENT ON FUNCTION volterra_kb.apply_retention_rules IS 'Delete rows older than their retention rule (count only when p_dry_run); results are logged to retention_purge_log';
+
+GRANT
+EXECUTE ON FUNCTION volterra_kb.apply_retention_rules TO service_role;
+
+-- ============================================================================
+-- INVOKER + CRON
+-- ============================================================================
+CREATE OR REPLACE FUNCTION volterra_kb.invoke_retention_purge (p_dry_run BOOLEAN DEFAULT FALSE) RETURNS BIGINT LANGUAGE plpgsql SECURITY DEFINER
+SET
+  search_path = '' AS $$
+DECLARE
+  project_url TEXT;
+  service_role_key TEXT;
+  cron_secret TEXT;
+  request_id BIGINT;
+BEGIN
+  SELECT decrypted_secret INTO project_url
+  FROM vault.decrypted_secrets WHERE name = 'project_url';
+
+  SELECT decrypted_secret INTO service_role_key
+  FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  SELECT decrypted_secret INTO cron_secret
+  FROM vault.decrypted_secrets WHERE name = 'cron_secret';
+
+  IF project_url IS NULL OR service_role_key IS NULL THEN
+    RAISE EXCEPTION 'Missing Vault secrets: project_url or service_role_key';
+  END IF;
+
+  SELECT net.http_post(
+    url := project_url || '/functions/v1/retention-purge',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || service_role_key,
+      'x-cron-secret', COALESCE(cron_secret, '')
+    ),
+    body := jsonb_build_object('dry_run', p_dry_run),
+    timeout_milliseconds := 300000
+  ) INTO request_id;
+
+  RETURN request_id;
+END;
+$$;
+
+COMMENT ON FUNCTION volterra_kb.invoke_retention_purge IS 'Invokes the retention-purge Edge Function via pg_net. Pass TRUE for a dry run.';
+
+GRANT
+EXECUTE ON FUNCTION volterra_kb.invoke_retention_purge TO service_role;
+
+-- Daily at 03:00 UTC, before the syncs
+SELECT
+  cron.schedule (
+    'retention-purge-daily',
+    '0 3 * * *',
+    $$SELECT volterra_kb.invoke_retention_purge(FALSE);$$
+  );
@@ -0,0 +1,537 @@
+-- Migration: enforce_access_levels
+-- Created: 2026-02-10
+-- Purpose: Filter document search and fetch by the caller's clearance
+--
+-- documents.access_level is raised to restricted/confidential when PII is
+-- found, but the search RPCs returned every row to every caller. Each caller
+-- now has a clearance, and only rows at or below it are returned:
+--   - PostgREST role: service_role -> confidential, authenticated -> JWT
+--     app_metadata.clearance (default internal), anon -> public
+--   - Direct database sessions (not via PostgREST) -> confidential
+--   - p_clearance can lower the clearance for a request. Edge Functions and
+--     the Node API run as service_role and pass their client's clearance here.
+--
+-- Tables:
+--   - api_clients: hashed API keys with a clearance (MCP server, website chat)
+--
+-- Functions:
+--   - access_level_rank, request_clearance, effective_clearance_rank: helpers
+--   - resolve_api_client: API key hash -> client name and clearance
+--   - search_documents: vector search used by the Node API (searchDocuments)
+--   - match_documents, hybrid_search_documents, mcp_match_documents,
+--     mcp_hybrid_match_documents, mcp_fetch_document_full, get_parent_chunks:
+--     now clearance-filtered
+SET
+  search_path TO volterra_kb,
+  public,
+  extensions;
+
+-- ============================================================================
+-- CLEARANCE HELPERS
+-- ============================================================================
+-- NULL for unknown levels: unknown row levels never match, unknown clearances
+-- are treated as public.
+CREATE OR REPLACE FUNCTION volterra_kb.access_level_rank (p_level TEXT) RETURNS INT LANGUAGE sql IMMUTABLE
+SET
+  search_path = pg_catalog AS $$
+  SELECT array_position(ARRAY['public', 'internal', 'restricted', 'confidential'], p_level) - 1;
+$$;
+
+COMMENT ON FUNCTION volterra_kb.access_level_rank IS 'public 0, internal 1, restricted 2, confidential 3; NULL for unknown levels';
+
+CREATE OR REPLACE FUNCTION volterra_kb.request_clearance () RETURNS TEXT LANGUAGE sql STABLE
+SET
+  search_path = pg_catalog AS $$
+  WITH claims AS (
+    SELECT NULLIF(current_setting('request.jwt.claims', true), '')::JSONB AS c
+  )
+  SELECT CASE
+    WHEN c IS NULL AND session_user <> 'authenticator' THEN 'confidential'
+    WHEN c ->> 'role' = 'service_role' THEN 'confidential'
+    WHEN c ->> 'role' = 'authenticated' THEN
+      CASE
+        WHEN c -> 'app_metadata' ->> 'clearance' IN ('public', 'internal', 'restricted', 'confidential')
+          THEN c -> 'app_metadata' ->> 'clearance'
+        ELSE 'internal'
+      END
+    ELSE 'public'
+  END
+  FROM claims;
+$$;
+
+COMMENT ON FUNCTION volterra_kb.request_clearance IS 'Clearance of the current request from its PostgREST role and JWT claims';
+
+CREATE OR REPLACE FUNCTION volterra_kb.effective_clearance_rank (p_clearance TEXT DEFAULT NULL) RETURNS INT LANGUAGE sql STABLE
+SET
+  search_path = volterra_kb,
+  public AS $$
+  SELECT LEAST(
+    volterra_kb.access_level_rank(volterra_kb.request_clearance()),
+    CASE
+      WHEN p_clearance IS NULL THEN 3
+      ELSE COALESCE(volterra_kb.access_level_rank(p_clearance), 0)
+    END
+  );
+$$;
+
+COMMENT ON FUNCTION volterra_kb.effective_clearance_rank IS 'Request clearance, optionally lowered by p_clearance, as a rank';
+
+GRANT
+EXECUTE ON FUNCTION volterra_kb.access_level_rank TO anon,
+authenticated,
+service_role;
+
+GRANT
+EXECUTE ON FUNCTION volterra_kb.request_clearance TO anon,
+authenticated,
+service_role;
+
+GRANT
+EXECUTE ON FUNCTION volterra_kb.effective_clearance_rank TO anon,
+authenticated,
+service_role;
+
+-- ============================================================================
+-- API CLIENTS
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS volterra_kb.api_clients (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid (),
+  name TEXT NOT NULL UNIQUE,
+  -- SHA-256 (hex) of the key; the key itself is only shown when created
+  key_hash TEXT NOT NULL UNIQUE,
+  clearance TEXT NOT NULL CHECK (
+    clearance IN ('public', 'internal', 'restricted', 'confidential')
+  ),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ
+);
+
+ALTER TABLE volterra_kb.api_clients ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE volterra_kb.api_clients IS 'API keys (hashed) of search clients and the clearance each one is granted';
+
+CREATE OR REPLACE FUNCTION volterra_kb.resolve_api_client (p_key_hash TEXT) RETURNS TABLE (name TEXT, clearance TEXT) LANGUAGE sql SECURITY DEFINER
+SET
+  search_path = volterra_kb,
+  public AS $$
+  UPDATE volterra_kb.api_clients c
+  SET last_used_at = NOW()
+  WHERE c.key_hash = p_key_hash
+    AND c.is_active
+  RETURNING c.name, c.clearance;
+$$;
+
+COMMENT ON FUNCTION volterra_kb.resolve_api_client IS 'Name and clearance of the active API client with this key hash';
+
+REVOKE
+EXECUTE ON FUNCTION volterra_kb.resolve_api_client
+FROM
+  PUBLIC;
+
+GRANT
+EXECUTE ON FUNCTION volterra_kb.resolve_api_client TO service_role;
+
+-- ============================================================================
+-- NODE API: search_documents
+-- ============================================================================
+-- Replaces the call to the original match_documents signature, which the n8n
+-- functions (20260104100000) had reduced to three arguments.
+CREATE OR REPLACE FUNCTION volterra_kb.search_documents (
+  query_embedding extensions.vector,
+  match_threshold FLOAT DEFAULT 0.78,
+  match_count INT DEFAULT 10,
+  filter_department TEXT DEFAULT NULL,
+  filter_access_level TEXT DEFAULT NULL,
+  p_clearance TEXT DEFAULT NULL
+) RETURNS TABLE (
+  id UUID,
+  content TEXT,
+  department TEXT,
+  document_type TEXT,
+  title TEXT,
+  access_level TEXT,
+  sensitivity TEXT,
+  source_type TEXT,
+  source_path TEXT,
+  section_path TEXT,
+  similarity FLOAT
+) LANGUAGE sql STABLE
+SET
+  search_path = volterra_kb,
+  public,
+  extensions AS $$
+  SELECT
+    d.id,
+    d.content,
+    d.department,
+    d.document_type,
+    d.title,
+    d.access_level,
+    d.sensitivity,
+    d.source_type,
+    d.source_path,
+    d.section_path,
+    1 - (d.embedding <=> query_embedding) AS similarity
+  FROM volterra_kb.documents d
+  WHERE d.embedding IS NOT NULL
+    AND d.chunk_role IS DISTINCT FROM 'parent'
+    AND 1 - (d.embedding <=> query_embedding) > match_threshold
+    AND volterra_kb.access_level_rank(d.access_level) <= volterra_kb.effective_clearance_rank(p_clearance)
+    AND (filter_department IS NULL OR d.department = filter_department)
+    AND (filter_access_level IS NULL OR d.access_level = filter_access_level)
+  ORDER BY d.embedding <=> query_embedding
+  LIMIT LEAST(match_count, 50);
+$$;
+
+COMMENT ON FUNCTION volterra_kb.search_documents IS 'Vector search over documents the caller is cleared for. Used by the Node API (searchDocuments).';
+
+GRANT
+EXECUTE ON FUNCTION volterra_kb.search_documents TO service_role;
+
+-- ============================================================================
+-- N8N: match_documents (signature unchanged)
+-- ============================================================================
+-- Granted to anon: anon callers only see public documents.
+CREATE OR REPLACE FUNCTION volterra_kb.match_documents (
+  query_embedding extensions.vector (1536),
+  match_threshold float DEFAULT 0.78,
+  match_count int DEFAULT 10
+) RETURNS TABLE (
+  id uuid,
+  content text,
+  metadata jsonb,
+  similarity float
+) LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET
+  search_path = 'extensions',
+  'volterra_kb',
+  'public' AS $$
+DECLARE
+  v_clearance INT := volterra_kb.effective_clearance_rank();
+BEGIN
+  RETURN QUERY
+  SELECT
+    d.id,
+    COALESCE(d.title, '') || E'\n\n' || LEFT(COALESCE(d.content, ''), 2000) as content,
+    jsonb_build_object(
+      'title', d.title,
+      'department', d.department,
+      'document_type', d.document_type,
+      'source_type', d.source_type,
+      'source_path', d.source_path,
+      'access_level', d.access_level,
+      'created_at', d.created_at
+    ) as metadata,
+    1 - (d.embedding <=> query_embedding) AS similarity
+  FROM volterra_kb.documents d
+  WHERE
+    d.embedding IS NOT NULL
+    AND 1 - (d.embedding <=> query_embedding) > match_threshold
+    AND volterra_kb.access_level_rank(d.access_level) <= v_clearance
+  ORDER BY d.embedding <=> query_embedding
+  LIMIT LEAST(match_count, 50);
+END;
+$$;
+
+-- ============================================================================
+-- HYBRID SEARCH (Node API + MCP kb_search mode=hybrid)
+-- ============================================================================
+DROP FUNCTION IF EXISTS volterra_kb.mcp_hybrid_match_documents (TEXT, extensions.vector, INT, INT);
+
+DROP FUNCTION IF EXISTS volterra_kb.hybrid_search_documents (
+  TEXT,
+  extensions.vector,
+  INT,
+  TEXT,
+  TEXT,
+  FLOAT,
+  FLOAT,
+  INT
+);
+
+CREATE OR REPLACE FUNCTION volterra_kb.hybrid_search_documents (
+  query_text TEXT,
+  query_embedding extensions.vector,
+  match_count INT DEFAULT 10,
+  filter_department TEXT DEFAULT NULL,
+  filter_access_level TEXT DEFAULT NULL,
+  full_text_weight FLOAT DEFAULT 1.0,
+  semantic_weight FLOAT DEFAULT 1.0,
+  rrf_k INT DEFAULT 60,
+  p_clearance TEXT DEFAULT NULL
+) RETURNS TABLE (
+  id UUID,
+  content TEXT,
+  department TEXT,
+  document_type TEXT,
+  title TEXT,
+  access_level TEXT,
+  sensitivity TEXT,
+  source_type TEXT,
+  source_path TEXT,
+  section_path TEXT,
+  similarity FLOAT,
+  text_rank FLOAT,
+  rrf_score FLOAT
+) LANGUAGE sql STABLE
+SET
+  search_path = volterra_kb,
+  public,
+  extensions AS $$
+  WITH clearance AS (
+    SELECT volterra_kb.effective_clearance_rank(p_clearance) AS max_rank
+  ),
+  full_text AS (
+    SELECT
+      d.id,
+      ts_rank_cd(d.fts, q.query) AS text_rank,
+      ROW_NUMBER() OVER (ORDER BY ts_rank_cd(d.fts, q.query) DESC) AS rank_ix
+    FROM volterra_kb.documents d,
+      LATERAL (SELECT volterra_kb.build_search_query(query_text) AS query) q,
+      clearance c
+    WHERE d.fts @@ q.query
+      AND d.chunk_role IS DISTINCT FROM 'parent'
+      AND volterra_kb.access_level_rank(d.access_level) <= c.max_rank
+      AND (filter_department IS NULL OR d.department = filter_department)
+      AND (filter_access_level IS NULL OR d.access_level = filter_access_level)
+    ORDER BY rank_ix
+    LIMIT LEAST(match_count, 50) * 2
+  ),
+  semantic AS (
+    SELECT
+      d.id,
+      1 - (d.embedding <=> query_embedding) AS similarity,
+      ROW_NUMBER() OVER (ORDER BY d.embedding <=> query_embedding) AS rank_ix
+    FROM volterra_kb.documents d, clearance c
+    WHERE d.embedding IS NOT NULL
+      AND volterra_kb.access_level_rank(d.access_level) <= c.max_rank
+      AND (filter_department IS NULL OR d.department = filter_department)
+      AND (filter_access_level IS NULL OR d.access_level = filter_access_level)
+    ORDER BY rank_ix
+    LIMIT LEAST(match_count, 50) * 2
+  )
+  SELECT
+    d.id,
+    d.content,
+    d.department,
+    d.document_type,
+    d.title,
+    d.access_level,
+    d.sensitivity,
+    d.source_type,
+    d.source_path,
+    d.section_path,
+    s.similarity,
+    f.text_rank,
+    COALESCE(1.0 / (rrf_k + f.rank_ix), 0.0) * full_text_weight
+      + COALESCE(1.0 / (rrf_k + s.rank_ix), 0.0) * semantic_weight AS rrf_score
+  FROM full_text f
+  FULL OUTER JOIN semantic s ON s.id = f.id
+  JOIN volterra_kb.documents d ON d.id = COALESCE(f.id, s.id)
+  ORDER BY rrf_score DESC
+  LIMIT LEAST(match_count, 50);
+$$;
+
+COMMENT ON FUNCTION volterra_kb.hybrid_search_documents IS 'Hybrid full-text + vector search over documents the caller is cleared for, fused with reciprocal rank fusion';
+
+GRANT
+EXECUTE ON FUNCTION volterra_kb.hybrid_search_documents TO service_role;
+
+CREATE OR REPLACE FUNCTION volterra_kb.mcp_hybrid_match_documents (
+  query_text TEXT,
+  query_embedding extensions.vector,
+  match_count INT DEFAULT 10,
+  rrf_k INT DEFAULT 60,
+  p_clearance TEXT DEFAULT NULL
+) RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  department TEXT,
+  document_type TEXT,
+  source_type TEXT,
+  source_path TEXT,
+  access_level TEXT,
+  content_preview TEXT,
+  similarity FLOAT,
+  text_rank FLOAT,
+  rrf_score FLOAT
+) LANGUAGE sql STABLE SECURITY DEFINER
+SET
+  search_path = 'extensions',
+  'volterra_kb',
+  'public' AS $$
+  SELECT
+    h.id,
+    h.title,
+    h.department,
+    h.document_type,
+    h.source_type,
+    h.source_path,
+    h.access_level,
+    LEFT(h.content, 500) AS content_preview,
+    h.similarity,
+    h.text_rank,
+    h.rrf_score
+  FROM volterra_kb.hybrid_search_documents(
+    query_text,
+    query_embedding,
+    match_count,
+    rrf_k => rrf_k,
+    p_clearance => p_clearance
+  ) h;
+$$;
+
+GRANT
+EXECUTE ON FUNCTION volterra_kb.mcp_hybrid_match_documents TO service_role,
+anon;
+
+COMMENT ON FUNCTION volterra_kb.mcp_hybrid_match_documents IS 'MCP hybrid (full-text + vector, RRF) search for documents the caller is cleared for. Used by kb_search mode=hybrid.';
+
+-- ============================================================================
+-- MCP: mcp_match_documents, mcp_fetch_document_full
+-- ============================================================================
+DROP FUNCTION IF EXISTS volterra_kb.mcp_match_documents (vector, float, int);
+
+CREATE OR REPLACE FUNCTION volterra_kb.mcp_match_documents (
+  query_embedding vector (1536),
+  match_threshold float DEFAULT 0.5,
+  match_count int DEFAULT 10,
+  p_clearance text DEFAULT NULL
+) RETURNS TABLE (
+  id uuid,
+  title text,
+  department text,
+  document_type text,
+  source_type text,
+  source_path text,
+  access_level text,
+  content_preview text,
+  similarity float
+) LANGUAGE sql STABLE SECURITY DEFINER
+SET
+  search_path = 'extensions',
+  'volterra_kb',
+  'public' AS $$
+  SELECT
+    d.id,
+    d.title,
+    d.department,
+    d.document_type,
+    d.source_type,
+    d.source_path,
+    d.access_level,
+    LEFT(d.content, 500) as content_preview,
+    1 - (d.embedding <=> query_embedding) AS similarity
+  FROM volterra_kb.documents d
+  WHERE
+    d.embedding IS NOT NULL
+    AND 1 - (d.embedding <=> query_embedding) > match_threshold
+    AND volterra_kb.access_level_rank(d.access_level) <= volterra_kb.effective_clearance_rank(p_clearance)
+  ORDER BY d.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
+
+GRANT
+EXECUTE ON FUNCTION volterra_kb.mcp_match_documents TO service_role,
+anon;
+
+COMMENT ON FUNCTION volterra_kb.mcp_match_documents IS 'MCP semantic search over documents the caller is cleared for';
+
+DROP FUNCTION IF EXISTS volterra_kb.mcp_fetch_document_full (uuid, int);
+
+CREATE OR REPLACE FUNCTION volterra_kb.mcp_fetch_document_full (
+  p_document_id uuid,
+  p_max_chars int DEFAULT 100000,
+  p_clearance text DEFAULT NULL
+) RETURNS TABLE (
+  id uuid,
+  title text,
+  department text,
+  document_type text,
+  source_type text,
+  source_path text,
+  content text,
+  file_size bigint,
+  mime_type text,
+  original_filename text,
+  owner text,
+  sensitivity text,
+  access_level text,
+  tags text[],
+  language text,
+  created_at timestamptz,
+  updated_at timestamptz
+) LANGUAGE sql STABLE SECURITY DEFINER
+SET
+  search_path = 'volterra_kb',
+  'public' AS $$
+  SELECT
+    d.id,
+    d.title,
+    d.department,
+    d.document_type,
+    d.source_type,
+    d.source_path,
+    LEFT(d.content, LEAST(p_max_chars, 200000)) as content,
+    d.file_size,
+    d.mime_type,
+    d.original_filename,
+    d.owner,
+    d.sensitivity,
+    d.access_level,
+    d.tags,
+    d.language,
+    d.created_at,
+    d.updated_at
+  FROM volterra_kb.documents d
+  WHERE d.id = p_document_id
+    AND volterra_kb.access_level_rank(d.access_level) <= volterra_kb.effective_clearance_rank(p_clearance);
+$$;
+
+GRANT
+EXECUTE ON FUNCTION volterra_kb.mcp_fetch_document_full TO service_role;
+
+GRANT
+EXECUTE ON FUNCTION volterra_kb.mcp_fetch_document_full TO anon;
+
+COMMENT ON FUNCTION volterra_kb.mcp_fetch_document_full IS 'Get full content of a document the caller is cleared for, with configurable character limit (max 200K)';
+
+-- ============================================================================
+-- PARENT CONTEXT: get_parent_chunks
+-- ============================================================================
+-- Parents and children are classified separately (pii-rescan upgrades rows one
+-- by one), so a public child can have a restricted parent. Parents above the
+-- clearance are omitted like documents without a parent.
+DROP FUNCTION IF EXISTS volterra_kb.get_parent_chunks (UUID[]);
+
+CREATE OR REPLACE FUNCTION volterra_kb.get_parent_chunks (
+  p_document_ids UUID[],
+  p_clearance TEXT DEFAULT NULL
+) RETURNS TABLE (
+  document_id UUID,
+  parent_id UUID,
+  section_path TEXT,
+  parent_title TEXT,
+  parent_content TEXT
+) LANGUAGE sql STABLE
+SET
+  search_path = volterra_kb,
+  public AS $$
+  SELECT
+    c.id AS document_id,
+    p.id AS parent_id,
+    c.section_path,
+    p.title AS parent_title,
+    p.content AS parent_content
+  FROM volterra_kb.documents c
+  JOIN volterra_kb.documents p ON p.id = c.parent_id
+  WHERE c.id = ANY (p_document_ids)
+    AND volterra_kb.access_level_rank(c.access_level) <= volterra_kb.effective_clearance_rank(p_clearance)
+    AND volterra_kb.access_level_rank(p.access_level) <= volterra_kb.effective_clearance_rank(p_clearance);
+$$;
+
+COMMENT ON FUNCTION volterra_kb.get_parent_chunks IS 'Parent chunk content and breadcrumb for matched hierarchical child chunks the caller is cleared for';
+
+GRANT
+EXECUTE ON FUNCTION volterra_kb.get_parent_chunks TO service_role;
@@ -0,0 +1,24 @@
+-- Migration: add_pii_entities_to_audit_log
+-- Created: 2026-02-11
+-- Purpose: Record which detector found each PII entity
+--
+-- detectPII can run a second-stage detector (LLM prompt or local NER stand-in)
+-- for names and addresses after the pattern recognizers. pii_types alone does
+-- not say which stage found an entity, so entries now carry the entity types,
+-- spans and detector. Values are never stored here.
+--
+-- Tables:
+--   - gdpr_audit_log: + pii_entities
+SET
+  search_path TO volterra_kb,
+  public,
+  extensions;
+
+-- ============================================================================
+-- PII ENTITIES
+-- ============================================================================
+-- [{"type": "name", "detector": "llm:gpt-4o-mini", "start": 120, "end": 133}, ...]
+ALTER TABLE volterra_kb.gdpr_audit_log
+ADD COLUMN IF NOT EXISTS pii_entities JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN volterra_kb.gdpr_audit_log.pii_entities IS 'Detected entities without values: type, detector (pattern, llm:<model>, local-ner) and character span';
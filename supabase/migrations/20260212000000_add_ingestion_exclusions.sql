@@ -0,0 +1,223 @@
+-- Migration: add_ingestion_exclusions
+-- Created: 2026-02-12
+-- Purpose: Do-not-ingest rules (HR channels, opted-out customers, private pages)
+--
+-- Rules are added with `npm run gdpr:exclusions -- add`. The Node sources skip
+-- matching content when listing documents, the Edge Function syncs before
+-- storing it. Adding a rule purges rows that were stored before it existed.
+--
+-- Tables:
+--   - ingestion_exclusions: rule type + normalized value
+--
+-- Functions:
+--   - purge_excluded_content: delete (or count, for dry runs) stored rows
+--     matching one rule
+SET
+  search_path TO volterra_kb,
+  public,
+  extensions;
+
+-- ============================================================================
+-- INGESTION EXCLUSIONS TABLE
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS volterra_kb.ingestion_exclusions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid (),
+  rule_type TEXT NOT NULL CHECK (
+    rule_type IN (
+      'slack_user',
+      'slack_channel',
+      'email_domain',
+      'notion_page',
+      'notion_database',
+      'sharepoint_path'
+    )
+  ),
+  -- Slack ID (upper case), domain (lower case), Notion ID without dashes, or
+  -- a glob over the SharePoint drive path
+  value TEXT NOT NULL,
+  reason TEXT,
+  created_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_purged_at TIMESTAMPTZ,
+  purged_row_count INTEGER,
+  UNIQUE (rule_type, value)
+);
+
+ALTER TABLE volterra_kb.ingestion_exclusions ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE volterra_kb.ingestion_exclusions IS 'Do-not-ingest rules checked by the Node sources and the Edge Function syncs';
+
+-- ============================================================================
+-- PURGE EXCLUDED CONTENT
+-- ============================================================================
+-- What each rule type removes:
+--   slack_channel   messages, threads and thread documents of the channel
+--                   (documents from a Slack export use the channel name, taken
+--                   from slack_channel_sync_state)
+--   slack_user      the user's messages, threads they started, and documents
+--                   of synced threads they took part in (the sync rebuilds
+--                   those without the user's messages)
+--   email_domain    ticket conversations with a message from the domain, and
+--                   .eml/.msg documents mentioning an address at the domain,
+--                   with all their chunks and attachments
+--   notion_page     the page's documents and notion_pages row
+--   notion_database documents and notion_pages rows of the database's pages
+--   sharepoint_path documents in p_source_paths: stored SharePoint paths hold
+--                   item IDs, so the caller resolves the glob against the drive
+-- p_source_paths is added to the document match for every rule type. Deleting
+-- documents cascades to child chunks and PII vault entries.
+CREATE OR REPLACE FUNCTION volterra_kb.purge_excluded_content (
+  p_rule_type TEXT,
+  p_value TEXT,
+  p_source_paths TEXT[] DEFAULT '{}',
+  p_dry_run BOOLEAN DEFAULT TRUE
+) RETURNS TABLE (table_name TEXT, row_count INTEGER) LANGUAGE plpgsql
+SET
+  search_path = volterra_kb,
+  public AS $$
+#variable_conflict use_column
+DECLARE
+  v_doc_paths TEXT[] := COALESCE(p_source_paths, '{}');
+  v_doc_prefixes TEXT[] := '{}';
+  v_domain_pattern TEXT;
+  v_email_paths TEXT[];
+  v_message_ids UUID[];
+  v_thread_ids UUID[];
+  v_conversation_ids UUID[];
+  v_training_message_ids UUID[];
+  v_page_ids UUID[];
+  v_doc_ids UUID[];
+BEGIN
+  CASE p_rule_type
+    WHEN 'slack_channel' THEN
+      SELECT array_agg(m.id) INTO v_message_ids
+      FROM volterra_kb.slack_messages m WHERE m.channel_id = p_value;
+
+      SELECT array_agg(t.id) INTO v_thread_ids
+      FROM volterra_kb.slack_threads t WHERE t.channel_id = p_value;
+
+      SELECT array_agg('slack://' || s.channel_name || '/') INTO v_doc_prefixes
+      FROM volterra_kb.slack_channel_sync_state s WHERE s.channel_id = p_value;
+
+      v_doc_prefixes := COALESCE(v_doc_prefixes, '{}') || ('slack://' || p_value || '/');
+
+    WHEN 'slack_user' THEN
+      SELECT array_agg(m.id) INTO v_message_ids
+      FROM volterra_kb.slack_messages m WHERE m.user_id = p_value;
+
+      SELECT array_agg(t.id) INTO v_thread_ids
+      FROM volterra_kb.slack_threads t WHERE t.root_user_id = p_value;
+
+      -- Thread documents: slack://<channel>/<thread_ts>, chunks add #chunkN
+      SELECT v_doc_paths || COALESCE(array_agg('slack://' || t.channel_id || '/' || t.thread_ts), '{}'),
+             COALESCE(array_agg('slack://' || t.channel_id || '/' || t.thread_ts || '#'), '{}')
+      INTO v_doc_paths, v_doc_prefixes
+      FROM volterra_kb.slack_threads t
+      WHERE p_value = ANY (t.participant_user_ids);
+
+    WHEN 'email_domain' THEN
+      -- The domain or a subdomain, at the end of the address
+      v_domain_pattern := '@([a-z0-9-]+\.)*' || replace(p_value, '.', '\.') || '\M';
+
+      SELECT array_agg(DISTINCT m.conversation_id) INTO v_conversation_ids
+      FROM volterra_kb.training_messages m
+      WHERE lower(m.from_email) ~ (v_domain_pattern || '$');
+
+      SELECT array_agg(m.id) INTO v_training_message_ids
+      FROM volterra_kb.training_messages m
+      WHERE m.conversation_id = ANY (v_conversation_ids);
+
+      -- Emails (by MIME type, or by extension for rows stored without one)
+      -- with an address at the domain in any chunk; the prefixes below take
+      -- their other chunks and #attachment/ children with them
+      SELECT COALESCE(array_agg(DISTINCT e.base_path), '{}') INTO v_email_paths
+      FROM (
+        SELECT regexp_replace(d.source_path, '#(chunk|parent)[0-9]+$', '') AS base_path, d.mime_type, d.content
+        FROM volterra_kb.documents d
+        WHERE d.source_path IS NOT NULL
+      ) e
+      WHERE (
+          e.mime_type IN ('message/rfc822', 'application/vnd.ms-outlook')
+          OR e.base_path ~* '\.(eml|msg)$'
+        )
+        AND e.content ~* v_domain_pattern;
+
+      v_doc_paths := v_doc_paths || v_email_paths;
+      v_doc_prefixes := ARRAY(SELECT p || '#' FROM unnest(v_email_paths) p);
+
+    WHEN 'notion_page' THEN
+      SELECT array_agg(p.id), v_doc_paths || COALESCE(array_agg(p.source_path), '{}')
+      INTO v_page_ids, v_doc_paths
+      FROM volterra_kb.notion_pages p
+      WHERE replace(p.notion_page_id, '-', '') = p_value;
+
+      v_doc_paths := v_doc_paths || ('notion://page/' || p_value);
+
+      -- Pages listed from a database: notion://db/<db>/page/<page>
+      SELECT v_doc_paths || COALESCE(array_agg(DISTINCT d.source_path), '{}') INTO v_doc_paths
+      FROM volterra_kb.documents d
+      WHERE d.source_type = 'notion'
+        AND d.source_path ~ ('^notion://db/[0-9a-f]+/page/' || p_value || '($|#)');
+
+    WHEN 'notion_database' THEN
+      SELECT array_agg(p.id), v_doc_paths || COALESCE(array_agg(p.source_path), '{}')
+      INTO v_page_ids, v_doc_paths
+      FROM volterra_kb.notion_pages p
+      WHERE replace(p.database_id, '-', '') = p_value;
+
+      v_doc_prefixes := ARRAY['notion://db/' || p_value || '/'];
+
+    WHEN 'sharepoint_path' THEN
+      NULL;
+
+    ELSE
+      RAISE EXCEPTION 'Unsupported exclusion rule type: %', p_rule_type;
+  END CASE;
+
+  -- Chunked Notion pages use <path>#chunkN
+  IF p_rule_type IN ('notion_page', 'notion_database') THEN
+    v_doc_prefixes := v_doc_prefixes || ARRAY(SELECT p || '#' FROM unnest(v_doc_paths) p);
+  END IF;
+
+  SELECT array_agg(d.id) INTO v_doc_ids
+  FROM volterra_kb.documents d
+  WHERE d.source_path = ANY (v_doc_paths)
+    OR EXISTS (SELECT 1 FROM unnest(v_doc_prefixes) p WHERE starts_with(d.source_path, p));
+
+  IF NOT p_dry_run THEN
+    DELETE FROM volterra_kb.slack_messages m WHERE m.id = ANY (v_message_ids);
+    DELETE FROM volterra_kb.slack_threads t WHERE t.id = ANY (v_thread_ids);
+    DELETE FROM volterra_kb.training_messages m WHERE m.id = ANY (v_training_message_ids);
+    DELETE FROM volterra_kb.training_conversations c WHERE c.id = ANY (v_conversation_ids);
+    DELETE FROM volterra_kb.notion_pages p WHERE p.id = ANY (v_page_ids);
+    DELETE FROM volterra_kb.documents d WHERE d.id = ANY (v_doc_ids);
+
+    UPDATE volterra_kb.ingestion_exclusions e
+    SET last_purged_at = NOW(),
+        purged_row_count = COALESCE(cardinality(v_message_ids), 0)
+          + COALESCE(cardinality(v_thread_ids), 0)
+          + COALESCE(cardinality(v_training_message_ids), 0)
+          + COALESCE(cardinality(v_conversation_ids), 0)
+          + COALESCE(cardinality(v_page_ids), 0)
+          + COALESCE(cardinality(v_doc_ids), 0)
+    WHERE e.rule_type = p_rule_type AND e.value = p_value;
+  END IF;
+
+  RETURN QUERY
+  SELECT t.name, t.count
+  FROM (VALUES
+    ('slack_messages', COALESCE(cardinality(v_message_ids), 0)),
+    ('slack_threads', COALESCE(cardinality(v_thread_ids), 0)),
+    ('training_messages', COALESCE(cardinality(v_training_message_ids), 0)),
+    ('training_conversations', COALESCE(cardinality(v_conversation_ids), 0)),
+    ('notion_pages', COALESCE(cardinality(v_page_ids), 0)),
+    ('documents', COALESCE(cardinality(v_doc_ids), 0))
+  ) AS t (name, count)
+  WHERE t.count > 0;
+END;
+$$;
+
+COMMENT ON FUNCTION volterra_kb.purge_excluded_content IS 'Delete stored rows matching an exclusion rule (count only when p_dry_run)';
+
+GRANT
+EXECUTE ON FUNCTION volterra_kb.purge_excluded_content TO service_role;
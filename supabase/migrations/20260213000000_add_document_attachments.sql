@@ -0,0 +1,56 @@
+-- Migration: add_document_attachments
+-- Created: 2026-02-13
+-- Purpose: Remove attachment documents together with their parent
+--
+-- Email attachments, ZIP entries and files embedded in DOCX/PPTX are stored as
+-- their own documents with source_path '<parent>#attachment/<name>' (chunks add
+-- #chunkN as usual; nested attachments repeat the suffix). They inherit the
+-- parent's access level and sensitivity at ingestion.
+--
+-- Once no row of a parent is left (replace_source_documents, retention,
+-- DSAR erasure, exclusion purges), its attachment rows are deleted too, so a
+-- re-ingested parent does not keep attachments it no longer has. Deleting a
+-- single chunk of a parent leaves the attachments in place.
+--
+-- Functions:
+--   - delete_orphaned_attachments: statement trigger on documents
+SET
+  search_path TO volterra_kb,
+  public,
+  extensions;
+
+-- ============================================================================
+-- ORPHANED ATTACHMENTS
+-- ============================================================================
+CREATE OR REPLACE FUNCTION volterra_kb.delete_orphaned_attachments () RETURNS TRIGGER LANGUAGE plpgsql
+SET
+  search_path = volterra_kb,
+  public AS $$
+BEGIN
+  -- Deleting the attachments fires this trigger again for nested attachments
+  DELETE FROM volterra_kb.documents d
+  USING (
+    SELECT DISTINCT regexp_replace(o.source_path, '#(chunk|parent)[0-9]+$', '') AS base_path
+    FROM old_rows o
+    WHERE o.source_path IS NOT NULL
+  ) b
+  WHERE starts_with(d.source_path, b.base_path || '#attachment/')
+    AND NOT EXISTS (
+      SELECT 1
+      FROM volterra_kb.documents p
+      WHERE p.source_path = b.base_path
+         OR starts_with(p.source_path, b.base_path || '#chunk')
+         OR starts_with(p.source_path, b.base_path || '#parent')
+    );
+
+  RETURN NULL;
+END;
+$$;
+
+COMMENT ON FUNCTION volterra_kb.delete_orphaned_attachments IS 'Delete #attachment/ documents whose parent document no longer has any rows';
+
+DROP TRIGGER IF EXISTS delete_orphaned_attachments ON volterra_kb.documents;
+
+CREATE TRIGGER delete_orphaned_attachments
+AFTER DELETE ON volterra_kb.documents REFERENCING OLD TABLE AS old_rows FOR EACH STATEMENT
+EXECUTE FUNCTION volterra_kb.delete_orphaned_attachments ();
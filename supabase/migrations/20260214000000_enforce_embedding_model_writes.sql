@@ -0,0 +1,280 @@
+-- Migration: enforce_embedding_model_writes
+-- Created: 2026-02-14
+-- Purpose: Reject vectors from the wrong model and dimension-changing flips
+--
+-- add_embedding_model_migration stamped active_embedding_model() on every
+-- written vector, whatever model produced it, so a writer still configured
+-- with the previous model after a flip silently mixed vectors. Writers now
+-- pass the model they used in embedding_model and the trigger rejects a
+-- missing or non-active model.
+--
+-- Flipping to a different dimension altered the embedding columns but left
+-- the match_* / mcp_match_* RPCs typed vector(1536), so every search failed.
+-- Migrations must now keep the live column dimension; they are refused when
+-- registered and again at flip time.
+--
+-- Functions:
+--   - check_embedding_migration_dimensions: trigger on embedding_migrations
+--   - set_embedding_model_metadata: requires the active model
+--   - flip_embedding_migration: same-dimension swap only, coverage checked
+--     under the table locks
+--   - replace_source_documents: stores embedding_model and mime_type from the rows
+SET
+  search_path TO volterra_kb,
+  public,
+  extensions;
+
+-- ============================================================================
+-- DIMENSION CHECK ON REGISTRATION
+-- ============================================================================
+-- Declared dimension of a table's live embedding column (NULL if unconstrained)
+CREATE OR REPLACE FUNCTION volterra_kb.embedding_column_dimensions (p_table_name TEXT) RETURNS INTEGER LANGUAGE sql STABLE
+SET
+  search_path = volterra_kb,
+  public AS $$
+  SELECT NULLIF(a.atttypmod, -1)
+  FROM pg_attribute a
+  WHERE a.attrelid = format('volterra_kb.%I', p_table_name)::regclass
+    AND a.attname = 'embedding';
+$$;
+
+COMMENT ON FUNCTION volterra_kb.embedding_column_dimensions IS 'Declared dimension of the live embedding column of a vector table';
+
+GRANT
+EXECUTE ON FUNCTION volterra_kb.embedding_column_dimensions TO service_role;
+
+CREATE OR REPLACE FUNCTION volterra_kb.check_embedding_migration_dimensions () RETURNS TRIGGER LANGUAGE plpgsql
+SET
+  search_path = volterra_kb,
+  public AS $$
+DECLARE
+  v_mismatch TEXT;
+BEGIN
+  SELECT string_agg(t || ' (' || volterra_kb.embedding_column_dimensions(t) || ')', ', ')
+  INTO v_mismatch
+  FROM unnest(NEW.tables) AS t
+  WHERE volterra_kb.embedding_column_dimensions(t) <> NEW.target_dimensions;
+
+  IF v_mismatch IS NOT NULL THEN
+    RAISE EXCEPTION 'Embedding migration to % dimensions does not match the live columns: %', NEW.target_dimensions, v_mismatch
+      USING HINT = 'The match_* RPCs are typed to the live dimension; choose a target model/dimension that produces it';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_embedding_migration_dimensions ON volterra_kb.embedding_migrations;
+
+CREATE TRIGGER check_embedding_migration_dimensions BEFORE INSERT ON volterra_kb.embedding_migrations FOR EACH ROW
+EXECUTE FUNCTION volterra_kb.check_embedding_migration_dimensions ();
+
+-- ============================================================================
+-- PER-ROW MODEL METADATA
+-- ============================================================================
+-- A written vector must name the model that produced it, and that model must
+-- be the active one. Updates that leave embedding_model unchanged keep the
+-- row's previous model, so re-embedding a row from an older model without
+-- naming the new one is rejected as well.
+CREATE OR REPLACE FUNCTION volterra_kb.set_embedding_model_metadata () RETURNS TRIGGER LANGUAGE plpgsql
+SET
+  search_path = volterra_kb,
+  public,
+  extensions AS $$
+DECLARE
+  v_active TEXT;
+BEGIN
+  IF NEW.embedding IS NULL THEN
+    NEW.embedding_model := NULL;
+    NEW.embedding_dimensions := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.embedding IS NOT DISTINCT FROM OLD.embedding THEN
+    RETURN NEW;
+  END IF;
+
+  v_active := volterra_kb.active_embedding_model();
+
+  IF NEW.embedding_model IS NULL THEN
+    RAISE EXCEPTION 'volterra_kb.%.embedding written without embedding_model', TG_TABLE_NAME
+      USING HINT = format('Set embedding_model to the model that produced the vector (active: %s)', v_active);
+  END IF;
+
+  IF NEW.embedding_model <> v_active THEN
+    RAISE EXCEPTION 'Embedding from model % rejected for volterra_kb.%: the active embedding model is %', NEW.embedding_model, TG_TABLE_NAME, v_active
+      USING HINT = 'Update embedding.model (Node) or EMBEDDING_MODEL (Edge Functions) to the active model';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.embedding_next_model IS NOT DISTINCT FROM OLD.embedding_next_model THEN
+    NEW.embedding_next := NULL;
+    NEW.embedding_next_model := NULL;
+  END IF;
+
+  NEW.embedding_dimensions := vector_dims(NEW.embedding);
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================================================
+-- FLIP
+-- ============================================================================
+-- All tables are locked before coverage is checked: a row written between the
+-- check and the swap loses its shadow vector (see the trigger above) and
+-- would otherwise be flipped to NULL. Only rows with a target-model shadow
+-- vector are swapped, and any live row left on another model aborts the flip.
+-- The migration is marked flipped before the swap, so the trigger above
+-- accepts the target model for the swapped-in vectors.
+CREATE OR REPLACE FUNCTION volterra_kb.flip_embedding_migration (p_migration_id UUID) RETURNS TABLE (table_name TEXT, flipped_rows BIGINT) LANGUAGE plpgsql
+SET
+  search_path = volterra_kb,
+  public,
+  extensions AS $$
+DECLARE
+  v_migration volterra_kb.embedding_migrations%ROWTYPE;
+  v_current_dims INTEGER;
+  v_incomplete TEXT;
+  v_rows BIGINT;
+  v_unflipped BIGINT;
+  t TEXT;
+BEGIN
+  SELECT * INTO v_migration
+  FROM volterra_kb.embedding_migrations m
+  WHERE m.id = p_migration_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_migration.status NOT IN ('running', 'completed') THEN
+    RAISE EXCEPTION 'Embedding migration % is not active', p_migration_id;
+  END IF;
+
+  FOREACH t IN ARRAY v_migration.tables LOOP
+    EXECUTE format('LOCK TABLE volterra_kb.%I IN SHARE ROW EXCLUSIVE MODE', t);
+
+    v_current_dims := volterra_kb.embedding_column_dimensions(t);
+    IF v_current_dims IS DISTINCT FROM v_migration.target_dimensions THEN
+      RAISE EXCEPTION 'Embedding migration % targets % dimensions but volterra_kb.%.embedding has %', p_migration_id, v_migration.target_dimensions, t, v_current_dims;
+    END IF;
+  END LOOP;
+
+  SELECT string_agg(c.table_name || ' (' || c.migrated_rows || '/' || c.total_rows || ')', ', ')
+  INTO v_incomplete
+  FROM volterra_kb.get_embedding_migration_coverage(p_migration_id) c
+  WHERE c.migrated_rows < c.total_rows;
+
+  IF v_incomplete IS NOT NULL THEN
+    RAISE EXCEPTION 'Embedding migration % is not fully covered: %', p_migration_id, v_incomplete;
+  END IF;
+
+  UPDATE volterra_kb.embedding_migrations m
+  SET status = 'flipped',
+      flipped_at = NOW(),
+      updated_at = NOW()
+  WHERE m.id = p_migration_id;
+
+  FOREACH t IN ARRAY v_migration.tables LOOP
+    EXECUTE format(
+      'UPDATE volterra_kb.%I
+         SET embedding = embedding_next,
+             embedding_model = $1,
+             embedding_next = NULL,
+             embedding_next_model = NULL
+       WHERE embedding IS NOT NULL
+         AND embedding_next IS NOT NULL
+         AND embedding_next_model = $1',
+      t
+    )
+    USING v_migration.target_model;
+    GET DIAGNOSTICS v_rows = ROW_COUNT;
+
+    EXECUTE format(
+      'SELECT COUNT(*) FROM volterra_kb.%I
+       WHERE embedding IS NOT NULL
+         AND embedding_model IS DISTINCT FROM $1',
+      t
+    )
+    INTO v_unflipped
+    USING v_migration.target_model;
+
+    IF v_unflipped > 0 THEN
+      RAISE EXCEPTION 'Embedding migration % left % rows of volterra_kb.% without a % vector', p_migration_id, v_unflipped, t, v_migration.target_model;
+    END IF;
+
+    table_name := t;
+    flipped_rows := v_rows;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+COMMENT ON FUNCTION volterra_kb.flip_embedding_migration IS 'Swap shadow vectors into the live embedding columns once coverage is 100% (same dimension only)';
+
+-- ============================================================================
+-- REPLACE SOURCE DOCUMENTS
+-- ============================================================================
+-- Same as add_hierarchical_chunks, plus embedding_model and mime_type from
+-- each row.
+CREATE OR REPLACE FUNCTION volterra_kb.replace_source_documents (p_source_path TEXT, p_documents JSONB) RETURNS TABLE (id UUID) LANGUAGE plpgsql
+SET
+  search_path = volterra_kb,
+  public,
+  extensions AS $$
+BEGIN
+  DELETE FROM volterra_kb.documents d
+  WHERE d.source_path = p_source_path
+     OR starts_with(d.source_path, p_source_path || '#chunk')
+     OR starts_with(d.source_path, p_source_path || '#parent');
+
+  RETURN QUERY
+  INSERT INTO volterra_kb.documents (
+    id,
+    content,
+    embedding,
+    embedding_model,
+    department,
+    document_type,
+    title,
+    owner,
+    access_level,
+    tags,
+    sensitivity,
+    language,
+    source_type,
+    source_path,
+    mime_type,
+    content_hash,
+    parent_id,
+    chunk_role,
+    section_path
+  )
+  SELECT
+    COALESCE((e.doc ->> 'id')::UUID, gen_random_uuid()),
+    e.doc ->> 'content',
+    (e.doc ->> 'embedding')::extensions.vector,
+    e.doc ->> 'embedding_model',
+    e.doc ->> 'department',
+    e.doc ->> 'document_type',
+    e.doc ->> 'title',
+    e.doc ->> 'owner',
+    e.doc ->> 'access_level',
+    CASE
+      WHEN jsonb_typeof(e.doc -> 'tags') = 'array' THEN ARRAY(
+        SELECT
+          jsonb_array_elements_text(e.doc -> 'tags')
+      )
+    END,
+    e.doc ->> 'sensitivity',
+    e.doc ->> 'language',
+    e.doc ->> 'source_type',
+    e.doc ->> 'source_path',
+    e.doc ->> 'mime_type',
+    e.doc ->> 'content_hash',
+    (e.doc ->> 'parent_id')::UUID,
+    e.doc ->> 'chunk_role',
+    e.doc ->> 'section_path'
+  FROM jsonb_array_elements(p_documents) WITH ORDINALITY AS e (doc, ord)
+  ORDER BY e.ord
+  RETURNING documents.id;
+END;
+$$;
+
+COMMENT ON FUNCTION volterra_kb.replace_source_documents IS 'Atomically replace all rows (plain, #chunkN and #parentN) for a base source_path';
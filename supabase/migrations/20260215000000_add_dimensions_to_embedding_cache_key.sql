@@ -0,0 +1,53 @@
+-- Migration: add_dimensions_to_embedding_cache_key
+-- Created: 2026-02-15
+-- Purpose: Key cached embeddings by model, dimensions and text hash
+--
+-- text-embedding-3-* models return vectors of the requested size, so the same
+-- model and text can legitimately have cached vectors of different lengths.
+-- With (model, text_hash) as the key the first size cached was served for
+-- every later request, whatever dimension it asked for.
+--
+-- Functions:
+--   - get_cached_embeddings: now filters on p_dimensions
+SET
+  search_path TO volterra_kb,
+  public,
+  extensions;
+
+-- ============================================================================
+-- PRIMARY KEY
+-- ============================================================================
+ALTER TABLE volterra_kb.embedding_cache
+DROP CONSTRAINT IF EXISTS embedding_cache_pkey;
+
+ALTER TABLE volterra_kb.embedding_cache
+ADD CONSTRAINT embedding_cache_pkey PRIMARY KEY (model, dimensions, text_hash);
+
+COMMENT ON TABLE volterra_kb.embedding_cache IS 'Embedding vectors keyed by model + dimensions + SHA-256 of the embedded text. Service role only.';
+
+-- ============================================================================
+-- GET CACHED EMBEDDINGS
+-- ============================================================================
+DROP FUNCTION IF EXISTS volterra_kb.get_cached_embeddings (TEXT, TEXT[]);
+
+CREATE OR REPLACE FUNCTION volterra_kb.get_cached_embeddings (
+  p_model TEXT,
+  p_dimensions INTEGER,
+  p_text_hashes TEXT[]
+) RETURNS TABLE (text_hash TEXT, embedding TEXT) LANGUAGE sql
+SET
+  search_path = volterra_kb,
+  public,
+  extensions AS $$
+  UPDATE volterra_kb.embedding_cache c
+  SET last_used_at = NOW()
+  WHERE c.model = p_model
+    AND c.dimensions = p_dimensions
+    AND c.text_hash = ANY (p_text_hashes)
+  RETURNING c.text_hash, c.embedding::TEXT;
+$$;
+
+COMMENT ON FUNCTION volterra_kb.get_cached_embeddings IS 'Look up cached embeddings for a model and dimension by text hash (vectors returned as pgvector literals)';
+
+GRANT
+EXECUTE ON FUNCTION volterra_kb.get_cached_embeddings TO service_role;
@@ -0,0 +1,92 @@
+-- Migration: reveal_pii_by_api_client
+-- Created: 2026-02-16
+-- Purpose: Take the reveal role from an API client instead of the caller
+--
+-- reveal_pii checked a p_role the caller asserted, so anyone able to call it
+-- could claim confidential. The caller now passes the hash of its API key and
+-- the role is the clearance of that active volterra_kb.api_clients entry
+-- (npm run access:clients). The client name is logged next to requested_by.
+--
+-- Functions:
+--   - reveal_pii: p_role replaced by p_key_hash
+SET
+  search_path TO volterra_kb,
+  public,
+  extensions;
+
+ALTER TABLE volterra_kb.pii_vault_access_log
+ADD COLUMN IF NOT EXISTS api_client TEXT;
+
+COMMENT ON COLUMN volterra_kb.pii_vault_access_log.api_client IS 'api_clients.name of the key the request was made with (NULL for an unknown or revoked key)';
+
+COMMENT ON COLUMN volterra_kb.pii_vault_access_log.role IS 'Clearance of the API client at request time';
+
+-- ============================================================================
+-- REVEAL PII
+-- ============================================================================
+-- Denials are returned rather than raised so the audit row is committed.
+DROP FUNCTION IF EXISTS volterra_kb.reveal_pii (UUID, TEXT, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION volterra_kb.reveal_pii (
+  p_document_id UUID,
+  p_token TEXT,
+  p_requested_by TEXT,
+  p_key_hash TEXT,
+  p_reason TEXT DEFAULT NULL
+) RETURNS TABLE (granted BOOLEAN, value TEXT, denial_reason TEXT) LANGUAGE plpgsql SECURITY DEFINER
+SET
+  search_path = volterra_kb,
+  public AS $$
+DECLARE
+  v_levels TEXT[] := ARRAY['public', 'internal', 'restricted', 'confidential'];
+  v_client TEXT;
+  v_role TEXT;
+  v_access_level TEXT;
+  v_value TEXT;
+  v_denial TEXT;
+BEGIN
+  SELECT c.name, c.clearance INTO v_client, v_role
+  FROM volterra_kb.resolve_api_client(p_key_hash) c;
+
+  SELECT d.access_level INTO v_access_level
+  FROM volterra_kb.documents d
+  WHERE d.id = p_document_id;
+
+  IF v_client IS NULL THEN
+    v_denial := 'Unknown or revoked API key';
+  ELSIF v_role NOT IN ('restricted', 'confidential') THEN
+    v_denial := format('API client %s has clearance %s; restricted or confidential is required', v_client, v_role);
+  ELSIF v_access_level IS NULL THEN
+    v_denial := 'Document not found';
+  ELSIF array_position(v_levels, v_role) < array_position(v_levels, v_access_level) THEN
+    v_denial := format('Role %s cannot access %s documents', v_role, v_access_level);
+  ELSE
+    SELECT v.value INTO v_value
+    FROM volterra_kb.pii_vault v
+    WHERE v.document_id = p_document_id
+      AND v.token = p_token;
+
+    IF v_value IS NULL THEN
+      v_denial := 'Token not found';
+    END IF;
+  END IF;
+
+  INSERT INTO volterra_kb.pii_vault_access_log (
+    document_id, token, requested_by, role, api_client, reason, granted, denial_reason
+  ) VALUES (
+    p_document_id, p_token, p_requested_by, COALESCE(v_role, ''), v_client, p_reason, v_denial IS NULL, v_denial
+  );
+
+  RETURN QUERY SELECT v_denial IS NULL, v_value, v_denial;
+END;
+$$;
+
+COMMENT ON FUNCTION volterra_kb.reveal_pii IS 'Return the original value behind a PII token for API clients with restricted/confidential clearance; every attempt is logged';
+
+REVOKE
+EXECUTE ON FUNCTION volterra_kb.reveal_pii
+FROM
+  PUBLIC;
+
+GRANT
+EXECUTE ON FUNCTION volterra_kb.reveal_pii TO service_role;
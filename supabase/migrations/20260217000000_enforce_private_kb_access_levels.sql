@@ -0,0 +1,62 @@
+-- Migration: enforce_private_kb_access_levels
+-- Created: 2026-02-17
+-- Purpose: Filter private_kb search by the caller's clearance
+--
+-- private_kb.documents default to confidential, but private_kb.match_documents
+-- returned every row to every MCP caller. It now applies the same clearance
+-- rules as the volterra_kb search RPCs (enforce_access_levels): rows above
+-- the request clearance, optionally lowered by p_clearance, are not returned.
+--
+-- Functions:
+--   - private_kb.match_documents: p_clearance added
+SET
+  search_path TO private_kb,
+  volterra_kb,
+  public,
+  extensions;
+
+DROP FUNCTION IF EXISTS private_kb.match_documents (extensions.vector, FLOAT, INT);
+
+CREATE OR REPLACE FUNCTION private_kb.match_documents (
+  query_embedding extensions.vector,
+  match_threshold FLOAT DEFAULT 0.78,
+  match_count INT DEFAULT 10,
+  p_clearance TEXT DEFAULT NULL
+) RETURNS TABLE (
+  id UUID,
+  content TEXT,
+  title TEXT,
+  document_type TEXT,
+  source_path TEXT,
+  notion_page_id TEXT,
+  tags TEXT[],
+  created_at TIMESTAMPTZ,
+  similarity FLOAT
+) LANGUAGE plpgsql SECURITY DEFINER
+SET
+  search_path = 'extensions',
+  'private_kb',
+  'public' AS $$
+DECLARE
+  v_clearance_rank INT := volterra_kb.effective_clearance_rank(p_clearance);
+BEGIN
+    RETURN QUERY
+    SELECT
+        d.id,
+        d.content,
+        d.title,
+        d.document_type,
+        d.source_path,
+        d.notion_page_id,
+        d.tags,
+        d.created_at,
+        1 - (d.embedding <=> query_embedding) AS similarity
+    FROM private_kb.documents d
+    WHERE (1 - (d.embedding <=> query_embedding)) > match_threshold
+      AND volterra_kb.access_level_rank(d.access_level) <= v_clearance_rank
+    ORDER BY d.embedding <=> query_embedding
+    LIMIT match_count;
+END;
+$$;
+
+COMMENT ON FUNCTION private_kb.match_documents IS 'Semantic search in private documents at or below the caller''s clearance';
@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { processDocument } from '../src/core/document-processor.js';
+import { getEmbeddingModel } from '../src/core/embedding-service.js';
+import { FakeEmbeddingProvider } from '../src/core/embedding-providers.js';
+
+/**
+ * Dry runs with the fake embedding provider: no database, no network
+ * Config is read lazily, so the override applies before the first embedding.
+ */
+process.env.EMBEDDING_PROVIDER = 'fake';
+
+const markdown = (sections: number) =>
+  Array.from(
+    { length: sections },
+    (_, i) => `## Del ${i + 1}\n\n${'Ladeboksen ble byttet og testet. '.repeat(30)}`
+  ).join('\n\n');
+
+describe('FakeEmbeddingProvider', () => {
+  it('embeds under its own model id', async () => {
+    const provider = new FakeEmbeddingProvider(8);
+    const { embeddings } = await provider.embed(['Storgata 1', 'Storgata 1']);
+
+    assert.equal(provider.model, 'fake-hash-8');
+    assert.equal(embeddings[0].length, 8);
+    assert.deepEqual(embeddings[0], embeddings[1]);
+  });
+});
+
+describe('processDocument (dry run, fake provider)', () => {
+  it('processes a short document without storing it', async () => {
+    const result = await processDocument(
+      Buffer.from('# Servicerapport\n\nLadeboksen ble byttet og testet.\n'),
+      'servicerapport.md',
+      { dryRun: true }
+    );
+
+    assert.equal(result.success, true, result.error);
+    assert.equal(result.title, 'Servicerapport');
+    assert.equal(result.chunkCount, 1);
+    assert.equal(result.documentId, undefined);
+    assert.match(getEmbeddingModel(), /^fake-hash-\d+$/);
+  });
+
+  it('embeds every chunk of a long document', async () => {
+    const result = await processDocument(Buffer.from(markdown(6)), 'rapport.md', {
+      dryRun: true,
+      enableChunking: true,
+      maxChunkSize: 1200,
+    });
+
+    assert.equal(result.success, true, result.error);
+    assert.ok((result.chunkCount ?? 0) > 1);
+    assert.equal(result.failedChunks, 0);
+    assert.deepEqual(result.documentIds, []);
+  });
+});
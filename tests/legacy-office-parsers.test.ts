@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import { describe, it } from 'node:test';
+import { parseDocument } from '../src/parsers/index.js';
+import { readRtf } from '../src/parsers/rtf-text.js';
+
+/**
+ * Outlook .msg, Word 97-2003 .doc and PowerPoint 97-2003 .ppt fixtures
+ * The fixtures are small generated files: message.msg has only a compressed
+ * RTF body (HTML encapsulated by Outlook) and one text attachment.
+ */
+const fixture = (name: string) => readFile(new URL(`./fixtures/${name}`, import.meta.url));
+
+describe('MsgParser', () => {
+  it('reads headers and the RTF-only body', async () => {
+    const result = await parseDocument(await fixture('message.msg'), 'message.msg');
+
+    assert.equal(result.metadata.title, 'Installasjon Storgata 1');
+    assert.equal(result.metadata.mimeType, 'application/vnd.ms-outlook');
+    assert.match(result.content, /^From: Kari Nordmann <kari@example\.com>$/m);
+    assert.match(result.content, /^To: Ola Nordmann <ola@example\.com>$/m);
+    assert.match(result.content, /Ladeboksen på Storgata 1 er installert\. Se vedlagt sjekkliste\./);
+    assert.doesNotMatch(result.content, /margin|<p>|htmltag/);
+  });
+
+  it('returns attachments as child documents', async () => {
+    const result = await parseDocument(await fixture('message.msg'), 'message.msg');
+
+    assert.equal(result.attachments?.length, 1);
+    const [attachment] = result.attachments ?? [];
+    assert.equal(attachment.filename, 'sjekkliste.txt');
+    assert.equal(attachment.mimeType, 'text/plain');
+    assert.match(attachment.content.toString('utf-8'), /Jording kontrollert/);
+  });
+});
+
+describe('readRtf', () => {
+  it('reads plain RTF text in the document code page', () => {
+    const rtf = String.raw`{\rtf1\ansi\ansicpg1252{\fonttbl{\f0 Arial;}}{\*\generator Word;}Pris p\'e5 \u8364? 10\par Neste\tab linje}`;
+
+    assert.deepEqual(readRtf(rtf), { text: 'Pris på € 10\nNeste\tlinje', html: false });
+  });
+
+  it('de-encapsulates HTML bodies', () => {
+    const rtf = String.raw`{\rtf1\ansi\fromhtml1{\*\htmltag64 <p>}\htmlrtf {\htmlrtf0 Hei\htmlrtf\par}\htmlrtf0{\*\htmltag72 </p>}}`;
+
+    assert.deepEqual(readRtf(rtf), { text: '<p>Hei</p>', html: true });
+  });
+});
+
+describe('DocParser', () => {
+  it('reads the body text', async () => {
+    const result = await parseDocument(await fixture('report.doc'), 'report.doc');
+
+    assert.equal(result.metadata.mimeType, 'application/msword');
+    assert.equal(result.content, 'Servicerapport\nLadeboksen ble byttet og testet.');
+    assert.equal(result.attachments, undefined);
+  });
+});
+
+describe('PptParser', () => {
+  it('reads slides, text boxes and speaker notes in order', async () => {
+    const result = await parseDocument(await fixture('deck.ppt'), 'deck.ppt');
+
+    assert.equal(result.metadata.mimeType, 'application/vnd.ms-powerpoint');
+    assert.equal(
+      result.content,
+      'Kvartalsrapport\nFlere ladepunkter\nFærre feil\nTekstboks\n\nHusk å nevne Storgata'
+    );
+    assert.doesNotMatch(result.content, /Master/);
+    assert.equal(result.attachments, undefined);
+  });
+});